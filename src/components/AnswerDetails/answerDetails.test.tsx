@@ -0,0 +1,79 @@
+import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
+import AnswerDetails from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({ setAnswerDetails: vi.fn(), ...overrides });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('AnswerDetails', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('saves notes and owner on blur and the due date on change', () => {
+    const state = mockState();
+    render(<AnswerDetails questionId='mfa' />);
+
+    const notes = screen.getByLabelText('Notes');
+    fireEvent.change(notes, { target: { value: 'Admins only' } });
+    expect(state.setAnswerDetails).not.toHaveBeenCalled();
+    fireEvent.blur(notes);
+    expect(state.setAnswerDetails).toHaveBeenCalledWith('mfa', { notes: 'Admins only' });
+
+    fireEvent.change(screen.getByLabelText('Due date'), { target: { value: '2026-12-31' } });
+    expect(state.setAnswerDetails).toHaveBeenLastCalledWith('mfa', { dueDate: '2026-12-31' });
+  });
+
+  it('adds evidence links and rejects non-http ones', () => {
+    const state = mockState({ answerDetails: { mfa: { owner: 'IT' } } });
+    render(<AnswerDetails questionId='mfa' />);
+    const input = screen.getByLabelText('Evidence link');
+
+    fireEvent.change(input, { target: { value: 'javascript:alert(1)' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add link' }));
+    expect(screen.getByRole('alert').textContent).toBe('Enter a valid http(s) link.');
+
+    fireEvent.change(input, { target: { value: 'https://wiki.example.com/mfa' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add link' }));
+    expect(state.setAnswerDetails).toHaveBeenCalledWith('mfa', {
+      owner: 'IT',
+      evidence: [expect.objectContaining({ name: 'wiki.example.com', url: 'https://wiki.example.com/mfa' })],
+    });
+  });
+
+  it('attaches supported files as data URLs and removes evidence', async () => {
+    const link = { id: 'e1', name: 'example.com', url: 'https://example.com', addedAt: '2026-01-01' };
+    const state = mockState({ answerDetails: { mfa: { evidence: [link] } } });
+    render(<AnswerDetails questionId='mfa' />);
+    expect(screen.getByText('1 evidence item')).toBeDefined();
+    const fileInput = screen.getByLabelText('Attach file');
+
+    fireEvent.change(fileInput, { target: { files: [new File(['<p>'], 'page.html', { type: 'text/html' })] } });
+    expect(screen.getByRole('alert').textContent).toMatch(/Unsupported file type/);
+
+    fireEvent.change(fileInput, { target: { files: [new File(['hi'], 'note.txt', { type: 'text/plain' })] } });
+    await waitFor(() => expect(state.setAnswerDetails).toHaveBeenCalledWith('mfa', {
+      evidence: [link, expect.objectContaining({ name: 'note.txt', dataUrl: 'data:text/plain;base64,aGk=' })],
+    }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove example.com' }));
+    expect(state.setAnswerDetails).toHaveBeenLastCalledWith('mfa', { evidence: [] });
+  });
+});
@@ -0,0 +1,190 @@
+import React, { ChangeEvent, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { AnswerDetails as AnswerDetailsValue, EvidenceItem } from '../../types/answerDetails';
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_EVIDENCE_ITEMS,
+  MAX_EVIDENCE_NAME_LENGTH,
+  MAX_EVIDENCE_URL_LENGTH,
+  MAX_NOTES_LENGTH,
+  MAX_OWNER_LENGTH,
+  MAX_TOTAL_ATTACHMENT_SIZE,
+  getAttachmentsSize,
+  isHttpUrl,
+} from '../../utils/answerDetails';
+import { generateId } from '../../utils/workspace';
+
+interface AnswerDetailsProps {
+  questionId: string;
+}
+
+/**
+ * Collapsible notes, evidence and ownership editor shown under each questionnaire answer.
+ * Notes and owner are committed on blur so normalization does not fight the user while typing.
+ */
+const AnswerDetails: React.FC<AnswerDetailsProps> = ({ questionId }) => {
+  const { t } = useTranslation('common');
+  const { answerDetails, setAnswerDetails } = useAppState();
+  const details = answerDetails[questionId] ?? {};
+  const evidence = details.evidence ?? [];
+  const [notes, setNotes] = useState(details.notes ?? '');
+  const [owner, setOwner] = useState(details.owner ?? '');
+  const [linkUrl, setLinkUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<AnswerDetailsValue>) => {
+    setError(null);
+    setAnswerDetails(questionId, { ...details, ...changes });
+  };
+
+  const addEvidence = (item: Omit<EvidenceItem, 'id' | 'addedAt'>) => {
+    if (evidence.length >= MAX_EVIDENCE_ITEMS) {
+      setError(t('answerDetails.errorTooMany', { max: MAX_EVIDENCE_ITEMS }));
+      return false;
+    }
+    update({ evidence: [...evidence, { ...item, id: generateId(), addedAt: new Date().toISOString() }] });
+    return true;
+  };
+
+  const onAddLink = () => {
+    const url = linkUrl.trim();
+    if (!isHttpUrl(url) || url.length > MAX_EVIDENCE_URL_LENGTH) {
+      setError(t('answerDetails.errorLink'));
+      return;
+    }
+    if (addEvidence({ name: new URL(url).hostname, url })) setLinkUrl('');
+  };
+
+  const onAttachFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (!ATTACHMENT_TYPES.includes(file.type)) {
+      setError(t('answerDetails.errorFileType'));
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      setError(t('answerDetails.errorFileSize', { max: MAX_ATTACHMENT_SIZE / 1024 }));
+      return;
+    }
+    if (getAttachmentsSize(answerDetails) + file.size > MAX_TOTAL_ATTACHMENT_SIZE) {
+      setError(t('answerDetails.errorTotalSize', { max: MAX_TOTAL_ATTACHMENT_SIZE / (1024 * 1024) }));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      addEvidence({ name: file.name.slice(0, MAX_EVIDENCE_NAME_LENGTH), dataUrl: e.target?.result as string });
+    };
+    reader.onerror = () => {
+      setError(t('answerDetails.errorFileRead'));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const hasDetails = Boolean(details.notes || details.owner || details.dueDate || evidence.length > 0);
+
+  return (
+    <details className='answer-details'>
+      <summary>
+        {t('answerDetails.title')}
+        {hasDetails && (
+          <span className='answer-details-count'>
+            {evidence.length > 0
+              ? t('answerDetails.evidenceCount', { count: evidence.length })
+              : t('answerDetails.added')}
+          </span>
+        )}
+      </summary>
+      <div className='answer-details-body'>
+        <label>
+          {t('answerDetails.notes')}
+          <textarea
+            value={notes}
+            maxLength={MAX_NOTES_LENGTH}
+            rows={3}
+            onChange={(e) => setNotes(e.target.value)}
+            onBlur={() => update({ notes })}
+          />
+        </label>
+        <div className='answer-details-row'>
+          <label>
+            {t('answerDetails.owner')}
+            <input
+              type='text'
+              value={owner}
+              maxLength={MAX_OWNER_LENGTH}
+              onChange={(e) => setOwner(e.target.value)}
+              onBlur={() => update({ owner })}
+            />
+          </label>
+          <label>
+            {t('answerDetails.dueDate')}
+            <input
+              type='date'
+              value={details.dueDate ?? ''}
+              onChange={(e) => update({ dueDate: e.target.value || undefined })}
+            />
+          </label>
+        </div>
+
+        <h4>{t('answerDetails.evidence')}</h4>
+        {evidence.length > 0 && (
+          <ul className='answer-evidence-list'>
+            {evidence.map((item) => (
+              <li key={item.id}>
+                <a
+                  href={item.url ?? item.dataUrl}
+                  {...(item.url ? { target: '_blank', rel: 'noopener noreferrer' } : { download: item.name })}
+                >
+                  {item.url ?? item.name}
+                </a>
+                <button
+                  type='button'
+                  className='btn-link'
+                  aria-label={t('answerDetails.removeEvidence', { name: item.name })}
+                  onClick={() => update({ evidence: evidence.filter((e) => e.id !== item.id) })}
+                >
+                  {t('answerDetails.remove')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className='answer-details-row'>
+          <input
+            type='url'
+            value={linkUrl}
+            placeholder='https://'
+            aria-label={t('answerDetails.linkUrl')}
+            onChange={(e) => setLinkUrl(e.target.value)}
+          />
+          <button type='button' className='btn-secondary' onClick={onAddLink}>
+            {t('answerDetails.addLink')}
+          </button>
+          <button type='button' className='btn-secondary' onClick={() => fileInputRef.current?.click()}>
+            {t('answerDetails.attachFile')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type='file'
+            accept={ATTACHMENT_TYPES.join(',')}
+            aria-label={t('answerDetails.attachFile')}
+            onChange={onAttachFile}
+            className='hidden-file-input'
+          />
+        </div>
+        <p className='answer-details-hint'>
+          {t('answerDetails.attachmentHint', { max: MAX_ATTACHMENT_SIZE / 1024 })}
+        </p>
+        {error && <p className='answer-details-error' role='alert'>{error}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default AnswerDetails;
@@ -2,6 +2,7 @@ import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/re
 import App from './App';
 import * as AppStateContext from '../context/AppStateContext';
 import type { AppStateContextValue } from '../context/AppStateContext';
+import { DEFAULT_BRANDING } from '../utils/branding';
 
 // Mock HTMLDialogElement methods for jsdom
 beforeAll(() => {
@@ -39,18 +40,55 @@ describe('App - Reset Functionality', () => {
 
   const createMockContext = (answers = {}, domainScanAggregate: unknown = undefined): AppStateContextValue => ({
     questions: [],
+    rawQuestions: [],
     answers,
     setAnswer: vi.fn(),
+    answerDetails: {},
+    setAnswerDetails: vi.fn(),
     resetAnswers: vi.fn(),
     resetAll: mockResetAll,
     score: { percent: 0, total: 0, max: 0, categories: [] },
+    scoringModel: 'equal',
+    setScoringModel: vi.fn(),
+    categoryWeights: {},
+    compositeScore: { percent: 0, questionnairePercent: 0, weights: { questionnaire: 1, externalSurface: 0 } },
+    compositeWeights: { questionnaire: 0.7, externalSurface: 0.3 },
+    setCompositeWeights: vi.fn(),
     risks: [],
     bestPractices: [],
+    riskRecommendations: {},
+    remediationPlan: { items: [], phases: { quickWins: [], days30: [], days90: [] } },
+    complianceCoverage: [],
     domainScanAggregate: domainScanAggregate as AppStateContextValue['domainScanAggregate'],
     scannerProgress: [],
     runScanners: vi.fn(),
+    rescanScanner: vi.fn(),
+    cancelScans: vi.fn(),
     exportJSON: mockExportJSON,
-    importJSON: vi.fn()
+    importJSON: vi.fn(),
+    importEncryptedJSON: vi.fn(),
+    clients: [],
+    activeClientId: 'client-1',
+    createClient: vi.fn(),
+    renameClient: vi.fn(),
+    duplicateClient: vi.fn(),
+    archiveClient: vi.fn(),
+    switchClient: vi.fn(),
+    recordReport: vi.fn(),
+    snapshots: [],
+    takeSnapshot: vi.fn(),
+    deleteSnapshot: vi.fn(),
+    branding: { ...DEFAULT_BRANDING },
+    updateBranding: vi.fn(),
+    resetBranding: vi.fn(),
+    questionPacks: [],
+    enabledPackIds: [],
+    installQuestionPack: vi.fn(),
+    removeQuestionPack: vi.fn(),
+    setPackEnabled: vi.fn(),
+    respondents: [],
+    addRespondent: vi.fn(),
+    removeRespondent: vi.fn()
   });
 
   beforeEach(() => {
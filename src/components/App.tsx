@@ -7,9 +7,20 @@ import Questionnaire from './Questionnaire';
 import DomainScanner from './DomainScanner';
 import Report from './Report';
 import Import from './Import';
+import Clients from './Clients';
+import History from './History';
+import Compare from './Compare';
+import Branding from './Branding';
+import QuestionPacks from './QuestionPacks';
+import Respondents from './Respondents';
+import SharedAssessment from './SharedAssessment';
+import ClientSwitcher from './ClientSwitcher';
 import { AppStateProvider, useAppState } from '../context/AppStateContext';
 import { TrackedButton } from './TrackedButton';
 import ResetDialog from './ResetDialog';
+import VaultGate from './VaultGate';
+import StorageWarning from './StorageWarning';
+import { useVaultStatus, vault } from '../utils/vault';
 import '../styles.css';
 
 
@@ -17,6 +28,7 @@ const AppContent = () => {
   const { resetAll, exportJSON, answers, domainScanAggregate } = useAppState();
   const { t } = useTranslation('common');
   const [showResetDialog, setShowResetDialog] = useState(false);
+  const vaultStatus = useVaultStatus();
 
   // Dark mode state and persistence
   const [darkMode, setDarkMode] = useState(() => {
@@ -67,6 +79,7 @@ const AppContent = () => {
     <Router>
       <section className='app-panel panel'>
         <div className='toggle-row'>
+          <ClientSwitcher />
           {hasData && (
             <TrackedButton
               className='reset-btn'
@@ -79,6 +92,16 @@ const AppContent = () => {
               🔄 {t('buttons.reset')}
             </TrackedButton>
           )}
+          {vaultStatus === 'unlocked' && (
+            <TrackedButton
+              className='reset-btn'
+              trackingName='vault_lock'
+              onClick={() => void vault.lock()}
+              style={{ marginRight: '0.5rem' }}
+            >
+              🔒 {t('vault.lock')}
+            </TrackedButton>
+          )}
           <TrackedButton
             className='toggle-btn'
             trackingName='toggle_theme'
@@ -90,6 +113,8 @@ const AppContent = () => {
           </TrackedButton>
         </div>
 
+        <StorageWarning />
+
         <ResetDialog
           isOpen={showResetDialog}
           onCancel={() => setShowResetDialog(false)}
@@ -102,15 +127,28 @@ const AppContent = () => {
           <NavLink to='/' end>{t('navigation.home')}</NavLink>
           <NavLink to='/questionnaire'>{t('navigation.questionnaire')}</NavLink>
           <NavLink to='/domain'>{t('navigation.domainScan')}</NavLink>
+          <NavLink to='/respondents'>{t('navigation.respondents')}</NavLink>
           <NavLink to='/report'>{t('navigation.report')}</NavLink>
+          <NavLink to='/history'>{t('navigation.history')}</NavLink>
+          <NavLink to='/compare'>{t('navigation.compare')}</NavLink>
+          <NavLink to='/clients'>{t('navigation.clients')}</NavLink>
+          <NavLink to='/branding'>{t('navigation.branding')}</NavLink>
+          <NavLink to='/packs'>{t('navigation.packs')}</NavLink>
           <NavLink to='/data'>Import</NavLink>
         </nav>
         <Routes>
           <Route path='/' element={<Home />} />
           <Route path='/questionnaire' element={<Questionnaire />} />
           <Route path='/domain' element={<DomainScanner />} />
+          <Route path='/respondents' element={<Respondents />} />
           <Route path='/report' element={<Report />} />
+          <Route path='/history' element={<History />} />
+          <Route path='/compare' element={<Compare />} />
+          <Route path='/clients' element={<Clients />} />
+          <Route path='/branding' element={<Branding />} />
+          <Route path='/packs' element={<QuestionPacks />} />
           <Route path='/data' element={<Import />} />
+          <Route path='/share' element={<SharedAssessment />} />
           <Route path='*' element={<PageNotFound />} />
         </Routes>
       </section>
@@ -120,9 +158,11 @@ const AppContent = () => {
 
 const App = () => {
   return (
-    <AppStateProvider>
-      <AppContent />
-    </AppStateProvider>
+    <VaultGate>
+      <AppStateProvider>
+        <AppContent />
+      </AppStateProvider>
+    </VaultGate>
   );
 };
 
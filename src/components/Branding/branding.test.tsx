@@ -0,0 +1,106 @@
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import Branding from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+import { DEFAULT_BRANDING } from '../../utils/branding';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+// Mock HTMLDialogElement methods for jsdom
+beforeAll(() => {
+  HTMLDialogElement.prototype.showModal = vi.fn(function (this: HTMLDialogElement) {
+    this.open = true;
+  });
+  HTMLDialogElement.prototype.close = vi.fn(function (this: HTMLDialogElement) {
+    this.open = false;
+  });
+});
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({
+    updateBranding: vi.fn(),
+    resetBranding: vi.fn(),
+    ...overrides
+  });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('Branding', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('loads the saved branding into the form', () => {
+    mockState({ branding: { ...DEFAULT_BRANDING, companyName: 'Contoso', contact: 'help@contoso.example' } });
+    render(<Branding />);
+    expect((screen.getByLabelText('Company name') as HTMLInputElement).value).toBe('Contoso');
+    expect((screen.getByLabelText('Contact block') as HTMLTextAreaElement).value).toBe('help@contoso.example');
+    expect(screen.getByText('No logo uploaded')).toBeDefined();
+  });
+
+  it('saves the edited branding', () => {
+    const state = mockState();
+    render(<Branding />);
+
+    fireEvent.change(screen.getByLabelText('Company name'), { target: { value: 'Contoso MSP' } });
+    fireEvent.change(screen.getByLabelText('Accent color'), { target: { value: '#AA5500' } });
+    fireEvent.change(screen.getByLabelText('Disclaimer'), { target: { value: 'Custom disclaimer' } });
+    fireEvent.click(screen.getByText('Save branding'));
+
+    expect(state.updateBranding).toHaveBeenCalledWith(expect.objectContaining({
+      companyName: 'Contoso MSP',
+      accentColor: '#AA5500',
+      disclaimer: 'Custom disclaimer'
+    }));
+    expect(screen.getByText('Branding saved')).toBeDefined();
+  });
+
+  it('blocks saving an invalid color', () => {
+    const state = mockState();
+    render(<Branding />);
+
+    fireEvent.change(screen.getByLabelText('Heading color'), { target: { value: 'navy' } });
+
+    expect(screen.getByText('Enter a hex color such as #06233F.')).toBeDefined();
+    expect((screen.getByText('Save branding') as HTMLButtonElement).disabled).toBe(true);
+    expect(state.updateBranding).not.toHaveBeenCalled();
+  });
+
+  it('rejects logos that are not images', () => {
+    mockState();
+    render(<Branding />);
+
+    const file = new File(['hello'], 'logo.txt', { type: 'text/plain' });
+    fireEvent.change(screen.getByLabelText('Upload logo', { selector: 'input' }), { target: { files: [file] } });
+
+    expect(screen.getByText('Please upload a PNG, JPEG or SVG image.')).toBeDefined();
+  });
+
+  it('removes the logo and resets branding after confirmation', () => {
+    const state = mockState({
+      branding: { ...DEFAULT_BRANDING, companyName: 'Contoso', logoDataUrl: 'data:image/png;base64,iVBORw0KGgo=' }
+    });
+    render(<Branding />);
+
+    fireEvent.click(screen.getByText('Remove logo'));
+    expect(screen.getByText('No logo uploaded')).toBeDefined();
+
+    fireEvent.click(screen.getAllByText('Reset branding')[0]);
+    fireEvent.click(screen.getAllByText('Reset branding')[1]);
+
+    expect(state.resetBranding).toHaveBeenCalled();
+    expect((screen.getByLabelText('Company name') as HTMLInputElement).value).toBe('');
+  });
+});
@@ -0,0 +1,229 @@
+import React, { ChangeEvent, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { BrandingSettings } from '../../types/branding';
+import {
+  DEFAULT_BRANDING,
+  isHexColor,
+  MAX_LOGO_DATA_URL_LENGTH,
+  MAX_LOGO_FILE_SIZE,
+} from '../../utils/branding';
+import { rasterizeImage } from '../../utils/chartImage';
+import { TrackedButton } from '../TrackedButton';
+import ConfirmDialog from '../ConfirmDialog';
+import { Toast, ToastType } from '../Toast';
+import Footer from '../Footer';
+
+interface ToastState {
+  message: string;
+  type: ToastType;
+}
+
+const LOGO_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'];
+const DEFAULT_PRIMARY = '#06233F';
+const DEFAULT_ACCENT = '#44C8F5';
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const Branding: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { branding, updateBranding, resetBranding } = useAppState();
+  const [draft, setDraft] = useState<BrandingSettings>(branding);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const setField = (field: keyof BrandingSettings, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const colorErrors = (['primaryColor', 'accentColor'] as const)
+    .filter((field) => draft[field] !== '' && !isHexColor(draft[field]));
+
+  const onSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (colorErrors.length > 0) return;
+    updateBranding(draft);
+    setToast({ message: t('branding.saved'), type: 'success' });
+  };
+
+  const onConfirmReset = () => {
+    resetBranding();
+    setDraft({ ...DEFAULT_BRANDING });
+    setConfirmReset(false);
+  };
+
+  const handleLogoUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type)) {
+      setToast({ message: t('branding.logoErrorType'), type: 'error' });
+      return;
+    }
+    if (file.size > MAX_LOGO_FILE_SIZE) {
+      setToast({ message: t('branding.logoErrorSize'), type: 'error' });
+      return;
+    }
+
+    try {
+      // Normalize to a downscaled PNG so any format can be embedded in exports and stored locally
+      const logo = await rasterizeImage(await readAsDataUrl(file), 'image/png', 600);
+      if (!logo || logo.dataUrl.length > MAX_LOGO_DATA_URL_LENGTH) {
+        setToast({ message: t('branding.logoErrorSize'), type: 'error' });
+        return;
+      }
+      setField('logoDataUrl', logo.dataUrl);
+    } catch {
+      setToast({ message: t('branding.logoErrorRead'), type: 'error' });
+    }
+  };
+
+  const renderColorField = (field: 'primaryColor' | 'accentColor', fallback: string) => (
+    <div className='branding-field'>
+      <label htmlFor={`branding-${field}`}>{t(`branding.${field}`)}</label>
+      <div className='branding-color-input'>
+        <input
+          type='color'
+          aria-label={t(`branding.${field}Picker`)}
+          value={isHexColor(draft[field]) ? draft[field] : fallback}
+          onChange={(e) => setField(field, e.target.value)}
+        />
+        <input
+          id={`branding-${field}`}
+          type='text'
+          placeholder={fallback}
+          value={draft[field]}
+          maxLength={7}
+          onChange={(e) => setField(field, e.target.value.trim())}
+        />
+      </div>
+      {colorErrors.includes(field) && <div className='error'>{t('branding.colorError')}</div>}
+    </div>
+  );
+
+  return (
+    <div className='panel branding-panel'>
+      <h2>{t('branding.title')}</h2>
+      <p>{t('branding.description')}</p>
+
+      <form className='branding-form' onSubmit={onSave}>
+        <div className='branding-field'>
+          <label htmlFor='branding-companyName'>{t('branding.companyName')}</label>
+          <input
+            id='branding-companyName'
+            type='text'
+            value={draft.companyName}
+            maxLength={120}
+            onChange={(e) => setField('companyName', e.target.value)}
+          />
+        </div>
+
+        <div className='branding-field'>
+          <label htmlFor='branding-reportTitle'>{t('branding.reportTitle')}</label>
+          <input
+            id='branding-reportTitle'
+            type='text'
+            placeholder={t('report.wordExport.title')}
+            value={draft.reportTitle}
+            maxLength={120}
+            onChange={(e) => setField('reportTitle', e.target.value)}
+          />
+        </div>
+
+        <div className='branding-field'>
+          <span className='branding-label'>{t('branding.logo')}</span>
+          <div className='branding-logo'>
+            {draft.logoDataUrl
+              ? <img src={draft.logoDataUrl} alt={t('branding.logoPreview')} className='branding-logo-preview' />
+              : <span className='branding-hint'>{t('branding.noLogo')}</span>}
+            <TrackedButton
+              type='button'
+              trackingName='branding_logo_upload'
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {t('branding.uploadLogo')}
+            </TrackedButton>
+            {draft.logoDataUrl && (
+              <button type='button' className='btn-secondary' onClick={() => setField('logoDataUrl', '')}>
+                {t('branding.removeLogo')}
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type='file'
+              accept={LOGO_TYPES.join(',')}
+              aria-label={t('branding.uploadLogo')}
+              onChange={handleLogoUpload}
+              className='hidden-file-input'
+            />
+          </div>
+        </div>
+
+        <div className='branding-field'>
+          <label htmlFor='branding-contact'>{t('branding.contact')}</label>
+          <textarea
+            id='branding-contact'
+            rows={4}
+            placeholder={t('branding.contactPlaceholder')}
+            value={draft.contact}
+            maxLength={2000}
+            onChange={(e) => setField('contact', e.target.value)}
+          />
+        </div>
+
+        {renderColorField('primaryColor', DEFAULT_PRIMARY)}
+        {renderColorField('accentColor', DEFAULT_ACCENT)}
+
+        <div className='branding-field'>
+          <label htmlFor='branding-disclaimer'>{t('branding.disclaimer')}</label>
+          <textarea
+            id='branding-disclaimer'
+            rows={5}
+            placeholder={t('report.limitationsText')}
+            value={draft.disclaimer}
+            maxLength={2000}
+            onChange={(e) => setField('disclaimer', e.target.value)}
+          />
+          <span className='branding-hint'>{t('branding.disclaimerHint')}</span>
+        </div>
+
+        <div className='actions'>
+          <TrackedButton type='submit' trackingName='branding_save' disabled={colorErrors.length > 0}>
+            {t('branding.save')}
+          </TrackedButton>
+          <button type='button' className='btn-secondary' onClick={() => setConfirmReset(true)}>
+            {t('branding.reset')}
+          </button>
+        </div>
+      </form>
+
+      <ConfirmDialog
+        isOpen={confirmReset}
+        title={t('branding.resetTitle')}
+        message={t('branding.resetMessage')}
+        confirmLabel={t('branding.reset')}
+        cancelLabel={t('buttons.cancel')}
+        onConfirm={onConfirmReset}
+        onCancel={() => setConfirmReset(false)}
+        variant='danger'
+      />
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+      <Footer />
+    </div>
+  );
+};
+
+export default Branding;
@@ -201,4 +201,41 @@ describe('CategoryRadarChart', () => {
       expect(data[0].fullName).toBe('Access & Identity Management');
     });
   });
+
+  describe('previous snapshot overlay', () => {
+    it('buildChartData omits previous values when no comparison is given', () => {
+      const data = buildChartData(sampleCategories);
+      expect(data[0]).not.toHaveProperty('previous');
+    });
+
+    it('buildChartData matches previous scores by key, falling back to category name', () => {
+      const current = [
+        { category: 'Zugriffsverwaltung', key: 'access', percent: 75, total: 15, max: 20 },
+        { category: 'Network Security', percent: 60, total: 12, max: 20 },
+        { category: 'Data Protection', percent: 90, total: 18, max: 20 },
+      ];
+      const previous = [
+        { category: 'Access Management', key: 'access', percent: 50, total: 10, max: 20 },
+        { category: 'Network Security', percent: 40, total: 8, max: 20 },
+      ];
+      const data = buildChartData(current, previous);
+      expect(data[0].previous).toBe(50);
+      expect(data[1].previous).toBe(40);
+      // Categories missing from the earlier snapshot plot at zero
+      expect(data[2].previous).toBe(0);
+    });
+
+    it('shows the change in the tooltip when a previous value exists', () => {
+      const mockPayload = [{ payload: { fullName: 'Access Management', score: 75, previous: 50 } }];
+      render(<CustomTooltip active={true} payload={mockPayload} />);
+      expect(screen.getByText('50% → 75%')).toBeDefined();
+    });
+
+    it('renders with a previous overlay', () => {
+      const { container } = render(
+        <CategoryRadarChart categories={sampleCategories} previousCategories={sampleCategories} />
+      );
+      expect(container.querySelector('.radar-chart-container')).toBeDefined();
+    });
+  });
 });
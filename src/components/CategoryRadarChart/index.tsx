@@ -4,6 +4,7 @@ import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Responsi
 
 export interface CategoryScore {
   category: string;
+  key?: string;
   percent: number;
   total: number;
   max: number;
@@ -11,18 +12,25 @@ export interface CategoryScore {
 
 interface CategoryRadarChartProps {
   categories: CategoryScore[];
+  // Optional earlier scores drawn as a dashed overlay (e.g. the previous snapshot)
+  previousCategories?: CategoryScore[];
 }
 
 // Exported for testability: transforms raw categories into chart-ready data.
-export const buildChartData = (items: CategoryScore[]) => items.map((c) => ({
-  category: c.category.replace(/ & /g, ' &\n').replace(/ Management/g, '\nMgmt'),
-  score: c.percent,
-  fullName: c.category,
-}));
+// When previous categories are given they are matched by key (falling back to display name).
+export const buildChartData = (items: CategoryScore[], previous?: CategoryScore[]) => items.map((c) => {
+  const match = previous?.find((p) => (p.key ?? p.category) === (c.key ?? c.category));
+  return {
+    category: c.category.replace(/ & /g, ' &\n').replace(/ Management/g, '\nMgmt'),
+    score: c.percent,
+    fullName: c.category,
+    ...(previous ? { previous: match?.percent ?? 0 } : {}),
+  };
+});
 
 interface TooltipProps {
   active?: boolean;
-  payload?: Array<{ payload: { fullName: string; score: number } }>;
+  payload?: Array<{ payload: { fullName: string; score: number; previous?: number } }>;
 }
 
 // Exported for testability: custom tooltip component
@@ -36,13 +44,18 @@ export const CustomTooltip: React.FC<TooltipProps> = ({ active, payload }) => {
         <p className='radar-tooltip-score'>
           {payload[0].payload.score}%
         </p>
+        {payload[0].payload.previous !== undefined && (
+          <p className='radar-tooltip-previous'>
+            {payload[0].payload.previous}% → {payload[0].payload.score}%
+          </p>
+        )}
       </div>
     );
   }
   return null;
 };
 
-const CategoryRadarChart: React.FC<CategoryRadarChartProps> = ({ categories }) => {
+const CategoryRadarChart: React.FC<CategoryRadarChartProps> = ({ categories, previousCategories }) => {
   const [darkMode, setDarkMode] = useState(false);
 
   useEffect(() => {
@@ -63,7 +76,7 @@ const CategoryRadarChart: React.FC<CategoryRadarChartProps> = ({ categories }) =
     return () => observer.disconnect();
   }, []);
 
-  const chartData = buildChartData(categories);
+  const chartData = buildChartData(categories, previousCategories);
 
   // Chart theme derived from CSS variables so users can customize colors centrally.
   // To adjust the chart palette, override the following CSS variables in styles.css or a theme file:
@@ -96,6 +109,16 @@ const CategoryRadarChart: React.FC<CategoryRadarChartProps> = ({ categories }) =
             domain={[0, 100]}
             tick={{ fill: theme.text, fontSize: 11 }}
           />
+          {previousCategories && (
+            <Radar
+              name="Previous"
+              dataKey="previous"
+              stroke={theme.text}
+              strokeDasharray="4 4"
+              fill="none"
+              strokeWidth={2}
+            />
+          )}
           <Radar
             name="Score"
             dataKey="score"
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { getChartTheme } from '../../utils/theme';
+import { AssessmentSnapshot } from '../../types/workspace';
+import { buildTrendData, getTrendSeries } from '../../utils/assessmentHistory';
+
+interface CategoryTrendChartProps {
+  snapshots: AssessmentSnapshot[];
+}
+
+// Category lines cycle through this palette; the overall line uses the accent color
+const SERIES_COLORS = ['#18BB9C', '#F39C11', '#E84C3D', '#9B59B6', '#3498DB', '#A8A8A8', '#06233F', '#E67E22'];
+
+// Exported for testability: formats an ISO timestamp for the X axis
+export const formatTrendDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+const CategoryTrendChart: React.FC<CategoryTrendChartProps> = ({ snapshots }) => {
+  const { t } = useTranslation('common');
+  const theme = getChartTheme();
+  const data = buildTrendData(snapshots);
+  const series = getTrendSeries(snapshots);
+
+  return (
+    <div className='trend-chart-container'>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid stroke={theme.grid} strokeDasharray="3 3" />
+          <XAxis dataKey="date" tickFormatter={formatTrendDate} tick={{ fill: theme.text, fontSize: 12 }} />
+          <YAxis domain={[0, 100]} tick={{ fill: theme.text, fontSize: 11 }} unit="%" />
+          <Tooltip labelFormatter={(label) => formatTrendDate(String(label))} />
+          <Legend />
+          <Line
+            type="monotone"
+            dataKey="overall"
+            name={t('history.overall')}
+            stroke={theme.stroke}
+            strokeWidth={3}
+          />
+          {series.map((s, i) => (
+            <Line
+              key={s.key}
+              type="monotone"
+              dataKey={s.key}
+              name={s.label}
+              stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+              strokeWidth={1.5}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default CategoryTrendChart;
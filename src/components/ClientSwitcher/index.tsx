@@ -0,0 +1,28 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+
+/**
+ * Compact selector for switching the active client assessment
+ */
+const ClientSwitcher: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { clients, activeClientId, switchClient } = useAppState();
+
+  const selectable = clients.filter((c) => !c.archived || c.id === activeClientId);
+
+  return (
+    <select
+      className='client-switcher'
+      aria-label={t('clients.switcherLabel')}
+      value={activeClientId}
+      onChange={(e) => switchClient(e.target.value)}
+    >
+      {selectable.map((c) => (
+        <option key={c.id} value={c.id}>{c.name}</option>
+      ))}
+    </select>
+  );
+};
+
+export default ClientSwitcher;
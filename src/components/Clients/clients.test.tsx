@@ -0,0 +1,98 @@
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import Clients from './index';
+import { createMockAppState, createSampleClient } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+global.URL.createObjectURL = vi.fn(() => 'mock-url');
+global.URL.revokeObjectURL = vi.fn();
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({
+    clients: [
+      createSampleClient(),
+      createSampleClient({ id: 'client-2', name: 'Globex', answers: { q1: 'opt0' } }),
+      createSampleClient({ id: 'client-3', name: 'Initech', archived: true }),
+    ],
+    ...overrides
+  });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('Clients', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('lists unarchived clients and marks the active one', () => {
+    mockState();
+    render(<Clients />);
+    expect(screen.getByText('Acme Corp')).toBeDefined();
+    expect(screen.getByText('Globex')).toBeDefined();
+    expect(screen.queryByText('Initech')).toBeNull();
+    expect(screen.getByText('Active')).toBeDefined();
+  });
+
+  it('shows archived clients when toggled', () => {
+    mockState();
+    render(<Clients />);
+    fireEvent.click(screen.getByLabelText(/Show archived clients/i));
+    expect(screen.getByText('Initech')).toBeDefined();
+    expect(screen.getByText('Restore')).toBeDefined();
+  });
+
+  it('creates a client from the form', () => {
+    const createClient = vi.fn(() => 'client-4');
+    mockState({ createClient });
+    render(<Clients />);
+    fireEvent.change(screen.getByLabelText('New client name'), { target: { value: 'Umbrella' } });
+    fireEvent.click(screen.getByText('Add Client'));
+    expect(createClient).toHaveBeenCalledWith('Umbrella');
+  });
+
+  it('switches to another client', () => {
+    const switchClient = vi.fn();
+    mockState({ switchClient });
+    render(<Clients />);
+    fireEvent.click(screen.getByText('Switch To'));
+    expect(switchClient).toHaveBeenCalledWith('client-2');
+  });
+
+  it('renames a client', () => {
+    const renameClient = vi.fn();
+    mockState({ renameClient });
+    render(<Clients />);
+    fireEvent.click(screen.getAllByText('Rename')[0]);
+    fireEvent.change(screen.getByLabelText('Client name'), { target: { value: 'Acme Inc' } });
+    fireEvent.click(screen.getByText('Submit'));
+    expect(renameClient).toHaveBeenCalledWith('client-1', 'Acme Inc');
+  });
+
+  it('shows errors thrown by workspace actions', () => {
+    mockState({ duplicateClient: () => { throw new Error('Client name too long'); } });
+    render(<Clients />);
+    fireEvent.click(screen.getAllByText('Duplicate')[0]);
+    expect(screen.getByText('Client name too long')).toBeDefined();
+  });
+
+  it('exports the whole workspace', () => {
+    const exportJSON = vi.fn(() => '{}');
+    mockState({ exportJSON });
+    render(<Clients />);
+    fireEvent.click(screen.getByText('Export All Clients'));
+    expect(exportJSON).toHaveBeenCalledWith('workspace');
+  });
+});
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import type { ExportScope } from '../../context/AppStateContext';
+import { ClientAssessment } from '../../types/workspace';
+import { TrackedButton } from '../TrackedButton';
+import PassphraseDialog from '../PassphraseDialog';
+import VaultSettings from '../VaultSettings';
+import { encryptExport } from '../../utils/exportEncryption';
+import Footer from '../Footer';
+
+const downloadJSON = (json: string, filename: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const toFileSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'client';
+
+const Clients: React.FC = () => {
+  const { t } = useTranslation('common');
+  const {
+    clients,
+    activeClientId,
+    answers,
+    domainScanAggregate,
+    createClient,
+    renameClient,
+    duplicateClient,
+    archiveClient,
+    switchClient,
+    exportJSON,
+  } = useAppState();
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [encryptOpen, setEncryptOpen] = useState(false);
+  const [encryptError, setEncryptError] = useState<string | null>(null);
+
+  const runSafely = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.generic'));
+    }
+  };
+
+  const onCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSafely(() => {
+      createClient(newName);
+      setNewName('');
+    });
+  };
+
+  const onRename = (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    runSafely(() => {
+      renameClient(id, editName);
+      setEditingId(null);
+    });
+  };
+
+  const onExport = (scope: ExportScope, client?: ClientAssessment) => {
+    const date = new Date().toISOString().split('T')[0];
+    const filename = scope === 'workspace'
+      ? `risk-assessment-workspace-${date}.json`
+      : `risk-assessment-${toFileSlug(client?.name ?? '')}-${date}.json`;
+    downloadJSON(exportJSON(scope), filename);
+  };
+
+  const onExportEncryptedWorkspace = async (passphrase: string) => {
+    const date = new Date().toISOString().split('T')[0];
+    try {
+      downloadJSON(await encryptExport(exportJSON('workspace'), passphrase),
+        `risk-assessment-workspace-${date}.encrypted.json`);
+      setEncryptOpen(false);
+      setEncryptError(null);
+    } catch (err) {
+      setEncryptError(err instanceof Error ? err.message : t('passphrase.errorEncrypt'));
+    }
+  };
+
+  const visibleClients = clients.filter((c) => showArchived || !c.archived);
+
+  // The active client's data is checked out into the working state, not its record
+  const getAnsweredCount = (c: ClientAssessment) =>
+    Object.keys(c.id === activeClientId ? answers : c.answers).length;
+  const getDomain = (c: ClientAssessment) =>
+    (c.id === activeClientId ? domainScanAggregate : c.domainScanAggregate)?.domain;
+
+  return (
+    <div className='panel clients-panel'>
+      <h2>{t('clients.title')}</h2>
+      <p>{t('clients.description')}</p>
+
+      <form className='client-create-form' onSubmit={onCreate}>
+        <input
+          type='text'
+          aria-label={t('clients.newClientLabel')}
+          placeholder={t('clients.newClientPlaceholder')}
+          value={newName}
+          maxLength={100}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <TrackedButton type='submit' trackingName='client_create' disabled={!newName.trim()}>
+          {t('clients.createButton')}
+        </TrackedButton>
+      </form>
+
+      {error && <div className='error'>{error}</div>}
+
+      <div className='client-list-toolbar'>
+        <label className='client-archived-toggle'>
+          <input type='checkbox' checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+          {' '}{t('clients.showArchived')}
+        </label>
+        <TrackedButton trackingName='export_workspace' onClick={() => onExport('workspace')}>
+          {t('clients.exportWorkspace')}
+        </TrackedButton>
+        <TrackedButton trackingName='export_workspace_encrypted' onClick={() => setEncryptOpen(true)}>
+          {t('clients.exportWorkspaceEncrypted')}
+        </TrackedButton>
+      </div>
+
+      <ul className='client-list'>
+        {visibleClients.map((c) => {
+          const isActive = c.id === activeClientId;
+          const lastReport = c.reportHistory[c.reportHistory.length - 1];
+          return (
+            <li key={c.id} className={`client-card ${isActive ? 'client-card-active' : ''} ${
+              c.archived ? 'client-card-archived' : ''}`}>
+              <div className='client-card-header'>
+                {editingId === c.id ? (
+                  <form className='client-rename-form' onSubmit={(e) => onRename(e, c.id)}>
+                    <input
+                      type='text'
+                      aria-label={t('clients.renameLabel')}
+                      value={editName}
+                      maxLength={100}
+                      onChange={(e) => setEditName(e.target.value)}
+                    />
+                    <button type='submit'>{t('buttons.submit')}</button>
+                    <button type='button' className='btn-secondary' onClick={() => setEditingId(null)}>
+                      {t('buttons.cancel')}
+                    </button>
+                  </form>
+                ) : (
+                  <strong className='client-card-name'>{c.name}</strong>
+                )}
+                {isActive && <span className='client-badge client-badge-active'>{t('clients.active')}</span>}
+                {c.archived && <span className='client-badge'>{t('clients.archived')}</span>}
+              </div>
+              <div className='client-card-meta'>
+                <span>{t('clients.answeredCount', { count: getAnsweredCount(c) })}</span>
+                {getDomain(c) && <span>{t('clients.domain', { domain: getDomain(c) })}</span>}
+                <span>{t('clients.updated', { date: new Date(c.updatedAt).toLocaleString() })}</span>
+                <span>
+                  {lastReport
+                    ? t('clients.reportCount', {
+                      count: c.reportHistory.length,
+                      date: new Date(lastReport.generatedAt).toLocaleDateString()
+                    })
+                    : t('clients.noReports')}
+                </span>
+              </div>
+              <div className='client-card-actions'>
+                {!isActive && (
+                  <TrackedButton trackingName='client_switch' onClick={() => runSafely(() => switchClient(c.id))}>
+                    {t('clients.switchButton')}
+                  </TrackedButton>
+                )}
+                <TrackedButton
+                  trackingName='client_rename'
+                  onClick={() => { setEditingId(c.id); setEditName(c.name); }}
+                >
+                  {t('clients.renameButton')}
+                </TrackedButton>
+                <TrackedButton
+                  trackingName='client_duplicate'
+                  onClick={() => runSafely(() => {
+                    duplicateClient(c.id, t('clients.copyName', { name: c.name }));
+                  })}
+                >
+                  {t('clients.duplicateButton')}
+                </TrackedButton>
+                {isActive && (
+                  <TrackedButton trackingName='export_client' onClick={() => onExport('client', c)}>
+                    {t('clients.exportClient')}
+                  </TrackedButton>
+                )}
+                {!isActive && (
+                  <TrackedButton
+                    trackingName={c.archived ? 'client_unarchive' : 'client_archive'}
+                    className='btn-secondary'
+                    onClick={() => runSafely(() => archiveClient(c.id, !c.archived))}
+                  >
+                    {c.archived ? t('clients.unarchiveButton') : t('clients.archiveButton')}
+                  </TrackedButton>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <VaultSettings />
+      <PassphraseDialog
+        isOpen={encryptOpen}
+        mode='encrypt'
+        title={t('passphrase.encryptTitle')}
+        message={t('passphrase.encryptWorkspaceMessage')}
+        submitLabel={t('passphrase.encryptSubmit')}
+        onSubmit={onExportEncryptedWorkspace}
+        onCancel={() => setEncryptOpen(false)}
+        error={encryptError}
+      />
+      <Footer />
+    </div>
+  );
+};
+
+export default Clients;
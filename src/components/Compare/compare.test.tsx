@@ -0,0 +1,81 @@
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import Compare from './index';
+import { createMockAppState, createSampleSnapshot } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+import { Question } from '../../types/questions';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+const questions: Question[] = [
+  {
+    id: 'q1',
+    text: 'Do you use MFA?',
+    category: 'Access',
+    categoryKey: 'access',
+    options: [
+      { label: 'No', value: 'opt0', risk: 'No MFA', points: 0 },
+      { label: 'Yes', value: 'opt1', risk: 'MFA enforced', points: 10 },
+    ],
+  },
+];
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({ questions, answers: { q1: 'opt1' }, ...overrides });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('Compare', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('asks for a second assessment when there are no snapshots', () => {
+    mockState();
+    render(<Compare />);
+    expect(screen.getByText(/Select an assessment for both sides/i)).toBeDefined();
+  });
+
+  it('compares the latest snapshot with the current assessment by default', () => {
+    mockState({
+      snapshots: [createSampleSnapshot({ label: 'Baseline', answers: { q1: 'opt0' } })]
+    });
+    render(<Compare />);
+
+    expect((screen.getByLabelText('Before') as HTMLSelectElement).value).toBe('snapshot-1');
+    expect(screen.getByText('Changed Answers (1)')).toBeDefined();
+    expect(screen.getByText('Do you use MFA?')).toBeDefined();
+    expect(screen.getByText('No MFA')).toBeDefined();
+    expect(screen.getByText('Resolved (1)')).toBeDefined();
+    expect(screen.getAllByText('+100').length).toBe(2);
+  });
+
+  it('labels answer states in changed answers', () => {
+    mockState({
+      answers: { q1: 'unknown' },
+      snapshots: [createSampleSnapshot({ label: 'Baseline', answers: { q1: 'na' } })]
+    });
+    render(<Compare />);
+    expect(screen.getByText('Not applicable')).toBeDefined();
+    expect(screen.getByText('Don\'t know')).toBeDefined();
+  });
+
+  it('shows no changes when both sides are the same assessment', () => {
+    mockState();
+    render(<Compare />);
+    fireEvent.change(screen.getByLabelText('Before'), { target: { value: 'current' } });
+    expect(screen.getByText('No answers changed.')).toBeDefined();
+    expect(screen.getByText('Neither assessment includes a domain scan.')).toBeDefined();
+  });
+});
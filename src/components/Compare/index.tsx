@@ -0,0 +1,282 @@
+import React, { ChangeEvent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { getLatestSnapshot, sortSnapshots } from '../../utils/assessmentHistory';
+import {
+  AssessmentDiff,
+  compareAssessments,
+  ComparisonSource,
+  parseComparisonFile,
+  ScannerIssue,
+  snapshotToComparisonSource,
+} from '../../utils/assessmentDiff';
+import { useMigrateAnswers } from '../../utils/answerMigration';
+import { trackEvent } from '../../utils/analytics';
+import { renderIssueWithLinks } from '../../utils/text';
+import Footer from '../Footer';
+
+const CURRENT = 'current';
+const FILE = 'file';
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+interface SideState {
+  selection: string; // 'current', 'file' or a snapshot id
+  file?: ComparisonSource;
+  error?: string;
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+const getDeltaClass = (delta: number) => {
+  if (delta > 0) return 'diff-positive';
+  if (delta < 0) return 'diff-negative';
+  return 'diff-neutral';
+};
+
+const renderScannerIssue = (issue: ScannerIssue, index: number) =>
+  renderIssueWithLinks(`${issue.scannerLabel}: ${issue.issue}`, index);
+
+interface SourcePickerProps {
+  id: string;
+  label: string;
+  state: SideState;
+  onChange: (state: SideState) => void;
+}
+
+const SourcePicker: React.FC<SourcePickerProps> = ({ id, label, state, onChange }) => {
+  const { t } = useTranslation('common');
+  const { snapshots, rawQuestions } = useAppState();
+  const migrate = useMigrateAnswers();
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!file.name.endsWith('.json')) {
+      onChange({ ...state, error: t('import.errorFileType') });
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      onChange({ ...state, error: t('import.errorFileSize') });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = parseComparisonFile(
+        e.target?.result as string,
+        file.name,
+        (answers) => migrate(answers, rawQuestions).answers
+      );
+      if (result.success && result.source) {
+        onChange({ selection: FILE, file: result.source });
+      } else {
+        onChange({ ...state, error: `${t('import.errorInvalidJSON')} ${result.error ?? ''}` });
+      }
+    };
+    reader.onerror = () => onChange({ ...state, error: t('import.errorFileRead') });
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className='compare-source'>
+      <label htmlFor={id}>{label}</label>
+      <select
+        id={id}
+        value={state.selection}
+        onChange={(e) => onChange({ selection: e.target.value, file: state.file })}
+      >
+        <option value=''>{t('compare.choose')}</option>
+        <option value={CURRENT}>{t('compare.currentAssessment')}</option>
+        {sortSnapshots(snapshots).reverse().map((s) => (
+          <option key={s.id} value={s.id}>
+            {t('compare.snapshotOption', { name: snapshotToComparisonSource(s).label, percent: s.score.percent })}
+          </option>
+        ))}
+        {state.file && <option value={FILE}>{state.file.label}</option>}
+      </select>
+      <label className='compare-file-label'>
+        {t('compare.uploadFile')}
+        <input type='file' accept='.json,application/json' onChange={handleFile} />
+      </label>
+      {state.error && <div className='error'>{state.error}</div>}
+    </div>
+  );
+};
+
+const ListDiffSection: React.FC<{
+  title: string;
+  added: React.ReactNode[];
+  resolved: React.ReactNode[];
+  emptyText: string;
+}> = ({ title, added, resolved, emptyText }) => {
+  const { t } = useTranslation('common');
+  return (
+    <section className='compare-section'>
+      <h3>{title}</h3>
+      {added.length === 0 && resolved.length === 0 ? (
+        <p className='compare-empty'>{emptyText}</p>
+      ) : (
+        <div className='compare-list-columns'>
+          <div>
+            <h4 className='diff-negative'>{t('compare.added', { count: added.length })}</h4>
+            <ul className='compare-list'>{added}</ul>
+          </div>
+          <div>
+            <h4 className='diff-positive'>{t('compare.resolved', { count: resolved.length })}</h4>
+            <ul className='compare-list'>{resolved}</ul>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+const Compare: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { t: tQuestions } = useTranslation('questions');
+  const { questions, answers, domainScanAggregate, snapshots, scoringModel, categoryWeights } = useAppState();
+  const [before, setBefore] = useState<SideState>(() => ({ selection: getLatestSnapshot(snapshots)?.id ?? '' }));
+  const [after, setAfter] = useState<SideState>({ selection: CURRENT });
+
+  const resolveSource = (side: SideState): ComparisonSource | undefined => {
+    if (side.selection === CURRENT) {
+      return { label: t('compare.currentAssessment'), answers, domainScanAggregate };
+    }
+    if (side.selection === FILE) return side.file;
+    const snapshot = snapshots.find((s) => s.id === side.selection);
+    return snapshot ? snapshotToComparisonSource(snapshot) : undefined;
+  };
+
+  const beforeSource = resolveSource(before);
+  const afterSource = resolveSource(after);
+
+  const diff: AssessmentDiff | undefined = beforeSource && afterSource
+    ? compareAssessments(
+      beforeSource,
+      afterSource,
+      questions,
+      { model: scoringModel, categoryWeights },
+      (state) => tQuestions(`answerStates.${state}`)
+    )
+    : undefined;
+
+  const onSideChange = (setter: (s: SideState) => void, side: 'before' | 'after') => (state: SideState) => {
+    setter(state);
+    if (state.error) return;
+    const source = state.selection === CURRENT || state.selection === FILE ? state.selection : 'snapshot';
+    trackEvent('compare_source_selected', { side, source });
+  };
+
+  return (
+    <div className='panel compare-panel'>
+      <h2>{t('compare.title')}</h2>
+      <p>{t('compare.description')}</p>
+
+      <div className='compare-sources'>
+        <SourcePicker
+          id='compare-before'
+          label={t('compare.before')}
+          state={before}
+          onChange={onSideChange(setBefore, 'before')}
+        />
+        <SourcePicker
+          id='compare-after'
+          label={t('compare.after')}
+          state={after}
+          onChange={onSideChange(setAfter, 'after')}
+        />
+      </div>
+
+      {!diff ? (
+        <p className='compare-empty'>{t('compare.selectBoth')}</p>
+      ) : (
+        <div className='compare-results'>
+          <section className='compare-section'>
+            <h3>{t('compare.scoreTitle')}</h3>
+            <div className='compare-overall'>
+              <span>{diff.overall.before}%</span>
+              <span aria-hidden='true'>→</span>
+              <span>{diff.overall.after}%</span>
+              <span className={`compare-delta ${getDeltaClass(diff.overall.delta)}`}>
+                {formatDelta(diff.overall.delta)}
+              </span>
+            </div>
+            <table className='compare-table'>
+              <thead>
+                <tr>
+                  <th>{t('compare.category')}</th>
+                  <th>{t('compare.before')}</th>
+                  <th>{t('compare.after')}</th>
+                  <th>{t('compare.change')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.categories.map((c) => (
+                  <tr key={c.key}>
+                    <td>{c.category}</td>
+                    <td>{c.before}%</td>
+                    <td>{c.after}%</td>
+                    <td className={getDeltaClass(c.delta)}>{formatDelta(c.delta)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section className='compare-section'>
+            <h3>{t('compare.answersTitle', { count: diff.answerChanges.length })}</h3>
+            {diff.answerChanges.length === 0 ? (
+              <p className='compare-empty'>{t('compare.noAnswerChanges')}</p>
+            ) : (
+              <table className='compare-table'>
+                <thead>
+                  <tr>
+                    <th>{t('compare.question')}</th>
+                    <th>{t('compare.before')}</th>
+                    <th>{t('compare.after')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.answerChanges.map((c) => (
+                    <tr key={c.questionId} className={getDeltaClass(c.pointsDelta)}>
+                      <td>
+                        <span className='compare-question-category'>{c.category}</span>
+                        {c.questionText}
+                      </td>
+                      <td>{c.before ?? t('compare.unanswered')}</td>
+                      <td>{c.after ?? t('compare.unanswered')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <ListDiffSection
+            title={t('compare.risksTitle')}
+            added={diff.risks.added.map((r) => <li key={r}>{r}</li>)}
+            resolved={diff.risks.resolved.map((r) => <li key={r}>{r}</li>)}
+            emptyText={t('compare.noRiskChanges')}
+          />
+
+          <ListDiffSection
+            title={t('compare.scannerTitle')}
+            added={diff.scannerIssues.added.map(renderScannerIssue)}
+            resolved={diff.scannerIssues.resolved.map(renderScannerIssue)}
+            emptyText={diff.domains.before || diff.domains.after
+              ? t('compare.noScannerChanges')
+              : t('compare.noScans')}
+          />
+          {diff.domains.before && diff.domains.after && diff.domains.before !== diff.domains.after && (
+            <p className='compare-warning'>
+              {t('compare.domainMismatch', { before: diff.domains.before, after: diff.domains.after })}
+            </p>
+          )}
+        </div>
+      )}
+      <Footer />
+    </div>
+  );
+};
+
+export default Compare;
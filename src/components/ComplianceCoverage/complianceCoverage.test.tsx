@@ -0,0 +1,82 @@
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import ComplianceCoverage from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+import type { FrameworkCoverage } from '../../utils/compliance';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+const coverage: FrameworkCoverage[] = [
+  {
+    id: 'nist_csf_2',
+    coverage: 50,
+    gap: 50,
+    met: 1,
+    total: 2,
+    groups: [
+      {
+        id: 'PR',
+        coverage: 50,
+        gap: 50,
+        met: 1,
+        total: 2,
+        controls: [
+          { control: 'PR.AA-03', status: 'met', questionIds: ['mfa'] },
+          { control: 'PR.AA-05', status: 'gap', questionIds: ['reviews'] },
+        ]
+      }
+    ]
+  },
+  {
+    id: 'cis_v8',
+    coverage: 80,
+    gap: 20,
+    met: 0,
+    total: 1,
+    groups: [
+      {
+        id: '6',
+        coverage: 80,
+        gap: 20,
+        met: 0,
+        total: 1,
+        controls: [{ control: '6.3', status: 'partial', questionIds: ['mfa'] }]
+      }
+    ]
+  },
+  { id: 'iso_27001', coverage: 0, gap: 100, met: 0, total: 0, groups: [] },
+];
+
+describe('ComplianceCoverage', () => {
+  beforeEach(() => {
+    const state = createMockAppState({ complianceCoverage: coverage });
+    vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('shows NIST CSF coverage with control statuses by default', () => {
+    render(<ComplianceCoverage />);
+    expect(screen.getByText('Protect')).toBeDefined();
+    expect(screen.getByText(/Coverage 50% · gap 50%/)).toBeDefined();
+    expect(screen.getByText('PR.AA-03')).toBeDefined();
+    expect(screen.getByText('Gap')).toBeDefined();
+  });
+
+  it('switches frameworks', () => {
+    render(<ComplianceCoverage />);
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'cis_v8' } });
+    expect(screen.getByText('6. Access Control Management')).toBeDefined();
+    expect(screen.getByText('Partially met')).toBeDefined();
+    expect(screen.queryByText('Protect')).toBeNull();
+  });
+});
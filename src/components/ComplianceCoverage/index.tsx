@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { FrameworkId } from '../../types/questions';
+
+const getScoreColor = (percent: number) => {
+  if (percent >= 80) return 'score-excellent';
+  if (percent >= 60) return 'score-good';
+  if (percent >= 40) return 'score-fair';
+  return 'score-poor';
+};
+
+/**
+ * Coverage and gap per framework control group, computed from the questionnaire answers
+ */
+const ComplianceCoverage: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { complianceCoverage } = useAppState();
+  const [frameworkId, setFrameworkId] = useState<FrameworkId>('nist_csf_2');
+  const framework = complianceCoverage.find((f) => f.id === frameworkId) ?? complianceCoverage[0];
+
+  if (!framework) return null;
+
+  return (
+    <section className='report-compliance-section'>
+      <h3>{t('report.compliance.title')}</h3>
+      <label className='compliance-framework-select'>
+        {t('report.compliance.framework')}{' '}
+        <select value={framework.id} onChange={(e) => setFrameworkId(e.target.value as FrameworkId)}>
+          {complianceCoverage.map((f) => (
+            <option key={f.id} value={f.id}>{t(`report.compliance.frameworks.${f.id}`)}</option>
+          ))}
+        </select>
+      </label>
+      <h4 className='compliance-print-title'>{t(`report.compliance.frameworks.${framework.id}`)}</h4>
+      <p className='compliance-summary'>
+        {t('report.compliance.summary', { coverage: framework.coverage, gap: framework.gap })}
+        {' · '}
+        {t('report.compliance.controlsMet', { met: framework.met, total: framework.total })}
+      </p>
+      <p className='compliance-note'>{t('report.compliance.note')}</p>
+
+      <div className='category-details'>
+        {framework.groups.map((group) => (
+          <div key={group.id} className='category-detail-card compliance-group'>
+            <div className='category-detail-header'>
+              <span className='category-name'>{t(`report.compliance.groups.${framework.id}.${group.id}`)}</span>
+              <span className={`category-score ${getScoreColor(group.coverage)}`}>{group.coverage}%</span>
+            </div>
+            <div className='category-progress-bar'>
+              <div
+                className={`category-progress-fill ${getScoreColor(group.coverage)}`}
+                style={{ '--progress-width': `${group.coverage}%` } as React.CSSProperties}
+              />
+            </div>
+            <details className='compliance-controls'>
+              <summary>
+                {t('report.compliance.gap', { gap: group.gap })}
+                {' · '}
+                {t('report.compliance.controlsMet', { met: group.met, total: group.total })}
+              </summary>
+              <ul>
+                {group.controls.map((c) => (
+                  <li key={c.control}>
+                    <span className='compliance-control-id'>{c.control}</span>{' '}
+                    <span className={`compliance-status compliance-status-${c.status}`}>
+                      {t(`report.compliance.status.${c.status}`)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ComplianceCoverage;
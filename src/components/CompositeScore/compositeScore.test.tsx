@@ -0,0 +1,66 @@
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import CompositeScore from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({ setCompositeWeights: vi.fn(), ...overrides });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('CompositeScore', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('explains that a domain scan is needed when there is no external score', () => {
+    mockState({
+      compositeScore: { percent: 55, questionnairePercent: 55, weights: { questionnaire: 1, externalSurface: 0 } }
+    });
+    render(<CompositeScore />);
+    expect(screen.queryByText('55%')).toBeNull();
+    expect(screen.getByText(/Run a domain scan/)).toBeDefined();
+    expect(screen.queryByRole('slider')).toBeNull();
+  });
+
+  it('shows the breakdown, scanner points and updates the weights', () => {
+    const state = mockState({
+      compositeScore: {
+        percent: 68,
+        questionnairePercent: 80,
+        weights: { questionnaire: 0.7, externalSurface: 0.3 },
+        externalSurface: {
+          category: 'External Attack Surface',
+          key: 'external_attack_surface',
+          total: 40,
+          max: 100,
+          percent: 40,
+          scanners: [
+            { id: 'dns', label: 'dns.label', severity: 'warning', points: 40 },
+            { id: 'rdap', label: 'rdap.label', severity: 'error', points: null },
+          ]
+        }
+      }
+    });
+    render(<CompositeScore />);
+
+    expect(screen.getByText('68%')).toBeDefined();
+    expect(screen.getByText('Questionnaire: 80% (weight 70%)')).toBeDefined();
+    expect(screen.getByText('External Attack Surface: 40% (weight 30%)')).toBeDefined();
+    expect(screen.getByText('40 / 100')).toBeDefined();
+    expect(screen.getByText('Not scored')).toBeDefined();
+
+    fireEvent.change(screen.getByRole('slider'), { target: { value: '50' } });
+    expect(state.setCompositeWeights).toHaveBeenCalledWith({ questionnaire: 0.5, externalSurface: 0.5 });
+  });
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+
+const getScoreColor = (percent: number) => {
+  if (percent >= 80) return 'score-excellent';
+  if (percent >= 60) return 'score-good';
+  if (percent >= 40) return 'score-fair';
+  return 'score-poor';
+};
+
+const toPercent = (weight: number) => Math.round(weight * 100);
+
+/**
+ * Composite risk score: questionnaire score blended with the External Attack Surface category from the domain scan
+ */
+const CompositeScore: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { t: tScanners } = useTranslation('scanners');
+  const { compositeScore, compositeWeights, setCompositeWeights } = useAppState();
+  const { externalSurface, weights } = compositeScore;
+
+  return (
+    <section className='report-composite-section'>
+      <h3>{t('report.composite.title')}</h3>
+      {externalSurface ? (
+        <>
+          <div className={`composite-score-value ${getScoreColor(compositeScore.percent)}`}>
+            {compositeScore.percent}%
+          </div>
+          <ul className='composite-breakdown'>
+            <li>
+              {t('report.composite.questionnairePart', {
+                percent: compositeScore.questionnairePercent,
+                weight: toPercent(weights.questionnaire)
+              })}
+            </li>
+            <li>
+              {t('report.composite.externalPart', {
+                name: externalSurface.category,
+                percent: externalSurface.percent,
+                weight: toPercent(weights.externalSurface)
+              })}
+            </li>
+          </ul>
+
+          <label className='composite-weight-control'>
+            {t('report.composite.weightLabel', {
+              questionnaire: toPercent(compositeWeights.questionnaire),
+              external: toPercent(compositeWeights.externalSurface)
+            })}
+            <input
+              type='range'
+              min={0}
+              max={100}
+              step={5}
+              value={toPercent(compositeWeights.questionnaire)}
+              onChange={(e) => {
+                const questionnaire = Number(e.target.value) / 100;
+                setCompositeWeights({ questionnaire, externalSurface: 1 - questionnaire });
+              }}
+            />
+          </label>
+
+          <table className='composite-scanner-table'>
+            <thead>
+              <tr>
+                <th>{t('report.composite.scanner')}</th>
+                <th>{t('report.composite.severity')}</th>
+                <th>{t('report.composite.points')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {externalSurface.scanners.map((sc) => (
+                <tr key={sc.id}>
+                  <td>{tScanners(sc.label)}</td>
+                  <td className={`sev-${sc.severity}`}>{t(`report.composite.severityLevels.${sc.severity}`)}</td>
+                  <td>{sc.points === null ? t('report.composite.notScored') : `${sc.points} / 100`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : (
+        <p className='composite-note'>{t('report.composite.noScan')}</p>
+      )}
+    </section>
+  );
+};
+
+export default CompositeScore;
@@ -1,24 +1,40 @@
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useLocation } from 'react-router-dom';
 import { useAppState } from '../../context/AppStateContext';
-import { SCANNERS, interpretScannerResult } from '../../utils/scanners';
+import {
+  SCANNERS,
+  SCAN_PROFILES,
+  getProfileScanners,
+  getScanProfile,
+  interpretScannerResult,
+} from '../../utils/scanners';
+import { ScanProfileId } from '../../types/domainScan';
 import { TrackedButton } from '../TrackedButton';
 import { trackFormSubmit } from '../../utils/analytics';
 import { validateDomain } from '../../utils/domainValidation';
 import Footer from '../Footer';
 import { renderIssueWithLinks } from '../../utils/text';
 import DkimSelectorsModal from '../DkimSelectorsModal';
+import ScanCachePanel from '../ScanCachePanel';
 import { getDkimSelectors, saveDkimSelectors } from '../../utils/dkimSelectorsService';
 
 const DomainScanner = () => {
   const { t } = useTranslation('common');
   const { t: tScanners } = useTranslation('scanners');
-  const { runScanners, domainScanAggregate, scannerProgress } = useAppState();
-  const [input, setInput] = useState(domainScanAggregate?.domain ?? '');
+  const { runScanners, rescanScanner, cancelScans, domainScanAggregate, scannerProgress } = useAppState();
+  // A shared link can suggest a domain to scan
+  const suggestedDomain = (useLocation().state as { domain?: string } | null)?.domain;
+  const [input, setInput] = useState(suggestedDomain ?? domainScanAggregate?.domain ?? '');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showDkimModal, setShowDkimModal] = useState(false);
   const [currentDomain, setCurrentDomain] = useState<string>('');
+  // Start from the profile of the saved scan
+  const [profile, setProfile] = useState<ScanProfileId>(getScanProfile(domainScanAggregate?.profile).id);
+  const profileScanners = getProfileScanners(profile);
+  // A full scan or a single-scanner rescan is still running
+  const scanRunning = loading || scannerProgress.some((p) => p.status === 'running');
 
   const onScan = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -38,10 +54,10 @@ const DomainScanner = () => {
 
     setLoading(true);
     setCurrentDomain(validation.normalizedDomain!);
-    trackFormSubmit('domain_scan', { domain: validation.normalizedDomain });
+    trackFormSubmit('domain_scan', { domain: validation.normalizedDomain, profile });
     try {
       // Use normalized domain for scanning
-      await runScanners(validation.normalizedDomain!);
+      await runScanners(validation.normalizedDomain!, profile);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : t('domainScanner.errors.scanFailed');
       setError(errorMessage);
@@ -50,6 +66,16 @@ const DomainScanner = () => {
     }
   };
 
+  const onRescan = async (scannerId: string) => {
+    setError(null);
+    try {
+      await rescanScanner(scannerId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : t('domainScanner.errors.scanFailed');
+      setError(errorMessage);
+    }
+  };
+
   const handleOpenDkimModal = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -65,10 +91,11 @@ const DomainScanner = () => {
         return;
       }
       setShowDkimModal(false);
-      // Trigger a rescan to check with new selectors
+      // Trigger a rescan to check with new selectors; only the email auth result depends on them, so the other
+      // scanners' results come from the cache
       setLoading(true);
       try {
-        await runScanners(currentDomain);
+        await runScanners(currentDomain, profile);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : t('domainScanner.errors.scanFailed');
         setError(errorMessage);
@@ -89,6 +116,17 @@ const DomainScanner = () => {
           value={input}
           onChange={(e) => setInput(e.target.value)}
         />
+        <select
+          className='scan-profile-select'
+          aria-label={t('domainScanner.profile')}
+          value={profile}
+          disabled={loading}
+          onChange={(e) => setProfile(e.target.value as ScanProfileId)}
+        >
+          {SCAN_PROFILES.map((p) => (
+            <option key={p.id} value={p.id}>{t(`scanProfiles.${p.id}.label`)}</option>
+          ))}
+        </select>
         <TrackedButton type='submit' disabled={loading} trackingName='domain_scan_submit'>
           <span className='button-text-full'>
             {loading
@@ -98,7 +136,20 @@ const DomainScanner = () => {
           </span>
           <span className='button-text-short'>{loading ? t('domainScanner.scanning') : t('domainScanner.scan')}</span>
         </TrackedButton>
+        {scanRunning && (
+          <TrackedButton
+            type='button'
+            className='btn-secondary'
+            trackingName='domain_scan_cancel'
+            onClick={cancelScans}
+          >
+            {t('domainScanner.cancel')}
+          </TrackedButton>
+        )}
       </form>
+      <p className='scan-profile-description'>
+        {t(`scanProfiles.${profile}.description`, { count: profileScanners.length, total: SCANNERS.length })}
+      </p>
       {error && <div className='error'>{error}</div>}
       <div className='modular-results'>
         <h3>{t('domainScanner.scanners')}</h3>
@@ -106,6 +157,8 @@ const DomainScanner = () => {
           {SCANNERS.map((s) => {
             const prog = scannerProgress.find((p) => p.id === s.id);
             const status = prog?.status ?? 'idle';
+            // Left out of the selected profile and without a result to show
+            const skipped = !prog && !profileScanners.includes(s);
             const interpretation = prog ? interpretScannerResult(prog) : null;
 
             // Status icons
@@ -138,14 +191,33 @@ const DomainScanner = () => {
             };
 
             return (
-              <li key={s.id} className={`scanner scanner-${status}`}>
+              <li key={s.id} className={`scanner scanner-${status}${skipped ? ' scanner-skipped' : ''}`}>
                 <div className='scanner-header'>
                   <div className='scanner-title'>
                     <span className={`status-icon status-icon-${status}`}>{getStatusIcon()}</span>
                     <strong>{tScanners(`${s.id}.label`)}</strong>
                     {renderSeverityBadge()}
                   </div>
-                  <span className='status-text'>{status}</span>
+                  <div className='scanner-actions'>
+                    <span className='status-text'>
+                      {skipped
+                        ? t('domainScanner.notInProfile', { profile: t(`scanProfiles.${profile}.label`) })
+                        : status}
+                    </span>
+                    {domainScanAggregate?.scanners.some((r) => r.id === s.id) && status !== 'running' && (
+                      <TrackedButton
+                        type='button'
+                        className='btn-secondary btn-rescan'
+                        trackingName='domain_scanner_rescan'
+                        trackingProperties={{ scanner: s.id }}
+                        disabled={loading}
+                        aria-label={t('domainScanner.rescanScanner', { scanner: tScanners(`${s.id}.label`) })}
+                        onClick={() => onRescan(s.id)}
+                      >
+                        {t('domainScanner.rescan')}
+                      </TrackedButton>
+                    )}
+                  </div>
                 </div>
                 <div className='scanner-description'>{tScanners(`${s.id}.description`)}</div>
                 {prog?.dataSource && (
@@ -274,6 +346,7 @@ const DomainScanner = () => {
             )}
           </div>
         )}
+        <ScanCachePanel />
       </div>
       <p className='disclaimer'>
         {t('domainScanner.disclaimer')}
@@ -193,6 +193,31 @@ describe('Dropdown', () => {
     expect(dropdown?.className).toContain('answered');
   });
 
+  it('lists secondary options after a divider', () => {
+    const onChange = vi.fn();
+    render(
+      <Dropdown
+        value=""
+        onChange={onChange}
+        options={[
+          ...mockOptions,
+          { value: 'na', label: 'Not applicable', secondary: true },
+          { value: 'unknown', label: 'Don\'t know', secondary: true },
+        ]}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button'));
+    const options = screen.getAllByRole('option');
+    expect(options[3].className).toContain('secondary');
+    expect(options[3].className).toContain('divider');
+    expect(options[4].className).not.toContain('divider');
+    expect(options[2].className).not.toContain('secondary');
+
+    fireEvent.click(options[3]);
+    expect(onChange).toHaveBeenCalledWith('na');
+  });
+
   it('closes dropdown when clicking outside', async () => {
     const onChange = vi.fn();
     render(
@@ -4,6 +4,7 @@ import './dropdown.css';
 export interface DropdownOption {
   value: string;
   label: string;
+  secondary?: boolean; // listed after the regular options below a divider, e.g. "Not applicable"
 }
 
 export interface DropdownProps {
@@ -169,7 +170,9 @@ export const Dropdown: React.FC<DropdownProps> = ({
               key={option.value}
               className={`custom-dropdown-option ${
                 option.value === value ? 'selected' : ''
-              } ${index === focusedIndex ? 'focused' : ''}`}
+              } ${index === focusedIndex ? 'focused' : ''} ${option.secondary ? 'secondary' : ''} ${
+                option.secondary && !options[index - 1]?.secondary ? 'divider' : ''
+              }`}
               role='option'
               aria-selected={option.value === value}
               onClick={() => handleSelect(option.value)}
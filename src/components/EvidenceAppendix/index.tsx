@@ -0,0 +1,86 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { getVisibleQuestions } from '../../utils/questionConditions';
+import { isAnswerState } from '../../utils/answerStates';
+import { isOverdue } from '../../utils/answerDetails';
+
+/**
+ * Report appendix listing the notes, evidence, owner and due date recorded for each shown question
+ */
+const EvidenceAppendix: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { t: tQuestions } = useTranslation('questions');
+  const { questions, answers, answerDetails } = useAppState();
+  const entries = getVisibleQuestions(questions, answers)
+    .filter((q) => answerDetails[q.id])
+    .map((q) => ({ question: q, details: answerDetails[q.id] }));
+
+  if (entries.length === 0) return null;
+
+  const answerLabel = (questionId: string) => {
+    const value = answers[questionId];
+    if (!value) return t('report.appendix.unanswered');
+    if (isAnswerState(value)) return tQuestions(`answerStates.${value}`);
+    return questions.find((q) => q.id === questionId)?.options.find((o) => o.value === value)?.label ?? value;
+  };
+
+  return (
+    <section className='report-appendix'>
+      <h3>{t('report.appendix.title')}</h3>
+      <p className='section-subtitle'>{t('report.appendix.description')}</p>
+      {entries.map(({ question, details }) => (
+        <article key={question.id} className='appendix-entry'>
+          <h4>{question.text}</h4>
+          <dl>
+            <dt>{t('report.appendix.answer')}</dt>
+            <dd>{answerLabel(question.id)}</dd>
+            {details.owner && (
+              <>
+                <dt>{t('answerDetails.owner')}</dt>
+                <dd>{details.owner}</dd>
+              </>
+            )}
+            {details.dueDate && (
+              <>
+                <dt>{t('answerDetails.dueDate')}</dt>
+                <dd>
+                  {details.dueDate}
+                  {isOverdue(details) && <span className='appendix-overdue'>{t('report.appendix.overdue')}</span>}
+                </dd>
+              </>
+            )}
+            {details.notes && (
+              <>
+                <dt>{t('answerDetails.notes')}</dt>
+                <dd className='appendix-notes'>{details.notes}</dd>
+              </>
+            )}
+            {details.evidence && details.evidence.length > 0 && (
+              <>
+                <dt>{t('answerDetails.evidence')}</dt>
+                <dd>
+                  <ul className='answer-evidence-list'>
+                    {details.evidence.map((item) => (
+                      <li key={item.id}>
+                        {item.url ? (
+                          <a href={item.url} target='_blank' rel='noopener noreferrer'>{item.url}</a>
+                        ) : (
+                          <a href={item.dataUrl} download={item.name}>
+                            {t('report.appendix.attachment', { name: item.name })}
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </dd>
+              </>
+            )}
+          </dl>
+        </article>
+      ))}
+    </section>
+  );
+};
+
+export default EvidenceAppendix;
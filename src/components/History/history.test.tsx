@@ -0,0 +1,84 @@
+import React from 'react';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import History from './index';
+import { createMockAppState, createSampleScore, createSampleSnapshot } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+
+vi.mock('recharts', async () => {
+  const actual = await vi.importActual('recharts');
+  return {
+    ...actual,
+    ResponsiveContainer: ({ children }: { children: React.ReactNode }) => (
+      <div style={{ width: 400, height: 300 }}>{children}</div>
+    ),
+  };
+});
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+class ResizeObserverMock {
+  observe() { /* noop */ }
+  unobserve() { /* noop */ }
+  disconnect() { /* noop */ }
+}
+(global as unknown as { ResizeObserver: typeof ResizeObserverMock }).ResizeObserver = ResizeObserverMock;
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({ answers: { q1: 'opt1' }, ...overrides });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('History', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('shows an empty state without snapshots', () => {
+    mockState();
+    render(<History />);
+    expect(screen.getByText(/No snapshots yet/i)).toBeDefined();
+  });
+
+  it('takes a labelled snapshot', () => {
+    const takeSnapshot = vi.fn();
+    mockState({ takeSnapshot });
+    render(<History />);
+    fireEvent.change(screen.getByLabelText('Snapshot label'), { target: { value: 'Q3 review' } });
+    fireEvent.click(screen.getByText('Take Snapshot'));
+    expect(takeSnapshot).toHaveBeenCalledWith('Q3 review');
+  });
+
+  it('disables snapshots until questions are answered', () => {
+    mockState({ answers: {} });
+    render(<History />);
+    expect((screen.getByText('Take Snapshot') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('lists snapshots newest first with the trend chart', () => {
+    mockState({
+      snapshots: [
+        createSampleSnapshot({ id: 's1', label: 'Baseline', createdAt: '2025-01-01T00:00:00.000Z' }),
+        createSampleSnapshot({
+          id: 's2', label: 'Follow-up', createdAt: '2025-06-01T00:00:00.000Z', score: createSampleScore(90)
+        }),
+      ]
+    });
+    render(<History />);
+    const labels = screen.getAllByText(/Baseline|Follow-up/).map((el) => el.textContent);
+    expect(labels).toEqual(['Follow-up', 'Baseline']);
+    expect(screen.getByText('Score: 90%')).toBeDefined();
+    expect(document.querySelector('.trend-chart-container')).not.toBeNull();
+  });
+});
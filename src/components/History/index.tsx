@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { AssessmentSnapshot } from '../../types/workspace';
+import { sortSnapshots } from '../../utils/assessmentHistory';
+import CategoryTrendChart from '../CategoryTrendChart';
+import ConfirmDialog from '../ConfirmDialog';
+import { TrackedButton } from '../TrackedButton';
+import Footer from '../Footer';
+
+const History: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { snapshots, takeSnapshot, deleteSnapshot, answers, score } = useAppState();
+  const [label, setLabel] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<AssessmentSnapshot | null>(null);
+
+  const onTakeSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    takeSnapshot(label);
+    setLabel('');
+  };
+
+  const onConfirmDelete = () => {
+    if (pendingDelete) deleteSnapshot(pendingDelete.id);
+    setPendingDelete(null);
+  };
+
+  // Newest first in the list; the chart plots oldest to newest
+  const ordered = sortSnapshots(snapshots).reverse();
+  const hasAnswers = Object.keys(answers).length > 0;
+
+  return (
+    <div className='panel history-panel'>
+      <h2>{t('history.title')}</h2>
+      <p>{t('history.description')}</p>
+
+      <form className='snapshot-form' onSubmit={onTakeSnapshot}>
+        <input
+          type='text'
+          aria-label={t('history.labelField')}
+          placeholder={t('history.labelPlaceholder')}
+          value={label}
+          maxLength={100}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <TrackedButton
+          type='submit'
+          trackingName='snapshot_take'
+          trackingProperties={{ score_percent: score.percent }}
+          disabled={!hasAnswers}
+        >
+          {t('history.takeSnapshot')}
+        </TrackedButton>
+      </form>
+
+      {snapshots.length === 0 ? (
+        <p className='history-empty'>{t('history.empty')}</p>
+      ) : (
+        <>
+          {snapshots.length > 1 ? (
+            <section className='history-trend-section'>
+              <h3>{t('history.trendTitle')}</h3>
+              <CategoryTrendChart snapshots={snapshots} />
+            </section>
+          ) : (
+            <p className='history-empty'>{t('history.trendNeedsTwo')}</p>
+          )}
+
+          <ul className='snapshot-list'>
+            {ordered.map((s) => (
+              <li key={s.id} className='snapshot-item'>
+                <div className='snapshot-item-info'>
+                  <strong>{s.label || new Date(s.createdAt).toLocaleDateString()}</strong>
+                  <span>{new Date(s.createdAt).toLocaleString()}</span>
+                  <span>{t('history.snapshotScore', { percent: s.score.percent })}</span>
+                  <span>{t('history.riskCount', { count: s.risks.length })}</span>
+                </div>
+                <TrackedButton
+                  trackingName='snapshot_delete_click'
+                  className='btn-secondary'
+                  onClick={() => setPendingDelete(s)}
+                >
+                  {t('history.deleteButton')}
+                </TrackedButton>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        title={t('history.deleteTitle')}
+        message={t('history.deleteMessage')}
+        confirmLabel={t('history.deleteButton')}
+        cancelLabel={t('buttons.cancel')}
+        onConfirm={onConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+        variant='danger'
+      />
+      <Footer />
+    </div>
+  );
+};
+
+export default History;
@@ -6,6 +6,7 @@ import { TrackedButton } from '../TrackedButton';
 import { trackImport } from '../../utils/analytics';
 import Footer from '../Footer';
 import { Toast, ToastType } from '../Toast';
+import PassphraseDialog from '../PassphraseDialog';
 
 interface ToastState {
   message: string;
@@ -15,20 +16,21 @@ interface ToastState {
 const Import = () => {
   const { t } = useTranslation('common');
   const navigate = useNavigate();
-  const { importJSON } = useAppState();
+  const { importJSON, importEncryptedJSON } = useAppState();
   const [raw, setRaw] = useState('');
   const [toast, setToast] = useState<ToastState | null>(null);
+  // Encrypted export waiting for its passphrase, with the success message to show once imported
+  const [pendingEncrypted, setPendingEncrypted] = useState<{ content: string; successMessage: string } | null>(null);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const showToast = (message: string, type: ToastType) => {
     setToast({ message, type });
   };
 
-  const onImport = () => {
-    const result = importJSON(raw);
-
+  const finishImport = (result: { success: boolean; error?: string }, successMessage: string) => {
     showToast(
-      result.success ? t('import.successImport') : `${t('import.errorInvalidJSON')} ${result.error ?? ''}`,
+      result.success ? successMessage : `${t('import.errorInvalidJSON')} ${result.error ?? ''}`,
       result.success ? 'success' : 'error'
     );
     trackImport('json', result.success);
@@ -39,6 +41,30 @@ const Import = () => {
     }
   };
 
+  const runImport = (content: string, successMessage: string) => {
+    const result = importJSON(content);
+    if (result.encrypted) {
+      setPassphraseError(null);
+      setPendingEncrypted({ content, successMessage });
+      return;
+    }
+    finishImport(result, successMessage);
+  };
+
+  const onImport = () => runImport(raw, t('import.successImport'));
+
+  const onDecrypt = async (passphrase: string) => {
+    if (!pendingEncrypted) return;
+    const result = await importEncryptedJSON(pendingEncrypted.content, passphrase);
+    if (!result.success && result.encrypted) {
+      // Wrong passphrase or damaged file: keep the dialog open so the user can retry
+      setPassphraseError(result.error ?? t('passphrase.errorDecrypt'));
+      return;
+    }
+    setPendingEncrypted(null);
+    finishImport(result, pendingEncrypted.successMessage);
+  };
+
   const handleFileUpload = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -60,17 +86,7 @@ const Import = () => {
     reader.onload = (e) => {
       const content = e.target?.result as string;
       setRaw(content);
-      const result = importJSON(content);
-      showToast(
-        result.success ? t('import.successFileImport') : `${t('import.errorInvalidJSON')} ${result.error ?? ''}`,
-        result.success ? 'success' : 'error'
-      );
-      trackImport('json', result.success);
-
-      // Navigate to questionnaire after successful import
-      if (result.success) {
-        setTimeout(() => navigate('/questionnaire'), 1500);
-      }
+      runImport(content, t('import.successFileImport'));
     };
     reader.onerror = () => {
       showToast(t('import.errorFileRead'), 'error');
@@ -123,6 +139,16 @@ const Import = () => {
         </div>
       </div>
 
+      <PassphraseDialog
+        isOpen={pendingEncrypted !== null}
+        mode='decrypt'
+        title={t('passphrase.decryptTitle')}
+        message={t('passphrase.decryptMessage')}
+        submitLabel={t('passphrase.decryptSubmit')}
+        onSubmit={onDecrypt}
+        onCancel={() => setPendingEncrypted(null)}
+        error={passphraseError}
+      />
       {toast && (
         <Toast
           message={toast.message}
@@ -0,0 +1,127 @@
+import React, { FormEvent, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { MIN_PASSPHRASE_LENGTH } from '../../utils/exportEncryption';
+
+interface PassphraseDialogProps {
+  isOpen: boolean;
+  // 'encrypt' asks for the passphrase twice and enforces the minimum length
+  mode: 'encrypt' | 'decrypt';
+  title: string;
+  message: string;
+  submitLabel: string;
+  onSubmit: (passphrase: string) => void | Promise<void>;
+  onCancel: () => void;
+  error?: string | null;
+}
+
+const PassphraseDialog: React.FC<PassphraseDialogProps> = ({
+  isOpen,
+  mode,
+  title,
+  message,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  error,
+}) => {
+  const { t } = useTranslation('common');
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [localError, setLocalError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+
+    if (isOpen) {
+      if (!dialog.open) dialog.showModal();
+    } else {
+      if (dialog.open) dialog.close();
+      // Never keep a passphrase around once the dialog is dismissed
+      setPassphrase('');
+      setConfirmation('');
+      setLocalError(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+
+    const handleCancel = (e: Event) => {
+      e.preventDefault();
+      onCancel();
+    };
+    dialog.addEventListener('cancel', handleCancel);
+    return () => dialog.removeEventListener('cancel', handleCancel);
+  }, [onCancel]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (mode === 'encrypt') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setLocalError(t('passphrase.errorLength', { min: MIN_PASSPHRASE_LENGTH }));
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setLocalError(t('passphrase.errorMismatch'));
+        return;
+      }
+    }
+    setLocalError(null);
+    setBusy(true);
+    try {
+      await onSubmit(passphrase);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const shownError = localError ?? error;
+
+  const dialogContent = (
+    <dialog ref={dialogRef} className='modal-content passphrase-dialog' aria-labelledby='passphrase-dialog-title'>
+      <form onSubmit={handleSubmit}>
+        <h3 id='passphrase-dialog-title'>{title}</h3>
+        <p>{message}</p>
+        <label>
+          {t('passphrase.label')}
+          <input
+            type='password'
+            autoComplete={mode === 'encrypt' ? 'new-password' : 'current-password'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </label>
+        {mode === 'encrypt' && (
+          <label>
+            {t('passphrase.confirm')}
+            <input
+              type='password'
+              autoComplete='new-password'
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </label>
+        )}
+        {mode === 'encrypt' && <p className='passphrase-hint'>{t('passphrase.hint')}</p>}
+        {shownError && <p className='passphrase-error' role='alert'>{shownError}</p>}
+        <div className='modal-actions'>
+          <button type='button' className='btn-secondary' onClick={onCancel}>
+            {t('buttons.cancel')}
+          </button>
+          <button type='submit' className='btn-primary' disabled={busy || !passphrase}>
+            {busy ? t('passphrase.working') : submitLabel}
+          </button>
+        </div>
+      </form>
+    </dialog>
+  );
+
+  return createPortal(dialogContent, document.body);
+};
+
+export default PassphraseDialog;
@@ -0,0 +1,67 @@
+import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
+import PassphraseDialog from './index';
+
+// Mock HTMLDialogElement methods for jsdom
+beforeAll(() => {
+  HTMLDialogElement.prototype.showModal = function(this: HTMLDialogElement) {
+    this.open = true;
+  };
+  HTMLDialogElement.prototype.close = function(this: HTMLDialogElement) {
+    this.open = false;
+  };
+});
+
+describe('PassphraseDialog', () => {
+  const defaultProps = {
+    isOpen: true,
+    title: 'Protect export',
+    message: 'Choose a passphrase',
+    submitLabel: 'Encrypt',
+    onSubmit: vi.fn(),
+    onCancel: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  const fill = (label: string, value: string) =>
+    fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+  it('checks length and confirmation before encrypting', async () => {
+    render(<PassphraseDialog {...defaultProps} mode='encrypt' />);
+
+    fill('Passphrase', 'short');
+    fill('Confirm passphrase', 'short');
+    fireEvent.click(screen.getByRole('button', { name: 'Encrypt' }));
+    expect(screen.getByRole('alert').textContent).toMatch(/at least 8/);
+
+    fill('Passphrase', 'correct horse');
+    fill('Confirm passphrase', 'correct house');
+    fireEvent.click(screen.getByRole('button', { name: 'Encrypt' }));
+    expect(screen.getByRole('alert').textContent).toMatch(/do not match/);
+    expect(defaultProps.onSubmit).not.toHaveBeenCalled();
+
+    fill('Confirm passphrase', 'correct horse');
+    fireEvent.click(screen.getByRole('button', { name: 'Encrypt' }));
+    await waitFor(() => expect(defaultProps.onSubmit).toHaveBeenCalledWith('correct horse'));
+  });
+
+  it('asks for a single passphrase when decrypting and shows the caller error', async () => {
+    render(<PassphraseDialog {...defaultProps} mode='decrypt' submitLabel='Decrypt' error='Wrong passphrase' />);
+
+    expect(screen.queryByLabelText('Confirm passphrase')).toBeNull();
+    expect(screen.getByRole('alert').textContent).toBe('Wrong passphrase');
+    fill('Passphrase', 'any');
+    fireEvent.click(screen.getByRole('button', { name: 'Decrypt' }));
+    await waitFor(() => expect(defaultProps.onSubmit).toHaveBeenCalledWith('any'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(defaultProps.onCancel).toHaveBeenCalled();
+  });
+});
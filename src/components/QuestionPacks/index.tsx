@@ -0,0 +1,155 @@
+import React, { ChangeEvent, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { QuestionPack } from '../../types/questionPacks';
+import { MAX_PACK_FILE_SIZE, validateQuestionPack } from '../../utils/questionPacks';
+import { MAX_INSTALLED_PACKS } from '../../utils/questionLimits';
+import { TrackedButton } from '../TrackedButton';
+import ConfirmDialog from '../ConfirmDialog';
+import { Toast, ToastType } from '../Toast';
+import Footer from '../Footer';
+
+interface ToastState {
+  message: string;
+  type: ToastType;
+}
+
+const QuestionPacks: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { t: tQuestions } = useTranslation('questions');
+  const {
+    questionPacks,
+    enabledPackIds,
+    installQuestionPack,
+    removeQuestionPack,
+    setPackEnabled,
+    clients,
+    activeClientId
+  } = useAppState();
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<QuestionPack | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeClient = clients.find((c) => c.id === activeClientId);
+  const packName = (pack: QuestionPack) => tQuestions(`packs.${pack.id}.name`, pack.name);
+  const packDescription = (pack: QuestionPack) => tQuestions(`packs.${pack.id}.description`, pack.description ?? '');
+
+  const handleFileUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (!file.name.endsWith('.json')) {
+      setToast({ message: t('packs.errorFileType'), type: 'error' });
+      return;
+    }
+    if (file.size > MAX_PACK_FILE_SIZE) {
+      setToast({ message: t('packs.errorFileSize'), type: 'error' });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = validateQuestionPack(e.target?.result as string);
+      if (!result.isValid || !result.pack) {
+        setToast({ message: `${t('packs.errorInvalid')} ${result.error ?? ''}`, type: 'error' });
+        return;
+      }
+      const replaced = questionPacks.some((p) => p.id === result.pack!.id);
+      if (!replaced && questionPacks.length >= MAX_INSTALLED_PACKS) {
+        setToast({ message: t('packs.errorTooMany', { max: MAX_INSTALLED_PACKS }), type: 'error' });
+        return;
+      }
+      installQuestionPack(result.pack);
+      setToast({
+        message: t(replaced ? 'packs.updated' : 'packs.installed', { name: result.pack.name }),
+        type: 'success'
+      });
+    };
+    reader.onerror = () => {
+      setToast({ message: t('packs.errorFileRead'), type: 'error' });
+    };
+    reader.readAsText(file);
+  };
+
+  const onConfirmRemove = () => {
+    if (pendingRemoval) removeQuestionPack(pendingRemoval.id);
+    setPendingRemoval(null);
+  };
+
+  return (
+    <div className='panel packs-panel'>
+      <h2>{t('packs.title')}</h2>
+      <p>{t('packs.description')}</p>
+
+      <div className='actions'>
+        <TrackedButton
+          type='button'
+          trackingName='question_pack_upload'
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {t('packs.upload')}
+        </TrackedButton>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='.json,application/json'
+          aria-label={t('packs.upload')}
+          onChange={handleFileUpload}
+          className='hidden-file-input'
+        />
+      </div>
+
+      {questionPacks.length === 0 ? (
+        <p className='packs-empty'>{t('packs.empty')}</p>
+      ) : (
+        <>
+          {activeClient && <p className='packs-client'>{t('packs.enabledFor', { name: activeClient.name })}</p>}
+          <ul className='packs-list'>
+            {questionPacks.map((pack) => (
+              <li key={pack.id} className='packs-item'>
+                <label className='packs-toggle'>
+                  <input
+                    type='checkbox'
+                    checked={enabledPackIds.includes(pack.id)}
+                    onChange={(e) => setPackEnabled(pack.id, e.target.checked)}
+                  />
+                  <span className='packs-name'>{packName(pack)}</span>
+                </label>
+                <span className='packs-meta'>
+                  {pack.version && t('packs.version', { version: pack.version })}
+                  {' '}{t('packs.questionCount', { count: pack.questions.length })}
+                </span>
+                {packDescription(pack) && <p className='packs-description'>{packDescription(pack)}</p>}
+                <button type='button' className='btn-secondary' onClick={() => setPendingRemoval(pack)}>
+                  {t('packs.remove')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={pendingRemoval !== null}
+        title={t('packs.removeTitle')}
+        message={t('packs.removeMessage', { name: pendingRemoval ? packName(pendingRemoval) : '' })}
+        confirmLabel={t('packs.remove')}
+        cancelLabel={t('buttons.cancel')}
+        onConfirm={onConfirmRemove}
+        onCancel={() => setPendingRemoval(null)}
+        variant='danger'
+      />
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+      <Footer />
+    </div>
+  );
+};
+
+export default QuestionPacks;
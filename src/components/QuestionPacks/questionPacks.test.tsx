@@ -0,0 +1,118 @@
+import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
+import QuestionPacks from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+import { QuestionPack } from '../../types/questionPacks';
+import { MAX_INSTALLED_PACKS } from '../../utils/questionLimits';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+// Mock HTMLDialogElement methods for jsdom
+beforeAll(() => {
+  HTMLDialogElement.prototype.showModal = vi.fn(function (this: HTMLDialogElement) {
+    this.open = true;
+  });
+  HTMLDialogElement.prototype.close = vi.fn(function (this: HTMLDialogElement) {
+    this.open = false;
+  });
+});
+
+const samplePack: QuestionPack = {
+  id: 'cloud',
+  name: 'Cloud security',
+  version: '2.1',
+  description: 'Questions for cloud-hosted workloads',
+  questions: [
+    { id: 'iam', category: 'cloud', options: [{ id: 'opt1', points: 0 }, { id: 'opt2', points: 10 }] }
+  ]
+};
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({
+    installQuestionPack: vi.fn(),
+    removeQuestionPack: vi.fn(),
+    setPackEnabled: vi.fn(),
+    ...overrides
+  });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('QuestionPacks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('shows an empty state without installed packs', () => {
+    mockState();
+    render(<QuestionPacks />);
+    expect(screen.getByText('No packs installed yet.')).toBeDefined();
+  });
+
+  it('lists installed packs and toggles them for the active client', () => {
+    const state = mockState({ questionPacks: [samplePack] });
+    render(<QuestionPacks />);
+
+    expect(screen.getByText('Cloud security')).toBeDefined();
+    expect(screen.getByText('Questions for cloud-hosted workloads')).toBeDefined();
+    expect(screen.getByText(/v2\.1/)).toBeDefined();
+    const toggle = screen.getByRole('checkbox') as HTMLInputElement;
+    expect(toggle.checked).toBe(false);
+
+    fireEvent.click(toggle);
+    expect(state.setPackEnabled).toHaveBeenCalledWith('cloud', true);
+  });
+
+  it('removes a pack after confirmation', () => {
+    const state = mockState({ questionPacks: [samplePack], enabledPackIds: ['cloud'] });
+    render(<QuestionPacks />);
+    expect((screen.getByRole('checkbox') as HTMLInputElement).checked).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove pack' }));
+    const dialogButtons = screen.getAllByRole('button', { name: 'Remove pack', hidden: true });
+    fireEvent.click(dialogButtons[dialogButtons.length - 1]);
+    expect(state.removeQuestionPack).toHaveBeenCalledWith('cloud');
+  });
+
+  it('installs a valid uploaded pack and reports invalid files', async () => {
+    const state = mockState();
+    render(<QuestionPacks />);
+    const input = screen.getByLabelText('Upload pack (JSON)');
+
+    const valid = new File([JSON.stringify(samplePack)], 'cloud.json', { type: 'application/json' });
+    fireEvent.change(input, { target: { files: [valid] } });
+    await waitFor(() => expect(state.installQuestionPack).toHaveBeenCalledWith(samplePack));
+    expect(await screen.findByText('Installed "Cloud security".')).toBeDefined();
+
+    const invalid = new File([JSON.stringify({ id: 'cloud' })], 'cloud.json', { type: 'application/json' });
+    fireEvent.change(input, { target: { files: [invalid] } });
+    expect(await screen.findByText(/Invalid questionnaire pack: Pack name is required/)).toBeDefined();
+    expect(state.installQuestionPack).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses new packs once the library is full but still accepts updates', async () => {
+    const installed = Array.from({ length: MAX_INSTALLED_PACKS }, (_, i) => ({ ...samplePack, id: `pack${i}` }));
+    const state = mockState({ questionPacks: installed });
+    render(<QuestionPacks />);
+    const input = screen.getByLabelText('Upload pack (JSON)');
+
+    fireEvent.change(input, { target: { files: [new File([JSON.stringify(samplePack)], 'cloud.json')] } });
+    expect(await screen.findByText(new RegExp(`At most ${MAX_INSTALLED_PACKS} questionnaire packs`))).toBeDefined();
+    expect(state.installQuestionPack).not.toHaveBeenCalled();
+
+    const update = { ...samplePack, id: 'pack0' };
+    fireEvent.change(input, { target: { files: [new File([JSON.stringify(update)], 'pack0.json')] } });
+    await waitFor(() => expect(state.installQuestionPack).toHaveBeenCalledWith(update));
+  });
+});
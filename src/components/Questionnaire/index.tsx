@@ -4,17 +4,31 @@ import { useAppState } from '../../context/AppStateContext';
 import CategoryRadarChart from '../CategoryRadarChart';
 import Footer from '../Footer';
 import Dropdown from '../Dropdown';
+import { getVisibleQuestions } from '../../utils/questionConditions';
+import { ANSWER_STATES } from '../../utils/answerStates';
+import AnswerDetails from '../AnswerDetails';
+import ShareLink from '../ShareLink';
 
 const Questionnaire: React.FC = () => {
-  const { questions, answers, setAnswer, score } = useAppState();
+  const { questions, answers, setAnswer, score, activeClientId } = useAppState();
   const { t } = useTranslation('common');
+  const { t: tQuestions } = useTranslation('questions');
+
+  // "Not applicable" and "Don't know" are offered for every question after its options
+  const stateOptions = useMemo(
+    () => ANSWER_STATES.map((state) => ({ value: state, label: tQuestions(`answerStates.${state}`), secondary: true })),
+    [tQuestions]
+  );
+
+  // Questions whose show-if conditions are not met are neither asked nor counted
+  const visibleQuestions = useMemo(() => getVisibleQuestions(questions, answers), [questions, answers]);
 
   // Calculate progress metrics
   const answeredCount = useMemo(() => {
-    return Object.keys(answers).filter((key) => answers[key] !== '').length;
-  }, [answers]);
+    return visibleQuestions.filter((q) => answers[q.id]).length;
+  }, [visibleQuestions, answers]);
 
-  const totalQuestions = questions.length;
+  const totalQuestions = visibleQuestions.length;
   const progressPercent = totalQuestions > 0 ? Math.round((answeredCount / totalQuestions) * 100) : 0;
 
   // Determine color based on score
@@ -34,6 +48,7 @@ const Questionnaire: React.FC = () => {
         <p className='questionnaire-subtitle'>
           {t('questionnaire.subtitle')}
         </p>
+        <ShareLink />
       </div>
 
       {/* Progress Section */}
@@ -61,7 +76,7 @@ const Questionnaire: React.FC = () => {
 
       {/* Questions */}
       <form className='question-list'>
-        {questions.map((q, index) => (
+        {visibleQuestions.map((q, index) => (
           <div key={q.id} className='question-item-modern'>
             <div className='question-header'>
               <span className='question-number'>Q{index + 1}</span>
@@ -71,9 +86,11 @@ const Questionnaire: React.FC = () => {
               id={q.id}
               value={answers[q.id] || ''}
               onChange={(value) => setAnswer(q.id, value)}
-              options={q.options}
+              options={[...q.options, ...stateOptions]}
               placeholder={t('questionnaire.selectAnswer')}
             />
+            {/* Keyed by client so the editor's drafts reset when switching clients */}
+            <AnswerDetails key={`${activeClientId}:${q.id}`} questionId={q.id} />
           </div>
         ))}
       </form>
@@ -90,7 +107,10 @@ const Questionnaire: React.FC = () => {
           {score.categories.map((c) => (
             <div key={c.category} className='category-detail-card'>
               <div className='category-detail-header'>
-                <span className='category-name'>{c.category}</span>
+                <span className='category-name'>
+                  {c.category}
+                  {c.packId && <span className='pack-badge'>{t('packs.badge')}</span>}
+                </span>
                 <span className={`category-score ${getScoreColor(c.percent)}`}>{c.percent}%</span>
               </div>
               <div className='category-progress-bar'>
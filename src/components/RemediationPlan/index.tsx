@@ -0,0 +1,58 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { REMEDIATION_PHASES } from '../../utils/remediationPlan';
+
+/**
+ * Remediation plan: questionnaire gaps and scanner issues ranked by severity and grouped into phases
+ */
+const RemediationPlan: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { t: tScanners } = useTranslation('scanners');
+  const { remediationPlan } = useAppState();
+
+  return (
+    <section className='report-remediation-section'>
+      <h3>{t('report.remediation.title')}</h3>
+      {remediationPlan.items.length === 0 ? (
+        <p>{t('report.remediation.empty')}</p>
+      ) : (
+        <>
+          <p className='remediation-intro'>{t('report.remediation.intro')}</p>
+          {REMEDIATION_PHASES.map((phase) => {
+            const items = remediationPlan.phases[phase];
+            if (items.length === 0) return null;
+            return (
+              <div key={phase} className={`remediation-phase remediation-phase-${phase}`}>
+                <h4>{t(`report.remediation.phases.${phase}`)} ({items.length})</h4>
+                <ol className='remediation-items'>
+                  {items.map((item) => (
+                    <li key={item.id}>
+                      <div>{item.text}</div>
+                      <div className='remediation-meta'>
+                        <span className={`remediation-badge severity-${item.severity}`}>
+                          {t(`report.remediation.severity.${item.severity}`)}
+                        </span>
+                        <span className='remediation-badge'>
+                          {t('report.remediation.effortLabel', {
+                            effort: t(`report.remediation.effort.${item.effort}`)
+                          })}
+                        </span>
+                        <span className='remediation-source'>
+                          {item.source === 'scanner' ? tScanners(item.category) : item.category}
+                          {item.pointGap > 0 && ` · ${t('report.remediation.pointGap', { points: item.pointGap })}`}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default RemediationPlan;
@@ -0,0 +1,65 @@
+import { render, screen, cleanup } from '@testing-library/react';
+import RemediationPlan from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+import type { RemediationItem } from '../../utils/remediationPlan';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+const mfa: RemediationItem = {
+  id: 'mfa',
+  text: 'MFA is not enforced',
+  source: 'questionnaire',
+  category: 'Access',
+  severity: 'critical',
+  pointGap: 100,
+  effort: 'low',
+  phase: 'quickWins',
+};
+
+const tls: RemediationItem = {
+  id: 'sslLabs:0',
+  text: 'TLS 1.0 enabled',
+  source: 'scanner',
+  category: 'sslLabs.label',
+  severity: 'medium',
+  pointGap: 0,
+  effort: 'medium',
+  phase: 'days90',
+};
+
+describe('RemediationPlan', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('shows an empty state without items', () => {
+    const state = createMockAppState();
+    vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+    render(<RemediationPlan />);
+    expect(screen.getByText(/No remediation items yet/)).toBeDefined();
+  });
+
+  it('groups items by phase and skips empty phases', () => {
+    const state = createMockAppState({
+      remediationPlan: { items: [mfa, tls], phases: { quickWins: [mfa], days30: [], days90: [tls] } }
+    });
+    vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+    render(<RemediationPlan />);
+
+    expect(screen.getByText('Quick wins (1)')).toBeDefined();
+    expect(screen.getByText('Within 90 days (1)')).toBeDefined();
+    expect(screen.queryByText(/Within 30 days/)).toBeNull();
+    expect(screen.getByText('MFA is not enforced')).toBeDefined();
+    expect(screen.getByText('Critical')).toBeDefined();
+    expect(screen.getByText(/100 points below best practice/)).toBeDefined();
+    expect(screen.getByText('TLS 1.0 enabled')).toBeDefined();
+  });
+});
@@ -1,47 +1,128 @@
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAppState } from '../../context/AppStateContext';
 import CategoryRadarChart from '../CategoryRadarChart';
 import { interpretScannerResult } from '../../utils/scanners';
-import { exportToWord } from '../../utils/exportReport';
+import { exportToDocx } from '../../utils/exportDocx';
+import { exportToPdf } from '../../utils/exportPdf';
+import { captureChartImage, ChartImage, rasterizeImage } from '../../utils/chartImage';
+import { getContactLines } from '../../utils/branding';
 import { TrackedButton } from '../TrackedButton';
 import { TrackedLink } from '../TrackedLink';
 import { renderIssueWithLinks } from '../../utils/text';
+import { getLatestSnapshot } from '../../utils/assessmentHistory';
+import ScoringMethod from '../ScoringMethod';
+import CompositeScore from '../CompositeScore';
+import RemediationPlan from '../RemediationPlan';
+import ComplianceCoverage from '../ComplianceCoverage';
+import EvidenceAppendix from '../EvidenceAppendix';
+import PassphraseDialog from '../PassphraseDialog';
+import { encryptExport } from '../../utils/exportEncryption';
+import { getScanProfileLine } from '../../utils/exportReport';
+import { getAnswerStateSummary } from '../../utils/answerStates';
 import Footer from '../Footer';
 
 const Report: React.FC = () => {
   const { t } = useTranslation('common');
   const { t: tScanners } = useTranslation('scanners');
-  const { score, risks, bestPractices, domainScanAggregate, exportJSON } = useAppState();
+  const {
+    score, risks, bestPractices, domainScanAggregate, exportJSON, recordReport, snapshots, clients, activeClientId,
+    branding, compositeScore, remediationPlan, riskRecommendations, complianceCoverage, answers, questions
+  } = useAppState();
   const reportRef = useRef<HTMLDivElement | null>(null);
+  const [compareToPrevious, setCompareToPrevious] = useState(false);
+  const [encryptOpen, setEncryptOpen] = useState(false);
+  const [encryptError, setEncryptError] = useState<string | null>(null);
+  const previousSnapshot = getLatestSnapshot(snapshots);
+  const answerStates = getAnswerStateSummary(answers, questions);
+  const dontKnowRisks = new Set(answerStates.dontKnow.map((q) => q.dontKnowRisk));
 
-  const onExportJSON = () => {
-    const blob = new Blob([exportJSON()], { type: 'application/json' });
+  const downloadJSON = (json: string, filename: string) => {
+    const blob = new Blob([json], { type: 'application/json' });
     const a = document.createElement('a');
     a.href = URL.createObjectURL(blob);
-    a.download = 'risk-assessment.json';
+    a.download = filename;
     a.click();
+    recordReport('json');
+  };
+
+  const onExportJSON = () => downloadJSON(exportJSON(), 'risk-assessment.json');
+
+  const onExportEncrypted = async (passphrase: string) => {
+    try {
+      downloadJSON(await encryptExport(exportJSON(), passphrase), 'risk-assessment.encrypted.json');
+      setEncryptOpen(false);
+      setEncryptError(null);
+    } catch (error) {
+      setEncryptError(error instanceof Error ? error.message : t('passphrase.errorEncrypt'));
+    }
   };
 
   const printScreen = () => {
+    recordReport('print');
     window.print();
   };
 
-  const onExportDOCX = () => {
+  // Rasterize the on-screen radar chart; exports are still produced if this is not possible
+  const captureRadarChart = async (format: 'image/png' | 'image/jpeg'): Promise<ChartImage | undefined> => {
+    const chartSvg = reportRef.current?.querySelector<SVGSVGElement>('.radar-chart-container svg');
+    return chartSvg ? captureChartImage(chartSvg, format) : undefined;
+  };
+
+  const activeClientName = clients.find((c) => c.id === activeClientId)?.name;
+  const contactLines = getContactLines(branding);
+
+  const renderBrandingLogo = async (format: 'image/png' | 'image/jpeg'): Promise<ChartImage | undefined> =>
+    branding.logoDataUrl ? rasterizeImage(branding.logoDataUrl, format) : undefined;
+
+  const onExportDOCX = async () => {
     try {
-      exportToWord({
+      exportToDocx({
         score,
         risks,
         bestPractices,
         domainScanAggregate,
         t,
-        tScanners
+        tScanners,
+        branding,
+        compositeScore,
+        remediationPlan,
+        riskRecommendations,
+        complianceCoverage,
+        chartImage: await captureRadarChart('image/png'),
+        logoImage: await renderBrandingLogo('image/png'),
+        clientName: activeClientName
       });
+      recordReport('word');
     } catch (error) {
       alert(t('report.exportWordError'));
     }
   };
 
+  const onExportPDF = async () => {
+    try {
+      exportToPdf({
+        score,
+        risks,
+        bestPractices,
+        domainScanAggregate,
+        t,
+        tScanners,
+        branding,
+        compositeScore,
+        remediationPlan,
+        riskRecommendations,
+        complianceCoverage,
+        chartImage: await captureRadarChart('image/jpeg'),
+        logoImage: await renderBrandingLogo('image/jpeg'),
+        clientName: activeClientName
+      });
+      recordReport('pdf');
+    } catch (error) {
+      alert(t('report.exportPdfError'));
+    }
+  };
+
   // Determine color based on score
   const getScoreColor = (percent: number) => {
     if (percent >= 80) return 'score-excellent';
@@ -57,14 +138,45 @@ const Report: React.FC = () => {
         <TrackedButton trackingName='export_word' onClick={onExportDOCX}>
           {t('report.exportWord')}
         </TrackedButton>
+        <TrackedButton trackingName='export_pdf' onClick={onExportPDF}>
+          {t('report.exportPDF')}
+        </TrackedButton>
         <TrackedButton trackingName='export_json' onClick={onExportJSON}>
           {t('report.exportJSON')}
         </TrackedButton>
+        <TrackedButton trackingName='export_json_encrypted' onClick={() => setEncryptOpen(true)}>
+          {t('report.exportEncrypted')}
+        </TrackedButton>
         <TrackedButton trackingName='print_report' onClick={printScreen}>
           {t('report.print')}
         </TrackedButton>
       </div>
-      <div ref={reportRef} className='report-content'>
+      <div
+        ref={reportRef}
+        className='report-content'
+        style={branding.accentColor ? { '--accent': branding.accentColor } as React.CSSProperties : undefined}
+      >
+        {(branding.logoDataUrl || branding.companyName || contactLines.length > 0) && (
+          <header className='report-branding'>
+            {branding.logoDataUrl && (
+              <img src={branding.logoDataUrl} alt={branding.companyName} className='report-branding-logo' />
+            )}
+            <div className='report-branding-text'>
+              {branding.companyName && (
+                <div
+                  className='report-branding-name'
+                  style={branding.primaryColor ? { color: branding.primaryColor } : undefined}
+                >
+                  {branding.companyName}
+                </div>
+              )}
+              {contactLines.map((line) => (
+                <div key={line} className='report-branding-contact'>{line}</div>
+              ))}
+            </div>
+          </header>
+        )}
+        {branding.reportTitle && <h2 className='report-branding-title'>{branding.reportTitle}</h2>}
         <section className='report-score-section'>
           <h3>{t('report.overallScore')}</h3>
           <div className={`report-score-display ${getScoreColor(score.percent)}`}>
@@ -77,15 +189,35 @@ const Report: React.FC = () => {
           </div>
         </section>
 
+        <CompositeScore />
+
+        <ScoringMethod />
+
         <section className='report-categories-section'>
           <h3>{t('report.categoryAnalysis')}</h3>
-          <CategoryRadarChart categories={score.categories} />
+          {previousSnapshot && (
+            <label className='report-compare-toggle'>
+              <input
+                type='checkbox'
+                checked={compareToPrevious}
+                onChange={(e) => setCompareToPrevious(e.target.checked)}
+              />
+              {t('report.compareToPrevious', { date: new Date(previousSnapshot.createdAt).toLocaleDateString() })}
+            </label>
+          )}
+          <CategoryRadarChart
+            categories={score.categories}
+            previousCategories={compareToPrevious ? previousSnapshot?.score.categories : undefined}
+          />
 
           <div className='category-details'>
             {score.categories.map((c) => (
               <div key={c.category} className='category-detail-card'>
                 <div className='category-detail-header'>
-                  <span className='category-name'>{c.category}</span>
+                  <span className='category-name'>
+                    {c.category}
+                    {c.packId && <span className='pack-badge'>{t('packs.badge')}</span>}
+                  </span>
                   <span className={`category-score ${getScoreColor(c.percent)}`}>{c.percent}%</span>
                 </div>
                 <div className='category-progress-bar'>
@@ -99,6 +231,8 @@ const Report: React.FC = () => {
           </div>
         </section>
 
+        <ComplianceCoverage />
+
         {domainScanAggregate && (
           <section>
             <h3>{t('report.domainSecurityScan')}</h3>
@@ -116,6 +250,7 @@ const Report: React.FC = () => {
               <p className='scanner-summary-timestamp'>
                 {new Date(domainScanAggregate.timestamp).toLocaleString()}
               </p>
+              <p className='scanner-summary-profile'>{getScanProfileLine(domainScanAggregate, t, tScanners)}</p>
             </div>
 
             <h4>{t('report.scanResults')}</h4>
@@ -166,6 +301,27 @@ const Report: React.FC = () => {
             </div>
           </section>
         )}
+        {(answerStates.notApplicable.length > 0 || answerStates.dontKnow.length > 0) && (
+          <section className='report-answer-states'>
+            <h3>{t('report.answerStates.title')}</h3>
+            {answerStates.dontKnow.length > 0 && (
+              <>
+                <p>{t('report.answerStates.dontKnow', { count: answerStates.dontKnow.length })}</p>
+                <ul>
+                  {answerStates.dontKnow.map((q) => <li key={q.id}>{q.text}</li>)}
+                </ul>
+              </>
+            )}
+            {answerStates.notApplicable.length > 0 && (
+              <>
+                <p>{t('report.answerStates.notApplicable', { count: answerStates.notApplicable.length })}</p>
+                <ul>
+                  {answerStates.notApplicable.map((q) => <li key={q.id}>{q.text}</li>)}
+                </ul>
+              </>
+            )}
+          </section>
+        )}
         <section>
           <h3>{t('report.identifiedRisks')}</h3>
           {risks.length === 0 && <p>{t('report.noRisksYet')}</p>}
@@ -173,7 +329,17 @@ const Report: React.FC = () => {
             <ul className='risks'>
               {risks.map((r) => (
                 <li key={r}>
-                  <div>{r}</div>
+                  <div>
+                    {r}
+                    {dontKnowRisks.has(r) && <span className='answer-state-flag'>{t('report.answerStates.flag')}</span>}
+                  </div>
+                  {riskRecommendations[r]?.length > 0 && (
+                    <ul className='risk-recommendations' aria-label={t('report.nextSteps')}>
+                      {riskRecommendations[r].map((step) => (
+                        <li key={step}>{step}</li>
+                      ))}
+                    </ul>
+                  )}
                 </li>
               ))}
             </ul>
@@ -192,11 +358,24 @@ const Report: React.FC = () => {
             </ul>
           )}
         </section>
+        <RemediationPlan />
+
         <section className='limitations'>
           <h3>{t('report.limitations')}</h3>
-          <p>{t('report.limitationsText')}</p>
+          <p className='report-disclaimer'>{branding.disclaimer || t('report.limitationsText')}</p>
         </section>
+        <EvidenceAppendix />
       </div>
+      <PassphraseDialog
+        isOpen={encryptOpen}
+        mode='encrypt'
+        title={t('passphrase.encryptTitle')}
+        message={t('passphrase.encryptMessage')}
+        submitLabel={t('passphrase.encryptSubmit')}
+        onSubmit={onExportEncrypted}
+        onCancel={() => setEncryptOpen(false)}
+        error={encryptError}
+      />
       <Footer />
     </div>
   );
@@ -1,10 +1,17 @@
 import React from 'react';
-import { render, screen, cleanup } from '@testing-library/react';
+import { render, screen, cleanup, fireEvent, waitFor } from '@testing-library/react';
 
 import Report from './index';
-import { createMockAppState, createSampleScore, createSampleScannerAggregate } from '../../test-utils/appStateHelpers';
+import {
+  createMockAppState,
+  createSampleScore,
+  createSampleScannerAggregate,
+  createSampleSnapshot
+} from '../../test-utils/appStateHelpers';
 import * as AppStateContext from '../../context/AppStateContext';
 import type { AppStateContextValue } from '../../context/AppStateContext';
+import { exportToPdf } from '../../utils/exportPdf';
+import { exportToDocx } from '../../utils/exportDocx';
 
 // Mock Recharts to avoid dimension warnings in tests
 vi.mock('recharts', async () => {
@@ -61,6 +68,14 @@ class ResizeObserverMock {
 global.URL.createObjectURL = vi.fn(() => 'mock-url');
 global.URL.revokeObjectURL = vi.fn();
 
+vi.mock('../../utils/exportPdf', () => ({
+  exportToPdf: vi.fn()
+}));
+
+vi.mock('../../utils/exportDocx', () => ({
+  exportToDocx: vi.fn()
+}));
+
 // Mock the useAppState hook
 vi.mock('../../context/AppStateContext', async () => {
   const actual = await vi.importActual('../../context/AppStateContext');
@@ -164,6 +179,91 @@ describe('Report Component', () => {
       expect(screen.getByText(/Risk 2: Medium severity issue/i)).toBeDefined();
     });
 
+    it('lists recommended next steps under each risk', () => {
+      const score = createSampleScore(40);
+      const mockState = createMockAppState({
+        score,
+        risks: ['MFA is not enforced', 'No risk register'],
+        riskRecommendations: { 'MFA is not enforced': ['Enforce MFA on email and VPN', 'Require MFA for admins'] },
+        bestPractices: []
+      });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      render(<Report />);
+
+      const steps = screen.getByRole('list', { name: 'Recommended next steps' });
+      expect(steps.querySelectorAll('li')).toHaveLength(2);
+      expect(screen.getByText('Enforce MFA on email and VPN')).toBeDefined();
+    });
+
+    it('calls out N/A and Don\'t know answers and flags their risks', () => {
+      const option = { label: 'Yes', value: 'opt1', risk: '', points: 10 };
+      const mockState = createMockAppState({
+        score: createSampleScore(40),
+        questions: [
+          { id: 'mfa', text: 'Is MFA used?', category: 'Access', categoryKey: 'access', options: [option],
+            dontKnowRisk: 'Unknown whether this control is in place: Is MFA used?' },
+          {
+            id: 'vendors', text: 'Are vendors assessed?', category: 'Vendors', categoryKey: 'vendors', options: [option]
+          },
+        ],
+        answers: { mfa: 'unknown', vendors: 'na' },
+        risks: ['Unknown whether this control is in place: Is MFA used?'],
+        bestPractices: []
+      });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      render(<Report />);
+
+      expect(screen.getByText('Not Applicable and Unknown Answers')).toBeDefined();
+      expect(screen.getByText(/1 question was answered "Don't know"/)).toBeDefined();
+      expect(screen.getByText(/1 question was marked "Not applicable"/)).toBeDefined();
+      expect(screen.getByText('Are vendors assessed?')).toBeDefined();
+      expect(screen.getByText('Unverified')).toBeDefined();
+    });
+
+    it('lists notes, owners and evidence in the appendix', () => {
+      const option = { label: 'Yes', value: 'opt1', risk: '', points: 10 };
+      const mockState = createMockAppState({
+        score: createSampleScore(60),
+        questions: [
+          { id: 'mfa', text: 'Is MFA used?', category: 'Access', categoryKey: 'access', options: [option] },
+          { id: 'backup', text: 'Are backups tested?', category: 'Ops', categoryKey: 'ops', options: [option] },
+        ],
+        answers: { mfa: 'opt1' },
+        answerDetails: {
+          mfa: {
+            notes: 'Enforced for admins only',
+            owner: 'IT team',
+            dueDate: '2000-01-01',
+            evidence: [
+              { id: 'e1', name: 'example.com', url: 'https://example.com/mfa', addedAt: '2026-01-01' },
+              { id: 'e2', name: 'policy.pdf', dataUrl: 'data:application/pdf;base64,aGk=', addedAt: '2026-01-01' },
+            ],
+          },
+        },
+      });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      render(<Report />);
+
+      expect(screen.getByText('Appendix: notes and evidence')).toBeDefined();
+      expect(screen.getByText('Enforced for admins only')).toBeDefined();
+      expect(screen.getByText('IT team')).toBeDefined();
+      expect(screen.getByText('Overdue')).toBeDefined();
+      expect(screen.getByText('https://example.com/mfa').getAttribute('rel')).toBe('noopener noreferrer');
+      expect(screen.getByText('policy.pdf (attachment)').getAttribute('download')).toBe('policy.pdf');
+      expect(screen.queryByText('Are backups tested?')).toBeNull();
+    });
+
+    it('omits the appendix when no details were recorded', () => {
+      const mockState = createMockAppState({ score: createSampleScore(60) });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      render(<Report />);
+      expect(screen.queryByText('Appendix: notes and evidence')).toBeNull();
+    });
+
     it('renders empty state message when no risks', () => {
       const score = createSampleScore(90);
       const mockState = createMockAppState({ score, risks: [], bestPractices: [] });
@@ -329,6 +429,60 @@ describe('Report Component', () => {
       expect(mockExportJSON).toHaveBeenCalledTimes(1);
     });
 
+    it('exports a PDF for the active client and records it', async () => {
+      const mockRecordReport = vi.fn();
+      const score = createSampleScore(80);
+      const mockState = createMockAppState({ score, recordReport: mockRecordReport });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      render(<Report />);
+      fireEvent.click(screen.getByText(/Export PDF/i));
+
+      await waitFor(() => expect(mockRecordReport).toHaveBeenCalledWith('pdf'));
+      expect(exportToPdf).toHaveBeenCalledWith(expect.objectContaining({ score, clientName: 'Acme Corp' }));
+    });
+
+    it('exports a .docx document for the active client and records it', async () => {
+      const mockRecordReport = vi.fn();
+      const score = createSampleScore(80);
+      const mockState = createMockAppState({ score, recordReport: mockRecordReport });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      render(<Report />);
+      fireEvent.click(screen.getByText(/Export Word/i));
+
+      await waitFor(() => expect(mockRecordReport).toHaveBeenCalledWith('word'));
+      expect(exportToDocx).toHaveBeenCalledWith(expect.objectContaining({ score, clientName: 'Acme Corp' }));
+    });
+
+    it('shows the branding header and disclaimer and passes branding to exports', async () => {
+      const branding = {
+        companyName: 'Contoso MSP',
+        reportTitle: 'Contoso Security Review',
+        logoDataUrl: '',
+        contact: 'help@contoso.example\n+1 555 0100',
+        primaryColor: '',
+        accentColor: '#AA5500',
+        disclaimer: 'Prepared under the Contoso service agreement.'
+      };
+      const mockRecordReport = vi.fn();
+      const mockState = createMockAppState({ score: createSampleScore(80), branding, recordReport: mockRecordReport });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      const { container } = render(<Report />);
+
+      expect(screen.getByText('Contoso MSP')).toBeDefined();
+      expect(screen.getByText('+1 555 0100')).toBeDefined();
+      expect(screen.getByText('Contoso Security Review')).toBeDefined();
+      expect(screen.getByText('Prepared under the Contoso service agreement.')).toBeDefined();
+      expect((container.querySelector('.report-content') as HTMLElement).style.getPropertyValue('--accent'))
+        .toBe('#AA5500');
+
+      fireEvent.click(screen.getByText(/Export PDF/i));
+      await waitFor(() => expect(mockRecordReport).toHaveBeenCalledWith('pdf'));
+      expect(exportToPdf).toHaveBeenCalledWith(expect.objectContaining({ branding }));
+    });
+
     it('does not render export buttons when no score', () => {
       const emptyScore = {
         total: 0,
@@ -373,4 +527,28 @@ describe('Report Component', () => {
       expect(screen.getByText(/Export JSON/i)).toBeDefined();
     });
   });
+
+  describe('Compare to Previous Snapshot', () => {
+    it('hides the comparison toggle when there are no snapshots', () => {
+      const mockState = createMockAppState({ score: createSampleScore(75) });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      render(<Report />);
+      expect(screen.queryByLabelText(/Compare to previous snapshot/i)).toBeNull();
+    });
+
+    it('offers the comparison toggle when a snapshot exists', () => {
+      const mockState = createMockAppState({
+        score: createSampleScore(75),
+        snapshots: [createSampleSnapshot({ score: createSampleScore(50) })]
+      });
+      vi.mocked(AppStateContext.useAppState).mockReturnValue(mockState as unknown as AppStateContextValue);
+
+      render(<Report />);
+      const toggle = screen.getByLabelText(/Compare to previous snapshot/i) as HTMLInputElement;
+      expect(toggle.checked).toBe(false);
+      fireEvent.click(toggle);
+      expect(toggle.checked).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,232 @@
+import React, { ChangeEvent, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { useMigrateAnswers } from '../../utils/answerMigration';
+import { computeScore } from '../../utils/scoring';
+import { isAnswerState } from '../../utils/answerStates';
+import { MAX_RESPONDENTS, getReconciliation, parseRespondentFile } from '../../utils/respondents';
+import { Question } from '../../types/questions';
+import { Respondent } from '../../types/respondents';
+import { TrackedButton } from '../TrackedButton';
+import ConfirmDialog from '../ConfirmDialog';
+import { Toast, ToastType } from '../Toast';
+import Footer from '../Footer';
+
+interface ToastState {
+  message: string;
+  type: ToastType;
+}
+
+/**
+ * Collect answer sets from several respondents, compare them per question and reconcile the final answers
+ */
+const Respondents: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { t: tQuestions } = useTranslation('questions');
+  const {
+    questions, rawQuestions, answers, setAnswer, score, scoringModel, categoryWeights,
+    respondents, scoreRange, addRespondent, removeRespondent
+  } = useAppState();
+  const migrate = useMigrateAnswers();
+  const [name, setName] = useState('');
+  const [disagreementsOnly, setDisagreementsOnly] = useState(true);
+  const [pendingRemoval, setPendingRemoval] = useState<Respondent | null>(null);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reconciliation = useMemo(() => getReconciliation(questions, respondents), [questions, respondents]);
+  const disagreements = reconciliation.filter((r) => r.disagreement);
+  const shown = disagreementsOnly ? disagreements : reconciliation;
+  // Includes questions all respondents agree on but whose final answer is still missing or different
+  const consensusChanges = reconciliation.filter((r) => answers[r.question.id] !== r.consensus);
+
+  const answerLabel = (question: Question, value: string | undefined) => {
+    if (!value) return t('respondents.unanswered');
+    if (isAnswerState(value)) return tQuestions(`answerStates.${value}`);
+    return question.options.find((o) => o.value === value)?.label ?? value;
+  };
+
+  const handleFileUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (respondents.length >= MAX_RESPONDENTS) {
+      setToast({ message: t('respondents.errorTooMany', { max: MAX_RESPONDENTS }), type: 'error' });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = parseRespondentFile(e.target?.result as string, (a) => migrate(a, rawQuestions).answers);
+      if (!result.success || !result.answers) {
+        setToast({ message: `${t('respondents.errorInvalid')} ${result.error ?? ''}`, type: 'error' });
+        return;
+      }
+      const respondent = addRespondent(name.trim() || result.name || file.name.replace(/\.json$/i, ''), result.answers);
+      setName('');
+      setToast({ message: t('respondents.added', { name: respondent.name }), type: 'success' });
+    };
+    reader.onerror = () => {
+      setToast({ message: t('respondents.errorFileRead'), type: 'error' });
+    };
+    reader.readAsText(file);
+  };
+
+  const applyConsensus = () => {
+    consensusChanges.forEach((r) => setAnswer(r.question.id, r.consensus));
+    setToast({ message: t('respondents.consensusApplied', { count: consensusChanges.length }), type: 'success' });
+  };
+
+  const onConfirmRemove = () => {
+    if (pendingRemoval) removeRespondent(pendingRemoval.id);
+    setPendingRemoval(null);
+  };
+
+  return (
+    <div className='panel respondents-panel'>
+      <h2>{t('respondents.title')}</h2>
+      <p>{t('respondents.description')}</p>
+
+      <div className='actions'>
+        <input
+          type='text'
+          value={name}
+          maxLength={100}
+          placeholder={t('respondents.namePlaceholder')}
+          aria-label={t('respondents.name')}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <TrackedButton
+          type='button'
+          trackingName='respondent_upload'
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {t('respondents.upload')}
+        </TrackedButton>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='.json,application/json'
+          aria-label={t('respondents.upload')}
+          onChange={handleFileUpload}
+          className='hidden-file-input'
+        />
+      </div>
+
+      {respondents.length === 0 ? (
+        <p className='respondents-empty'>{t('respondents.empty')}</p>
+      ) : (
+        <>
+          <ul className='respondents-list'>
+            {respondents.map((r) => (
+              <li key={r.id}>
+                <span className='respondents-name'>{r.name}</span>
+                <span className='respondents-meta'>
+                  {t('respondents.answered', { count: Object.keys(r.answers).length })}
+                  {' · '}
+                  {t('respondents.score', {
+                    percent: computeScore(r.answers, questions, { model: scoringModel, categoryWeights }).percent
+                  })}
+                </span>
+                <button type='button' className='btn-secondary' onClick={() => setPendingRemoval(r)}>
+                  {t('respondents.remove')}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {scoreRange && (
+            <div className='progress-stats respondents-range'>
+              <div className='stat-card'>
+                <div className='stat-label'>{t('respondents.range.min')}</div>
+                <div className='stat-value'>{scoreRange.min}%</div>
+              </div>
+              <div className='stat-card'>
+                <div className='stat-label'>{t('respondents.range.max')}</div>
+                <div className='stat-value'>{scoreRange.max}%</div>
+              </div>
+              <div className='stat-card'>
+                <div className='stat-label'>{t('respondents.range.consensus')}</div>
+                <div className='stat-value'>{scoreRange.consensus}%</div>
+              </div>
+              <div className='stat-card'>
+                <div className='stat-label'>{t('respondents.range.final')}</div>
+                <div className='stat-value'>{score.percent}%</div>
+              </div>
+            </div>
+          )}
+
+          <h3>{t('respondents.reconcileTitle')}</h3>
+          <p>{t('respondents.disagreementSummary', { count: disagreements.length, total: reconciliation.length })}</p>
+          <div className='actions'>
+            <label>
+              <input
+                type='checkbox'
+                checked={disagreementsOnly}
+                onChange={(e) => setDisagreementsOnly(e.target.checked)}
+              />{' '}
+              {t('respondents.disagreementsOnly')}
+            </label>
+            {consensusChanges.length > 0 && (
+              <button type='button' onClick={applyConsensus}>{t('respondents.applyConsensus')}</button>
+            )}
+          </div>
+
+          <ul className='reconcile-list'>
+            {shown.map(({ question, responses, values, consensus, disagreement }) => (
+              <li key={question.id} className={disagreement ? 'reconcile-item disagreement' : 'reconcile-item'}>
+                <div className='reconcile-question'>{question.text}</div>
+                <ul className='reconcile-responses'>
+                  {respondents.map((r) => (
+                    <li key={r.id}>{r.name}: {answerLabel(question, responses[r.id])}</li>
+                  ))}
+                </ul>
+                <div className='reconcile-final'>
+                  {t('respondents.finalAnswer')}: <strong>{answerLabel(question, answers[question.id])}</strong>
+                </div>
+                <div className='reconcile-choices'>
+                  {values.map((value) => (
+                    <button
+                      key={value}
+                      type='button'
+                      className='btn-secondary'
+                      aria-pressed={answers[question.id] === value}
+                      onClick={() => setAnswer(question.id, value)}
+                    >
+                      {t('respondents.use', { answer: answerLabel(question, value) })}
+                      {value === consensus && disagreement && (
+                        <span className='reconcile-consensus'>{t('respondents.consensus')}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={pendingRemoval !== null}
+        title={t('respondents.removeTitle')}
+        message={t('respondents.removeMessage', { name: pendingRemoval?.name ?? '' })}
+        confirmLabel={t('respondents.remove')}
+        cancelLabel={t('buttons.cancel')}
+        onConfirm={onConfirmRemove}
+        onCancel={() => setPendingRemoval(null)}
+        variant='danger'
+      />
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+      <Footer />
+    </div>
+  );
+};
+
+export default Respondents;
@@ -0,0 +1,138 @@
+import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
+import Respondents from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+import type { Question, RawQuestion } from '../../types/questions';
+import type { Respondent } from '../../types/respondents';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+// Mock HTMLDialogElement methods for jsdom
+beforeAll(() => {
+  HTMLDialogElement.prototype.showModal = vi.fn(function (this: HTMLDialogElement) {
+    this.open = true;
+  });
+  HTMLDialogElement.prototype.close = vi.fn(function (this: HTMLDialogElement) {
+    this.open = false;
+  });
+});
+
+const question = (id: string, text: string): Question => ({
+  id,
+  text,
+  category: 'Access',
+  categoryKey: 'access',
+  options: [
+    { label: 'No', value: 'opt0', risk: '', points: 0 },
+    { label: 'Yes', value: 'opt1', risk: '', points: 10 },
+  ],
+});
+
+const questions = [question('mfa', 'Is MFA enforced?'), question('backup', 'Are backups tested?')];
+const respondents: Respondent[] = [
+  { id: 'r1', name: 'IT lead', importedAt: '2026-01-01', answers: { mfa: 'opt1', backup: 'opt1' } },
+  { id: 'r2', name: 'Owner', importedAt: '2026-01-01', answers: { mfa: 'opt0', backup: 'opt1' } },
+];
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({
+    questions,
+    setAnswer: vi.fn(),
+    addRespondent: vi.fn((name: string, answers: Record<string, string>) => ({
+      id: 'r3', name, importedAt: '2026-01-01', answers
+    })),
+    removeRespondent: vi.fn(),
+    ...overrides
+  });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('Respondents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('imports a respondent from an exported JSON file', async () => {
+    const state = mockState();
+    render(<Respondents />);
+    expect(screen.getByText(/No respondents imported yet/)).toBeDefined();
+
+    fireEvent.change(screen.getByLabelText('Respondent name'), { target: { value: 'Office manager' } });
+    const file = new File([JSON.stringify({ version: 2, answers: { mfa: 'opt1' } })], 'om.json');
+    fireEvent.change(screen.getByLabelText('Import respondent (JSON)'), { target: { files: [file] } });
+
+    await waitFor(() => expect(state.addRespondent).toHaveBeenCalledWith('Office manager', { mfa: 'opt1' }));
+    expect(await screen.findByText('Added respondent "Office manager".')).toBeDefined();
+  });
+
+  it('migrates version 1 files against the enabled pack questions too', async () => {
+    const rawQuestion = (id: string, packId?: string): RawQuestion => ({
+      id, text: id, category: 'Access', packId, options: [{ id: 'opt0' }, { id: 'opt1' }],
+    });
+    const state = mockState({ rawQuestions: [rawQuestion('mfa'), rawQuestion('pack-q', 'hipaa')] });
+    render(<Respondents />);
+
+    const file = new File([JSON.stringify({ answers: { mfa: 'opt1', 'pack-q': 'opt0', removed: 'opt1' } })], 'v1.json');
+    fireEvent.change(screen.getByLabelText('Import respondent (JSON)'), { target: { files: [file] } });
+
+    await waitFor(() => expect(state.addRespondent).toHaveBeenCalledWith('v1', { mfa: 'opt1', 'pack-q': 'opt0' }));
+  });
+
+  it('shows disagreements with the score range and reconciles answers', () => {
+    const state = mockState({
+      respondents,
+      answers: { backup: 'opt1' },
+      scoreRange: { min: 50, max: 100, consensus: 50 },
+    });
+    render(<Respondents />);
+
+    expect(screen.getByText('Lowest respondent score')).toBeDefined();
+    expect(screen.getByText('Respondents disagree on 1 of 2 answered questions.')).toBeDefined();
+    expect(screen.getByText('Is MFA enforced?')).toBeDefined();
+    expect(screen.queryByText('Are backups tested?')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Use "Yes"' }));
+    expect(state.setAnswer).toHaveBeenCalledWith('mfa', 'opt1');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply consensus answers' }));
+    expect(state.setAnswer).toHaveBeenLastCalledWith('mfa', 'opt0');
+    expect(screen.getByText('Applied the consensus answer to 1 question.')).toBeDefined();
+
+    fireEvent.click(screen.getByLabelText('Show disagreements only'));
+    expect(screen.getByText('Are backups tested?')).toBeDefined();
+  });
+
+  it('applies the consensus to unanswered questions all respondents agree on', () => {
+    const agreeing = respondents.map((r) => ({ ...r, answers: { mfa: 'opt1', backup: 'opt1' } }));
+    const state = mockState({ respondents: agreeing, answers: { mfa: 'opt1' } });
+    render(<Respondents />);
+
+    expect(screen.getByText('Respondents disagree on 0 of 2 answered questions.')).toBeDefined();
+    fireEvent.click(screen.getByRole('button', { name: 'Apply consensus answers' }));
+    expect(state.setAnswer).toHaveBeenCalledTimes(1);
+    expect(state.setAnswer).toHaveBeenCalledWith('backup', 'opt1');
+    expect(screen.getByText('Applied the consensus answer to 1 question.')).toBeDefined();
+  });
+
+  it('removes a respondent after confirmation', () => {
+    const state = mockState({ respondents });
+    render(<Respondents />);
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Remove respondent' })[0]);
+    const dialogButtons = screen.getAllByRole('button', { name: 'Remove respondent', hidden: true });
+    fireEvent.click(dialogButtons[dialogButtons.length - 1]);
+    expect(state.removeRespondent).toHaveBeenCalledWith('r1');
+  });
+});
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { scannerCache } from '../../utils/scannerCache';
+import { TrackedButton } from '../TrackedButton';
+
+const readState = () => ({
+  stats: scannerCache.getStats(),
+  rateLimit: scannerCache.getRateLimitStatus(),
+});
+
+// Lists cached scanner results with their remaining lifetime and shows how much of the scan rate limit is used
+const ScanCachePanel: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { t: tScanners } = useTranslation('scanners');
+  const [{ stats, rateLimit }, setState] = useState(readState);
+
+  useEffect(() => {
+    const refresh = () => setState(readState());
+    const unsubscribe = scannerCache.subscribe(refresh);
+    // Ages are shown in minutes and the rate limit window is one minute
+    const timer = setInterval(refresh, 30 * 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, []);
+
+  return (
+    <details className='scan-cache-panel'>
+      <summary>{t('scanCache.title', { count: stats.size })}</summary>
+      <p className='scan-cache-rate'>
+        {t('scanCache.rateLimit', { used: rateLimit.used, limit: rateLimit.limit })}
+        {rateLimit.used > 0 && ` ${t('scanCache.rateLimitReset', { seconds: rateLimit.resetIn })}`}
+      </p>
+      {stats.size === 0 ? (
+        <p className='scan-cache-empty'>{t('scanCache.empty')}</p>
+      ) : (
+        <table className='scan-cache-table'>
+          <thead>
+            <tr>
+              <th>{t('scanCache.domain')}</th>
+              <th>{t('scanCache.scanner')}</th>
+              <th>{t('scanCache.age')}</th>
+              <th>{t('scanCache.expiresIn')}</th>
+              <th>{t('scanCache.actions')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.entries.map((entry) => {
+              const scanner = entry.scannerId ? tScanners(`${entry.scannerId}.label`) : t('scanCache.wholeScan');
+              return (
+                <tr key={`${entry.domain}#${entry.scannerId ?? ''}`}>
+                  <td>{entry.domain}</td>
+                  <td>{scanner}</td>
+                  <td>{t('scanCache.minutes', { count: entry.age })}</td>
+                  <td>{t('scanCache.minutes', { count: entry.expiresIn })}</td>
+                  <td>
+                    <TrackedButton
+                      type='button'
+                      className='btn-secondary'
+                      trackingName='scan_cache_purge_entry'
+                      aria-label={t('scanCache.purgeEntry', { scanner, domain: entry.domain })}
+                      onClick={() => scannerCache.delete(entry.domain, entry.scannerId)}
+                    >
+                      {t('scanCache.purge')}
+                    </TrackedButton>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <TrackedButton
+        type='button'
+        className='btn-secondary'
+        trackingName='scan_cache_purge_all'
+        disabled={stats.size === 0}
+        onClick={() => scannerCache.purge()}
+      >
+        {t('scanCache.purgeAll')}
+      </TrackedButton>
+    </details>
+  );
+};
+
+export default ScanCachePanel;
@@ -0,0 +1,49 @@
+import { render, screen, fireEvent, cleanup, act } from '@testing-library/react';
+import ScanCachePanel from './index';
+import { scannerCache } from '../../utils/scannerCache';
+
+describe('ScanCachePanel', () => {
+  beforeEach(() => {
+    scannerCache.clear();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('lists cached results with their scanner, age and remaining lifetime', () => {
+    scannerCache.set('example.com', { data: 'a' }, 15 * 60 * 1000, { scannerId: 'dns' });
+    scannerCache.checkRateLimit();
+    render(<ScanCachePanel />);
+
+    expect(screen.getByText('Scan cache (1 result)')).toBeTruthy();
+    expect(screen.getByText('example.com')).toBeTruthy();
+    expect(screen.getByText('DNS Records')).toBeTruthy();
+    expect(screen.getByText('15 min')).toBeTruthy();
+    expect(screen.getByText(/1 of 5 scans used this minute/)).toBeTruthy();
+  });
+
+  it('purges one entry or all of them', () => {
+    scannerCache.set('one.com', { data: 'a' }, undefined, { scannerId: 'dns' });
+    scannerCache.set('two.com', { data: 'b' });
+    render(<ScanCachePanel />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Purge cached DNS Records result for one.com' }));
+    expect(screen.queryByText('one.com')).toBeNull();
+    expect(scannerCache.get('two.com')).toEqual({ data: 'b' });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Purge all' }));
+    expect(screen.getByText('No cached scan results.')).toBeTruthy();
+    expect(scannerCache.getStats().size).toBe(0);
+  });
+
+  it('updates when a scan is cached', () => {
+    render(<ScanCachePanel />);
+    expect(screen.getByText('Scan cache (0 results)')).toBeTruthy();
+
+    act(() => {
+      scannerCache.set('example.com', { data: 'a' });
+    });
+    expect(screen.getByText('Scan cache (1 result)')).toBeTruthy();
+  });
+});
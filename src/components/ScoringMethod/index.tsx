@@ -0,0 +1,73 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { getQuestionWeight, ScoringModel } from '../../utils/scoring';
+
+const MODELS: ScoringModel[] = ['equal', 'weighted'];
+
+const formatWeight = (weight: number) => `×${+weight.toFixed(2)}`;
+
+/**
+ * Explains how the overall score is calculated and lets the user switch scoring model
+ */
+const ScoringMethod: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { score, scoringModel, setScoringModel, questions } = useAppState();
+
+  const weightedQuestions = questions
+    .map((q) => ({ id: q.id, text: q.text, weight: getQuestionWeight(q) }))
+    .filter((q) => q.weight !== 1)
+    .sort((a, b) => b.weight - a.weight);
+
+  return (
+    <section className='report-scoring'>
+      <h3>{t('report.scoring.title')}</h3>
+      <label className='scoring-model-select'>
+        {t('report.scoring.modelLabel')}{' '}
+        <select value={scoringModel} onChange={(e) => setScoringModel(e.target.value as ScoringModel)}>
+          {MODELS.map((model) => (
+            <option key={model} value={model}>{t(`report.scoring.models.${model}`)}</option>
+          ))}
+        </select>
+      </label>
+      <p className='scoring-explanation'>{t(`report.scoring.explanation.${scoringModel}`)}</p>
+
+      {scoringModel === 'weighted' && (
+        <>
+          <table className='scoring-weights-table'>
+            <thead>
+              <tr>
+                <th>{t('report.wordExport.category')}</th>
+                <th>{t('report.scoring.categoryWeight')}</th>
+                <th>{t('report.scoring.categoryScore')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {score.categories.map((c) => (
+                <tr key={c.key ?? c.category}>
+                  <td>{c.category}</td>
+                  <td>{formatWeight(c.weight ?? 1)}</td>
+                  <td>{c.percent}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {weightedQuestions.length > 0 && (
+            <>
+              <h4>{t('report.scoring.questionWeights')}</h4>
+              <ul className='scoring-question-weights'>
+                {weightedQuestions.map((q) => (
+                  <li key={q.id}>
+                    <span className='scoring-weight-badge'>{formatWeight(q.weight)}</span> {q.text}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ScoringMethod;
@@ -0,0 +1,78 @@
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import ScoringMethod from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+import type { Question } from '../../types/questions';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+const questions: Question[] = [
+  {
+    id: 'mfa',
+    text: 'Is MFA used?',
+    category: 'Access',
+    categoryKey: 'access',
+    weight: 3,
+    options: [{ label: 'Yes', value: 'yes', risk: '', points: 100 }]
+  },
+  {
+    id: 'reviews',
+    text: 'Are access rights reviewed?',
+    category: 'Access',
+    categoryKey: 'access',
+    options: [{ label: 'Yes', value: 'yes', risk: '', points: 100 }]
+  },
+];
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const state = createMockAppState({ questions, setScoringModel: vi.fn(), ...overrides });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(state as unknown as AppStateContextValue);
+  return state;
+};
+
+describe('ScoringMethod', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('explains the standard model without listing weights', () => {
+    mockState();
+    render(<ScoringMethod />);
+    expect(screen.getByText(/Every question counts the same/)).toBeDefined();
+    expect(screen.queryByText('Is MFA used?')).toBeNull();
+  });
+
+  it('lists category and question weights under the weighted model', () => {
+    mockState({
+      scoringModel: 'weighted',
+      score: {
+        total: 75,
+        max: 100,
+        percent: 75,
+        model: 'weighted',
+        categories: [{ category: 'Access', key: 'access', total: 300, max: 400, percent: 75, weight: 1.5 }]
+      }
+    });
+    render(<ScoringMethod />);
+    expect(screen.getByText(/Questions with a higher weight count more/)).toBeDefined();
+    expect(screen.getByText('×1.5')).toBeDefined();
+    expect(screen.getByText('×3')).toBeDefined();
+    expect(screen.getByText('Is MFA used?')).toBeDefined();
+    // Questions at the default weight are not listed
+    expect(screen.queryByText('Are access rights reviewed?')).toBeNull();
+  });
+
+  it('switches the scoring model', () => {
+    const state = mockState();
+    render(<ScoringMethod />);
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'weighted' } });
+    expect(state.setScoringModel).toHaveBeenCalledWith('weighted');
+  });
+});
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppState } from '../../context/AppStateContext';
+import { MAX_SHARE_TOKEN_LENGTH, buildShareUrl, encodeShareToken } from '../../utils/shareLink';
+import { trackEvent } from '../../utils/analytics';
+
+/**
+ * Builds a link that carries the current answers (and optionally the scanned domain) in its fragment
+ */
+const ShareLink: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { answers, domainScanAggregate } = useAppState();
+  const [includeDomain, setIncludeDomain] = useState(true);
+  const [url, setUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const domain = domainScanAggregate?.domain;
+  const answerCount = Object.keys(answers).length;
+
+  const onCreate = async () => {
+    const token = await encodeShareToken(answers, includeDomain ? domain : undefined);
+    if (token.length > MAX_SHARE_TOKEN_LENGTH) {
+      setUrl(null);
+      setStatus(t('shareLink.tooLong'));
+      return;
+    }
+    const shareUrl = buildShareUrl(token);
+    setUrl(shareUrl);
+    trackEvent('share_link_created', { answer_count: answerCount, includes_domain: includeDomain && !!domain });
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setStatus(t('shareLink.copied'));
+    } catch {
+      // Clipboard access can be denied; the link is still shown for manual copying
+      setStatus(t('shareLink.copyManually'));
+    }
+  };
+
+  return (
+    <div className='share-link'>
+      <div className='share-link-actions'>
+        <button type='button' className='btn-secondary' onClick={onCreate} disabled={answerCount === 0}>
+          {t('shareLink.create')}
+        </button>
+        {domain && (
+          <label>
+            <input type='checkbox' checked={includeDomain} onChange={(e) => setIncludeDomain(e.target.checked)} />{' '}
+            {t('shareLink.includeDomain', { domain })}
+          </label>
+        )}
+      </div>
+      {url && (
+        <input
+          type='text'
+          className='share-link-url'
+          value={url}
+          readOnly
+          aria-label={t('shareLink.url')}
+          onFocus={(e) => e.target.select()}
+        />
+      )}
+      {status && <p className='share-link-status' role='status'>{status}</p>}
+    </div>
+  );
+};
+
+export default ShareLink;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAppState } from '../../context/AppStateContext';
+import {
+  SharePayload,
+  decodeShareToken,
+  getShareTokenFromHash,
+  sharePayloadToImportJSON
+} from '../../utils/shareLink';
+import ConfirmDialog from '../ConfirmDialog';
+import Footer from '../Footer';
+
+type DecodeState =
+  | { status: 'loading' }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; payload: SharePayload };
+
+/**
+ * Landing page for shareable links: decodes the answers in the URL fragment and loads them only after
+ * the user confirms
+ */
+const SharedAssessment: React.FC = () => {
+  const { t } = useTranslation('common');
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const { importJSON, answers, clients, activeClientId } = useAppState();
+  const [state, setState] = useState<DecodeState>({ status: 'loading' });
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const activeClientName = clients.find((c) => c.id === activeClientId)?.name ?? '';
+
+  useEffect(() => {
+    let cancelled = false;
+    const token = getShareTokenFromHash(hash);
+    if (!token) {
+      setState({ status: 'error', error: t('sharedAssessment.missing') });
+      return;
+    }
+    decodeShareToken(token).then((result) => {
+      if (cancelled) return;
+      setState(result.success && result.payload
+        ? { status: 'ready', payload: result.payload }
+        : { status: 'error', error: result.error ?? '' });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash, t]);
+
+  const load = (asNewClient: boolean) => {
+    if (state.status !== 'ready') return;
+    setConfirmReplace(false);
+    const result = importJSON(sharePayloadToImportJSON(state.payload), { asNewClient });
+    if (!result.success) {
+      setImportError(result.error ?? '');
+      return;
+    }
+    if (asNewClient) {
+      navigate('/clients', { replace: true });
+    } else if (state.payload.domain) {
+      // The domain is only a suggestion; scanning it is left to the user
+      navigate('/domain', { replace: true, state: { domain: state.payload.domain } });
+    } else {
+      navigate('/questionnaire', { replace: true });
+    }
+  };
+
+  const onLoadIntoCurrent = () => {
+    if (Object.keys(answers).length > 0) {
+      setConfirmReplace(true);
+    } else {
+      load(false);
+    }
+  };
+
+  return (
+    <div className='panel shared-assessment-panel'>
+      <h2>{t('sharedAssessment.title')}</h2>
+      {state.status === 'loading' && <p>{t('sharedAssessment.loading')}</p>}
+      {state.status === 'error' && (
+        <p className='shared-assessment-error' role='alert'>
+          {t('sharedAssessment.invalid')} {state.error}
+        </p>
+      )}
+      {state.status === 'ready' && (
+        <>
+          <p>{t('sharedAssessment.summary', { count: Object.keys(state.payload.answers).length })}</p>
+          {state.payload.domain && (
+            <p>{t('sharedAssessment.domain', { domain: state.payload.domain })}</p>
+          )}
+          <p className='shared-assessment-note'>{t('sharedAssessment.note')}</p>
+          <div className='actions'>
+            <button type='button' onClick={onLoadIntoCurrent}>
+              {t('sharedAssessment.loadCurrent', { name: activeClientName })}
+            </button>
+            <button type='button' className='btn-secondary' onClick={() => load(true)}>
+              {t('sharedAssessment.loadNewClient')}
+            </button>
+            <button type='button' className='btn-secondary' onClick={() => navigate('/', { replace: true })}>
+              {t('buttons.cancel')}
+            </button>
+          </div>
+          {importError !== null && (
+            <p className='shared-assessment-error' role='alert'>{t('sharedAssessment.invalid')} {importError}</p>
+          )}
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmReplace}
+        title={t('sharedAssessment.replaceTitle')}
+        message={t('sharedAssessment.replaceMessage', { name: activeClientName })}
+        confirmLabel={t('sharedAssessment.replaceConfirm')}
+        cancelLabel={t('buttons.cancel')}
+        onConfirm={() => load(false)}
+        onCancel={() => setConfirmReplace(false)}
+        variant='danger'
+      />
+      <Footer />
+    </div>
+  );
+};
+
+export default SharedAssessment;
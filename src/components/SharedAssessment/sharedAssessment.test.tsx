@@ -0,0 +1,96 @@
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import SharedAssessment from './index';
+import { createMockAppState } from '../../test-utils/appStateHelpers';
+import * as AppStateContext from '../../context/AppStateContext';
+import type { AppStateContextValue } from '../../context/AppStateContext';
+import { encodeShareToken } from '../../utils/shareLink';
+
+vi.mock('../../context/AppStateContext', async () => {
+  const actual = await vi.importActual('../../context/AppStateContext');
+  return {
+    ...actual,
+    useAppState: vi.fn()
+  };
+});
+
+// Mock HTMLDialogElement methods for jsdom
+beforeAll(() => {
+  HTMLDialogElement.prototype.showModal = vi.fn(function (this: HTMLDialogElement) {
+    this.open = true;
+  });
+  HTMLDialogElement.prototype.close = vi.fn(function (this: HTMLDialogElement) {
+    this.open = false;
+  });
+});
+
+const mockState = (overrides: Parameters<typeof createMockAppState>[0] = {}) => {
+  const importJSON = vi.fn(() => ({ success: true }));
+  const state = createMockAppState({ ...overrides });
+  vi.mocked(AppStateContext.useAppState).mockReturnValue(
+    { ...state, importJSON } as unknown as AppStateContextValue
+  );
+  return importJSON;
+};
+
+const Destination = () => {
+  const location = useLocation();
+  return <p>At {location.pathname} {(location.state as { domain?: string } | null)?.domain}</p>;
+};
+
+const renderAt = (hash: string) => render(
+  <MemoryRouter initialEntries={[`/share${hash}`]}>
+    <Routes>
+      <Route path='/share' element={<SharedAssessment />} />
+      <Route path='*' element={<Destination />} />
+    </Routes>
+  </MemoryRouter>
+);
+
+describe('SharedAssessment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('loads shared answers into the current client after confirmation', async () => {
+    const importJSON = mockState({ answers: { q1: 'opt0' } });
+    renderAt(`#data=${await encodeShareToken({ q1: 'opt2', q2: 'opt1' }, 'example.com')}`);
+
+    expect(await screen.findByText('This link contains 2 answers.')).toBeDefined();
+    expect(screen.getByText('It also suggests scanning example.com.')).toBeDefined();
+    expect(importJSON).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Load into Acme Corp' }));
+    expect(importJSON).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: 'Replace answers', hidden: true }));
+
+    expect(importJSON).toHaveBeenCalledWith(
+      JSON.stringify({ version: 2, answers: { q1: 'opt2', q2: 'opt1' } }),
+      { asNewClient: false }
+    );
+    expect(screen.getByText('At /domain example.com')).toBeDefined();
+  });
+
+  it('can load the answers as a new client', async () => {
+    const importJSON = mockState();
+    renderAt(`#data=${await encodeShareToken({ q1: 'opt2' })}`);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Load as a new client' }));
+    expect(importJSON).toHaveBeenCalledWith(expect.any(String), { asNewClient: true });
+    expect(screen.getByText(/At \/clients/)).toBeDefined();
+  });
+
+  it('reports links that are missing or cannot be decoded', async () => {
+    mockState();
+    renderAt('#data=zAAAA');
+    expect((await screen.findByRole('alert')).textContent).toMatch(/cannot be loaded\. Invalid share link/);
+    cleanup();
+
+    renderAt('');
+    expect((await screen.findByRole('alert')).textContent).toMatch(/does not contain any assessment data/);
+  });
+});
@@ -0,0 +1,22 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { storage, useStorageError } from '../../utils/storage';
+
+// Tells the user when changes could not be saved, e.g. because the browser's storage quota is used up
+const StorageWarning: React.FC = () => {
+  const { t } = useTranslation('common');
+  const error = useStorageError();
+
+  if (!error) return null;
+
+  return (
+    <div className='warning storage-warning' role='alert'>
+      <span>{error === 'quota' ? t('storage.quotaError') : t('storage.writeError')}</span>
+      <button type='button' className='btn-secondary' onClick={() => storage.clearError()}>
+        {t('buttons.close')}
+      </button>
+    </div>
+  );
+};
+
+export default StorageWarning;
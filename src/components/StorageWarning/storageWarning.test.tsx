@@ -0,0 +1,31 @@
+import { render, screen, fireEvent, cleanup, act } from '@testing-library/react';
+import StorageWarning from './index';
+import { storage } from '../../utils/storage';
+
+describe('StorageWarning', () => {
+  afterEach(() => {
+    cleanup();
+    storage.clearError();
+    vi.restoreAllMocks();
+  });
+
+  it('shows nothing until a write fails', () => {
+    render(<StorageWarning />);
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+
+  it('explains a full quota and can be dismissed', () => {
+    render(<StorageWarning />);
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Storage is full', 'QuotaExceededError');
+    });
+
+    act(() => {
+      expect(() => storage.setItem('risk_answers_v2', '{}')).toThrow();
+    });
+    expect(screen.getByRole('alert').textContent).toMatch(/Browser storage is full/);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import React, { FormEvent, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import ConfirmDialog from '../ConfirmDialog';
+import { scannerCache } from '../../utils/scannerCache';
+import { storage } from '../../utils/storage';
+import { useVaultStatus, vault, VAULT_KEY } from '../../utils/vault';
+
+// Any of these counts as activity and restarts the auto-lock timer
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+const VaultUnlock: React.FC = () => {
+  const { t } = useTranslation('common');
+  const [passphrase, setPassphrase] = useState('');
+  const [failed, setFailed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [eraseOpen, setEraseOpen] = useState(false);
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    // On success the gate renders the app instead of this screen
+    if (!await vault.unlock(passphrase)) {
+      setBusy(false);
+      setFailed(true);
+    }
+  };
+
+  return (
+    <section className='app-panel panel vault-unlock'>
+      <h2>{t('vault.lockedTitle')}</h2>
+      <p>{t('vault.lockedMessage')}</p>
+      <form onSubmit={onSubmit}>
+        <label>
+          {t('passphrase.label')}
+          <input
+            type='password'
+            autoComplete='current-password'
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </label>
+        {failed && <p className='passphrase-error' role='alert'>{t('vault.errorUnlock')}</p>}
+        <button type='submit' className='btn-primary' disabled={busy || !passphrase}>
+          {busy ? t('passphrase.working') : t('vault.unlock')}
+        </button>
+      </form>
+      <button type='button' className='btn-secondary' onClick={() => setEraseOpen(true)}>
+        {t('vault.forgot')}
+      </button>
+      <ConfirmDialog
+        isOpen={eraseOpen}
+        title={t('vault.eraseTitle')}
+        message={t('vault.eraseMessage')}
+        confirmLabel={t('vault.eraseConfirm')}
+        cancelLabel={t('buttons.cancel')}
+        variant='danger'
+        onConfirm={() => {
+          setEraseOpen(false);
+          vault.erase();
+        }}
+        onCancel={() => setEraseOpen(false)}
+      />
+    </section>
+  );
+};
+
+/**
+ * Renders the app only while the vault is off or unlocked. Locking unmounts the app, so no decrypted
+ * answers or scans stay in React state, and inactivity locks it after the configured number of minutes.
+ */
+const VaultGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const status = useVaultStatus();
+
+  // Another tab may turn the vault on or off
+  useEffect(() => storage.onRemoteChange((key) => {
+    if (key === VAULT_KEY) vault.refresh();
+  }), []);
+
+  useEffect(() => {
+    // Cached scan results are assessment data too: forget them on lock, read them again on unlock
+    scannerCache.reload();
+    if (status !== 'unlocked') return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        void vault.lock();
+      }, vault.getAutoLockMinutes() * 60 * 1000);
+    };
+    restart();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restart));
+    };
+  }, [status]);
+
+  return status === 'locked' ? <VaultUnlock /> : <>{children}</>;
+};
+
+export default VaultGate;
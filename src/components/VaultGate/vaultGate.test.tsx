@@ -0,0 +1,80 @@
+import { render, screen, fireEvent, cleanup, act } from '@testing-library/react';
+import VaultGate from './index';
+import { vault } from '../../utils/vault';
+
+// Mock HTMLDialogElement methods for jsdom
+beforeAll(() => {
+  HTMLDialogElement.prototype.showModal = function(this: HTMLDialogElement) {
+    this.open = true;
+  };
+  HTMLDialogElement.prototype.close = function(this: HTMLDialogElement) {
+    this.open = false;
+  };
+});
+
+const renderGate = () => render(<VaultGate><p>Assessment</p></VaultGate>);
+
+describe('VaultGate', () => {
+  beforeEach(() => {
+    vault.erase();
+    localStorage.clear();
+    localStorage.setItem('risk_answers_v2', '{"q1":"opt1"}');
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('renders the app while the vault is off', () => {
+    renderGate();
+    expect(screen.getByText('Assessment')).toBeDefined();
+  });
+
+  it('asks for the passphrase while locked and unlocks with the right one', async () => {
+    await vault.enable('correct horse');
+    await vault.lock();
+    renderGate();
+
+    expect(screen.queryByText('Assessment')).toBeNull();
+    expect(screen.getByText('Assessment data is locked')).toBeDefined();
+
+    fireEvent.change(screen.getByLabelText('Passphrase'), { target: { value: 'wrong horse' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+    expect((await screen.findByRole('alert')).textContent).toBe('Wrong passphrase.');
+
+    fireEvent.change(screen.getByLabelText('Passphrase'), { target: { value: 'correct horse' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+    expect(await screen.findByText('Assessment')).toBeDefined();
+    expect(vault.getItem('risk_answers_v2')).toBe('{"q1":"opt1"}');
+  });
+
+  it('locks after the configured inactivity and restarts the timer on activity', async () => {
+    await vault.enable('correct horse', 5);
+    vi.useFakeTimers();
+    renderGate();
+
+    await act(() => vi.advanceTimersByTimeAsync(4 * 60 * 1000));
+    fireEvent.keyDown(window, { key: 'a' });
+    await act(() => vi.advanceTimersByTimeAsync(4 * 60 * 1000));
+    expect(screen.getByText('Assessment')).toBeDefined();
+
+    await act(() => vi.advanceTimersByTimeAsync(60 * 1000));
+    expect(screen.queryByText('Assessment')).toBeNull();
+    expect(screen.getByText('Assessment data is locked')).toBeDefined();
+    expect(vault.getStatus()).toBe('locked');
+  });
+
+  it('can erase a vault whose passphrase is lost', async () => {
+    await vault.enable('correct horse');
+    await vault.lock();
+    renderGate();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Forgot the passphrase?' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Erase data', hidden: true }));
+
+    expect(screen.getByText('Assessment')).toBeDefined();
+    expect(vault.getStatus()).toBe('disabled');
+    expect(localStorage.getItem('risk_answers_v2')).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import ConfirmDialog from '../ConfirmDialog';
+import PassphraseDialog from '../PassphraseDialog';
+import { TrackedButton } from '../TrackedButton';
+import { AUTO_LOCK_OPTIONS, useVaultStatus, vault } from '../../utils/vault';
+
+const VaultSettings: React.FC = () => {
+  const { t } = useTranslation('common');
+  const status = useVaultStatus();
+  const [autoLockMinutes, setAutoLockMinutes] = useState(() => vault.getAutoLockMinutes());
+  const [enableOpen, setEnableOpen] = useState(false);
+  const [enableError, setEnableError] = useState<string | null>(null);
+  const [disableOpen, setDisableOpen] = useState(false);
+
+  const onEnable = async (passphrase: string) => {
+    try {
+      await vault.enable(passphrase, autoLockMinutes);
+      setEnableOpen(false);
+      setEnableError(null);
+    } catch (err) {
+      setEnableError(err instanceof Error ? err.message : t('vault.errorEnable'));
+    }
+  };
+
+  const onAutoLockChange = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    vault.setAutoLockMinutes(minutes);
+  };
+
+  const onDisable = async () => {
+    setDisableOpen(false);
+    await vault.disable();
+  };
+
+  const enabled = status === 'unlocked';
+
+  return (
+    <section className='vault-settings'>
+      <h3>{t('vault.title')}</h3>
+      <p>{enabled ? t('vault.enabledDescription', { count: autoLockMinutes }) : t('vault.description')}</p>
+      <div className='vault-settings-actions'>
+        <label>
+          {t('vault.autoLock')}{' '}
+          <select value={autoLockMinutes} onChange={(e) => onAutoLockChange(Number(e.target.value))}>
+            {AUTO_LOCK_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>{t('vault.minutes', { count: minutes })}</option>
+            ))}
+          </select>
+        </label>
+        {enabled ? (
+          <TrackedButton trackingName='vault_disable' className='btn-secondary' onClick={() => setDisableOpen(true)}>
+            {t('vault.disable')}
+          </TrackedButton>
+        ) : (
+          <TrackedButton
+            trackingName='vault_enable'
+            trackingProperties={{ auto_lock_minutes: autoLockMinutes }}
+            onClick={() => setEnableOpen(true)}
+          >
+            {t('vault.enable')}
+          </TrackedButton>
+        )}
+      </div>
+      <PassphraseDialog
+        isOpen={enableOpen}
+        mode='encrypt'
+        title={t('vault.enableTitle')}
+        message={t('vault.enableMessage')}
+        submitLabel={t('vault.enable')}
+        onSubmit={onEnable}
+        onCancel={() => {
+          setEnableOpen(false);
+          setEnableError(null);
+        }}
+        error={enableError}
+      />
+      <ConfirmDialog
+        isOpen={disableOpen}
+        title={t('vault.disableTitle')}
+        message={t('vault.disableMessage')}
+        confirmLabel={t('vault.disable')}
+        cancelLabel={t('buttons.cancel')}
+        variant='danger'
+        onConfirm={onDisable}
+        onCancel={() => setDisableOpen(false)}
+      />
+    </section>
+  );
+};
+
+export default VaultSettings;
@@ -2,8 +2,13 @@ import { renderHook, act } from '@testing-library/react';
 import React from 'react';
 import { AppStateProvider, useAppState } from './AppStateContext';
 import * as amplitude from '@amplitude/analytics-browser';
-import { DomainScanAggregate } from '../types/domainScan';
-import { runAllScanners } from '../utils/scanners';
+import { DomainScanAggregate, ExecutedScannerResult } from '../types/domainScan';
+import { scannerCache } from '../utils/scannerCache';
+import { cacheScannerResult, getCachedScannerResults, runAllScanners, runScanner } from '../utils/scanners';
+import { QuestionPack } from '../types/questionPacks';
+import { MAX_PACK_ID_LENGTH, MAX_PACK_LOCAL_ID_LENGTH, MAX_PACK_QUESTIONS } from '../utils/questionLimits';
+import { encryptExport } from '../utils/exportEncryption';
+import { saveDkimSelectors } from '../utils/dkimSelectorsService';
 
 // Mock amplitude
 vi.mock('@amplitude/analytics-browser', () => ({
@@ -12,10 +17,23 @@ vi.mock('@amplitude/analytics-browser', () => ({
 }));
 
 // Mock scanners
-vi.mock('../utils/scanners', () => ({
-  SCANNERS: [{ id: 'dns', label: 'DNS', run: vi.fn() }],
-  runAllScanners: vi.fn()
-}));
+vi.mock('../utils/scanners', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/scanners')>();
+  const scanners = [{ id: 'dns', label: 'DNS', run: vi.fn() }, { id: 'rdap', label: 'RDAP', run: vi.fn() }];
+  return {
+    SCANNERS: scanners,
+    DEFAULT_SCAN_PROFILE: actual.DEFAULT_SCAN_PROFILE,
+    // The quick profile only runs the DNS scanner
+    getProfileScanners: vi.fn((profile?: string) => (profile === 'quick' ? [scanners[0]] : scanners)),
+    runAllScanners: vi.fn(),
+    runScanner: vi.fn(),
+    getCachedScannerResults: vi.fn(() => []),
+    cacheScannerResult: vi.fn(),
+    buildAggregate: actual.buildAggregate,
+    mergeScannerResult: actual.mergeScannerResult,
+    interpretScannerResult: vi.fn(() => ({ severity: 'success', message: '', recommendation: '' }))
+  };
+});
 
 describe('AppStateContext', () => {
   let localStorageMock: Record<string, string>;
@@ -28,7 +46,9 @@ describe('AppStateContext', () => {
         getItem: vi.fn((key: string) => localStorageMock[key] || null),
         setItem: vi.fn((key: string, value: string) => { localStorageMock[key] = value; }),
         removeItem: vi.fn((key: string) => { delete localStorageMock[key]; }),
-        clear: vi.fn(() => { localStorageMock = {}; })
+        clear: vi.fn(() => { localStorageMock = {}; }),
+        key: vi.fn((index: number) => Object.keys(localStorageMock)[index] ?? null),
+        get length() { return Object.keys(localStorageMock).length; }
       },
       writable: true,
       configurable: true
@@ -145,6 +165,11 @@ describe('AppStateContext', () => {
   });
 
   describe('runScanners', () => {
+    beforeEach(() => {
+      scannerCache.clear();
+      vi.mocked(getCachedScannerResults).mockReturnValue([]);
+    });
+
     it('should run domain scanners and update state', async () => {
       const mockAggregate: DomainScanAggregate = {
         domain: 'example.com', timestamp: '2025-10-27T00:00:00.000Z', scanners: [], issues: []
@@ -156,11 +181,121 @@ describe('AppStateContext', () => {
         await result.current.runScanners('example.com');
       });
 
-      expect(runAllScanners).toHaveBeenCalledWith('example.com', expect.any(Function));
+      expect(runAllScanners)
+        .toHaveBeenCalledWith('example.com', expect.any(Function), [], expect.any(AbortSignal), 'standard');
       expect(result.current.domainScanAggregate).toEqual(mockAggregate);
       expect(localStorage.setItem).toHaveBeenCalledWith('risk_domain_scan_agg_v2', JSON.stringify(mockAggregate));
       expect(result.current.scannerProgress).toEqual([]);
     });
+
+    const dnsResult: ExecutedScannerResult = {
+      id: 'dns', label: 'DNS', status: 'complete', startedAt: '2025-10-27T00:00:00.000Z', issues: ['No MX']
+    };
+    const rdapResult: ExecutedScannerResult = {
+      id: 'rdap', label: 'RDAP', status: 'complete', startedAt: '2025-10-27T00:00:00.000Z', issues: []
+    };
+
+    it('only runs scanners without a cached result and caches the new ones', async () => {
+      vi.mocked(getCachedScannerResults).mockReturnValue([dnsResult]);
+      vi.mocked(runAllScanners).mockResolvedValue({
+        domain: 'example.com',
+        timestamp: '2025-10-27T00:00:00.000Z',
+        scanners: [dnsResult, rdapResult],
+        issues: ['No MX'],
+      });
+      const { result } = renderHook(() => useAppState(), { wrapper });
+
+      await act(async () => {
+        await result.current.runScanners('example.com');
+      });
+
+      expect(runAllScanners)
+        .toHaveBeenCalledWith('example.com', expect.any(Function), [dnsResult], expect.any(AbortSignal), 'standard');
+      expect(cacheScannerResult).toHaveBeenCalledTimes(1);
+      expect(cacheScannerResult).toHaveBeenCalledWith('example.com', rdapResult, 'standard');
+    });
+
+    it('uses the cache without scanning when every scanner has a result', async () => {
+      vi.mocked(getCachedScannerResults).mockReturnValue([dnsResult, rdapResult]);
+      const { result } = renderHook(() => useAppState(), { wrapper });
+
+      await act(async () => {
+        await result.current.runScanners('example.com');
+      });
+
+      expect(runAllScanners).not.toHaveBeenCalled();
+      expect(result.current.domainScanAggregate).toMatchObject({
+        domain: 'example.com', scanners: [dnsResult, rdapResult], issues: ['No MX']
+      });
+    });
+
+    it('runs the scanners of the chosen profile and records it in the aggregate', async () => {
+      vi.mocked(getCachedScannerResults).mockReturnValue([dnsResult]);
+      const { result } = renderHook(() => useAppState(), { wrapper });
+
+      await act(async () => {
+        await result.current.runScanners('example.com', 'quick');
+      });
+
+      expect(getCachedScannerResults).toHaveBeenCalledWith('example.com', 'quick');
+      expect(runAllScanners).not.toHaveBeenCalled();
+      expect(result.current.domainScanAggregate).toMatchObject({ scanners: [dnsResult], profile: 'quick' });
+    });
+
+    it('cancels a running scan, keeping the saved scan and caching finished results', async () => {
+      vi.mocked(runAllScanners).mockImplementation((domain, _onProgress, _reuse, signal) => new Promise((resolve) => {
+        signal!.addEventListener('abort', () => resolve({
+          domain,
+          timestamp: '2025-10-27T00:00:00.000Z',
+          scanners: [dnsResult, { ...rdapResult, status: 'error', error: 'Scan cancelled' }],
+          issues: ['No MX'],
+        }));
+      }));
+      const { result } = renderHook(() => useAppState(), { wrapper });
+
+      let scan: Promise<void>;
+      act(() => {
+        scan = result.current.runScanners('example.com');
+      });
+      await act(async () => {
+        result.current.cancelScans();
+        await scan;
+      });
+
+      expect(result.current.domainScanAggregate).toBeUndefined();
+      expect(localStorageMock['risk_domain_scan_agg_v2']).toBeUndefined();
+      expect(cacheScannerResult).toHaveBeenCalledTimes(1);
+      expect(cacheScannerResult).toHaveBeenCalledWith('example.com', dnsResult, 'standard');
+    });
+
+    it('rescans a single scanner and merges its result into the aggregate', async () => {
+      vi.mocked(runAllScanners).mockResolvedValue({
+        domain: 'example.com',
+        timestamp: '2025-10-27T00:00:00.000Z',
+        scanners: [dnsResult, rdapResult],
+        issues: ['No MX'],
+        profile: 'deep',
+      });
+      const fixedDns = { ...dnsResult, issues: [], startedAt: '2025-10-28T00:00:00.000Z' };
+      vi.mocked(runScanner).mockResolvedValue(fixedDns);
+      const { result } = renderHook(() => useAppState(), { wrapper });
+
+      await act(async () => {
+        await result.current.runScanners('example.com', 'deep');
+      });
+      vi.mocked(runAllScanners).mockClear();
+      await act(async () => {
+        await result.current.rescanScanner('dns');
+      });
+
+      expect(runScanner).toHaveBeenCalledWith('example.com', 'dns', expect.any(AbortSignal), 'deep');
+      expect(runAllScanners).not.toHaveBeenCalled();
+      expect(cacheScannerResult).toHaveBeenCalledWith('example.com', fixedDns, 'deep');
+      expect(result.current.domainScanAggregate)
+        .toMatchObject({ scanners: [fixedDns, rdapResult], issues: [], profile: 'deep' });
+      expect(result.current.scannerProgress).toEqual([fixedDns, rdapResult]);
+      expect(JSON.parse(localStorageMock['risk_domain_scan_agg_v2']).scanners[0]).toEqual(fixedDns);
+    });
   });
 
   describe('exportJSON', () => {
@@ -174,6 +309,31 @@ describe('AppStateContext', () => {
       expect(parsed.answers).toEqual({ q1: 'Medium' });
       expect(() => JSON.parse(exported)).not.toThrow();
     });
+
+    it('includes per-question notes and evidence and restores them on import', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.setAnswer('governance_program_management_q1', 'opt1');
+        result.current.setAnswerDetails('governance_program_management_q1', { notes: ' Signed off ', owner: 'CISO' });
+      });
+      expect(result.current.answerDetails).toEqual({
+        governance_program_management_q1: { notes: 'Signed off', owner: 'CISO' }
+      });
+      expect(JSON.parse(localStorageMock['risk_answer_details_v1'])).toEqual(result.current.answerDetails);
+
+      const exported = result.current.exportJSON();
+      expect(JSON.parse(exported).answerDetails).toEqual(result.current.answerDetails);
+
+      act(() => {
+        result.current.resetAnswers();
+      });
+      expect(result.current.answerDetails).toEqual({});
+
+      act(() => {
+        result.current.importJSON(exported);
+      });
+      expect(result.current.answerDetails.governance_program_management_q1.owner).toBe('CISO');
+    });
   });
 
   describe('importJSON', () => {
@@ -198,6 +358,30 @@ describe('AppStateContext', () => {
       ));
     });
 
+    it('asks for a passphrase before importing an encrypted export', async () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      const plaintext = JSON.stringify({ version: 2, answers: { governance_program_management_q1: 'opt2' } });
+      const encrypted = await encryptExport(plaintext, 'correct horse', 10000);
+
+      let importResult: { success: boolean; error?: string; encrypted?: boolean } = { success: true };
+      act(() => {
+        importResult = result.current.importJSON(encrypted);
+      });
+      expect(importResult).toMatchObject({ success: false, encrypted: true });
+
+      await act(async () => {
+        importResult = await result.current.importEncryptedJSON(encrypted, 'wrong horse');
+      });
+      expect(importResult).toMatchObject({ success: false, encrypted: true });
+      expect(result.current.answers).toEqual({});
+
+      await act(async () => {
+        importResult = await result.current.importEncryptedJSON(encrypted, 'correct horse');
+      });
+      expect(importResult.success).toBe(true);
+      expect(result.current.answers).toEqual({ governance_program_management_q1: 'opt2' });
+    });
+
     it('should handle invalid JSON', () => {
       const { result } = renderHook(() => useAppState(), { wrapper });
       let importResult: { success: boolean; error?: string } = { success: true };
@@ -384,6 +568,465 @@ describe('AppStateContext', () => {
     });
   });
 
+  describe('client workspace', () => {
+    it('should start with a single active client', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      expect(result.current.clients).toHaveLength(1);
+      expect(result.current.activeClientId).toBe(result.current.clients[0].id);
+    });
+
+    it('should keep answers separate per client when switching', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      const firstId = result.current.activeClientId;
+      act(() => {
+        result.current.setAnswer('governance_program_management_q1', 'opt1');
+      });
+
+      let secondId = '';
+      act(() => {
+        secondId = result.current.createClient('Second Client');
+      });
+      act(() => {
+        result.current.switchClient(secondId);
+      });
+      expect(result.current.activeClientId).toBe(secondId);
+      expect(result.current.answers).toEqual({});
+
+      act(() => {
+        result.current.switchClient(firstId);
+      });
+      expect(result.current.answers).toEqual({ governance_program_management_q1: 'opt1' });
+    });
+
+    it('should rename, duplicate and archive clients', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      const activeId = result.current.activeClientId;
+      act(() => {
+        result.current.setAnswer('governance_program_management_q1', 'opt2');
+      });
+      act(() => {
+        result.current.renameClient(activeId, 'Acme');
+      });
+      let copyId = '';
+      act(() => {
+        copyId = result.current.duplicateClient(activeId, 'Acme copy');
+      });
+      act(() => {
+        result.current.archiveClient(copyId);
+      });
+
+      const copy = result.current.clients.find((c) => c.id === copyId)!;
+      expect(result.current.clients.find((c) => c.id === activeId)!.name).toBe('Acme');
+      expect(copy.answers).toEqual({ governance_program_management_q1: 'opt2' });
+      expect(copy.archived).toBe(true);
+    });
+
+    it('should persist the workspace to localStorage', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.createClient('Persisted');
+      });
+      const stored = JSON.parse(localStorageMock['risk_workspace_v1']);
+      expect(stored.clients.map((c: { name: string }) => c.name)).toContain('Persisted');
+    });
+
+    it('should record report history for the active client', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.recordReport('word');
+      });
+      expect(result.current.clients[0].reportHistory).toHaveLength(1);
+      expect(result.current.clients[0].reportHistory[0].format).toBe('word');
+    });
+
+    it('should export and re-import the whole workspace as new clients', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.setAnswer('governance_program_management_q1', 'opt1');
+      });
+      const exported = result.current.exportJSON('workspace');
+      const parsed = JSON.parse(exported);
+      expect(parsed.kind).toBe('workspace');
+      expect(parsed.workspace.clients[0].answers).toEqual({ governance_program_management_q1: 'opt1' });
+
+      let importResult: { success: boolean; error?: string } = { success: false };
+      act(() => {
+        importResult = result.current.importJSON(exported);
+      });
+      expect(importResult.success).toBe(true);
+      expect(result.current.clients).toHaveLength(2);
+      expect(result.current.clients[1].answers).toEqual({ governance_program_management_q1: 'opt1' });
+    });
+
+    it('should reject a workspace whose snapshots lack risks or answers', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.takeSnapshot('Baseline');
+      });
+      const parsed = JSON.parse(result.current.exportJSON('workspace'));
+      const snapshot = parsed.workspace.clients[0].snapshots[0];
+
+      [{ ...snapshot, risks: undefined }, { ...snapshot, answers: undefined }].forEach((broken) => {
+        parsed.workspace.clients[0].snapshots = [broken];
+        let importResult: { success: boolean; error?: string } = { success: true };
+        act(() => {
+          importResult = result.current.importJSON(JSON.stringify(parsed));
+        });
+        expect(importResult.success).toBe(false);
+      });
+      expect(result.current.clients).toHaveLength(1);
+
+      parsed.workspace.clients[0].snapshots = [snapshot];
+      act(() => {
+        result.current.importJSON(JSON.stringify(parsed));
+      });
+      expect(result.current.clients).toHaveLength(2);
+    });
+
+    it('should import a single-client file as a new client', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      const importData = JSON.stringify({
+        version: 2,
+        client: { name: 'Imported Co' },
+        answers: { governance_program_management_q1: 'opt0' }
+      });
+      act(() => {
+        result.current.importJSON(importData, { asNewClient: true });
+      });
+      expect(result.current.answers).toEqual({});
+      const imported = result.current.clients.find((c) => c.name === 'Imported Co');
+      expect(imported?.answers).toEqual({ governance_program_management_q1: 'opt0' });
+    });
+
+    it('should round-trip the full client record through a client export', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      saveDkimSelectors('example.com', ['selector1']);
+      act(() => {
+        result.current.setAnswer('governance_program_management_q1', 'opt1');
+        result.current.setPackEnabled('cloud', true);
+        result.current.addRespondent('IT lead', { governance_program_management_q1: 'opt0' });
+      });
+      act(() => {
+        result.current.takeSnapshot('Baseline');
+        result.current.recordReport('pdf');
+      });
+      const exported = result.current.exportJSON('client');
+      expect(JSON.parse(exported).client.answers).toBeUndefined();
+
+      act(() => {
+        expect(result.current.importJSON(exported, { asNewClient: true })).toEqual({ success: true });
+      });
+      const [original, imported] = result.current.clients;
+      expect(imported.id).not.toBe(original.id);
+      expect(imported.answers).toEqual({ governance_program_management_q1: 'opt1' });
+      expect(imported.dkimSelectors).toEqual({ 'example.com': ['selector1'] });
+      expect(imported.enabledPacks).toEqual(['cloud']);
+      expect(imported.snapshots.map((s) => s.label)).toEqual(['Baseline']);
+      expect(imported.reportHistory.map((r) => r.format)).toEqual(['pdf']);
+      expect(imported.respondents?.map((r) => r.answers)).toEqual([{ governance_program_management_q1: 'opt0' }]);
+    });
+
+    it('should not create a client from a file without importable data', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      let importResult: { success: boolean; error?: string } = { success: true };
+      act(() => {
+        importResult = result.current.importJSON(
+          JSON.stringify({ version: 2, client: { name: 'Empty Co' }, answers: {} }),
+          { asNewClient: true }
+        );
+      });
+      expect(importResult).toEqual({ success: false, error: 'No valid data found to import' });
+      expect(result.current.clients).toHaveLength(1);
+    });
+
+    it('should take and delete snapshots for the active client', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.setAnswer('governance_program_management_q1', 'opt1');
+      });
+      let snapshotId = '';
+      act(() => {
+        snapshotId = result.current.takeSnapshot('Baseline').id;
+      });
+      expect(result.current.snapshots).toHaveLength(1);
+      expect(result.current.snapshots[0].label).toBe('Baseline');
+      expect(result.current.snapshots[0].answers).toEqual({ governance_program_management_q1: 'opt1' });
+      expect(result.current.snapshots[0].score.percent).toBe(result.current.score.percent);
+
+      act(() => {
+        result.current.deleteSnapshot(snapshotId);
+      });
+      expect(result.current.snapshots).toHaveLength(0);
+    });
+
+    it('should keep snapshots with their client when switching', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      const firstId = result.current.activeClientId;
+      act(() => {
+        result.current.takeSnapshot();
+      });
+      let secondId = '';
+      act(() => {
+        secondId = result.current.createClient('Second Client');
+      });
+      act(() => {
+        result.current.switchClient(secondId);
+      });
+      expect(result.current.snapshots).toHaveLength(0);
+      act(() => {
+        result.current.switchClient(firstId);
+      });
+      expect(result.current.snapshots).toHaveLength(1);
+    });
+  });
+
+  describe('scoring model', () => {
+    it('defaults to the equal model and persists a switch to weighted', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      expect(result.current.scoringModel).toBe('equal');
+      expect(result.current.score.model).toBeUndefined();
+      expect(result.current.categoryWeights.access_control).toBe(1.5);
+
+      act(() => {
+        result.current.setScoringModel('weighted');
+      });
+
+      expect(result.current.score.model).toBe('weighted');
+      expect(result.current.score.categories.every((c) => typeof c.weight === 'number')).toBe(true);
+      expect(JSON.parse(localStorageMock['risk_scoring_model_v1'])).toBe('weighted');
+    });
+
+    it('falls back to the equal model for unknown stored values', () => {
+      localStorageMock['risk_scoring_model_v1'] = JSON.stringify('custom');
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      expect(result.current.scoringModel).toBe('equal');
+    });
+  });
+
+  describe('composite score', () => {
+    it('equals the questionnaire score without a domain scan and persists weights', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      expect(result.current.compositeScore.percent).toBe(result.current.score.percent);
+      expect(result.current.compositeWeights).toEqual({ questionnaire: 0.7, externalSurface: 0.3 });
+
+      act(() => {
+        result.current.setCompositeWeights({ questionnaire: 2, externalSurface: 2 });
+      });
+
+      expect(result.current.compositeWeights).toEqual({ questionnaire: 0.5, externalSurface: 0.5 });
+      expect(JSON.parse(localStorageMock['risk_composite_weights_v1']))
+        .toEqual({ questionnaire: 0.5, externalSurface: 0.5 });
+    });
+
+    it('blends a stored domain scan into the composite score', () => {
+      localStorageMock['risk_domain_scan_agg_v2'] = JSON.stringify({
+        domain: 'example.com',
+        timestamp: '2025-10-27T00:00:00.000Z',
+        scanners: [{ id: 'custom', label: 'custom.label', status: 'complete', startedAt: '', issues: [] }],
+        issues: []
+      });
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      expect(result.current.compositeScore.externalSurface?.percent).toBe(100);
+      expect(result.current.compositeScore.percent).toBeCloseTo(0.7 * result.current.score.percent + 30, 1);
+    });
+  });
+
+  describe('branding', () => {
+    it('starts unbranded and persists updates outside the workspace', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      expect(result.current.branding.companyName).toBe('');
+
+      act(() => {
+        result.current.updateBranding({ ...result.current.branding, companyName: 'Contoso', primaryColor: 'blue' });
+      });
+
+      expect(result.current.branding.companyName).toBe('Contoso');
+      // Invalid colors are dropped rather than stored
+      expect(result.current.branding.primaryColor).toBe('');
+      expect(JSON.parse(localStorageMock['risk_branding_v1']).companyName).toBe('Contoso');
+      expect(localStorageMock['risk_workspace_v1']).not.toContain('Contoso');
+    });
+
+    it('restores saved branding and resets it', () => {
+      localStorageMock['risk_branding_v1'] = JSON.stringify({ companyName: 'Contoso', disclaimer: 'Custom' });
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      expect(result.current.branding.disclaimer).toBe('Custom');
+
+      act(() => {
+        result.current.resetBranding();
+      });
+
+      expect(result.current.branding.companyName).toBe('');
+      expect(localStorageMock['risk_branding_v1']).toBeUndefined();
+    });
+  });
+
+  describe('respondents', () => {
+    it('keeps respondents per client and reports their score range', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      expect(result.current.scoreRange).toBeUndefined();
+
+      act(() => {
+        result.current.addRespondent('IT lead', { governance_program_management_q1: 'opt0' });
+      });
+      act(() => {
+        result.current.addRespondent('Owner', { governance_program_management_q1: 'opt0' });
+      });
+      expect(result.current.respondents.map((r) => r.name)).toEqual(['IT lead', 'Owner']);
+      expect(result.current.scoreRange).toEqual({ min: 0, max: 0, consensus: 0 });
+
+      act(() => {
+        result.current.removeRespondent(result.current.respondents[0].id);
+      });
+      expect(result.current.respondents.map((r) => r.name)).toEqual(['Owner']);
+
+      let otherId = '';
+      act(() => {
+        otherId = result.current.createClient('Other client');
+      });
+      act(() => {
+        result.current.switchClient(otherId);
+      });
+      expect(result.current.respondents).toEqual([]);
+    });
+  });
+
+  describe('questionnaire packs', () => {
+    const pack: QuestionPack = {
+      id: 'cloud',
+      name: 'Cloud security',
+      questions: [
+        { id: 'iam', category: 'cloud_iam', options: [{ id: 'opt1', points: 0 }, { id: 'opt2', points: 10 }] }
+      ],
+      translations: { en: { categories: { cloud_iam: 'Cloud IAM' } } }
+    };
+
+    it('adds pack questions only to assessments that enable the pack', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      const coreCount = result.current.questions.length;
+
+      act(() => {
+        result.current.installQuestionPack(pack);
+      });
+      expect(result.current.questionPacks.map((p) => p.id)).toEqual(['cloud']);
+      expect(result.current.questions).toHaveLength(coreCount);
+
+      act(() => {
+        result.current.setPackEnabled('cloud', true);
+      });
+      expect(result.current.enabledPackIds).toEqual(['cloud']);
+      expect(result.current.questions).toHaveLength(coreCount + 1);
+
+      act(() => {
+        result.current.setAnswer('cloud__iam', 'opt2');
+      });
+      const packCategory = result.current.score.categories.find((c) => c.key === 'cloud__cloud_iam');
+      expect(packCategory).toMatchObject({ category: 'Cloud IAM', packId: 'cloud', percent: 100 });
+      expect(JSON.parse(localStorageMock['risk_question_packs_v1'])[0].id).toBe('cloud');
+
+      let otherId = '';
+      act(() => {
+        otherId = result.current.createClient('Other client');
+      });
+      act(() => {
+        result.current.switchClient(otherId);
+      });
+      expect(result.current.enabledPackIds).toEqual([]);
+      expect(result.current.questions).toHaveLength(coreCount);
+    });
+
+    it('round-trips answers to a full pack with the longest ids through export and import', () => {
+      const packId = `p${'a'.repeat(MAX_PACK_ID_LENGTH - 1)}`;
+      const bigPack: QuestionPack = {
+        id: packId,
+        name: 'Large pack',
+        questions: Array.from({ length: MAX_PACK_QUESTIONS }, (_, i) => ({
+          id: `q${i}`.padEnd(MAX_PACK_LOCAL_ID_LENGTH, '_'),
+          category: 'large',
+          options: [{ id: 'opt1', points: 0 }, { id: 'opt2', points: 10 }]
+        }))
+      };
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.installQuestionPack(bigPack);
+      });
+      act(() => {
+        result.current.setPackEnabled(packId, true);
+      });
+      act(() => {
+        result.current.questions.forEach((q) => result.current.setAnswer(q.id, q.options[0].value));
+      });
+      const answers = result.current.answers;
+      expect(Object.keys(answers)).toHaveLength(result.current.questions.length);
+      expect(Object.keys(answers)).toContain(`${packId}__${'q199'.padEnd(MAX_PACK_LOCAL_ID_LENGTH, '_')}`);
+
+      const clientJson = result.current.exportJSON('client');
+      const workspaceJson = result.current.exportJSON('workspace');
+      act(() => {
+        result.current.resetAnswers();
+      });
+
+      let imported: { success: boolean; error?: string } = { success: false };
+      act(() => {
+        imported = result.current.importJSON(clientJson);
+      });
+      expect(imported).toEqual({ success: true });
+      expect(result.current.answers).toEqual(answers);
+
+      act(() => {
+        imported = result.current.importJSON(workspaceJson);
+      });
+      expect(imported).toEqual({ success: true });
+      expect(result.current.clients).toHaveLength(2);
+    });
+
+    it('keeps enabled packs when a workspace is imported or a client duplicated', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.installQuestionPack(pack);
+      });
+      act(() => {
+        result.current.setPackEnabled('cloud', true);
+      });
+      act(() => {
+        result.current.setAnswer('cloud__iam', 'opt2');
+      });
+      const workspaceJson = result.current.exportJSON('workspace');
+
+      act(() => {
+        expect(result.current.importJSON(workspaceJson)).toEqual({ success: true });
+      });
+      act(() => {
+        result.current.duplicateClient(result.current.activeClientId, 'Copy');
+      });
+      expect(result.current.clients).toHaveLength(3);
+      expect(result.current.clients.every((c) => c.enabledPacks?.includes('cloud'))).toBe(true);
+
+      act(() => {
+        result.current.switchClient(result.current.clients[1].id);
+      });
+      expect(result.current.answers).toEqual({ 'cloud__iam': 'opt2' });
+      expect(result.current.questions.some((q) => q.id === 'cloud__iam')).toBe(true);
+    });
+
+    it('disables a removed pack for every client', () => {
+      const { result } = renderHook(() => useAppState(), { wrapper });
+      act(() => {
+        result.current.installQuestionPack(pack);
+      });
+      act(() => {
+        result.current.setPackEnabled('cloud', true);
+      });
+      act(() => {
+        result.current.removeQuestionPack('cloud');
+      });
+
+      expect(result.current.questionPacks).toEqual([]);
+      expect(result.current.clients.every((c) => !c.enabledPacks?.includes('cloud'))).toBe(true);
+      expect(localStorageMock['risk_question_packs_v1']).toBeUndefined();
+    });
+  });
+
   describe('useAppState hook', () => {
     it('should throw error when used outside provider', () => {
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
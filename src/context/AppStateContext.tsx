@@ -1,11 +1,29 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import questionsData from '../data/questions.json';
-import { Question, RawQuestion } from '../types/questions';
-import { computeScore, ScoreResult } from '../utils/scoring';
+import { Question, RawQuestion, RawQuestionnaire } from '../types/questions';
+import { computeScore, computeScoreRange, ScoreRange, ScoreResult, ScoringModel } from '../utils/scoring';
+import {
+  computeCompositeScore,
+  CompositeScoreResult,
+  CompositeWeights,
+  DEFAULT_COMPOSITE_WEIGHTS,
+  normalizeCompositeWeights,
+} from '../utils/compositeScore';
 import { mapRisks, RiskMappingResult } from '../utils/recommendations';
+import { buildRemediationPlan, RemediationPlan } from '../utils/remediationPlan';
+import { computeFrameworkCoverage, FrameworkCoverage } from '../utils/compliance';
 import { DomainScanResult } from '../utils/domainChecks';
-import { runAllScanners } from '../utils/scanners';
-import { DomainScanAggregate } from '../types/domainScan';
+import {
+  buildAggregate,
+  cacheScannerResult,
+  DEFAULT_SCAN_PROFILE,
+  getCachedScannerResults,
+  getProfileScanners,
+  mergeScannerResult,
+  runAllScanners,
+  runScanner,
+} from '../utils/scanners';
+import { DomainScanAggregate, ScanProfileId } from '../types/domainScan';
 import { ExecutedScannerResult } from '../types/domainScan';
 import { APP_CONFIG } from '../config/appConfig';
 import * as amplitude from '@amplitude/analytics-browser';
@@ -15,36 +33,144 @@ import { validateImportJSON } from '../utils/importValidation';
 import { useTranslatedQuestions } from '../utils/questionTranslation';
 import { migrateAnswers, needsMigration } from '../utils/answerMigration';
 import { useTranslation } from 'react-i18next';
+import { createSnapshot } from '../utils/assessmentHistory';
+import { getAllDkimSelectors, replaceAllDkimSelectors } from '../utils/dkimSelectorsService';
+import { AssessmentSnapshot, ClientAssessment, ReportFormat, Workspace } from '../types/workspace';
+import { BrandingSettings } from '../types/branding';
+import { QuestionPack } from '../types/questionPacks';
+import { AnswerDetails, AnswerDetailsMap } from '../types/answerDetails';
+import { setAnswerDetailsEntry } from '../utils/answerDetails';
+import { Respondent } from '../types/respondents';
+import { createRespondent } from '../utils/respondents';
+import { decryptExport, isEncryptedExportJSON } from '../utils/exportEncryption';
+import { vault } from '../utils/vault';
+import {
+  getPackCategoryWeights,
+  getPackQuestions,
+  loadQuestionPacks,
+  registerPackResources,
+  saveQuestionPacks,
+} from '../utils/questionPacks';
+import { DEFAULT_BRANDING, loadBranding, normalizeBranding, saveBranding } from '../utils/branding';
+import {
+  addClient,
+  addReportHistoryEntry,
+  addSnapshot,
+  checkInClient,
+  checkOutClient,
+  ClientWorkingSet,
+  createClientAssessment,
+  createWorkspace,
+  duplicateClient as duplicateWorkspaceClient,
+  getActiveClient,
+  loadWorkspace,
+  removeSnapshot,
+  renameClient as renameWorkspaceClient,
+  saveWorkspace,
+  setClientArchived,
+  updateClient,
+} from '../utils/workspace';
 
 interface AppStateContextValue {
   questions: Question[];
+  // Untranslated core and enabled pack questions, for migrating imported answers
+  rawQuestions: RawQuestion[];
   answers: Record<string, string>;
   setAnswer: (id: string, value: string) => void;
+  // Notes, evidence, owner and due date per question
+  answerDetails: AnswerDetailsMap;
+  setAnswerDetails: (id: string, details: AnswerDetails) => void;
   resetAnswers: () => void;
   resetAll: () => void;
   score: ScoreResult;
+  // Scoring model used for the score; 'equal' keeps the original unweighted behavior
+  scoringModel: ScoringModel;
+  setScoringModel: (model: ScoringModel) => void;
+  categoryWeights: Record<string, number>;
+  // Questionnaire score blended with the domain scan's External Attack Surface category
+  compositeScore: CompositeScoreResult;
+  compositeWeights: CompositeWeights;
+  setCompositeWeights: (weights: CompositeWeights) => void;
   risks: string[];
   bestPractices: string[];
+  riskRecommendations: Record<string, string[]>; // Next steps per risk text
+  // Risks and scanner issues ranked into quick wins / 30 days / 90 days
+  remediationPlan: RemediationPlan;
+  // Coverage per compliance framework control group, from the same answers as the score
+  complianceCoverage: FrameworkCoverage[];
   domainScan?: DomainScanResult;
   // New aggregated scanner state
   domainScanAggregate?: DomainScanAggregate;
   scannerProgress: ExecutedScannerResult[];
-  runScanners: (domain: string) => Promise<void>;
-  exportJSON: () => string;
-  importJSON: (json: string) => { success: boolean; error?: string };
+  // Run the scanners of a scan profile (the default one when omitted)
+  runScanners: (domain: string, profile?: ScanProfileId) => Promise<void>;
+  // Run one scanner again for the scanned domain with the scan's profile, bypassing the cache, and merge its result
+  // into the aggregate
+  rescanScanner: (scannerId: string) => Promise<void>;
+  // Abort every running scan and rescan; results that already finished are kept in the cache
+  cancelScans: () => void;
+  exportJSON: (scope?: ExportScope) => string;
+  importJSON: (json: string, options?: ImportOptions) => ImportResult;
+  // Decrypts a passphrase-protected export, then imports it like importJSON
+  importEncryptedJSON: (json: string, passphrase: string, options?: ImportOptions) => Promise<ImportResult>;
+  // Multi-client workspace
+  clients: ClientAssessment[];
+  activeClientId: string;
+  createClient: (name: string) => string;
+  renameClient: (id: string, name: string) => void;
+  duplicateClient: (id: string, name: string) => string;
+  archiveClient: (id: string, archived?: boolean) => void;
+  switchClient: (id: string) => void;
+  recordReport: (format: ReportFormat) => void;
+  // Assessment history for the active client
+  snapshots: AssessmentSnapshot[];
+  takeSnapshot: (label?: string) => AssessmentSnapshot;
+  deleteSnapshot: (snapshotId: string) => void;
+  // White-label branding shared by every client
+  branding: BrandingSettings;
+  updateBranding: (settings: BrandingSettings) => void;
+  resetBranding: () => void;
+  // Questionnaire packs: installed library shared by every client, enabled per assessment
+  questionPacks: QuestionPack[];
+  enabledPackIds: string[];
+  installQuestionPack: (pack: QuestionPack) => void;
+  removeQuestionPack: (id: string) => void;
+  setPackEnabled: (id: string, enabled: boolean) => void;
+  // Respondents' answer sets for the active client; `answers` hold the reconciled final answers
+  respondents: Respondent[];
+  scoreRange?: ScoreRange;
+  addRespondent: (name: string, answers: Record<string, string>) => Respondent;
+  removeRespondent: (id: string) => void;
 }
 
-export type { AppStateContextValue };
+// 'client' exports the active client only; 'workspace' exports every client
+type ExportScope = 'client' | 'workspace';
+
+interface ImportResult {
+  success: boolean;
+  error?: string;
+  encrypted?: boolean; // set when the file is a passphrase-protected export that importJSON cannot read
+}
+
+interface ImportOptions {
+  // Import a single-client file as a new client instead of overwriting the active one
+  asNewClient?: boolean;
+}
+
+export type { AppStateContextValue, ExportScope, ImportOptions, ImportResult };
 
 const AppStateContext = createContext<AppStateContextValue | undefined>(undefined);
 
 const ANSWERS_KEY = 'risk_answers_v2';
+const ANSWER_DETAILS_KEY = 'risk_answer_details_v1';
 const DOMAIN_KEY = 'risk_domain_scan_v2';
 const DOMAIN_AGG_KEY = 'risk_domain_scan_agg_v2';
+const SCORING_MODEL_KEY = 'risk_scoring_model_v1';
+const COMPOSITE_WEIGHTS_KEY = 'risk_composite_weights_v1';
 
 const loadStored = <T,>(key: string): T | undefined => {
   try {
-    const raw = localStorage.getItem(key);
+    const raw = vault.getItem(key);
     return raw ? JSON.parse(raw) as T : undefined;
   } catch {
     return undefined;
@@ -54,19 +180,52 @@ const loadStored = <T,>(key: string): T | undefined => {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const persist = (key: string, value: any) => {
   try {
-    localStorage.setItem(key, JSON.stringify(value));
+    vault.setItem(key, JSON.stringify(value));
   } catch {
-    // TODO: handle storage errors
+    // Failed writes are reported by storage and shown by StorageWarning
   }
 };
 
 export const AppStateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { t, i18n } = useTranslation('questions');
+  const { t: tCommon } = useTranslation('common');
 
-  // Store raw questions data
-  const rawQuestions = useMemo(() => {
-    return (questionsData as { questions: RawQuestion[] }).questions;
-  }, []);
+  // Existing single-assessment data becomes the first client's working set
+  const [workspace, setWorkspace] = useState<Workspace>(() => (
+    loadWorkspace() ?? createWorkspace(createClientAssessment(tCommon('clients.defaultName')))
+  ));
+
+  useEffect(() => {
+    saveWorkspace(workspace);
+  }, [workspace]);
+
+  // Installed questionnaire packs; their translations are registered before any question is translated
+  const [questionPacks, setQuestionPacks] = useState<QuestionPack[]>(() => {
+    const packs = loadQuestionPacks();
+    packs.forEach((pack) => registerPackResources(i18n, pack));
+    return packs;
+  });
+
+  const enabledPackIds = useMemo(() => {
+    const enabled = getActiveClient(workspace)?.enabledPacks ?? [];
+    return questionPacks.filter((p) => enabled.includes(p.id)).map((p) => p.id);
+  }, [workspace, questionPacks]);
+
+  const enabledPacks = useMemo(
+    () => questionPacks.filter((p) => enabledPackIds.includes(p.id)),
+    [questionPacks, enabledPackIds]
+  );
+
+  // Core questions followed by the questions of every pack enabled for this assessment
+  const rawQuestions = useMemo(() => [
+    ...(questionsData as unknown as RawQuestionnaire).questions,
+    ...enabledPacks.flatMap(getPackQuestions),
+  ], [enabledPacks]);
+
+  const categoryWeights = useMemo(() => ({
+    ...(questionsData as unknown as RawQuestionnaire).scoring?.categoryWeights,
+    ...Object.assign({}, ...enabledPacks.map(getPackCategoryWeights)),
+  }), [enabledPacks]);
 
   // Translate questions using i18n
   const questions = useTranslatedQuestions(rawQuestions);
@@ -75,6 +234,10 @@ export const AppStateProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     return loadStored<Record<string, string>>(ANSWERS_KEY) || {};
   });
 
+  const [answerDetails, setAnswerDetailsState] = useState<AnswerDetailsMap>(
+    () => loadStored<AnswerDetailsMap>(ANSWER_DETAILS_KEY) || {}
+  );
+
   const [migrationDone, setMigrationDone] = useState(false);
 
   // Perform migration after i18n is ready
@@ -107,6 +270,23 @@ export const AppStateProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   );
   const [scannerProgress, setScannerProgress] = useState<ExecutedScannerResult[]>([]);
 
+  const [branding, setBranding] = useState<BrandingSettings>(() => loadBranding());
+
+  useEffect(() => {
+    saveBranding(branding);
+  }, [branding]);
+
+  const getWorkingSet = (): ClientWorkingSet => ({
+    answers,
+    answerDetails,
+    domainScanAggregate,
+    dkimSelectors: getAllDkimSelectors(),
+  });
+
+  const touchActiveClient = () => {
+    setWorkspace((prev) => updateClient(prev, prev.activeClientId, {}));
+  };
+
   useEffect(() => {
     if (APP_CONFIG.amplitudeApiKey) {
       amplitude.init(
@@ -128,66 +308,397 @@ export const AppStateProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       trackEvent('answer_set', { question_id: id, value });
       return updated;
     });
+    touchActiveClient();
+  };
+
+  const setAnswerDetails = (id: string, details: AnswerDetails) => {
+    setAnswerDetailsState((prev) => {
+      const updated = setAnswerDetailsEntry(prev, id, details);
+      persist(ANSWER_DETAILS_KEY, updated);
+      return updated;
+    });
+    touchActiveClient();
+    trackEvent('answer_details_set', {
+      question_id: id,
+      has_notes: !!details.notes,
+      evidence_count: details.evidence?.length ?? 0,
+      has_owner: !!details.owner,
+    });
   };
 
   const resetAnswers = () => {
     setAnswers({});
-    localStorage.removeItem(ANSWERS_KEY);
+    setAnswerDetailsState({});
+    vault.removeItem(ANSWERS_KEY);
+    vault.removeItem(ANSWER_DETAILS_KEY);
     trackEvent('answers_reset');
   };
 
   const resetAll = () => {
     setAnswers({});
+    setAnswerDetailsState({});
     setDomainScanAggregate(undefined);
     setScannerProgress([]);
-    localStorage.removeItem(ANSWERS_KEY);
-    localStorage.removeItem(DOMAIN_KEY);
-    localStorage.removeItem(DOMAIN_AGG_KEY);
+    vault.removeItem(ANSWERS_KEY);
+    vault.removeItem(ANSWER_DETAILS_KEY);
+    vault.removeItem(DOMAIN_KEY);
+    vault.removeItem(DOMAIN_AGG_KEY);
     trackEvent('reset_all');
   };
 
-  const score = useMemo(() => computeScore(answers, questions), [answers, questions]);
-  const { risks, bestPractices }: RiskMappingResult = useMemo(() => mapRisks(answers, questions), [answers, questions]);
+  const [scoringModel, setScoringModelState] = useState<ScoringModel>(
+    () => (loadStored<ScoringModel>(SCORING_MODEL_KEY) === 'weighted' ? 'weighted' : 'equal')
+  );
 
-  const runScanners = async (domain: string) => {
-    // Check cache first
-    const cached = scannerCache.get<DomainScanAggregate>(domain);
-    if (cached) {
-      setDomainScanAggregate(cached);
-      setScannerProgress(cached.scanners);
-      trackEvent('domain_scanned_cached', { domain: cached.domain });
-      return;
-    }
+  const setScoringModel = (model: ScoringModel) => {
+    setScoringModelState(model);
+    persist(SCORING_MODEL_KEY, model);
+    trackEvent('scoring_model_changed', { model });
+  };
+
+  const score = useMemo(
+    () => computeScore(answers, questions, { model: scoringModel, categoryWeights }),
+    [answers, questions, scoringModel, categoryWeights]
+  );
+
+  const [compositeWeights, setCompositeWeightsState] = useState<CompositeWeights>(() => {
+    const stored = loadStored<CompositeWeights>(COMPOSITE_WEIGHTS_KEY);
+    return stored ? normalizeCompositeWeights(stored) : { ...DEFAULT_COMPOSITE_WEIGHTS };
+  });
 
-    // Check rate limit
+  const setCompositeWeights = (weights: CompositeWeights) => {
+    const normalized = normalizeCompositeWeights(weights);
+    setCompositeWeightsState(normalized);
+    persist(COMPOSITE_WEIGHTS_KEY, normalized);
+    trackEvent('composite_weights_changed', { questionnaire: normalized.questionnaire });
+  };
+
+  const compositeScore = useMemo(
+    () => computeCompositeScore(
+      score, domainScanAggregate, compositeWeights, tCommon('report.composite.externalSurface')
+    ),
+    [score, domainScanAggregate, compositeWeights, tCommon]
+  );
+
+  const { risks, bestPractices, recommendations: riskRecommendations }: RiskMappingResult = useMemo(
+    () => mapRisks(answers, questions),
+    [answers, questions]
+  );
+  const complianceCoverage = useMemo(() => computeFrameworkCoverage(answers, questions), [answers, questions]);
+  const remediationPlan = useMemo(
+    () => buildRemediationPlan(answers, questions, domainScanAggregate),
+    [answers, questions, domainScanAggregate]
+  );
+
+  // One controller per running scan or rescan, so cancelScans can stop all of them
+  const scanControllers = useRef(new Set<AbortController>());
+
+  const startScan = (): AbortController => {
+    const controller = new AbortController();
+    scanControllers.current.add(controller);
+    return controller;
+  };
+
+  const cancelScans = () => {
+    scanControllers.current.forEach((controller) => controller.abort());
+  };
+
+  const checkScanRateLimit = () => {
     const rateCheck = scannerCache.checkRateLimit();
     if (!rateCheck.allowed) {
       throw new Error(`Rate limit exceeded. Please wait ${rateCheck.retryAfter} seconds before scanning again.`);
     }
+  };
+
+  const runScanners = async (domain: string, profile: ScanProfileId = DEFAULT_SCAN_PROFILE) => {
+    // Check cache first; each scanner's result is cached on its own, for as long as its inputs are unchanged
+    const cached = getCachedScannerResults(domain, profile);
+    if (cached.length === getProfileScanners(profile).length) {
+      const agg = buildAggregate(domain, cached, profile);
+      setDomainScanAggregate(agg);
+      persist(DOMAIN_AGG_KEY, agg);
+      setScannerProgress(agg.scanners);
+      trackEvent('domain_scanned_cached', { domain: agg.domain, profile });
+      return;
+    }
+
+    checkScanRateLimit();
 
     setScannerProgress([]);
-    const agg = await runAllScanners(domain, (partial) => {
-      setScannerProgress(partial);
-    });
+    const controller = startScan();
+    let agg: DomainScanAggregate;
+    try {
+      agg = await runAllScanners(domain, (partial) => {
+        setScannerProgress(partial);
+      }, cached, controller.signal, profile);
+    } finally {
+      scanControllers.current.delete(controller);
+    }
+
+    if (controller.signal.aborted) {
+      // Keep the saved scan; the progress list shows which scanners were cancelled
+      agg.scanners
+        .filter((result) => !cached.includes(result) && result.status === 'complete')
+        .forEach((result) => cacheScannerResult(agg.domain, result, profile));
+      trackEvent('domain_scan_cancelled', { domain: agg.domain, profile });
+      return;
+    }
 
     setDomainScanAggregate(agg);
     persist(DOMAIN_AGG_KEY, agg);
 
-    // Cache the result
-    scannerCache.set(domain, agg);
+    agg.scanners
+      .filter((result) => !cached.includes(result))
+      .forEach((result) => cacheScannerResult(agg.domain, result, profile));
+
+    touchActiveClient();
 
-    trackEvent('domain_scanned_modular', { domain: agg.domain, issues_count: agg.issues.length });
+    trackEvent('domain_scanned_modular', {
+      domain: agg.domain, issues_count: agg.issues.length, cached_scanners: cached.length, profile
+    });
   };
 
-  const exportJSON = () => JSON.stringify({
-    version: 2,
-    answers,
-    risks,
-    bestPractices,
-    domainScanAggregate
-  }, null, 2);
+  const rescanScanner = async (scannerId: string) => {
+    if (!domainScanAggregate) return;
+    const { domain, profile = DEFAULT_SCAN_PROFILE } = domainScanAggregate;
+    checkScanRateLimit();
+
+    const previous = domainScanAggregate.scanners.find((r) => r.id === scannerId);
+    setScannerProgress((prev) => (prev.length ? prev : domainScanAggregate.scanners).map((r) => (
+      r.id === scannerId ? { ...r, status: 'running' as const } : r
+    )));
+    const controller = startScan();
+    let result: ExecutedScannerResult;
+    try {
+      result = await runScanner(domain, scannerId, controller.signal, profile);
+    } finally {
+      scanControllers.current.delete(controller);
+    }
+
+    if (controller.signal.aborted) {
+      // Show the result from before the rescan again
+      setScannerProgress((prev) => prev.map((r) => (r.id === scannerId ? previous ?? result : r)));
+      trackEvent('domain_scan_cancelled', { domain, scanner: scannerId });
+      return;
+    }
+    cacheScannerResult(domain, result, profile);
+
+    setDomainScanAggregate((prev) => {
+      // A scan of another domain may have finished in the meantime
+      if (!prev || prev.domain !== domain) return prev;
+      const updated = mergeScannerResult(prev, result);
+      persist(DOMAIN_AGG_KEY, updated);
+      return updated;
+    });
+    setScannerProgress((prev) => prev.map((r) => (r.id === scannerId ? result : r)));
+    touchActiveClient();
+
+    trackEvent('domain_scanner_rescanned', { domain, scanner: scannerId, status: result.status });
+  };
+
+  const applyWorkingSet = (workingSet: ClientWorkingSet) => {
+    setAnswers(workingSet.answers);
+    persist(ANSWERS_KEY, workingSet.answers);
+    setAnswerDetailsState(workingSet.answerDetails ?? {});
+    persist(ANSWER_DETAILS_KEY, workingSet.answerDetails ?? {});
+    setDomainScanAggregate(workingSet.domainScanAggregate);
+    if (workingSet.domainScanAggregate) {
+      persist(DOMAIN_AGG_KEY, workingSet.domainScanAggregate);
+    } else {
+      vault.removeItem(DOMAIN_AGG_KEY);
+    }
+    setScannerProgress([]);
+    replaceAllDkimSelectors(workingSet.dkimSelectors);
+  };
+
+  const createClient = (name: string): string => {
+    const client = createClientAssessment(name);
+    setWorkspace((prev) => addClient(prev, client));
+    trackEvent('client_created');
+    return client.id;
+  };
+
+  const renameClient = (id: string, name: string) => {
+    setWorkspace(renameWorkspaceClient(workspace, id, name));
+    trackEvent('client_renamed');
+  };
+
+  const duplicateClient = (id: string, name: string): string => {
+    const result = duplicateWorkspaceClient(workspace, id, name, getWorkingSet());
+    setWorkspace(result.workspace);
+    trackEvent('client_duplicated');
+    return result.client.id;
+  };
+
+  const archiveClient = (id: string, archived: boolean = true) => {
+    setWorkspace(setClientArchived(workspace, id, archived));
+    trackEvent(archived ? 'client_archived' : 'client_unarchived');
+  };
+
+  const switchClient = (id: string) => {
+    if (id === workspace.activeClientId) return;
+    const checkedIn = checkInClient(workspace, getWorkingSet());
+    const { workspace: next, workingSet } = checkOutClient(checkedIn, id);
+    applyWorkingSet(workingSet);
+    setWorkspace(next);
+    trackEvent('client_switched', { client_count: next.clients.length });
+  };
+
+  const recordReport = (format: ReportFormat) => {
+    setWorkspace((prev) => addReportHistoryEntry(prev, prev.activeClientId, {
+      format,
+      scorePercent: score.percent,
+      riskCount: risks.length,
+      domain: domainScanAggregate?.domain,
+    }));
+  };
+
+  const exportJSON = (scope: ExportScope = 'client') => {
+    if (scope === 'workspace') {
+      const snapshot = checkInClient(workspace, getWorkingSet());
+      return JSON.stringify({
+        version: 2,
+        kind: 'workspace',
+        exportedAt: new Date().toISOString(),
+        workspace: { clients: snapshot.clients }
+      }, null, 2);
+    }
+
+    const activeClient = getActiveClient(checkInClient(workspace, getWorkingSet()));
+    return JSON.stringify({
+      version: 2,
+      // The working set is written at the top level, where single-assessment imports read it
+      client: activeClient
+        ? { ...activeClient, answers: undefined, answerDetails: undefined, domainScanAggregate: undefined }
+        : undefined,
+      answers,
+      answerDetails,
+      risks,
+      bestPractices,
+      domainScanAggregate
+    }, null, 2);
+  };
+
+  const takeSnapshot = (label?: string): AssessmentSnapshot => {
+    const snapshot = createSnapshot({ answers, score, risks, domainScanAggregate }, label);
+    setWorkspace((prev) => addSnapshot(prev, prev.activeClientId, snapshot));
+    trackEvent('snapshot_taken', { score_percent: score.percent });
+    return snapshot;
+  };
+
+  const deleteSnapshot = (snapshotId: string) => {
+    setWorkspace((prev) => removeSnapshot(prev, prev.activeClientId, snapshotId));
+    trackEvent('snapshot_deleted');
+  };
+
+  const updateBranding = (settings: BrandingSettings) => {
+    setBranding(normalizeBranding(settings));
+    trackEvent('branding_updated', { has_logo: !!settings.logoDataUrl });
+  };
+
+  const resetBranding = () => {
+    setBranding({ ...DEFAULT_BRANDING });
+    trackEvent('branding_reset');
+  };
+
+  useEffect(() => {
+    saveQuestionPacks(questionPacks);
+  }, [questionPacks]);
+
+  // Installing a pack with an existing id replaces it (e.g. a newer version)
+  const installQuestionPack = (pack: QuestionPack) => {
+    registerPackResources(i18n, pack);
+    setQuestionPacks((prev) => [...prev.filter((p) => p.id !== pack.id), pack]);
+    trackEvent('question_pack_installed', { pack_id: pack.id, question_count: pack.questions.length });
+  };
+
+  const removeQuestionPack = (id: string) => {
+    setQuestionPacks((prev) => prev.filter((p) => p.id !== id));
+    setWorkspace((prev) => ({
+      ...prev,
+      clients: prev.clients.map((c) => (
+        c.enabledPacks?.includes(id) ? { ...c, enabledPacks: c.enabledPacks.filter((p) => p !== id) } : c
+      )),
+    }));
+    trackEvent('question_pack_removed', { pack_id: id });
+  };
+
+  const setPackEnabled = (id: string, enabled: boolean) => {
+    setWorkspace((prev) => {
+      const current = getActiveClient(prev)?.enabledPacks ?? [];
+      const enabledPacks = enabled ? [...current.filter((p) => p !== id), id] : current.filter((p) => p !== id);
+      return updateClient(prev, prev.activeClientId, { enabledPacks });
+    });
+    trackEvent(enabled ? 'question_pack_enabled' : 'question_pack_disabled', { pack_id: id });
+  };
+
+  const activeSnapshots = workspace.clients.find((c) => c.id === workspace.activeClientId)?.snapshots ?? [];
+
+  const respondents = useMemo(() => getActiveClient(workspace)?.respondents ?? [], [workspace]);
+
+  const scoreRange = useMemo(
+    () => computeScoreRange(respondents.map((r) => r.answers), questions, { model: scoringModel, categoryWeights }),
+    [respondents, questions, scoringModel, categoryWeights]
+  );
+
+  const addRespondent = (name: string, respondentAnswers: Record<string, string>): Respondent => {
+    const respondent = createRespondent(name, respondentAnswers);
+    setWorkspace((prev) => updateClient(prev, prev.activeClientId, {
+      respondents: [...(getActiveClient(prev)?.respondents ?? []), respondent],
+    }));
+    trackEvent('respondent_added', { answer_count: Object.keys(respondentAnswers).length });
+    return respondent;
+  };
+
+  const removeRespondent = (id: string) => {
+    setWorkspace((prev) => updateClient(prev, prev.activeClientId, {
+      respondents: (getActiveClient(prev)?.respondents ?? []).filter((r) => r.id !== id),
+    }));
+    trackEvent('respondent_removed');
+  };
+
+  // Convert imported answers to the current option-ID format when they come from a v1 export
+  const migrateImportedAnswers = (importedAnswers: Record<string, string>, dataVersion: number) => {
+    if (dataVersion !== 1) return importedAnswers;
+    const migrationResult = migrateAnswers(importedAnswers, rawQuestions, t);
+    trackEvent('imported_answers_migrated', {
+      from_version: dataVersion,
+      migrated_count: migrationResult.migratedCount,
+      unmatched_count: migrationResult.unmatchedCount
+    });
+    return migrationResult.answers;
+  };
+
+  // Rebuild an exported client record as a new client; its answers must already be migrated
+  const restoreClient = (name: string, c: Partial<ClientAssessment>, dataVersion: number) =>
+    createClientAssessment(name, {
+      answers: c.answers ?? {},
+      answerDetails: c.answerDetails ?? {},
+      domainScanAggregate: c.domainScanAggregate,
+      dkimSelectors: c.dkimSelectors ?? {},
+      reportHistory: Array.isArray(c.reportHistory) ? c.reportHistory : [],
+      snapshots: Array.isArray(c.snapshots) ? c.snapshots : [],
+      respondents: Array.isArray(c.respondents)
+        ? c.respondents.map((r) => ({ ...r, answers: migrateImportedAnswers(r.answers, dataVersion) }))
+        : [],
+      enabledPacks: Array.isArray(c.enabledPacks) ? c.enabledPacks : [],
+    });
+
+  const importWorkspace = (obj: { version?: number; workspace: { clients: Partial<ClientAssessment>[] } }) => {
+    const imported = obj.workspace.clients.map((c) => restoreClient(c.name as string, {
+      ...c,
+      answers: migrateImportedAnswers(c.answers ?? {}, obj.version ?? 1),
+    }, obj.version ?? 1));
+    setWorkspace((prev) => imported.reduce((ws, client) => addClient(ws, client), prev));
+    trackImport('json', true, { kind: 'workspace', client_count: imported.length });
+    return { success: true };
+  };
+
+  const importJSON = (json: string, options: ImportOptions = {}): ImportResult => {
+    if (isEncryptedExportJSON(json)) {
+      return { success: false, error: 'This export is encrypted; a passphrase is required', encrypted: true };
+    }
 
-  const importJSON = (json: string): { success: boolean; error?: string } => {
     // Validate JSON structure and complexity first
     const validation = validateImportJSON(json);
     if (!validation.isValid) {
@@ -198,55 +709,66 @@ export const AppStateProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     try {
       const obj = JSON.parse(json);
 
+      if (obj.kind === 'workspace') {
+        return importWorkspace(obj);
+      }
+
       // Detect version: missing version = v1, explicit version 1 = v1, version 2 = v2
       const dataVersion = obj.version ?? 1; // Default to v1 if no version specified
 
-      let answersImported = false;
-
-      // Validate and import answers
-      if (obj.answers && typeof obj.answers === 'object' && !Array.isArray(obj.answers)) {
-        let answersToImport = obj.answers;
-
-        // For v1 data (no version or version=1), ALWAYS migrate regardless of what needsMigration says
-        // because v1 format uses text-based answers that must be converted to option IDs
-        const shouldMigrate = dataVersion === 1;
-
-        // Migrate v1 data to v2 format
-        if (shouldMigrate) {
-
-          const migrationResult = migrateAnswers(answersToImport, rawQuestions, t);
-          answersToImport = migrationResult.answers;
-
-          // Track migration during import
-          trackEvent('imported_answers_migrated', {
-            from_version: dataVersion,
-            migrated_count: migrationResult.migratedCount,
-            unmatched_count: migrationResult.unmatchedCount
-          });
-        }
-
-        setAnswers(answersToImport);
-        persist(ANSWERS_KEY, answersToImport);
-        answersImported = Object.keys(answersToImport).length > 0;
-      }
-
-      // Validate and import domain scan aggregate
-      if (
+      const importedAnswers: Record<string, string> | undefined =
+        obj.answers && typeof obj.answers === 'object' && !Array.isArray(obj.answers)
+          // For v1 data (no version or version=1), ALWAYS migrate regardless of what needsMigration says
+          // because v1 format uses text-based answers that must be converted to option IDs
+          ? migrateImportedAnswers(obj.answers, dataVersion)
+          : undefined;
+      const importedAggregate: DomainScanAggregate | undefined =
         obj.domainScanAggregate &&
         typeof obj.domainScanAggregate === 'object' &&
         !Array.isArray(obj.domainScanAggregate)
-      ) {
-        setDomainScanAggregate(obj.domainScanAggregate);
-        persist(DOMAIN_AGG_KEY, obj.domainScanAggregate);
+          ? obj.domainScanAggregate
+          : undefined;
+      // Structure and limits were checked by validateImportJSON
+      const importedDetails: AnswerDetailsMap | undefined =
+        obj.answerDetails && typeof obj.answerDetails === 'object' && !Array.isArray(obj.answerDetails)
+          ? obj.answerDetails
+          : undefined;
+      const answersImported = !!importedAnswers && Object.keys(importedAnswers).length > 0;
+
+      // Checked before any state changes so a file without data leaves no empty client behind.
+      // The file itself passed validation, so it is still tracked as a successful import.
+      if (!answersImported && !importedAggregate) {
+        trackImport('json', true);
+        return { success: false, error: 'No valid data found to import' };
       }
 
-      trackImport('json', true);
-
-      // Return success with warning if no answers were actually imported
-      if (!answersImported && !obj.domainScanAggregate) {
-        return { success: false, error: 'No valid data found to import' };
+      if (options.asNewClient) {
+        const name = typeof obj.client?.name === 'string' && obj.client.name.trim()
+          ? obj.client.name
+          : tCommon('clients.importedName');
+        const client = restoreClient(name, {
+          ...obj.client,
+          answers: importedAnswers ?? {},
+          answerDetails: importedDetails,
+          domainScanAggregate: importedAggregate,
+        }, dataVersion);
+        setWorkspace((prev) => addClient(prev, client));
+      } else {
+        if (importedAnswers) {
+          setAnswers(importedAnswers);
+          persist(ANSWERS_KEY, importedAnswers);
+          // Details belong to the imported answers, so they replace the current ones even when absent
+          setAnswerDetailsState(importedDetails ?? {});
+          persist(ANSWER_DETAILS_KEY, importedDetails ?? {});
+        }
+        if (importedAggregate) {
+          setDomainScanAggregate(importedAggregate);
+          persist(DOMAIN_AGG_KEY, importedAggregate);
+        }
+        touchActiveClient();
       }
 
+      trackImport('json', true);
       return { success: true };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to parse JSON';
@@ -255,22 +777,73 @@ export const AppStateProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
 
+  const importEncryptedJSON = async (
+    json: string,
+    passphrase: string,
+    options: ImportOptions = {}
+  ): Promise<ImportResult> => {
+    const decrypted = await decryptExport(json, passphrase);
+    if (!decrypted.success || decrypted.json === undefined) {
+      trackImport('json', false, { error: decrypted.error, encrypted: true });
+      return { success: false, error: decrypted.error, encrypted: true };
+    }
+    return importJSON(decrypted.json, options);
+  };
+
   return (
     <AppStateContext.Provider
       value={{
         questions,
+        rawQuestions,
         answers,
         setAnswer,
+        answerDetails,
+        setAnswerDetails,
         resetAnswers,
         resetAll,
         score,
+        scoringModel,
+        setScoringModel,
+        categoryWeights,
+        compositeScore,
+        compositeWeights,
+        setCompositeWeights,
         risks,
         bestPractices,
+        riskRecommendations,
+        remediationPlan,
+        complianceCoverage,
         domainScanAggregate,
         scannerProgress,
         runScanners,
+        rescanScanner,
+        cancelScans,
         exportJSON,
-        importJSON
+        importJSON,
+        importEncryptedJSON,
+        clients: workspace.clients,
+        activeClientId: workspace.activeClientId,
+        createClient,
+        renameClient,
+        duplicateClient,
+        archiveClient,
+        switchClient,
+        recordReport,
+        snapshots: activeSnapshots,
+        takeSnapshot,
+        deleteSnapshot,
+        branding,
+        updateBranding,
+        resetBranding,
+        questionPacks,
+        enabledPackIds,
+        installQuestionPack,
+        removeQuestionPack,
+        setPackEnabled,
+        respondents,
+        scoreRange,
+        addRespondent,
+        removeRespondent
       }}
     >
       {children}
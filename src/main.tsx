@@ -2,11 +2,17 @@ import { createRoot } from 'react-dom/client';
 
 import App from './components/App';
 import './i18n/config';
+import { storage } from './utils/storage';
+import { scannerCache } from './utils/scannerCache';
 
 const container = document.getElementById('root');
 if (container) {
   const root = createRoot(container);
-  root.render(<App />);
+  // Stored state is read synchronously while rendering, so load it from IndexedDB first
+  void storage.init().then(() => {
+    scannerCache.connect();
+    root.render(<App />);
+  });
 } else {
   throw new Error('Root container not found');
 }
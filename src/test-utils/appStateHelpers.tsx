@@ -4,26 +4,73 @@
 import React from 'react';
 import { render, RenderOptions } from '@testing-library/react';
 import { AppStateProvider } from '../context/AppStateContext';
-import { Question } from '../types/questions';
-import { ScoreResult } from '../utils/scoring';
+import { Question, RawQuestion } from '../types/questions';
+import { ScoreRange, ScoreResult, ScoringModel } from '../utils/scoring';
 import { DomainScanResult } from '../utils/domainChecks';
 import { DomainScanAggregate, ExecutedScannerResult } from '../types/domainScan';
+import { AssessmentSnapshot, ClientAssessment, ReportFormat } from '../types/workspace';
+import { BrandingSettings } from '../types/branding';
+import { QuestionPack } from '../types/questionPacks';
+import { AnswerDetails, AnswerDetailsMap } from '../types/answerDetails';
+import { Respondent } from '../types/respondents';
+import { DEFAULT_BRANDING } from '../utils/branding';
+import { CompositeScoreResult, CompositeWeights, DEFAULT_COMPOSITE_WEIGHTS } from '../utils/compositeScore';
+import { RemediationPlan } from '../utils/remediationPlan';
+import { FrameworkCoverage } from '../utils/compliance';
 
 // Mock AppStateContext module to allow custom provider values
 export interface MockAppStateValue {
   questions?: Question[];
+  rawQuestions?: RawQuestion[];
   answers?: Record<string, string>;
+  answerDetails?: AnswerDetailsMap;
+  setAnswerDetails?: (id: string, details: AnswerDetails) => void;
   setAnswer?: (id: string, value: string) => void;
   resetAnswers?: () => void;
   score?: ScoreResult;
+  scoringModel?: ScoringModel;
+  setScoringModel?: (model: ScoringModel) => void;
+  categoryWeights?: Record<string, number>;
+  compositeScore?: CompositeScoreResult;
+  compositeWeights?: CompositeWeights;
+  setCompositeWeights?: (weights: CompositeWeights) => void;
   risks?: string[];
   bestPractices?: string[];
+  riskRecommendations?: Record<string, string[]>;
+  remediationPlan?: RemediationPlan;
+  complianceCoverage?: FrameworkCoverage[];
   domainScan?: DomainScanResult;
   domainScanAggregate?: DomainScanAggregate;
   scannerProgress?: ExecutedScannerResult[];
   runScanners?: (domain: string) => Promise<void>;
+  rescanScanner?: (scannerId: string) => Promise<void>;
+  cancelScans?: () => void;
   exportJSON?: () => string;
   importJSON?: (json: string) => boolean;
+  importEncryptedJSON?: (json: string, passphrase: string) => Promise<{ success: boolean; error?: string }>;
+  clients?: ClientAssessment[];
+  activeClientId?: string;
+  createClient?: (name: string) => string;
+  renameClient?: (id: string, name: string) => void;
+  duplicateClient?: (id: string, name: string) => string;
+  archiveClient?: (id: string, archived?: boolean) => void;
+  switchClient?: (id: string) => void;
+  recordReport?: (format: ReportFormat) => void;
+  snapshots?: AssessmentSnapshot[];
+  takeSnapshot?: (label?: string) => AssessmentSnapshot;
+  deleteSnapshot?: (id: string) => void;
+  branding?: BrandingSettings;
+  updateBranding?: (settings: BrandingSettings) => void;
+  resetBranding?: () => void;
+  questionPacks?: QuestionPack[];
+  enabledPackIds?: string[];
+  installQuestionPack?: (pack: QuestionPack) => void;
+  removeQuestionPack?: (id: string) => void;
+  setPackEnabled?: (id: string, enabled: boolean) => void;
+  respondents?: Respondent[];
+  scoreRange?: ScoreRange;
+  addRespondent?: (name: string, answers: Record<string, string>) => Respondent;
+  removeRespondent?: (id: string) => void;
 }
 
 // Default mock values for testing
@@ -37,21 +84,87 @@ export const createMockAppState = (overrides: Partial<MockAppStateValue> = {}):
 
   return {
     questions: [],
+    rawQuestions: [],
     answers: {},
     setAnswer: () => {},
+    answerDetails: {},
+    setAnswerDetails: () => {},
     resetAnswers: () => {},
     score: defaultScore,
+    scoringModel: 'equal',
+    setScoringModel: () => {},
+    categoryWeights: {},
+    compositeScore: {
+      percent: overrides.score?.percent ?? 0,
+      questionnairePercent: overrides.score?.percent ?? 0,
+      weights: { questionnaire: 1, externalSurface: 0 }
+    },
+    compositeWeights: { ...DEFAULT_COMPOSITE_WEIGHTS },
+    setCompositeWeights: () => {},
     risks: [],
     bestPractices: [],
+    riskRecommendations: {},
+    remediationPlan: { items: [], phases: { quickWins: [], days30: [], days90: [] } },
+    complianceCoverage: [],
     scannerProgress: [],
     runScanners: async () => {},
+    rescanScanner: async () => {},
+    cancelScans: () => {},
     exportJSON: () => '{}',
     importJSON: () => true,
+    importEncryptedJSON: async () => ({ success: true }),
+    clients: [createSampleClient()],
+    activeClientId: 'client-1',
+    createClient: () => 'client-2',
+    renameClient: () => {},
+    duplicateClient: () => 'client-2',
+    archiveClient: () => {},
+    switchClient: () => {},
+    recordReport: () => {},
+    snapshots: [],
+    takeSnapshot: (label?: string) => createSampleSnapshot({ label }),
+    deleteSnapshot: () => {},
+    branding: { ...DEFAULT_BRANDING },
+    updateBranding: () => {},
+    resetBranding: () => {},
+    questionPacks: [],
+    enabledPackIds: [],
+    installQuestionPack: () => {},
+    removeQuestionPack: () => {},
+    setPackEnabled: () => {},
+    respondents: [],
+    scoreRange: undefined,
+    addRespondent: (name: string, answers: Record<string, string>) => ({
+      id: 'respondent-1', name, importedAt: new Date().toISOString(), answers
+    }),
+    removeRespondent: () => {},
     ...overrides
   };
 };
 
 // Sample data generators for common test scenarios
+export const createSampleClient = (overrides: Partial<ClientAssessment> = {}): ClientAssessment => ({
+  id: 'client-1',
+  name: 'Acme Corp',
+  createdAt: '2025-10-27T00:00:00.000Z',
+  updatedAt: '2025-10-27T00:00:00.000Z',
+  archived: false,
+  answers: {},
+  dkimSelectors: {},
+  reportHistory: [],
+  snapshots: [],
+  ...overrides
+});
+
+export const createSampleSnapshot = (overrides: Partial<AssessmentSnapshot> = {}): AssessmentSnapshot => ({
+  id: 'snapshot-1',
+  createdAt: '2025-10-27T00:00:00.000Z',
+  answers: {},
+  score: createSampleScore(),
+  risks: [],
+  ...overrides
+});
+
 export const createSampleScore = (percent: number = 75): ScoreResult => ({
   total: 75,
   max: 100,
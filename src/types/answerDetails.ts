@@ -0,0 +1,19 @@
+// Context recorded next to an answer: why it was chosen, what supports it and who owns the follow-up.
+// Kept in its own map keyed by question id so the answers map stays Record<string, string>.
+
+export interface EvidenceItem {
+  id: string;
+  name: string; // link text or original file name
+  url?: string; // http(s) link to evidence kept elsewhere
+  dataUrl?: string; // attached file, stored locally as a base64 data URL
+  addedAt: string;
+}
+
+export interface AnswerDetails {
+  notes?: string;
+  evidence?: EvidenceItem[];
+  owner?: string; // person or team accountable for remediation
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export type AnswerDetailsMap = Record<string, AnswerDetails>;
@@ -0,0 +1,17 @@
+// White-label branding an MSP applies to the Report page, print view and every export format.
+// Empty strings mean "use the default", so an unbranded report looks exactly as before.
+
+export interface BrandingSettings {
+  companyName: string;
+  // Replaces the default report title in exports
+  reportTitle: string;
+  // PNG data URL, normalized on upload so it stays small enough to store
+  logoDataUrl: string;
+  // Free-form contact block (address, email, phone), one item per line
+  contact: string;
+  // Hex colors for headings and accent rules
+  primaryColor: string;
+  accentColor: string;
+  // Replaces the default limitations text
+  disclaimer: string;
+}
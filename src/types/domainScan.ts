@@ -1,5 +1,6 @@
 // Extensible domain scanning types allowing independent scanner execution.
 // Adding a new scanner: implement DomainScanner definition and add to SCANNERS array.
+import type { DnsResolver } from '../utils/domainChecks';
 
 export type ScannerStatus = 'idle' | 'running' | 'complete' | 'error';
 
@@ -12,11 +13,45 @@ export interface BaseScannerResult {
   issues?: string[];
 }
 
+// Per-scanner settings chosen by a scan profile
+export interface ScannerOptions {
+  // Overrides the scanner's own timeout, in milliseconds
+  timeout?: number;
+  // Scanner-specific settings, read by the scanner from context.options
+  [option: string]: unknown;
+}
+
+export type ScanProfileId = 'quick' | 'standard' | 'deep';
+
+// A named selection of scanners and their options; labels are translated from scanProfiles.<id>
+export interface ScanProfile {
+  id: ScanProfileId;
+  // Scanners to run, by id; every scanner when omitted
+  scannerIds?: string[];
+  // Options for individual scanners, by scanner id
+  scannerOptions?: Record<string, ScannerOptions>;
+}
+
+// Shared by the scanners of one scan
+export interface ScanContext {
+  // Memoized DNS lookups; use instead of fetchDNS so each record is queried once per scan
+  resolveDNS: DnsResolver;
+  // Completed results of the scanners listed in dependsOn, by id. A dependency that failed is missing, and so are
+  // all of them when the scanner runs on its own (e.g. a rescan); do the lookups yourself then.
+  results: Record<string, ExecutedScannerResult>;
+  // Options the scan profile sets for this scanner
+  options?: ScannerOptions;
+}
+
 export interface DomainScanner {
   id: string; // unique key
   label: string; // display name
   description?: string; // short description for UI
-  run: (domain: string) => Promise<BaseScannerResult>; // Executes scanner
+  // Executes scanner. Requests must use the signal, which aborts on cancel and timeout; an aborted run should reject
+  // with signal.reason rather than resolve with a partial result.
+  run: (domain: string, signal?: AbortSignal, context?: ScanContext) => Promise<BaseScannerResult>;
+  // Optional ids of scanners that must finish first; their results are passed in context.results
+  dependsOn?: string[];
   // Optional function to derive issues from the raw scanner result if not filled in run.
   deriveIssues?: (result: BaseScannerResult, domain: string) => string[];
   // Optional priority/order weight (lower first); default appended order.
@@ -28,6 +63,11 @@ export interface DomainScanner {
   };
   // Optional custom timeout in milliseconds (defaults to DEFAULT_SCANNER_TIMEOUT)
   timeout?: number;
+  // Optional lifetime of cached results in milliseconds (defaults to DEFAULT_CACHE_TTL_MS)
+  cacheTtl?: number;
+  // Optional fingerprint of inputs besides the domain (e.g. DKIM selectors); cached results are reused only while
+  // it is unchanged
+  inputFingerprint?: (domain: string) => string;
 }
 
 export interface ExecutedScannerResult extends BaseScannerResult {
@@ -49,6 +89,8 @@ export interface DomainScanAggregate {
   scanners: ExecutedScannerResult[];
   // Combined issues across all scanners.
   issues: string[];
+  // Profile the scan ran with; scans from before profiles ran every scanner, like 'standard'
+  profile?: ScanProfileId;
 }
 
 export type SeverityLevel = 'success' | 'info' | 'warning' | 'critical' | 'error';
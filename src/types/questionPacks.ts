@@ -0,0 +1,30 @@
+// Questionnaire packs: add-on question sets (e.g. HIPAA, cloud security) uploaded as JSON and enabled per assessment.
+// Question ids, categories and translation keys inside a pack are local to it; they are namespaced with the pack id
+// when the pack is loaded so they can never collide with the core questionnaire or another pack.
+
+import { RawQuestion, RawQuestionnaire } from './questions';
+
+// Translations for one language, in the same shape as the questions namespace
+export interface QuestionPackTranslations {
+  name?: string;
+  description?: string;
+  categories?: Record<string, string>;
+  questions?: Record<string, {
+    text?: string;
+    options?: Record<string, { label?: string; risk?: string }>;
+    recommendations?: Record<string, string>;
+  }>;
+}
+
+// Pack questions use the core question format; text is optional because it normally comes from translations
+export type PackQuestion = Omit<RawQuestion, 'text' | 'packId'> & { text?: string };
+
+export interface QuestionPack {
+  id: string; // lowercase slug, e.g. "hipaa"
+  name: string; // fallback display name
+  version?: string;
+  description?: string;
+  questions: PackQuestion[];
+  scoring?: RawQuestionnaire['scoring'];
+  translations?: Record<string, QuestionPackTranslations>; // keyed by language code
+}
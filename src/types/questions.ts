@@ -1,21 +1,52 @@
+export type RemediationEffort = 'low' | 'medium' | 'high';
+
+// Compliance frameworks questions can be mapped to
+export type FrameworkId = 'nist_csf_2' | 'cis_v8' | 'iso_27001';
+
+// Framework -> control IDs, e.g. { nist_csf_2: ['PR.AA-03'], cis_v8: ['6.3'], iso_27001: ['A.8.5'] }
+export type FrameworkControls = Partial<Record<FrameworkId, string[]>>;
+
+// Show-if condition on another question's answer (option ids). Without anyOf/noneOf any answer satisfies it.
+export interface QuestionCondition {
+  questionId: string;
+  anyOf?: string[]; // shown only for one of these answers
+  noneOf?: string[]; // hidden for any of these answers
+}
+
 export interface RawOption {
   id: string;
   option?: string;
   risk?: string;
   points?: number;
+  controls?: FrameworkControls; // Controls evidenced only when this option is chosen
 }
 export interface RawQuestion {
   id: string;
   text: string;
   category: string;
+  weight?: number; // Relative importance under the weighted scoring model (default 1)
+  effort?: RemediationEffort; // Estimated remediation effort for the remediation plan (default 'medium')
+  controls?: FrameworkControls; // Framework controls this question evidences
+  packId?: string; // Set on questions loaded from a questionnaire pack
+  showIf?: QuestionCondition[]; // Only asked while every condition holds
+  // Option id -> recommendation keys, translated from questions.<id>.recommendations.<key>
   recommendationMap?: Record<string, string[]>;
   options?: RawOption[];
 }
+
+export interface RawQuestionnaire {
+  questions: RawQuestion[];
+  scoring?: {
+    categoryWeights?: Record<string, number>; // Keyed by category key (default 1)
+  };
+}
 export interface AnswerOption {
   label: string;
   value: string;
   risk: string;
   points: number; // Raw point contribution for this answer
+  recommendations?: string[]; // Translated next steps when this answer is chosen
+  controls?: FrameworkControls; // Controls evidenced only when this answer is chosen
 }
 
 export interface Question {
@@ -23,6 +54,12 @@ export interface Question {
   text: string; // Human readable question text
   category: string; // Translated category name for display
   categoryKey: string; // Original untranslated category for grouping
+  weight?: number; // Relative importance under the weighted scoring model (default 1)
+  effort?: RemediationEffort; // Estimated remediation effort (default 'medium')
+  controls?: FrameworkControls; // Framework controls this question evidences
+  packId?: string; // Questionnaire pack the question comes from; undefined for the core questionnaire
+  showIf?: QuestionCondition[]; // Only shown and scored while every condition holds
+  dontKnowRisk?: string; // Translated risk reported when the answer is "Don't know"
   options: AnswerOption[]; // Dropdown options
 }
 
@@ -0,0 +1,9 @@
+// Several people answer the same questionnaire (IT lead, office manager, owner...). Their answer sets are kept
+// next to the assessment; the assessment's own answers remain the assessor's final, reconciled answers.
+
+export interface Respondent {
+  id: string;
+  name: string;
+  importedAt: string;
+  answers: Record<string, string>;
+}
@@ -0,0 +1,55 @@
+// Workspace types: an MSP keeps one named assessment per client and switches between them.
+// The active client's answers and scan are "checked out" into the working state of AppStateContext;
+// all other clients are stored in full inside the workspace record.
+
+import { DomainScanAggregate } from './domainScan';
+import { AnswerDetailsMap } from './answerDetails';
+import { Respondent } from './respondents';
+import type { ScoreResult } from '../utils/scoring';
+
+export type ReportFormat = 'word' | 'pdf' | 'json' | 'print';
+
+export interface ReportHistoryEntry {
+  id: string;
+  format: ReportFormat;
+  generatedAt: string;
+  scorePercent: number;
+  riskCount: number;
+  domain?: string;
+}
+
+// Point-in-time copy of a completed assessment, used for history and trend reporting
+export interface AssessmentSnapshot {
+  id: string;
+  createdAt: string;
+  label?: string;
+  answers: Record<string, string>;
+  score: ScoreResult;
+  risks: string[];
+  domainScanAggregate?: DomainScanAggregate;
+}
+
+export interface ClientAssessment {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  archived: boolean;
+  answers: Record<string, string>;
+  answerDetails?: AnswerDetailsMap; // notes, evidence and owners keyed by question id
+  domainScanAggregate?: DomainScanAggregate;
+  // DKIM selectors keyed by domain
+  dkimSelectors: Record<string, string[]>;
+  reportHistory: ReportHistoryEntry[];
+  // Snapshots stay in the record even while the client is checked out
+  snapshots: AssessmentSnapshot[];
+  // Questionnaire packs enabled for this assessment; metadata, so it also stays in the record
+  enabledPacks?: string[];
+  // Answer sets collected from individual respondents; like snapshots they stay in the record
+  respondents?: Respondent[];
+}
+
+export interface Workspace {
+  activeClientId: string;
+  clients: ClientAssessment[];
+}
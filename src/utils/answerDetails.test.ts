@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_ATTACHMENT_SIZE,
+  getAttachmentsSize,
+  getDataUrlSize,
+  isAttachmentDataUrl,
+  isDueDate,
+  isOverdue,
+  isValidEvidence,
+  normalizeAnswerDetails,
+  setAnswerDetailsEntry,
+} from './answerDetails';
+import { EvidenceItem } from '../types/answerDetails';
+
+const toDataUrl = (type: string, bytes: number) => `data:${type};base64,${btoa('a'.repeat(bytes))}`;
+
+const link: EvidenceItem = { id: 'e1', name: 'Policy', url: 'https://example.com/policy', addedAt: '2026-01-01' };
+const file: EvidenceItem = { id: 'e2', name: 'scan.png', dataUrl: toDataUrl('image/png', 10), addedAt: '2026-01-01' };
+
+describe('answerDetails', () => {
+  it('accepts only supported base64 attachments and measures their decoded size', () => {
+    expect(isAttachmentDataUrl(toDataUrl('application/pdf', 4))).toBe(true);
+    expect(isAttachmentDataUrl(toDataUrl('text/html', 4))).toBe(false);
+    expect(isAttachmentDataUrl('data:image/png,not-base64')).toBe(false);
+    expect(getDataUrlSize(toDataUrl('text/plain', 1))).toBe(1);
+    expect(getDataUrlSize(toDataUrl('text/plain', 5))).toBe(5);
+    expect(getAttachmentsSize({ q1: { evidence: [link, file] }, q2: { evidence: [file] } })).toBe(20);
+  });
+
+  it('validates evidence links and attachments', () => {
+    expect(isValidEvidence(link)).toBe(true);
+    expect(isValidEvidence(file)).toBe(true);
+    expect(isValidEvidence({ ...link, url: 'ftp://example.com/policy' })).toBe(false);
+    expect(isValidEvidence({ ...link, dataUrl: file.dataUrl })).toBe(false);
+    expect(isValidEvidence({ ...link, name: ' ' })).toBe(false);
+    expect(isValidEvidence({ ...file, dataUrl: toDataUrl('image/png', MAX_ATTACHMENT_SIZE + 3) })).toBe(false);
+  });
+
+  it('flags due dates that have passed', () => {
+    const now = new Date(2026, 2, 10, 12);
+    expect(isDueDate('2026-03-09')).toBe(true);
+    expect(isDueDate('09/03/2026')).toBe(false);
+    expect(isOverdue({ dueDate: '2026-03-09' }, now)).toBe(true);
+    expect(isOverdue({ dueDate: '2026-03-10' }, now)).toBe(false);
+    expect(isOverdue({}, now)).toBe(false);
+  });
+
+  it('normalizes details and removes entries that end up empty', () => {
+    expect(normalizeAnswerDetails({ notes: '  Checked  ', owner: ' ', dueDate: 'soon', evidence: [] }))
+      .toEqual({ notes: 'Checked' });
+    expect(normalizeAnswerDetails({ notes: '   ' })).toBeUndefined();
+
+    const map = setAnswerDetailsEntry({}, 'q1', { owner: 'IT', evidence: [link] });
+    expect(map).toEqual({ q1: { owner: 'IT', evidence: [link] } });
+    expect(setAnswerDetailsEntry(map, 'q1', { owner: '' })).toEqual({});
+    expect(map.q1).toBeDefined();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Per-question notes, evidence and ownership: limits, normalization and helpers shared by the
+ * Questionnaire editor, the Report appendix and import validation.
+ */
+
+import { AnswerDetails, AnswerDetailsMap, EvidenceItem } from '../types/answerDetails';
+
+export const MAX_NOTES_LENGTH = 5000;
+export const MAX_OWNER_LENGTH = 100;
+export const MAX_EVIDENCE_ITEMS = 10; // per question
+export const MAX_EVIDENCE_NAME_LENGTH = 200;
+export const MAX_EVIDENCE_URL_LENGTH = 2000;
+// Attachments are stored with the rest of the assessment, so both single files and the total are capped
+export const MAX_ATTACHMENT_SIZE = 256 * 1024; // 256KB
+export const MAX_TOTAL_ATTACHMENT_SIZE = 2 * 1024 * 1024; // 2MB per assessment
+export const ATTACHMENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'text/plain'];
+
+const DATA_URL_PATTERN = /^data:([a-z]+\/[a-z.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+export const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Only base64 data URLs of the allowed attachment types are accepted
+ */
+export const isAttachmentDataUrl = (value: string): boolean => {
+  const match = DATA_URL_PATTERN.exec(value);
+  return Boolean(match && ATTACHMENT_TYPES.includes(match[1]));
+};
+
+// Decoded size of a base64 data URL in bytes
+export const getDataUrlSize = (dataUrl: string): number => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+};
+
+export const getAttachmentsSize = (details: AnswerDetailsMap): number =>
+  Object.values(details)
+    .flatMap((d) => d.evidence ?? [])
+    .reduce((sum, e) => sum + (e.dataUrl ? getDataUrlSize(e.dataUrl) : 0), 0);
+
+export const isDueDate = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+// Due dates are calendar days; one is overdue once that day has passed in local time
+export const isOverdue = (details: AnswerDetails, now: Date = new Date()): boolean => {
+  if (!details.dueDate) return false;
+  const today = [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map((n, i) => String(n).padStart(i === 0 ? 4 : 2, '0'))
+    .join('-');
+  return details.dueDate < today;
+};
+
+export const isValidEvidence = (item: EvidenceItem): boolean =>
+  typeof item.name === 'string' && item.name.trim().length > 0 && item.name.length <= MAX_EVIDENCE_NAME_LENGTH &&
+  // Exactly one of url / dataUrl
+  (item.url !== undefined) !== (item.dataUrl !== undefined) &&
+  (item.url === undefined || (item.url.length <= MAX_EVIDENCE_URL_LENGTH && isHttpUrl(item.url))) &&
+  (item.dataUrl === undefined || (isAttachmentDataUrl(item.dataUrl) &&
+    getDataUrlSize(item.dataUrl) <= MAX_ATTACHMENT_SIZE));
+
+/**
+ * Trim text fields and drop empty or invalid values. Returns undefined when nothing is left.
+ */
+export const normalizeAnswerDetails = (details: AnswerDetails): AnswerDetails | undefined => {
+  const notes = details.notes?.trim().slice(0, MAX_NOTES_LENGTH);
+  const owner = details.owner?.trim().slice(0, MAX_OWNER_LENGTH);
+  const dueDate = details.dueDate && isDueDate(details.dueDate) ? details.dueDate : undefined;
+  const evidence = (details.evidence ?? []).filter(isValidEvidence).slice(0, MAX_EVIDENCE_ITEMS);
+  const normalized: AnswerDetails = {
+    ...(notes ? { notes } : {}),
+    ...(evidence.length > 0 ? { evidence } : {}),
+    ...(owner ? { owner } : {}),
+    ...(dueDate ? { dueDate } : {}),
+  };
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
+
+/**
+ * Replace one question's details, removing the entry when they are empty
+ */
+export const setAnswerDetailsEntry = (
+  map: AnswerDetailsMap,
+  questionId: string,
+  details: AnswerDetails
+): AnswerDetailsMap => {
+  const next = { ...map };
+  const normalized = normalizeAnswerDetails(details);
+  if (normalized) {
+    next[questionId] = normalized;
+  } else {
+    delete next[questionId];
+  }
+  return next;
+};
@@ -12,6 +12,8 @@ describe('answerMigration', () => {
       'questions.q2.options.opt0.label': 'MFA is not enforced',
       'questions.q2.options.opt1.label': 'MFA is enforced for remote access',
       'questions.q2.options.opt2.label': 'MFA is enforced for all access',
+      'answerStates.na': 'Not applicable',
+      'answerStates.unknown': 'Don\'t know',
     };
     return translations[key] || key;
   };
@@ -52,6 +54,10 @@ describe('answerMigration', () => {
       expect(needsMigration(answers)).toBe(false);
     });
 
+    it('returns false for N/A and Don\'t know answers', () => {
+      expect(needsMigration({ q1: 'na', q2: 'unknown' })).toBe(false);
+    });
+
     it('returns true when any answer is in old format', () => {
       const answers = {
         q1: 'opt0',
@@ -228,5 +234,13 @@ describe('answerMigration', () => {
       expect(result.migratedCount).toBe(0);
       expect(result.unmatchedCount).toBe(0);
     });
+
+    it('keeps answer states and converts old text answers matching their labels', () => {
+      const result = migrateAnswers({ q1: 'na', q2: 'don\'t know ' }, mockRawQuestions, mockTranslate);
+
+      expect(result.answers).toEqual({ q1: 'na', q2: 'unknown' });
+      expect(result.migratedCount).toBe(1);
+      expect(result.unmatchedCount).toBe(0);
+    });
   });
 });
@@ -5,6 +5,7 @@
 
 import { useTranslation } from 'react-i18next';
 import { RawQuestion } from '../types/questions';
+import { ANSWER_STATES, isAnswerState } from './answerStates';
 
 interface MigrationResult {
   answers: Record<string, string>;
@@ -20,7 +21,8 @@ interface MigrationResult {
  * - New: { "question_id": "opt0" }
  *
  * It attempts to match old answer text against current translated option labels
- * to find the corresponding option ID.
+ * to find the corresponding option ID. The "N/A" and "Don't know" states are stored as
+ * `na` / `unknown`; they are kept as-is and old text answers matching their labels are converted.
  *
  * @param oldAnswers - Answers object that may contain old format (text) or new format (IDs)
  * @param rawQuestions - Raw question data with option IDs and points
@@ -49,6 +51,9 @@ export const migrateAnswers = (
     questionOptionsMap.set(q.id, options);
   });
 
+  // Answer states apply to every question, so their labels are matched like extra options
+  const stateLabels = ANSWER_STATES.map((state) => ({ id: state, label: t(`answerStates.${state}`) }));
+
   // Process each answer
   Object.entries(oldAnswers).forEach(([questionId, answerValue]) => {
     const options = questionOptionsMap.get(questionId);
@@ -59,6 +64,11 @@ export const migrateAnswers = (
       return;
     }
 
+    if (isAnswerState(answerValue)) {
+      migratedAnswers[questionId] = answerValue;
+      return;
+    }
+
     // Check if answer is already in new format (starts with "opt")
     if (answerValue.startsWith('opt')) {
       const optionExists = options.some((opt) => opt.id === answerValue);
@@ -71,7 +81,7 @@ export const migrateAnswers = (
     }
 
     // Answer is in old format (full text) - try to match it
-    const matchedOption = options.find((opt) => {
+    const matchedOption = [...options, ...stateLabels].find((opt) => {
       // Exact match
       if (opt.label === answerValue) return true;
 
@@ -137,8 +147,8 @@ export const useMigrateAnswers = () => {
 
 /**
  * Validate if answers object needs migration
- * Returns true if any answer values are not in the "optN" format
+ * Returns true if any answer values are neither in the "optN" format nor an answer state
  */
 export const needsMigration = (answers: Record<string, string>): boolean => {
-  return Object.values(answers).some((value) => !value.startsWith('opt'));
+  return Object.values(answers).some((value) => !value.startsWith('opt') && !isAnswerState(value));
 };
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getAnswerStateSummary, getLowestPoints, isAnswerState } from './answerStates';
+import type { Question } from '../types/questions';
+
+const question = (id: string, overrides: Partial<Question> = {}): Question => ({
+  id,
+  text: `${id}?`,
+  category: 'Access',
+  categoryKey: 'access',
+  options: [
+    { label: 'Partly', value: 'opt1', risk: '', points: 50 },
+    { label: 'Yes', value: 'opt2', risk: '', points: 100 },
+    { label: 'No', value: 'opt0', risk: '', points: 10 },
+  ],
+  ...overrides,
+});
+
+describe('answerStates', () => {
+  it('recognizes the N/A and Don\'t know states', () => {
+    expect(isAnswerState('na')).toBe(true);
+    expect(isAnswerState('unknown')).toBe(true);
+    expect(isAnswerState('opt0')).toBe(false);
+    expect(isAnswerState(undefined)).toBe(false);
+  });
+
+  it('finds the lowest option points', () => {
+    expect(getLowestPoints(question('mfa'))).toBe(10);
+  });
+
+  it('summarizes shown questions answered N/A or Don\'t know', () => {
+    const questions = [
+      question('vendors'),
+      question('contracts', { showIf: [{ questionId: 'vendors', noneOf: ['na'] }] }),
+      question('mfa'),
+      question('backups'),
+    ];
+    const answers = { vendors: 'na', contracts: 'unknown', mfa: 'unknown', backups: 'opt1' };
+    const summary = getAnswerStateSummary(answers, questions);
+    expect(summary.notApplicable.map((q) => q.id)).toEqual(['vendors']);
+    expect(summary.dontKnow.map((q) => q.id)).toEqual(['mfa']);
+  });
+});
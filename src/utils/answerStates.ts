@@ -0,0 +1,36 @@
+/**
+ * Answer states besides choosing an option. "Not applicable" takes a question out of scoring altogether;
+ * "Don't know" scores as the lowest option and is reported as a risk of its own, since an unknown control
+ * cannot be relied on.
+ */
+
+import { Question } from '../types/questions';
+import { getVisibleQuestions } from './questionConditions';
+
+export const NOT_APPLICABLE = 'na';
+export const DONT_KNOW = 'unknown';
+
+export const ANSWER_STATES = [NOT_APPLICABLE, DONT_KNOW] as const;
+export type AnswerState = typeof ANSWER_STATES[number];
+
+export const isAnswerState = (value: string | undefined): value is AnswerState =>
+  ANSWER_STATES.includes(value as AnswerState);
+
+export const getLowestPoints = (question: Pick<Question, 'options'>): number =>
+  question.options.reduce((m, o) => Math.min(m, o.points), Infinity);
+
+export interface AnswerStateSummary {
+  notApplicable: Question[];
+  dontKnow: Question[];
+}
+
+/**
+ * Shown questions answered "Not applicable" or "Don't know", in questionnaire order
+ */
+export const getAnswerStateSummary = (answers: Record<string, string>, questions: Question[]): AnswerStateSummary => {
+  const visible = getVisibleQuestions(questions, answers);
+  return {
+    notApplicable: visible.filter((q) => answers[q.id] === NOT_APPLICABLE),
+    dontKnow: visible.filter((q) => answers[q.id] === DONT_KNOW),
+  };
+};
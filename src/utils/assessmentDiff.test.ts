@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { compareAssessments, diffLists, parseComparisonFile, snapshotToComparisonSource } from './assessmentDiff';
+import { Question } from '../types/questions';
+import { DomainScanAggregate } from '../types/domainScan';
+
+const questions: Question[] = [
+  {
+    id: 'q1',
+    text: 'Do you use MFA?',
+    category: 'Access',
+    categoryKey: 'access',
+    options: [
+      { label: 'No', value: 'opt0', risk: 'No MFA', points: 0 },
+      { label: 'Yes', value: 'opt1', risk: 'MFA enforced', points: 10 },
+    ],
+  },
+  {
+    id: 'q2',
+    text: 'Do you back up data?',
+    category: 'Backups',
+    categoryKey: 'backup',
+    options: [
+      { label: 'Never', value: 'opt0', risk: 'No backups', points: 0 },
+      { label: 'Daily', value: 'opt1', risk: 'Daily backups', points: 10 },
+    ],
+  },
+];
+
+const makeScan = (domain: string, issues: string[]): DomainScanAggregate => ({
+  domain,
+  timestamp: '2025-10-27T00:00:00.000Z',
+  scanners: [{ id: 'emailAuth', label: 'Email Authentication', status: 'complete', startedAt: '', issues }],
+  issues,
+});
+
+describe('assessmentDiff', () => {
+  describe('diffLists', () => {
+    it('splits items into added, resolved and unchanged', () => {
+      expect(diffLists(['a', 'b'], ['b', 'c'])).toEqual({ added: ['c'], resolved: ['a'], unchanged: ['b'] });
+    });
+  });
+
+  describe('compareAssessments', () => {
+    it('reports score deltas, answer changes and risk changes', () => {
+      const diff = compareAssessments(
+        { label: 'Before', answers: { q1: 'opt0', q2: 'opt1' } },
+        { label: 'After', answers: { q1: 'opt1' } },
+        questions
+      );
+
+      expect(diff.overall).toEqual({ before: 50, after: 50, delta: 0 });
+      expect(diff.categories).toEqual([
+        { key: 'access', category: 'Access', before: 0, after: 100, delta: 100 },
+        { key: 'backup', category: 'Backups', before: 100, after: 0, delta: -100 },
+      ]);
+      expect(diff.answerChanges).toEqual([
+        expect.objectContaining({ questionId: 'q1', before: 'No', after: 'Yes', pointsDelta: 10 }),
+        expect.objectContaining({ questionId: 'q2', before: 'Daily', after: undefined, pointsDelta: -10 }),
+      ]);
+      expect(diff.risks.resolved).toEqual(['No MFA']);
+      expect(diff.risks.added).toEqual([]);
+    });
+
+    it('labels N/A and Don\'t know changes and scores them like computeScore', () => {
+      const partial: Question = {
+        ...questions[1],
+        options: [
+          { label: 'Weekly', value: 'opt0', risk: 'Weekly backups', points: 4 },
+          { label: 'Daily', value: 'opt1', risk: 'Daily backups', points: 10 },
+        ],
+      };
+      const labels = { na: 'Not applicable', unknown: 'Don\'t know' };
+      const changes = (before: Record<string, string>, after: Record<string, string>) => compareAssessments(
+        { label: 'Before', answers: before },
+        { label: 'After', answers: after },
+        [questions[0], partial],
+        {},
+        (state) => labels[state]
+      ).answerChanges.map(({ before: from, after: to, pointsDelta }) => ({ from, to, pointsDelta }));
+
+      expect(changes({ q1: 'na', q2: 'opt1' }, { q1: 'opt1', q2: 'na' })).toEqual([
+        { from: 'Not applicable', to: 'Yes', pointsDelta: 10 },
+        { from: 'Daily', to: 'Not applicable', pointsDelta: -10 },
+      ]);
+      // "Don't know" earns the lowest option's points
+      expect(changes({ q1: 'unknown', q2: 'unknown' }, { q1: 'opt1', q2: 'opt0' })).toEqual([
+        { from: 'Don\'t know', to: 'Yes', pointsDelta: 10 },
+        { from: 'Don\'t know', to: 'Weekly', pointsDelta: 0 },
+      ]);
+      expect(changes({ q2: 'opt1' }, { q2: 'unknown' })).toEqual([
+        { from: 'Daily', to: 'Don\'t know', pointsDelta: -6 },
+      ]);
+    });
+
+    it('weights answer points with the weighted model', () => {
+      const diff = compareAssessments(
+        { label: 'Before', answers: { q1: 'opt0' } },
+        { label: 'After', answers: { q1: 'opt1' } },
+        [{ ...questions[0], weight: 3 }],
+        { model: 'weighted' }
+      );
+      expect(diff.answerChanges[0].pointsDelta).toBe(30);
+    });
+
+    it('diffs scanner issues per scanner', () => {
+      const diff = compareAssessments(
+        { label: 'Before', answers: {}, domainScanAggregate: makeScan('example.com', ['Missing DMARC', 'Weak SPF']) },
+        { label: 'After', answers: {}, domainScanAggregate: makeScan('example.com', ['Weak SPF', 'No DKIM']) },
+        questions
+      );
+      expect(diff.scannerIssues.added.map((i) => i.issue)).toEqual(['No DKIM']);
+      expect(diff.scannerIssues.resolved).toEqual([
+        { scannerId: 'emailAuth', scannerLabel: 'Email Authentication', issue: 'Missing DMARC' },
+      ]);
+      expect(diff.domains).toEqual({ before: 'example.com', after: 'example.com' });
+    });
+  });
+
+  describe('parseComparisonFile', () => {
+    it('parses a version 2 export', () => {
+      const result = parseComparisonFile(
+        JSON.stringify({ version: 2, client: { name: 'Acme' }, answers: { q1: 'opt1' } }),
+        'acme.json'
+      );
+      expect(result.success).toBe(true);
+      expect(result.source).toEqual({
+        label: 'Acme (acme.json)', answers: { q1: 'opt1' }, domainScanAggregate: undefined
+      });
+    });
+
+    it('migrates version 1 answers', () => {
+      const result = parseComparisonFile(
+        JSON.stringify({ answers: { q1: 'Yes' } }),
+        'old.json',
+        () => ({ q1: 'opt1' })
+      );
+      expect(result.source?.answers).toEqual({ q1: 'opt1' });
+    });
+
+    it('rejects invalid and workspace files', () => {
+      expect(parseComparisonFile('not json', 'bad.json').success).toBe(false);
+      const workspace = parseComparisonFile(
+        JSON.stringify({ version: 2, kind: 'workspace', workspace: { clients: [{ name: 'A', answers: {} }] } }),
+        'ws.json'
+      );
+      expect(workspace.success).toBe(false);
+      expect(workspace.error).toContain('Workspace exports cannot be compared');
+    });
+  });
+
+  it('labels snapshots by their label or date', () => {
+    const source = snapshotToComparisonSource({
+      id: 's1',
+      createdAt: '2025-10-27T00:00:00.000Z',
+      label: 'Q3 review',
+      answers: { q1: 'opt1' },
+      score: { total: 0, max: 0, percent: 0, categories: [] },
+      risks: [],
+    });
+    expect(source).toEqual({ label: 'Q3 review', answers: { q1: 'opt1' }, domainScanAggregate: undefined });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Structured comparison of two assessments (exported JSON files, snapshots or the current state).
+ *
+ * Scores and risks are recomputed from each side's answers against the current question set, so both
+ * sides are compared with the same scoring rules and in the same language.
+ */
+
+import { Question } from '../types/questions';
+import { DomainScanAggregate } from '../types/domainScan';
+import { AssessmentSnapshot } from '../types/workspace';
+import { computeScore, getQuestionWeight, ScoringOptions } from './scoring';
+import { AnswerState, DONT_KNOW, getLowestPoints, isAnswerState, NOT_APPLICABLE } from './answerStates';
+import { mapRisks } from './recommendations';
+import { validateImportJSON } from './importValidation';
+
+export interface ComparisonSource {
+  label: string;
+  answers: Record<string, string>;
+  domainScanAggregate?: DomainScanAggregate;
+}
+
+export interface ListDiff<T> {
+  added: T[];
+  resolved: T[];
+  unchanged: T[];
+}
+
+export interface AnswerChange {
+  questionId: string;
+  questionText: string;
+  category: string;
+  before?: string; // option or answer state label, undefined when unanswered
+  after?: string;
+  pointsDelta: number;
+}
+
+export interface CategoryDelta {
+  key: string;
+  category: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ScannerIssue {
+  scannerId: string;
+  scannerLabel: string;
+  issue: string;
+}
+
+export interface AssessmentDiff {
+  overall: { before: number; after: number; delta: number };
+  categories: CategoryDelta[];
+  answerChanges: AnswerChange[];
+  risks: ListDiff<string>;
+  scannerIssues: ListDiff<ScannerIssue>;
+  domains: { before?: string; after?: string };
+}
+
+const roundDelta = (value: number) => +value.toFixed(2);
+
+/**
+ * Split two lists into items only in `after` (added), only in `before` (resolved) and in both
+ */
+export const diffLists = <T>(before: T[], after: T[], keyOf: (item: T) => string = String): ListDiff<T> => {
+  const beforeKeys = new Set(before.map(keyOf));
+  const afterKeys = new Set(after.map(keyOf));
+  return {
+    added: after.filter((item) => !beforeKeys.has(keyOf(item))),
+    resolved: before.filter((item) => !afterKeys.has(keyOf(item))),
+    unchanged: after.filter((item) => beforeKeys.has(keyOf(item))),
+  };
+};
+
+const collectScannerIssues = (aggregate?: DomainScanAggregate): ScannerIssue[] =>
+  (aggregate?.scanners ?? []).flatMap((s) =>
+    (s.issues ?? []).map((issue) => ({ scannerId: s.id, scannerLabel: s.label, issue }))
+  );
+
+// Points earned the way computeScore counts them: N/A and unanswered earn nothing, "Don't know" the lowest option
+const getEarnedPoints = (question: Question, value: string | undefined): number => {
+  if (value === NOT_APPLICABLE) return 0;
+  if (value === DONT_KNOW) return getLowestPoints(question);
+  return question.options.find((o) => o.value === value)?.points ?? 0;
+};
+
+const getAnswerChanges = (
+  before: Record<string, string>,
+  after: Record<string, string>,
+  questions: Question[],
+  scoringOptions: ScoringOptions,
+  labelAnswerState: (state: AnswerState) => string
+): AnswerChange[] =>
+  questions.flatMap((q) => {
+    const beforeValue = before[q.id];
+    const afterValue = after[q.id];
+    if (beforeValue === afterValue) return [];
+    // Values that are neither an option nor an answer state (e.g. from an unmigrated file) are shown as-is
+    const label = (value: string | undefined) => (isAnswerState(value)
+      ? labelAnswerState(value)
+      : q.options.find((o) => o.value === value)?.label ?? value);
+    const weight = scoringOptions.model === 'weighted' ? getQuestionWeight(q) : 1;
+    return [{
+      questionId: q.id,
+      questionText: q.text,
+      category: q.category,
+      before: label(beforeValue),
+      after: label(afterValue),
+      pointsDelta: (getEarnedPoints(q, afterValue) - getEarnedPoints(q, beforeValue)) * weight,
+    }];
+  });
+
+export const compareAssessments = (
+  before: ComparisonSource,
+  after: ComparisonSource,
+  questions: Question[],
+  scoringOptions: ScoringOptions = {},
+  labelAnswerState: (state: AnswerState) => string = (state) => state
+): AssessmentDiff => {
+  const beforeScore = computeScore(before.answers, questions, scoringOptions);
+  const afterScore = computeScore(after.answers, questions, scoringOptions);
+
+  const categories = afterScore.categories.map((c) => {
+    const previous = beforeScore.categories.find((p) => p.key === c.key);
+    const beforePercent = previous?.percent ?? 0;
+    return {
+      key: c.key ?? c.category,
+      category: c.category,
+      before: beforePercent,
+      after: c.percent,
+      delta: roundDelta(c.percent - beforePercent),
+    };
+  });
+
+  return {
+    overall: {
+      before: beforeScore.percent,
+      after: afterScore.percent,
+      delta: roundDelta(afterScore.percent - beforeScore.percent),
+    },
+    categories,
+    answerChanges: getAnswerChanges(before.answers, after.answers, questions, scoringOptions, labelAnswerState),
+    risks: diffLists(mapRisks(before.answers, questions).risks, mapRisks(after.answers, questions).risks),
+    scannerIssues: diffLists(
+      collectScannerIssues(before.domainScanAggregate),
+      collectScannerIssues(after.domainScanAggregate),
+      (i) => `${i.scannerId}\u0000${i.issue}`
+    ),
+    domains: { before: before.domainScanAggregate?.domain, after: after.domainScanAggregate?.domain },
+  };
+};
+
+export const snapshotToComparisonSource = (snapshot: AssessmentSnapshot): ComparisonSource => ({
+  label: snapshot.label || new Date(snapshot.createdAt).toLocaleString(),
+  answers: snapshot.answers,
+  domainScanAggregate: snapshot.domainScanAggregate,
+});
+
+/**
+ * Parse an exported single-client JSON file into a comparison source.
+ * Version 1 answers are passed through `migrate` so they use current option ids.
+ */
+export const parseComparisonFile = (
+  json: string,
+  label: string,
+  migrate: (answers: Record<string, string>) => Record<string, string> = (a) => a
+): { success: boolean; source?: ComparisonSource; error?: string } => {
+  const validation = validateImportJSON(json);
+  if (!validation.isValid) {
+    return { success: false, error: validation.error };
+  }
+
+  const data = JSON.parse(json);
+  if (data.kind === 'workspace') {
+    return { success: false, error: 'Workspace exports cannot be compared; export a single client instead' };
+  }
+
+  const answers = (data.answers ?? {}) as Record<string, string>;
+  return {
+    success: true,
+    source: {
+      label: data.client?.name ? `${data.client.name} (${label})` : label,
+      answers: (data.version ?? 1) === 1 ? migrate(answers) : answers,
+      domainScanAggregate: data.domainScanAggregate,
+    },
+  };
+};
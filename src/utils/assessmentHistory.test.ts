@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTrendData,
+  createSnapshot,
+  getCategoryKey,
+  getLatestSnapshot,
+  getTrendSeries,
+  sortSnapshots,
+} from './assessmentHistory';
+import { AssessmentSnapshot } from '../types/workspace';
+import { ScoreResult } from './scoring';
+
+const makeScore = (percent: number, categories: ScoreResult['categories'] = []): ScoreResult => ({
+  total: percent,
+  max: 100,
+  percent,
+  categories,
+});
+
+const makeSnapshot = (id: string, createdAt: string, score: ScoreResult): AssessmentSnapshot => ({
+  id,
+  createdAt,
+  answers: {},
+  score,
+  risks: [],
+});
+
+describe('assessmentHistory', () => {
+  describe('createSnapshot', () => {
+    it('copies the current assessment and trims the label', () => {
+      const answers = { q1: 'opt1' };
+      const snapshot = createSnapshot({ answers, score: makeScore(40), risks: ['Risk A'] }, '  Q3 review ');
+      expect(snapshot.label).toBe('Q3 review');
+      expect(snapshot.answers).toEqual(answers);
+      expect(snapshot.answers).not.toBe(answers);
+      expect(snapshot.score.percent).toBe(40);
+      expect(snapshot.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+
+    it('drops blank labels', () => {
+      const snapshot = createSnapshot({ answers: {}, score: makeScore(0), risks: [] }, '   ');
+      expect(snapshot.label).toBeUndefined();
+    });
+  });
+
+  it('uses the category key when present and the display name otherwise', () => {
+    expect(getCategoryKey({ category: 'Backups', key: 'backup', total: 0, max: 0, percent: 0 })).toBe('backup');
+    expect(getCategoryKey({ category: 'Backups', total: 0, max: 0, percent: 0 })).toBe('Backups');
+  });
+
+  it('sorts snapshots oldest first and finds the latest', () => {
+    const older = makeSnapshot('a', '2025-01-01T00:00:00.000Z', makeScore(10));
+    const newer = makeSnapshot('b', '2025-06-01T00:00:00.000Z', makeScore(20));
+    expect(sortSnapshots([newer, older]).map((s) => s.id)).toEqual(['a', 'b']);
+    expect(getLatestSnapshot([older, newer])?.id).toBe('b');
+    expect(getLatestSnapshot([])).toBeUndefined();
+  });
+
+  it('builds one trend row per snapshot with category columns', () => {
+    const snapshots = [
+      makeSnapshot('b', '2025-06-01T00:00:00.000Z', makeScore(70, [
+        { category: 'Backups', key: 'backup', total: 8, max: 10, percent: 80 },
+      ])),
+      makeSnapshot('a', '2025-01-01T00:00:00.000Z', makeScore(50, [
+        { category: 'Copias de seguridad', key: 'backup', total: 4, max: 10, percent: 40 },
+        { category: 'Network', total: 6, max: 10, percent: 60 },
+      ])),
+    ];
+
+    const data = buildTrendData(snapshots);
+    expect(data).toHaveLength(2);
+    expect(data[0]).toMatchObject({ snapshotId: 'a', overall: 50, backup: 40, Network: 60 });
+    expect(data[1]).toMatchObject({ snapshotId: 'b', overall: 70, backup: 80 });
+    expect(data[1]).not.toHaveProperty('Network');
+
+    // Labels come from the most recent snapshot that contains the category
+    expect(getTrendSeries(snapshots)).toEqual([
+      { key: 'backup', label: 'Backups' },
+      { key: 'Network', label: 'Network' },
+    ]);
+  });
+});
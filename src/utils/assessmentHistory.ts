@@ -0,0 +1,79 @@
+/**
+ * Assessment history helpers: snapshot creation and trend data for charts
+ */
+
+import { AssessmentSnapshot } from '../types/workspace';
+import { DomainScanAggregate } from '../types/domainScan';
+import { CategoryScore, ScoreResult } from './scoring';
+import { generateId } from './workspace';
+
+export interface TrendPoint {
+  snapshotId: string;
+  date: string; // ISO timestamp of the snapshot
+  overall: number;
+  // Category percent keyed by category key
+  [categoryKey: string]: number | string;
+}
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+}
+
+export const createSnapshot = (
+  data: {
+    answers: Record<string, string>;
+    score: ScoreResult;
+    risks: string[];
+    domainScanAggregate?: DomainScanAggregate;
+  },
+  label?: string
+): AssessmentSnapshot => ({
+  id: generateId(),
+  createdAt: new Date().toISOString(),
+  label: label?.trim() || undefined,
+  answers: { ...data.answers },
+  score: data.score,
+  risks: [...data.risks],
+  domainScanAggregate: data.domainScanAggregate,
+});
+
+// Categories from older snapshots may lack a key; fall back to the display name
+export const getCategoryKey = (category: CategoryScore): string => category.key ?? category.category;
+
+/**
+ * Sort snapshots oldest first
+ */
+export const sortSnapshots = (snapshots: AssessmentSnapshot[]): AssessmentSnapshot[] =>
+  [...snapshots].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+/**
+ * Most recent snapshot, or undefined when there is no history
+ */
+export const getLatestSnapshot = (snapshots: AssessmentSnapshot[]): AssessmentSnapshot | undefined => {
+  const sorted = sortSnapshots(snapshots);
+  return sorted[sorted.length - 1];
+};
+
+/**
+ * Build chart rows (one per snapshot, oldest first) with the overall percent and a column per category
+ */
+export const buildTrendData = (snapshots: AssessmentSnapshot[]): TrendPoint[] =>
+  sortSnapshots(snapshots).map((snap) => {
+    const point: TrendPoint = { snapshotId: snap.id, date: snap.createdAt, overall: snap.score.percent };
+    snap.score.categories.forEach((c) => {
+      point[getCategoryKey(c)] = c.percent;
+    });
+    return point;
+  });
+
+/**
+ * Distinct category series across all snapshots, labelled with the most recent display name
+ */
+export const getTrendSeries = (snapshots: AssessmentSnapshot[]): TrendSeries[] => {
+  const labels = new Map<string, string>();
+  sortSnapshots(snapshots).forEach((snap) => {
+    snap.score.categories.forEach((c) => labels.set(getCategoryKey(c), c.category));
+  });
+  return Array.from(labels.entries()).map(([key, label]) => ({ key, label }));
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  BRANDING_KEY,
+  DEFAULT_BRANDING,
+  getContactLines,
+  hasCustomBranding,
+  isHexColor,
+  loadBranding,
+  normalizeBranding,
+  saveBranding,
+} from './branding';
+import { storage } from './storage';
+
+describe('branding', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('validates six-digit hex colors', () => {
+    expect(isHexColor('#06233F')).toBe(true);
+    expect(isHexColor('#fff')).toBe(false);
+    expect(isHexColor('red')).toBe(false);
+  });
+
+  describe('normalizeBranding', () => {
+    it('fills missing fields with defaults', () => {
+      expect(normalizeBranding(undefined)).toEqual(DEFAULT_BRANDING);
+      expect(normalizeBranding({ companyName: '  Contoso  ' }))
+        .toEqual({ ...DEFAULT_BRANDING, companyName: 'Contoso' });
+    });
+
+    it('drops invalid colors and logos', () => {
+      const branding = normalizeBranding({
+        primaryColor: 'blue',
+        accentColor: '#AA5500',
+        logoDataUrl: 'javascript:alert(1)',
+      });
+      expect(branding.primaryColor).toBe('');
+      expect(branding.accentColor).toBe('#AA5500');
+      expect(branding.logoDataUrl).toBe('');
+      expect(normalizeBranding({ logoDataUrl: 'data:image/png;base64,iVBORw0KGgo=' }).logoDataUrl)
+        .toBe('data:image/png;base64,iVBORw0KGgo=');
+    });
+
+    it('truncates overly long text', () => {
+      expect(normalizeBranding({ companyName: 'x'.repeat(500) }).companyName).toHaveLength(120);
+    });
+  });
+
+  it('splits the contact block into trimmed lines', () => {
+    expect(getContactLines({ ...DEFAULT_BRANDING, contact: ' a@b.example \n\n+1 555 0100' }))
+      .toEqual(['a@b.example', '+1 555 0100']);
+  });
+
+  it('persists custom branding and clears storage when reset to defaults', () => {
+    const branding = { ...DEFAULT_BRANDING, companyName: 'Contoso' };
+    expect(hasCustomBranding(branding)).toBe(true);
+    expect(saveBranding(branding)).toBe(true);
+    expect(loadBranding()).toEqual(branding);
+
+    saveBranding({ ...DEFAULT_BRANDING });
+    expect(localStorage.getItem(BRANDING_KEY)).toBeNull();
+    expect(loadBranding()).toEqual(DEFAULT_BRANDING);
+  });
+
+  it('reports a full quota through storage', () => {
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Storage is full', 'QuotaExceededError');
+    });
+    expect(saveBranding({ ...DEFAULT_BRANDING, logoDataUrl: 'data:image/png;base64,iVBORw0KGgo=' })).toBe(false);
+    expect(storage.getError()).toBe('quota');
+    setItem.mockRestore();
+    storage.clearError();
+  });
+
+  it('ignores corrupted stored branding', () => {
+    localStorage.setItem(BRANDING_KEY, '{not json');
+    expect(loadBranding()).toEqual(DEFAULT_BRANDING);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Branding utilities: validation, persistence and the helpers exports use to apply white-label settings.
+ * Branding belongs to the MSP rather than to a client, so it is stored outside the workspace record.
+ */
+
+import { BrandingSettings } from '../types/branding';
+import { storage } from './storage';
+
+export const BRANDING_KEY = 'risk_branding_v1';
+export const MAX_LOGO_DATA_URL_LENGTH = 300 * 1024;
+export const MAX_LOGO_FILE_SIZE = 2 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 120;
+const MAX_BLOCK_LENGTH = 2000;
+
+export const DEFAULT_BRANDING: BrandingSettings = {
+  companyName: '',
+  reportTitle: '',
+  logoDataUrl: '',
+  contact: '',
+  primaryColor: '',
+  accentColor: '',
+  disclaimer: '',
+};
+
+export const isHexColor = (value: string): boolean => /^#[0-9a-f]{6}$/i.test(value);
+
+const isLogoDataUrl = (value: string): boolean =>
+  /^data:image\/(png|jpeg);base64,[a-z0-9+/=]+$/i.test(value) && value.length <= MAX_LOGO_DATA_URL_LENGTH;
+
+/**
+ * Coerce stored or user-entered settings into a valid BrandingSettings, dropping invalid colors and logos
+ */
+export const normalizeBranding = (raw: unknown): BrandingSettings => {
+  const obj = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const text = (key: keyof BrandingSettings, max: number) =>
+    typeof obj[key] === 'string' ? (obj[key] as string).trim().slice(0, max) : '';
+  const primaryColor = text('primaryColor', 7);
+  const accentColor = text('accentColor', 7);
+  const logoDataUrl = typeof obj.logoDataUrl === 'string' ? obj.logoDataUrl : '';
+  return {
+    companyName: text('companyName', MAX_TEXT_LENGTH),
+    reportTitle: text('reportTitle', MAX_TEXT_LENGTH),
+    logoDataUrl: isLogoDataUrl(logoDataUrl) ? logoDataUrl : '',
+    contact: text('contact', MAX_BLOCK_LENGTH),
+    primaryColor: isHexColor(primaryColor) ? primaryColor : '',
+    accentColor: isHexColor(accentColor) ? accentColor : '',
+    disclaimer: text('disclaimer', MAX_BLOCK_LENGTH),
+  };
+};
+
+export const hasCustomBranding = (branding: BrandingSettings): boolean =>
+  Object.values(branding).some((value) => value !== '');
+
+/**
+ * Split the contact block into non-empty lines for rendering
+ */
+export const getContactLines = (branding: BrandingSettings): string[] =>
+  branding.contact.split('\n').map((line) => line.trim()).filter(Boolean);
+
+export const loadBranding = (): BrandingSettings => {
+  try {
+    const raw = storage.getItem(BRANDING_KEY);
+    return raw ? normalizeBranding(JSON.parse(raw)) : { ...DEFAULT_BRANDING };
+  } catch {
+    return { ...DEFAULT_BRANDING };
+  }
+};
+
+export const saveBranding = (branding: BrandingSettings): boolean => {
+  try {
+    if (hasCustomBranding(branding)) {
+      storage.setItem(BRANDING_KEY, JSON.stringify(branding));
+    } else {
+      storage.removeItem(BRANDING_KEY);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+};
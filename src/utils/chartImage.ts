@@ -0,0 +1,99 @@
+/**
+ * Rasterize a rendered Recharts SVG so it can be embedded in exported documents.
+ * Text is forced to a dark color on a white background so dark-mode charts stay legible on paper.
+ */
+
+export interface ChartImage {
+  dataUrl: string;
+  width: number; // pixels
+  height: number;
+}
+
+const EXPORT_TEXT_COLOR = '#231F20';
+
+/**
+ * Render an SVG element to a JPEG or PNG data URL. Resolves undefined when the browser cannot
+ * rasterize it (e.g. no canvas support), so callers can export without the chart.
+ */
+export const captureChartImage = (
+  svg: SVGSVGElement,
+  format: 'image/jpeg' | 'image/png' = 'image/png',
+  scale = 2
+): Promise<ChartImage | undefined> => new Promise((resolve) => {
+  try {
+    const bounds = svg.getBoundingClientRect();
+    const width = Math.round(bounds.width || Number(svg.getAttribute('width')) || 0);
+    const height = Math.round(bounds.height || Number(svg.getAttribute('height')) || 0);
+    if (!width || !height) {
+      resolve(undefined);
+      return;
+    }
+
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    clone.querySelectorAll('text, tspan').forEach((el) => el.setAttribute('fill', EXPORT_TEXT_COLOR));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      resolve(undefined);
+      return;
+    }
+
+    const img = new Image();
+    img.onload = () => {
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL(format, 0.92), width: canvas.width, height: canvas.height });
+    };
+    img.onerror = () => resolve(undefined);
+    img.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(new XMLSerializer().serializeToString(clone));
+  } catch {
+    resolve(undefined);
+  }
+});
+
+/**
+ * Decode the base64 payload of a data URL into a binary string (one char per byte)
+ */
+export const dataUrlToBinary = (dataUrl: string): string => atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+
+/**
+ * Redraw an image (e.g. an uploaded logo) as PNG or JPEG, scaled down to at most maxWidth pixels.
+ * JPEG output is flattened onto white since it has no transparency. Resolves undefined on failure.
+ */
+export const rasterizeImage = (
+  src: string,
+  format: 'image/jpeg' | 'image/png' = 'image/png',
+  maxWidth = 600
+): Promise<ChartImage | undefined> => new Promise((resolve) => {
+  try {
+    const img = new Image();
+    img.onload = () => {
+      const ratio = Math.min(1, maxWidth / (img.naturalWidth || 1));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * ratio));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * ratio));
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !img.naturalWidth || !img.naturalHeight) {
+        resolve(undefined);
+        return;
+      }
+      if (format === 'image/jpeg') {
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL(format, 0.92), width: canvas.width, height: canvas.height });
+    };
+    img.onerror = () => resolve(undefined);
+    img.src = src;
+  } catch {
+    resolve(undefined);
+  }
+});
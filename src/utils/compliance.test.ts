@@ -0,0 +1,75 @@
+import { computeFrameworkCoverage, FRAMEWORKS } from './compliance';
+import type { Question } from '../types/questions';
+
+const questions: Question[] = [
+  {
+    id: 'mfa',
+    text: 'Is MFA used?',
+    category: 'Access',
+    categoryKey: 'access',
+    controls: { nist_csf_2: ['PR.AA-03'], cis_v8: ['6.3', '6.4'], iso_27001: ['A.8.5'] },
+    options: [
+      { label: 'No', value: 'no', risk: '', points: 0 },
+      { label: 'Remote', value: 'remote', risk: '', points: 50 },
+      { label: 'Everywhere', value: 'all', risk: '', points: 100, controls: { cis_v8: ['6.5'] } },
+    ]
+  },
+  {
+    id: 'policies',
+    text: 'Are policies approved?',
+    category: 'Governance',
+    categoryKey: 'governance',
+    controls: { nist_csf_2: ['GV.PO-01'], iso_27001: ['A.5.1'] },
+    options: [
+      { label: 'No', value: 'no', risk: '', points: 0 },
+      { label: 'Yes', value: 'yes', risk: '', points: 100 },
+    ]
+  },
+];
+
+const coverageFor = (answers: Record<string, string>, id: string) =>
+  computeFrameworkCoverage(answers, questions).find((f) => f.id === id)!;
+
+describe('compliance', () => {
+  it('derives control groups from control ids', () => {
+    const [nist, cis, iso] = FRAMEWORKS;
+    expect(nist.groupOf('PR.AA-03')).toBe('PR');
+    expect(cis.groupOf('6.10')).toBe('6');
+    expect(iso.groupOf('A.8.5')).toBe('technological');
+    expect(iso.groupOf('A.6.3')).toBe('people');
+  });
+
+  it('computes coverage and gap per group, counting unanswered questions as zero', () => {
+    const nist = coverageFor({ mfa: 'remote' }, 'nist_csf_2');
+    expect(nist.groups.map((g) => g.id)).toEqual(['GV', 'PR']);
+    expect(nist.groups[1]).toMatchObject({ coverage: 50, gap: 50, met: 0, total: 1 });
+    expect(nist.groups[1].controls[0]).toMatchObject({ control: 'PR.AA-03', status: 'partial', questionIds: ['mfa'] });
+    expect(nist.groups[0].controls[0].status).toBe('notAssessed');
+    expect(nist).toMatchObject({ coverage: 25, gap: 75, met: 0, total: 2 });
+  });
+
+  it('credits option-level controls only when a mapping option is chosen', () => {
+    const partial = coverageFor({ mfa: 'remote' }, 'cis_v8');
+    expect(partial.groups[0].controls.map((c) => [c.control, c.status])).toEqual([
+      ['6.3', 'partial'],
+      ['6.4', 'partial'],
+      ['6.5', 'gap'],
+    ]);
+
+    const full = coverageFor({ mfa: 'all' }, 'cis_v8');
+    expect(full.groups[0]).toMatchObject({ coverage: 100, gap: 0, met: 3, total: 3 });
+  });
+
+  it('skips not applicable questions and assesses "Don\'t know" as the lowest answer', () => {
+    const nist = coverageFor({ mfa: 'unknown', policies: 'na' }, 'nist_csf_2');
+    expect(nist.groups.map((g) => g.id)).toEqual(['PR']);
+    expect(nist.groups[0].controls[0]).toMatchObject({ control: 'PR.AA-03', status: 'gap' });
+    expect(nist).toMatchObject({ coverage: 0, total: 1 });
+  });
+
+  it('returns every framework even without mapped questions', () => {
+    const coverage = computeFrameworkCoverage({}, []);
+    expect(coverage.map((f) => f.id)).toEqual(['nist_csf_2', 'cis_v8', 'iso_27001']);
+    expect(coverage[0]).toMatchObject({ coverage: 0, total: 0, groups: [] });
+  });
+});
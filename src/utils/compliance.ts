@@ -0,0 +1,157 @@
+/**
+ * Compliance framework mapping: rolls questionnaire answers up to the controls each question is mapped to
+ * (NIST CSF 2.0, CIS Controls v8, ISO/IEC 27001:2022 Annex A) and reports coverage per control group.
+ */
+
+import { FrameworkId, Question } from '../types/questions';
+import { getVisibleQuestions } from './questionConditions';
+import { DONT_KNOW, getLowestPoints, NOT_APPLICABLE } from './answerStates';
+
+export interface FrameworkDefinition {
+  id: FrameworkId;
+  groups: string[]; // control group ids in display order; names are translated via report.compliance.groups
+  groupOf: (control: string) => string;
+}
+
+export const FRAMEWORKS: FrameworkDefinition[] = [
+  {
+    // Functions, e.g. PR.AA-03 -> PR
+    id: 'nist_csf_2',
+    groups: ['GV', 'ID', 'PR', 'DE', 'RS', 'RC'],
+    groupOf: (control) => control.split('.')[0],
+  },
+  {
+    // Controls, e.g. safeguard 6.3 -> control 6
+    id: 'cis_v8',
+    groups: Array.from({ length: 18 }, (_, i) => String(i + 1)),
+    groupOf: (control) => control.split('.')[0],
+  },
+  {
+    // Annex A themes, e.g. A.8.5 -> technological
+    id: 'iso_27001',
+    groups: ['organizational', 'people', 'physical', 'technological'],
+    groupOf: (control) => ({ 5: 'organizational', 6: 'people', 7: 'physical', 8: 'technological' })[
+      Number(control.split('.')[1])
+    ] ?? 'organizational',
+  },
+];
+
+export type ControlStatus = 'met' | 'partial' | 'gap' | 'notAssessed';
+
+export interface ControlCoverage {
+  control: string;
+  status: ControlStatus;
+  questionIds: string[];
+}
+
+export interface CoverageTotals {
+  coverage: number; // percent of mapped points achieved; unanswered questions count as 0, as in computeScore
+  gap: number; // 100 - coverage
+  met: number; // controls fully met
+  total: number; // controls mapped
+}
+
+export interface GroupCoverage extends CoverageTotals {
+  id: string;
+  controls: ControlCoverage[];
+}
+
+export interface FrameworkCoverage extends CoverageTotals {
+  id: FrameworkId;
+  groups: GroupCoverage[]; // only groups with mapped controls
+}
+
+interface ControlTally {
+  achieved: number;
+  max: number;
+  answered: number;
+  questionIds: string[];
+}
+
+const percentOf = (achieved: number, max: number) => (max === 0 ? 0 : +(100 * achieved / max).toFixed(2));
+
+const getStatus = ({ achieved, max, answered }: ControlTally): ControlStatus => {
+  if (answered === 0) return 'notAssessed';
+  if (achieved >= max) return 'met';
+  return achieved === 0 ? 'gap' : 'partial';
+};
+
+const totals = (tallies: ControlTally[]): CoverageTotals => {
+  const achieved = tallies.reduce((sum, c) => sum + c.achieved, 0);
+  const max = tallies.reduce((sum, c) => sum + c.max, 0);
+  const coverage = percentOf(achieved, max);
+  return {
+    coverage,
+    gap: +(100 - coverage).toFixed(2),
+    met: tallies.filter((c) => getStatus(c) === 'met').length,
+    total: tallies.length,
+  };
+};
+
+/**
+ * Tally points per control. Question-level controls earn the chosen option's points; option-level controls
+ * earn full points only when an option listing them is chosen.
+ */
+const tallyControls = (
+  framework: FrameworkId,
+  answers: Record<string, string>,
+  questions: Question[]
+): Map<string, ControlTally> => {
+  const tallies = new Map<string, ControlTally>();
+  const add = (control: string, questionId: string, achieved: number, max: number, answered: boolean) => {
+    const tally = tallies.get(control) ?? { achieved: 0, max: 0, answered: 0, questionIds: [] };
+    tally.achieved += achieved;
+    tally.max += max;
+    tally.answered += answered ? 1 : 0;
+    if (!tally.questionIds.includes(questionId)) tally.questionIds.push(questionId);
+    tallies.set(control, tally);
+  };
+
+  questions.forEach((q) => {
+    // Controls of a question that does not apply are neither met nor a gap
+    if (answers[q.id] === NOT_APPLICABLE) return;
+    const maxPoints = q.options.reduce((m, o) => Math.max(m, o.points), 0);
+    const selected = q.options.find((o) => o.value === answers[q.id]);
+    // "Don't know" is assessed at the lowest answer's points
+    const dontKnow = answers[q.id] === DONT_KNOW;
+    const answered = Boolean(selected) || dontKnow;
+    const points = selected?.points ?? (dontKnow ? getLowestPoints(q) : 0);
+    (q.controls?.[framework] ?? []).forEach((control) => {
+      add(control, q.id, points, maxPoints, answered);
+    });
+    const optionControls = new Set(q.options.flatMap((o) => o.controls?.[framework] ?? []));
+    optionControls.forEach((control) => {
+      const earned = selected?.controls?.[framework]?.includes(control) ? maxPoints : 0;
+      add(control, q.id, earned, maxPoints, answered);
+    });
+  });
+  return tallies;
+};
+
+// Sort control ids naturally so 6.10 follows 6.9
+const compareControls = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+export const computeFrameworkCoverage = (
+  answers: Record<string, string>,
+  questions: Question[]
+): FrameworkCoverage[] =>
+  FRAMEWORKS.map((framework) => {
+    const tallies = tallyControls(framework.id, answers, getVisibleQuestions(questions, answers));
+    const groups: GroupCoverage[] = framework.groups
+      .map((groupId) => {
+        const entries = Array.from(tallies.entries())
+          .filter(([control]) => framework.groupOf(control) === groupId)
+          .sort(([a], [b]) => compareControls(a, b));
+        return {
+          id: groupId,
+          ...totals(entries.map(([, tally]) => tally)),
+          controls: entries.map(([control, tally]) => ({
+            control,
+            status: getStatus(tally),
+            questionIds: tally.questionIds,
+          })),
+        };
+      })
+      .filter((group) => group.total > 0);
+    return { id: framework.id, ...totals(Array.from(tallies.values())), groups };
+  });
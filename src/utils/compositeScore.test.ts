@@ -0,0 +1,87 @@
+import {
+  computeCompositeScore,
+  DEFAULT_COMPOSITE_WEIGHTS,
+  EXTERNAL_SURFACE_KEY,
+  normalizeCompositeWeights,
+  scoreExternalSurface,
+} from './compositeScore';
+import type { ScoreResult } from './scoring';
+import type { DomainScanAggregate, ExecutedScannerResult } from '../types/domainScan';
+
+const scanner = (id: string, overrides: Partial<ExecutedScannerResult> = {}): ExecutedScannerResult => ({
+  id,
+  label: `${id}.label`,
+  status: 'complete',
+  startedAt: '2025-10-27T00:00:00.000Z',
+  issues: [],
+  ...overrides,
+});
+
+const aggregate = (scanners: ExecutedScannerResult[]): DomainScanAggregate => ({
+  domain: 'example.com',
+  timestamp: '2025-10-27T00:00:00.000Z',
+  scanners,
+  issues: [],
+});
+
+const score: ScoreResult = { total: 80, max: 100, percent: 80, categories: [] };
+
+describe('compositeScore', () => {
+  describe('normalizeCompositeWeights', () => {
+    it('scales weights to sum to 1', () => {
+      expect(normalizeCompositeWeights({ questionnaire: 3, externalSurface: 1 }))
+        .toEqual({ questionnaire: 0.75, externalSurface: 0.25 });
+    });
+
+    it('falls back to the defaults for zero or invalid weights', () => {
+      expect(normalizeCompositeWeights({ questionnaire: 0, externalSurface: -1 })).toEqual(DEFAULT_COMPOSITE_WEIGHTS);
+      expect(normalizeCompositeWeights(undefined)).toEqual(DEFAULT_COMPOSITE_WEIGHTS);
+    });
+  });
+
+  describe('scoreExternalSurface', () => {
+    it('maps scanner severities to points and skips failed scanners', () => {
+      const result = scoreExternalSurface(aggregate([
+        scanner('custom'),
+        scanner('other', { issues: ['Problem'] }),
+        scanner('broken', { status: 'error', error: 'Timeout' }),
+      ]), 'External');
+
+      expect(result?.key).toBe(EXTERNAL_SURFACE_KEY);
+      expect(result?.category).toBe('External');
+      expect(result?.scanners.map((s) => s.points)).toEqual([100, 40, null]);
+      expect(result?.total).toBe(140);
+      expect(result?.max).toBe(200);
+      expect(result?.percent).toBe(70);
+    });
+
+    it('returns undefined without any scored scanner', () => {
+      expect(scoreExternalSurface(undefined)).toBeUndefined();
+      expect(scoreExternalSurface(aggregate([scanner('broken', { status: 'error' })]))).toBeUndefined();
+    });
+  });
+
+  describe('computeCompositeScore', () => {
+    it('blends the questionnaire and external attack surface scores', () => {
+      const result = computeCompositeScore(score, aggregate([scanner('custom', { issues: ['Problem'] })]));
+      // 0.7 * 80 + 0.3 * 40
+      expect(result.percent).toBe(68);
+      expect(result.questionnairePercent).toBe(80);
+      expect(result.externalSurface?.percent).toBe(40);
+      expect(result.weights).toEqual(DEFAULT_COMPOSITE_WEIGHTS);
+    });
+
+    it('honors custom weights', () => {
+      const result = computeCompositeScore(score, aggregate([scanner('custom')]),
+        { questionnaire: 1, externalSurface: 1 });
+      expect(result.percent).toBe(90);
+    });
+
+    it('equals the questionnaire score without a domain scan', () => {
+      const result = computeCompositeScore(score, undefined);
+      expect(result.percent).toBe(80);
+      expect(result.externalSurface).toBeUndefined();
+      expect(result.weights).toEqual({ questionnaire: 1, externalSurface: 0 });
+    });
+  });
+});
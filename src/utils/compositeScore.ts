@@ -0,0 +1,112 @@
+/**
+ * Composite risk score: blends the questionnaire score with an "External Attack Surface" category derived
+ * from domain scanner results, so scan findings influence the headline number.
+ */
+
+import { DomainScanAggregate, SeverityLevel } from '../types/domainScan';
+import { CategoryScore, ScoreResult } from './scoring';
+import { interpretScannerResult } from './scanners';
+
+export const EXTERNAL_SURFACE_KEY = 'external_attack_surface';
+
+// Points awarded per scanner interpretation severity. Failed scanners are left out rather than scored as 0,
+// since a timeout says nothing about the attack surface.
+export const SEVERITY_POINTS: Record<SeverityLevel, number | null> = {
+  success: 100,
+  info: 75,
+  warning: 40,
+  critical: 0,
+  error: null,
+};
+
+export interface CompositeWeights {
+  questionnaire: number;
+  externalSurface: number;
+}
+
+export const DEFAULT_COMPOSITE_WEIGHTS: CompositeWeights = { questionnaire: 0.7, externalSurface: 0.3 };
+
+export interface ScannerScore {
+  id: string;
+  label: string;
+  severity: SeverityLevel;
+  points: number | null; // null when the scanner is not scored
+}
+
+export interface ExternalSurfaceScore extends CategoryScore {
+  scanners: ScannerScore[];
+}
+
+export interface CompositeScoreResult {
+  percent: number;
+  questionnairePercent: number;
+  externalSurface?: ExternalSurfaceScore; // undefined without a domain scan or any scored scanner
+  weights: CompositeWeights; // effective weights after normalization, summing to 1
+}
+
+const round = (value: number) => +value.toFixed(2);
+
+/**
+ * Coerce weights to non-negative numbers; falls back to the defaults when both are zero or invalid
+ */
+export const normalizeCompositeWeights = (weights: Partial<CompositeWeights> | undefined): CompositeWeights => {
+  const valid = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 0);
+  const questionnaire = valid(weights?.questionnaire);
+  const externalSurface = valid(weights?.externalSurface);
+  const sum = questionnaire + externalSurface;
+  if (sum === 0) return { ...DEFAULT_COMPOSITE_WEIGHTS };
+  return { questionnaire: round(questionnaire / sum), externalSurface: round(externalSurface / sum) };
+};
+
+/**
+ * Score the domain scan as a category: each scored scanner contributes up to 100 points
+ */
+export const scoreExternalSurface = (
+  aggregate: DomainScanAggregate | undefined,
+  categoryLabel = 'External Attack Surface'
+): ExternalSurfaceScore | undefined => {
+  if (!aggregate || aggregate.scanners.length === 0) return undefined;
+
+  const scanners: ScannerScore[] = aggregate.scanners.map((sc) => {
+    const { severity } = interpretScannerResult(sc);
+    return { id: sc.id, label: sc.label, severity, points: SEVERITY_POINTS[severity] };
+  });
+  const scored = scanners.filter((s) => s.points !== null);
+  if (scored.length === 0) return undefined;
+
+  const total = scored.reduce((sum, s) => sum + (s.points ?? 0), 0);
+  const max = scored.length * 100;
+  return {
+    category: categoryLabel,
+    key: EXTERNAL_SURFACE_KEY,
+    total,
+    max,
+    percent: round(100 * total / max),
+    scanners,
+  };
+};
+
+export const computeCompositeScore = (
+  score: ScoreResult,
+  aggregate: DomainScanAggregate | undefined,
+  weights: Partial<CompositeWeights> = DEFAULT_COMPOSITE_WEIGHTS,
+  categoryLabel?: string
+): CompositeScoreResult => {
+  const externalSurface = scoreExternalSurface(aggregate, categoryLabel);
+  if (!externalSurface) {
+    // Nothing to blend: the composite is the questionnaire score
+    return {
+      percent: score.percent,
+      questionnairePercent: score.percent,
+      weights: { questionnaire: 1, externalSurface: 0 },
+    };
+  }
+
+  const effective = normalizeCompositeWeights(weights);
+  return {
+    percent: round(effective.questionnaire * score.percent + effective.externalSurface * externalSurface.percent),
+    questionnairePercent: score.percent,
+    externalSurface,
+    weights: effective,
+  };
+};
@@ -3,6 +3,8 @@ import {
   getDkimSelectors,
   saveDkimSelectors,
   deleteDkimSelectors,
+  getAllDkimSelectors,
+  replaceAllDkimSelectors,
   type DkimSelectorsData
 } from './dkimSelectorsService';
 
@@ -246,6 +248,34 @@ describe('dkimSelectorsService', () => {
     });
   });
 
+  describe('getAllDkimSelectors', () => {
+    it('should return selectors for every stored domain', () => {
+      saveDkimSelectors('domain1.com', ['sel1']);
+      saveDkimSelectors('domain2.com', ['sel2', 'sel3']);
+      localStorageMock.setItem('unrelated_key', 'value');
+
+      expect(getAllDkimSelectors()).toEqual({
+        'domain1.com': ['sel1'],
+        'domain2.com': ['sel2', 'sel3'],
+      });
+    });
+
+    it('should return an empty object when nothing is stored', () => {
+      expect(getAllDkimSelectors()).toEqual({});
+    });
+  });
+
+  describe('replaceAllDkimSelectors', () => {
+    it('should remove existing entries and store the new map', () => {
+      saveDkimSelectors('old.com', ['sel1']);
+
+      expect(replaceAllDkimSelectors({ 'new.com': ['google'] })).toBe(true);
+
+      expect(getDkimSelectors('old.com')).toEqual([]);
+      expect(getAllDkimSelectors()).toEqual({ 'new.com': ['google'] });
+    });
+  });
+
   describe('integration tests', () => {
     it('should handle complete lifecycle of selectors', () => {
       // Save selectors for multiple domains
@@ -1,3 +1,5 @@
+import { vault } from './vault';
+
 const STORAGE_KEY_PREFIX = 'dkim_selectors_';
 
 export interface DkimSelectorsData {
@@ -16,7 +18,7 @@ export const getDkimSelectors = (domain: string): string[] => {
     }
 
     const key = `${STORAGE_KEY_PREFIX}${domain}`;
-    const stored = localStorage.getItem(key);
+    const stored = vault.getItem(key);
     if (!stored) return [];
 
     const data: DkimSelectorsData = JSON.parse(stored);
@@ -59,7 +61,7 @@ export const saveDkimSelectors = (domain: string, selectors: string[]): boolean
       selectors,
       updatedAt: new Date().toISOString(),
     };
-    localStorage.setItem(key, JSON.stringify(data));
+    vault.setItem(key, JSON.stringify(data));
     return true;
   } catch (error) {
     // Report errors for write operations as these affect user functionality
@@ -87,7 +89,7 @@ export const deleteDkimSelectors = (domain: string): boolean => {
     }
 
     const key = `${STORAGE_KEY_PREFIX}${domain}`;
-    localStorage.removeItem(key);
+    vault.removeItem(key);
     return true;
   } catch (error) {
     // Report errors for delete operations as user initiated
@@ -98,3 +100,31 @@ export const deleteDkimSelectors = (domain: string): boolean => {
     return false;
   }
 };
+
+/**
+ * Get all stored DKIM selectors keyed by domain
+ */
+export const getAllDkimSelectors = (): Record<string, string[]> => {
+  const result: Record<string, string[]> = {};
+  try {
+    for (const key of vault.keys()) {
+      if (!key.startsWith(STORAGE_KEY_PREFIX)) continue;
+      const domain = key.slice(STORAGE_KEY_PREFIX.length);
+      const selectors = getDkimSelectors(domain);
+      if (selectors.length > 0) result[domain] = selectors;
+    }
+  } catch {
+    // Storage unavailable - treat as no selectors
+  }
+  return result;
+};
+
+/**
+ * Replace every stored DKIM selector entry with the given domain -> selectors map
+ */
+export const replaceAllDkimSelectors = (selectorsByDomain: Record<string, string[]>): boolean => {
+  Object.keys(getAllDkimSelectors()).forEach((domain) => deleteDkimSelectors(domain));
+  return Object.entries(selectorsByDomain)
+    .map(([domain, selectors]) => saveDkimSelectors(domain, selectors))
+    .every(Boolean);
+};
@@ -1,12 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   checkDKIM,
+  createDnsResolver,
   extractSPF,
   fetchDMARC,
   fetchDNS,
   fetchTXT,
   fetchCertificates,
   deriveIssues,
+  wait,
 } from './domainChecks';
 
 // Mock fetch globally
@@ -164,7 +166,8 @@ describe('fetchDMARC', () => {
 
     await fetchDMARC('example.com');
     expect(global.fetch).toHaveBeenCalledWith(
-      expect.stringContaining('_dmarc.example.com')
+      expect.stringContaining('_dmarc.example.com'),
+      expect.anything()
     );
   });
 
@@ -223,10 +226,18 @@ describe('checkDKIM', () => {
 
     await checkDKIM('example.com');
     // We now check ~40 selectors including default, selector1, google, etc.
-    expect(global.fetch).toHaveBeenCalledWith(expect.stringContaining('default._domainkey.example.com'));
-    expect(global.fetch).toHaveBeenCalledWith(expect.stringContaining('selector1._domainkey.example.com'));
-    expect(global.fetch).toHaveBeenCalledWith(expect.stringContaining('google._domainkey.example.com'));
-    expect(global.fetch).toHaveBeenCalledWith(expect.stringContaining('mailgun._domainkey.example.com'));
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('default._domainkey.example.com'), expect.anything()
+    );
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('selector1._domainkey.example.com'), expect.anything()
+    );
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('google._domainkey.example.com'), expect.anything()
+    );
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('mailgun._domainkey.example.com'), expect.anything()
+    );
   });
 });
 
@@ -262,6 +273,84 @@ describe('fetchCertificates', () => {
   });
 });
 
+describe('cancellation', () => {
+  it('passes the signal to fetch and rethrows when aborted instead of reporting no data', async () => {
+    const controller = new AbortController();
+    (global.fetch as ReturnType<typeof vi.fn>).mockImplementation((_url, init?: { signal?: AbortSignal }) => {
+      controller.abort(new Error('Scan cancelled'));
+      expect(init?.signal).toBe(controller.signal);
+      return Promise.reject(init?.signal?.reason);
+    });
+
+    await expect(fetchDNS('example.com', 'A', controller.signal)).rejects.toThrow('Scan cancelled');
+    await expect(fetchCertificates('example.com', controller.signal)).rejects.toThrow('Scan cancelled');
+    await expect(checkDKIM('example.com', ['google'], controller.signal)).rejects.toThrow('Scan cancelled');
+  });
+
+  it('still treats other failures as missing data', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('Network error'));
+    const controller = new AbortController();
+
+    expect(await fetchDNS('example.com', 'A', controller.signal)).toBeNull();
+    expect(await fetchCertificates('example.com', controller.signal)).toBeUndefined();
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const waiting = wait(30000, controller.signal);
+
+    controller.abort(new Error('Scan cancelled'));
+
+    await expect(waiting).rejects.toThrow('Scan cancelled');
+    expect(vi.getTimerCount()).toBe(0);
+    vi.useRealTimers();
+  });
+});
+
+describe('createDnsResolver', () => {
+  const mockRecord = () => (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+    ok: true,
+    json: async () => ({ Status: 0, Answer: [{ type: 16, data: 'v=spf1 -all' }] }),
+  });
+
+  it('queries each name and record type once', async () => {
+    mockRecord();
+    const resolve = createDnsResolver();
+
+    const [first, second] = await Promise.all([resolve('example.com', 'TXT'), resolve('EXAMPLE.com', 'TXT')]);
+    await resolve('example.com', 'MX');
+
+    expect(first).toEqual({ type: 'TXT', data: ['v=spf1 -all'] });
+    expect(second).toBe(first);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the resolver for TXT, DMARC and DKIM lookups', async () => {
+    mockRecord();
+    const resolve = vi.fn(createDnsResolver());
+
+    await fetchTXT('example.com', undefined, resolve);
+    await fetchDMARC('example.com', undefined, resolve);
+    await checkDKIM('example.com', ['google'], undefined, resolve);
+
+    expect(resolve).toHaveBeenCalledWith('example.com', 'TXT', undefined);
+    expect(resolve).toHaveBeenCalledWith('_dmarc.example.com', 'TXT', undefined);
+    expect(resolve).toHaveBeenCalledWith('google._domainkey.example.com', 'TXT', undefined);
+  });
+
+  it('makes no lookups for a caller whose signal has aborted', async () => {
+    mockRecord();
+    const resolve = createDnsResolver();
+    const caller = new AbortController();
+    caller.abort(new Error('Scanner timed out'));
+
+    await expect(resolve('example.com', 'TXT', caller.signal)).rejects.toThrow('Scanner timed out');
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(await resolve('example.com', 'TXT')).toEqual({ type: 'TXT', data: ['v=spf1 -all'] });
+  });
+});
+
 describe('deriveIssues', () => {
   it('should detect missing SPF', () => {
     const scan = { spf: undefined, dmarc: 'v=DMARC1', dkimSelectorsFound: ['default'] };
@@ -1,5 +1,7 @@
 // Client-side domain assessment utilities relying on public APIs.
 // NOTE: Some checks (full SSL chain, security headers via direct fetch) are limited by CORS in a static site.
+// Every helper takes an optional AbortSignal. Failed lookups count as "no data", but an aborted one rethrows the
+// abort reason so a cancelled or timed-out scan stops instead of reporting missing records.
 
 export interface DNSRecordResult {
   type: string;
@@ -18,9 +20,36 @@ export interface DomainScanResult {
   issues: string[]; // Derived issue strings
 }
 
-export const fetchDNS = async (domain: string, rrtype: string): Promise<DNSRecordResult | null> => {
+// Resolves after ms milliseconds, or rejects with the abort reason as soon as the signal aborts
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Looks up one record type for a name: fetchDNS itself, or a scan's memoized resolver from createDnsResolver
+export type DnsResolver = (name: string, rrtype: string, signal?: AbortSignal) => Promise<DNSRecordResult | null>;
+
+export const fetchDNS = async (
+  domain: string,
+  rrtype: string,
+  signal?: AbortSignal
+): Promise<DNSRecordResult | null> => {
   try {
-    const res = await fetch(`https://dns.google/resolve?name=${encodeURIComponent(domain)}&type=${rrtype}`);
+    const res = await fetch(
+      `https://dns.google/resolve?name=${encodeURIComponent(domain)}&type=${rrtype}`,
+      { signal }
+    );
     if (!res.ok) return null;
     const json = await res.json();
     if (!json.Answer) return { type: rrtype, data: [] };
@@ -28,12 +57,36 @@ export const fetchDNS = async (domain: string, rrtype: string): Promise<DNSRecor
     const data = json.Answer.map((a: any) => a.data).filter((d: string) => !!d);
     return { type: rrtype, data };
   } catch {
+    signal?.throwIfAborted();
     return null;
   }
 };
 
-export const fetchTXT = async (domain: string): Promise<string[]> => {
-  const rec = await fetchDNS(domain, 'TXT');
+// One resolver is shared by all scanners of a scan, so a record several of them need is only queried once.
+// Queries are aborted with the scan's signal. A caller whose own signal has aborted (e.g. its scanner timed out)
+// gets no further lookups; a query already running finishes for the other scanners that may be waiting on it.
+export const createDnsResolver = (signal?: AbortSignal): DnsResolver => {
+  const queries = new Map<string, Promise<DNSRecordResult | null>>();
+  return async (name, rrtype, callerSignal) => {
+    callerSignal?.throwIfAborted();
+    const key = `${name.toLowerCase()} ${rrtype}`;
+    let query = queries.get(key);
+    if (!query) {
+      query = fetchDNS(name, rrtype, signal);
+      queries.set(key, query);
+    }
+    const record = await query;
+    callerSignal?.throwIfAborted();
+    return record;
+  };
+};
+
+export const fetchTXT = async (
+  domain: string,
+  signal?: AbortSignal,
+  resolve: DnsResolver = fetchDNS
+): Promise<string[]> => {
+  const rec = await resolve(domain, 'TXT', signal);
   return rec?.data || [];
 };
 
@@ -41,13 +94,22 @@ export const extractSPF = (txtRecords: string[]): string | undefined => {
   return txtRecords.find((r) => r.toLowerCase().startsWith('v=spf1'));
 };
 
-export const fetchDMARC = async (domain: string): Promise<string | undefined> => {
+export const fetchDMARC = async (
+  domain: string,
+  signal?: AbortSignal,
+  resolve: DnsResolver = fetchDNS
+): Promise<string | undefined> => {
   const name = `_dmarc.${domain}`;
-  const txt = await fetchTXT(name);
+  const txt = await fetchTXT(name, signal, resolve);
   return txt.find((t) => t.toLowerCase().includes('v=dmarc'));
 };
 
-export const checkDKIM = async (domain: string, customSelectors?: string[]): Promise<string[]> => {
+export const checkDKIM = async (
+  domain: string,
+  customSelectors?: string[],
+  signal?: AbortSignal,
+  resolve: DnsResolver = fetchDNS
+): Promise<string[]> => {
   // If custom selectors are provided, use only those
   // Otherwise, fall back to common DKIM selectors used by major email providers
   const defaultSelectors = [
@@ -84,7 +146,7 @@ export const checkDKIM = async (domain: string, customSelectors?: string[]): Pro
   // Check all selectors in parallel for better performance
   const checks = selectors.map(async (sel) => {
     const name = `${sel}._domainkey.${domain}`;
-    const txt = await fetchTXT(name);
+    const txt = await fetchTXT(name, signal, resolve);
     // Valid DKIM records contain either v=DKIM1 or p= with actual key data (not just "p=" or "p= ")
     if (txt.some((t) => {
       if (t.includes('v=DKIM1')) return true;
@@ -104,12 +166,13 @@ export const checkDKIM = async (domain: string, customSelectors?: string[]): Pro
 };
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const fetchCertificates = async (domain: string): Promise<any[] | undefined> => {
+export const fetchCertificates = async (domain: string, signal?: AbortSignal): Promise<any[] | undefined> => {
   try {
-    const res = await fetch(`https://crt.sh/?q=${encodeURIComponent(domain)}&output=json`);
+    const res = await fetch(`https://crt.sh/?q=${encodeURIComponent(domain)}&output=json`, { signal });
     if (!res.ok) return undefined;
     return await res.json();
   } catch {
+    signal?.throwIfAborted();
     return undefined;
   }
 };
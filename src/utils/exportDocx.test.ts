@@ -0,0 +1,215 @@
+import { buildDocxParts, escapeXml, exportToDocx, generateDocx } from './exportDocx';
+import type { ScoreResult } from './scoring';
+import type { DomainScanAggregate } from '../types/domainScan';
+
+const mockT = (key: string, options?: Record<string, unknown>): string => {
+  const translations: Record<string, string> = {
+    'report.wordExport.title': 'Security Risk Assessment Report',
+    'report.wordExport.categoryAnalysisTitle': 'Category Analysis',
+    'report.identifiedRisks': 'Identified Risks',
+    'report.pdfExport.preparedFor': 'Prepared for {{name}}',
+  };
+  const text = translations[key] ?? key;
+  return text.replace(/\{\{(\w+)\}\}/g, (_m, name) => String(options?.[name] ?? ''));
+};
+
+const mockTScanners = (key: string) => key;
+
+const sampleScore: ScoreResult = {
+  total: 65,
+  max: 100,
+  percent: 65,
+  categories: [
+    { category: 'Gestión de accesos', key: 'access', total: 15, max: 20, percent: 75 },
+    { category: 'Network & Security', key: 'network', total: 10, max: 20, percent: 50 },
+  ]
+};
+
+const sampleAggregate: DomainScanAggregate = {
+  domain: 'example.com',
+  timestamp: '2025-10-27T00:00:00.000Z',
+  scanners: [
+    {
+      id: 'securityHeaders',
+      label: 'securityHeaders.label',
+      status: 'complete',
+      startedAt: '2025-10-27T00:00:00.000Z',
+      issues: ['Missing <CSP> header'],
+      data: { testUrl: 'https://securityheaders.com/?q=example.com&hide=on' }
+    }
+  ],
+  issues: ['Missing <CSP> header']
+};
+
+const buildParts = (overrides: Partial<Parameters<typeof buildDocxParts>[0]> = {}) => {
+  const parts = buildDocxParts({
+    score: sampleScore,
+    risks: ['No MFA on email'],
+    bestPractices: ['Daily backups'],
+    t: mockT,
+    tScanners: mockTScanners,
+    generatedAt: new Date('2025-10-27T12:00:00.000Z'),
+    ...overrides
+  });
+  return Object.fromEntries(parts.map((p) => [p.name, p.data]));
+};
+
+describe('exportDocx', () => {
+  it('escapes XML special characters', () => {
+    expect(escapeXml('a < b & "c" > d')).toBe('a &lt; b &amp; &quot;c&quot; &gt; d');
+  });
+
+  it('builds the Office Open XML package parts', () => {
+    const parts = buildParts();
+    expect(Object.keys(parts)[0]).toBe('[Content_Types].xml');
+    expect(Object.keys(parts)).toEqual(expect.arrayContaining([
+      '_rels/.rels', 'word/document.xml', 'word/styles.xml', 'word/numbering.xml', 'word/_rels/document.xml.rels'
+    ]));
+    expect(parts['word/styles.xml']).toContain('w:styleId="Heading1"');
+    expect(parts['word/numbering.xml']).toContain('<w:numFmt w:val="bullet"/>');
+  });
+
+  it('writes report sections with headings, tables and bulleted lists', () => {
+    const document = buildParts({ clientName: 'Acme Corp' })['word/document.xml'] as string;
+    expect(document).toContain('<w:pStyle w:val="Title"/>');
+    expect(document).toContain('Prepared for Acme Corp');
+    expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(document).toContain('<w:tbl>');
+    expect(document).toContain('Gestión de accesos');
+    expect(document).toContain('Network &amp; Security');
+    expect(document).toMatch(/<w:numId w:val="1"\/>.*No MFA on email/);
+  });
+
+  it('escapes scanner issues and links the header analysis', () => {
+    const parts = buildParts({ domainScanAggregate: sampleAggregate });
+    expect(parts['word/document.xml']).toContain('Missing &lt;CSP&gt; header');
+    expect(parts['word/document.xml']).toContain('<w:hyperlink r:id="rIdLink2">');
+    expect(parts['word/_rels/document.xml.rels'])
+      .toContain('Target="https://securityheaders.com/?q=example.com&amp;hide=on" TargetMode="External"');
+  });
+
+  it('adds the composite score with its scanner breakdown', () => {
+    const parts = buildParts({
+      compositeScore: {
+        percent: 68,
+        questionnairePercent: 80,
+        weights: { questionnaire: 0.7, externalSurface: 0.3 },
+        externalSurface: {
+          category: 'External Attack Surface', key: 'external_attack_surface', total: 40, max: 100, percent: 40,
+          scanners: [{ id: 'securityHeaders', label: 'securityHeaders.label', severity: 'warning', points: 40 }]
+        }
+      }
+    });
+    expect(parts['word/document.xml']).toContain('report.composite.title');
+    expect(parts['word/document.xml']).toContain('>68%<');
+    expect(parts['word/document.xml']).toContain('securityHeaders.label: report.composite.severityLevels.warning');
+  });
+
+  it('nests recommended next steps under their risk', () => {
+    const parts = buildParts({ riskRecommendations: { 'No MFA on email': ['Enforce MFA'] } });
+    expect(parts['word/document.xml']).toMatch(/<w:ilvl w:val="1"\/>.*Enforce MFA/);
+    expect(parts['word/numbering.xml']).toContain('<w:lvl w:ilvl="1">');
+  });
+
+  it('writes the score label, empty-state messages and limitations', () => {
+    const document = buildParts({ risks: [], bestPractices: [] })['word/document.xml'] as string;
+    expect(document).toContain('report.scoreGood');
+    expect(document).toContain('report.noRisksYet');
+    expect(document).toContain('report.noBestPracticesYet');
+    expect(document).toContain('report.limitationsText');
+  });
+
+  it('writes scanner summaries and notes when there are no aggregated issues', () => {
+    const document = buildParts({
+      domainScanAggregate: {
+        ...sampleAggregate,
+        scanners: [{ ...sampleAggregate.scanners[0], summary: 'Grade B', issues: [] }],
+        issues: []
+      }
+    })['word/document.xml'] as string;
+    expect(document).toContain('Grade B');
+    expect(document).toContain('report.wordExport.noAggregatedIssues');
+  });
+
+  it('embeds the chart only when it is a PNG', () => {
+    const png = `data:image/png;base64,${btoa('\x89PNG')}`;
+    const withChart = buildParts({ chartImage: { dataUrl: png, width: 800, height: 400 } });
+    expect(withChart['word/media/chart.png']).toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+    expect(withChart['word/document.xml']).toContain('<a:blip r:embed="rIdChart"/>');
+    expect(withChart['word/document.xml']).toContain('cx="5029200" cy="2514600"');
+
+    const jpeg = `data:image/jpeg;base64,${btoa('\xFF\xD8')}`;
+    const withoutChart = buildParts({ chartImage: { dataUrl: jpeg, width: 800, height: 400 } });
+    expect(withoutChart['word/media/chart.png']).toBeUndefined();
+    expect(withoutChart['word/document.xml']).not.toContain('<w:drawing>');
+  });
+
+  it('applies branding above the title and replaces the disclaimer', () => {
+    const png = `data:image/png;base64,${btoa('\x89PNG')}`;
+    const parts = buildParts({
+      branding: {
+        companyName: 'Contoso MSP',
+        reportTitle: 'Contoso Security Review',
+        logoDataUrl: png,
+        contact: 'help@contoso.example\n+1 555 0100',
+        primaryColor: '#112233',
+        accentColor: '#AA5500',
+        disclaimer: 'Prepared under the Contoso service agreement.'
+      },
+      logoImage: { dataUrl: png, width: 500, height: 100 }
+    });
+    const document = parts['word/document.xml'] as string;
+    expect(parts['word/media/logo.png']).toBeDefined();
+    expect(document).toContain('<a:blip r:embed="rIdLogo"/>');
+    // 2.5in wide logo, aspect ratio kept
+    expect(document).toContain('cx="2286000" cy="457200"');
+    expect(document.indexOf('Contoso MSP')).toBeLessThan(document.indexOf('Contoso Security Review'));
+    expect(document).toContain('help@contoso.example</w:t></w:r><w:r><w:br/></w:r>');
+    expect(document).toContain('Prepared under the Contoso service agreement.');
+    expect(document).not.toContain('report.limitationsText');
+    expect(parts['word/styles.xml']).toContain('w:color="AA5500"');
+    expect(parts['word/styles.xml']).toContain('<w:color w:val="112233"/>');
+  });
+
+  it('escapes branding text', () => {
+    const document = buildParts({
+      branding: {
+        companyName: 'Acme "<b>',
+        reportTitle: 'Review </w:t>',
+        logoDataUrl: '',
+        contact: '<a>mail</a>',
+        primaryColor: '',
+        accentColor: '',
+        disclaimer: 'No <warranty> & more'
+      }
+    })['word/document.xml'] as string;
+    expect(document).toContain('Acme &quot;&lt;b&gt;');
+    expect(document).toContain('Review &lt;/w:t&gt;');
+    expect(document).toContain('&lt;a&gt;mail&lt;/a&gt;');
+    expect(document).toContain('No &lt;warranty&gt; &amp; more');
+    expect(document).not.toContain('<b>');
+  });
+
+  it('generates a ZIP archive', () => {
+    const bytes = generateDocx({
+      score: sampleScore, risks: [], bestPractices: [], t: mockT, tScanners: mockTScanners
+    });
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+  });
+
+  it('downloads the report as a .docx file', () => {
+    const createObjectURL = vi.fn(() => 'mock-url');
+    const revokeObjectURL = vi.fn();
+    global.URL.createObjectURL = createObjectURL;
+    global.URL.revokeObjectURL = revokeObjectURL;
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    exportToDocx({ score: sampleScore, risks: [], bestPractices: [], t: mockT, tScanners: mockTScanners });
+
+    const blob = (createObjectURL.mock.calls[0] as unknown[])[0] as Blob;
+    expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith('mock-url');
+    click.mockRestore();
+  });
+});
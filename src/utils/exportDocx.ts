@@ -0,0 +1,408 @@
+import {
+  ExportReportOptions,
+  getComplianceSections,
+  getCompositeLines,
+  getDisclaimerText,
+  getRemediationSections,
+  getExportScoreColor,
+  getReportTitle,
+  getScanProfileLine,
+  getScoreLabelKey,
+  resolveExportColors,
+  translateLabelKeys,
+} from './exportReport';
+import { interpretScannerResult } from './scanners';
+import { ChartImage, dataUrlToBinary } from './chartImage';
+import { createZip, ZipEntry } from './zipArchive';
+import { getContactLines } from './branding';
+
+export interface DocxReportOptions extends ExportReportOptions {
+  chartImage?: ChartImage; // PNG capture of the category radar chart
+  logoImage?: ChartImage; // PNG rendering of the branding logo
+  clientName?: string;
+  generatedAt?: Date;
+}
+
+interface RunOptions {
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+  size?: number; // points
+}
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const EMU_PER_INCH = 914400;
+const CHART_WIDTH_INCHES = 5.5;
+const LOGO_MAX_WIDTH_INCHES = 2.5;
+const LOGO_MAX_HEIGHT_INCHES = 1;
+const BULLET_NUM_ID = 1;
+
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_BASE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// OOXML colors are hex without the leading '#'
+const toDocxColor = (hex: string) => {
+  const value = hex.replace('#', '').toUpperCase();
+  return value.length === 3 ? value.split('').map((c) => c + c).join('') : value;
+};
+
+const run = (text: string, options: RunOptions = {}): string => {
+  const props = [
+    options.bold ? '<w:b/>' : '',
+    options.italic ? '<w:i/>' : '',
+    options.color ? `<w:color w:val="${toDocxColor(options.color)}"/>` : '',
+    options.size ? `<w:sz w:val="${options.size * 2}"/><w:szCs w:val="${options.size * 2}"/>` : '',
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}` +
+    `<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (
+  content: string,
+  options: { style?: string; align?: 'center'; bullet?: boolean; level?: number } = {}
+) => {
+  const props = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.bullet
+      ? `<w:numPr><w:ilvl w:val="${options.level ?? 0}"/><w:numId w:val="${BULLET_NUM_ID}"/></w:numPr>`
+      : '',
+    options.align ? `<w:jc w:val="${options.align}"/>` : '',
+  ].join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+};
+
+const bulletList = (items: string[], level = 0) =>
+  items.map((item) => paragraph(run(item), { style: 'ListParagraph', bullet: true, level })).join('');
+
+const tableCell = (content: string, widthTwips: number, shade?: string) =>
+  `<w:tc><w:tcPr><w:tcW w:w="${widthTwips}" w:type="dxa"/>` +
+  `${shade ? `<w:shd w:val="clear" w:color="auto" w:fill="${toDocxColor(shade)}"/>` : ''}</w:tcPr>` +
+  `${paragraph(content)}</w:tc>`;
+
+// Scale an image to fit the given box (in inches), returning its size in EMUs
+const fitImage = (image: ChartImage, maxWidth: number, maxHeight = Infinity) => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height) * EMU_PER_INCH;
+  return { cx: Math.round(image.width * scale), cy: Math.round(image.height * scale) };
+};
+
+const inlineImage = (
+  relId: string,
+  docPrId: number,
+  fileName: string,
+  description: string,
+  { cx, cy }: { cx: number; cy: number }
+) => '<w:r><w:drawing>' +
+    `<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>` +
+    `<wp:docPr id="${docPrId}" name="${fileName}" descr="${escapeXml(description)}"/>` +
+    '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>' +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    `<pic:pic><pic:nvPicPr><pic:cNvPr id="0" name="${fileName}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+    '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>' +
+    '</a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+
+const binaryToBytes = (binary: string) => Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+
+const buildStylesXml = (colors: ReturnType<typeof resolveExportColors>) => {
+  const heading = (id: string, name: string, size: number, level: number, color: string, before: number) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>` +
+    '<w:next w:val="Normal"/><w:qFormat/>' +
+    `<w:pPr><w:keepNext/><w:spacing w:before="${before}" w:after="120"/><w:outlineLvl w:val="${level}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${toDocxColor(color)}"/><w:sz w:val="${size * 2}"/>` +
+    `<w:szCs w:val="${size * 2}"/></w:rPr></w:style>`;
+
+  return XML_HEADER +
+    `<w:styles xmlns:w="${NS_W}">` +
+    '<w:docDefaults><w:rPrDefault><w:rPr>' +
+    '<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+    `<w:color w:val="${toDocxColor(colors.textPrimary)}"/><w:sz w:val="22"/><w:szCs w:val="22"/>` +
+    '<w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>' +
+    '</w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>' +
+    '<w:next w:val="Normal"/><w:qFormat/><w:pPr>' +
+    `<w:pBdr><w:bottom w:val="single" w:sz="18" w:space="6" w:color="${toDocxColor(colors.accent)}"/></w:pBdr>` +
+    '<w:spacing w:after="300"/><w:jc w:val="center"/>' +
+    `</w:pPr><w:rPr><w:b/><w:color w:val="${toDocxColor(colors.textSecondary)}"/><w:sz w:val="56"/>` +
+    '<w:szCs w:val="56"/></w:rPr></w:style>' +
+    heading('Heading1', 'heading 1', 20, 0, colors.textSecondary, 480) +
+    heading('Heading2', 'heading 2', 16, 1, colors.textSecondary, 320) +
+    heading('Heading3', 'heading 3', 13, 2, colors.textPrimary, 240) +
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/>' +
+    '<w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/>' +
+    '<w:contextualSpacing/></w:pPr></w:style>' +
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>' +
+    `<w:rPr><w:color w:val="${toDocxColor(colors.accent)}"/><w:u w:val="single"/></w:rPr></w:style>` +
+    '<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/><w:tblPr><w:tblBorders>' +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+      .map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D0D0D0"/>`).join('') +
+    '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/>' +
+    '</w:tblCellMar></w:tblPr></w:style>' +
+    '</w:styles>';
+};
+
+const NUMBERING_XML = XML_HEADER +
+  `<w:numbering xmlns:w="${NS_W}">` +
+  '<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>' +
+  '<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/>' +
+  '<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>' +
+  '<w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="–"/>' +
+  '<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="1440" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>' +
+  `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>` +
+  '</w:numbering>';
+
+/**
+ * Build the files of the .docx package. Sections follow the same order as the PDF export.
+ */
+export const buildDocxParts = (options: DocxReportOptions): ZipEntry[] => {
+  const { score, risks, bestPractices, domainScanAggregate, t, tScanners, branding } = options;
+  const colors = resolveExportColors(branding);
+  const generatedAt = options.generatedAt ?? new Date();
+  const title = getReportTitle(options);
+  const relationships: string[] = [
+    `<Relationship Id="rIdStyles" Type="${REL_BASE}/styles" Target="styles.xml"/>`,
+    `<Relationship Id="rIdNumbering" Type="${REL_BASE}/numbering" Target="numbering.xml"/>`,
+  ];
+  const body: string[] = [];
+  const extraParts: ZipEntry[] = [];
+
+  const hyperlink = (url: string) => {
+    const id = `rIdLink${relationships.length}`;
+    relationships.push(
+      `<Relationship Id="${id}" Type="${REL_BASE}/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`
+    );
+    return `<w:hyperlink r:id="${id}"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr>` +
+      `<w:t xml:space="preserve">${escapeXml(url)}</w:t></w:r></w:hyperlink>`;
+  };
+
+  // Branding block above the title
+  if (options.logoImage?.dataUrl.startsWith('data:image/png')) {
+    relationships.push(`<Relationship Id="rIdLogo" Type="${REL_BASE}/image" Target="media/logo.png"/>`);
+    extraParts.push({ name: 'word/media/logo.png', data: binaryToBytes(dataUrlToBinary(options.logoImage.dataUrl)) });
+    body.push(paragraph(inlineImage('rIdLogo', 2, 'logo.png', branding?.companyName ?? '',
+      fitImage(options.logoImage, LOGO_MAX_WIDTH_INCHES, LOGO_MAX_HEIGHT_INCHES)), { align: 'center' }));
+  }
+  if (branding?.companyName) {
+    body.push(paragraph(run(branding.companyName, { bold: true, size: 16, color: colors.textSecondary }),
+      { align: 'center' }));
+  }
+  const contactLines = branding ? getContactLines(branding) : [];
+  if (contactLines.length > 0) {
+    body.push(paragraph(contactLines.map((line, i) => (i > 0 ? '<w:r><w:br/></w:r>' : '') +
+      run(line, { size: 9, color: colors.muted })).join(''), { align: 'center' }));
+  }
+
+  body.push(paragraph(run(title), { style: 'Title' }));
+  if (options.clientName) {
+    body.push(paragraph(run(t('report.pdfExport.preparedFor', { name: options.clientName }), { size: 14 }),
+      { align: 'center' }));
+  }
+  body.push(paragraph(run(t('report.pdfExport.generatedOn', { date: generatedAt.toLocaleDateString() }),
+    { color: colors.muted }), { align: 'center' }));
+
+  // Overall score
+  body.push(paragraph(run(t('report.wordExport.overallSecurityScore')), { style: 'Heading1', align: 'center' }));
+  body.push(paragraph(run(`${score.percent}%`,
+    { bold: true, size: 40, color: getExportScoreColor(score.percent, colors) }), { align: 'center' }));
+  body.push(paragraph(run(t(getScoreLabelKey(score.percent)), { size: 14, color: colors.muted }),
+    { align: 'center' }));
+
+  // Category analysis
+  const avgScore = score.categories.length
+    ? Math.round(score.categories.reduce((sum, c) => sum + c.percent, 0) / score.categories.length)
+    : 0;
+  body.push(paragraph(run(t('report.wordExport.categoryAnalysisTitle')), { style: 'Heading1' }));
+  body.push(paragraph(run(
+    `${score.categories.length} ${t('report.wordExport.categoriesEvaluated')} | ` +
+    `${t('report.wordExport.average')} ${avgScore}%` +
+    (score.model === 'weighted' ? ` | ${t('report.scoring.weightedNote')}` : ''),
+    { italic: true, color: colors.muted }
+  ), { align: 'center' }));
+
+  if (options.chartImage?.dataUrl.startsWith('data:image/png')) {
+    relationships.push(`<Relationship Id="rIdChart" Type="${REL_BASE}/image" Target="media/chart.png"/>`);
+    extraParts.push({ name: 'word/media/chart.png', data: binaryToBytes(dataUrlToBinary(options.chartImage.dataUrl)) });
+    body.push(paragraph(inlineImage('rIdChart', 1, 'chart.png', t('report.wordExport.categoryAnalysisTitle'),
+      fitImage(options.chartImage, CHART_WIDTH_INCHES)), { align: 'center' }));
+  }
+
+  if (score.categories.length > 0) {
+    const nameWidth = 6500;
+    const scoreWidth = 2500;
+    const rows = score.categories.map((cat) => '<w:tr>' +
+      tableCell(run(cat.category), nameWidth) +
+      tableCell(run(`${cat.percent}%`, { bold: true, color: getExportScoreColor(cat.percent, colors) }), scoreWidth) +
+      '</w:tr>').join('');
+    body.push('<w:tbl><w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>' +
+      `<w:tblGrid><w:gridCol w:w="${nameWidth}"/><w:gridCol w:w="${scoreWidth}"/></w:tblGrid>` +
+      '<w:tr><w:trPr><w:tblHeader/></w:trPr>' +
+      tableCell(run(t('report.wordExport.category'), { bold: true }), nameWidth, colors.track) +
+      tableCell(run(t('report.wordExport.score'), { bold: true }), scoreWidth, colors.track) +
+      `</w:tr>${rows}</w:tbl>`);
+  }
+
+  const composite = getCompositeLines(options.compositeScore, t, tScanners);
+  if (options.compositeScore && composite.breakdown.length > 0) {
+    body.push(paragraph(run(t('report.composite.title')), { style: 'Heading2' }));
+    body.push(paragraph(run(`${options.compositeScore.percent}%`,
+      { bold: true, size: 28, color: getExportScoreColor(options.compositeScore.percent, colors) })));
+    body.push(paragraph(run(composite.breakdown.join(' | '), { color: colors.muted })));
+    body.push(bulletList(composite.scanners));
+  }
+
+  // Modular scanner results
+  if (domainScanAggregate) {
+    body.push(paragraph(run(`${t('report.wordExport.moduleScannerResults')} (${domainScanAggregate.domain})`),
+      { style: 'Heading1' }));
+    body.push(paragraph(run(
+      `${t('report.wordExport.executed')} ${domainScanAggregate.scanners.length} ` +
+      `${t('report.wordExport.scannersAt')} ${new Date(domainScanAggregate.timestamp).toLocaleString()}. ` +
+      getScanProfileLine(domainScanAggregate, t, tScanners),
+      { size: 9, color: colors.muted }
+    )));
+    domainScanAggregate.scanners.forEach((sc) => {
+      const interpretation = interpretScannerResult(sc);
+      body.push(paragraph(
+        run(tScanners(sc.label)) + run(` [${tScanners(`common.status.${sc.status}`)}]`, { size: 11 }),
+        { style: 'Heading3' }
+      ));
+      if (sc.summary) {
+        body.push(paragraph(run(`${t('report.wordExport.summary')} `, { bold: true }) + run(sc.summary)));
+      }
+      body.push(paragraph(run(translateLabelKeys(interpretation.message, tScanners), { bold: true, size: 10 })));
+      body.push(paragraph(run(translateLabelKeys(interpretation.recommendation, tScanners), { size: 10 })));
+      if (sc.issues && sc.issues.length > 0) body.push(bulletList(sc.issues));
+      const testUrl = sc.id === 'securityHeaders' ? (sc.data as { testUrl?: string } | undefined)?.testUrl : undefined;
+      if (testUrl) {
+        body.push(paragraph(
+          run(`${t('report.wordExport.fullHeaderAnalysisLabel')} `, { size: 9 }) + hyperlink(testUrl)
+        ));
+      }
+    });
+    body.push(paragraph(run(t('report.wordExport.aggregatedIssues')), { style: 'Heading2' }));
+    if (domainScanAggregate.issues.length > 0) {
+      body.push(bulletList(domainScanAggregate.issues));
+    } else {
+      body.push(paragraph(run(t('report.wordExport.noAggregatedIssues'), { italic: true })));
+    }
+  }
+
+  body.push(paragraph(run(t('report.identifiedRisks')), { style: 'Heading1' }));
+  body.push(risks.length === 0
+    ? paragraph(run(t('report.noRisksYet'), { italic: true }))
+    : risks.map((risk) => bulletList([risk]) + bulletList(options.riskRecommendations?.[risk] ?? [], 1)).join(''));
+
+  body.push(paragraph(run(t('report.bestPracticesConfirmed')), { style: 'Heading1' }));
+  body.push(bestPractices.length === 0
+    ? paragraph(run(t('report.noBestPracticesYet'), { italic: true }))
+    : bulletList(bestPractices));
+
+  const complianceSections = getComplianceSections(options.complianceCoverage, t);
+  if (complianceSections.length > 0) {
+    body.push(paragraph(run(t('report.compliance.title')), { style: 'Heading1' }));
+    body.push(paragraph(run(t('report.compliance.note'), { italic: true, color: colors.muted })));
+    complianceSections.forEach((section) => {
+      body.push(paragraph(run(section.title), { style: 'Heading2' }));
+      body.push(bulletList(section.lines));
+    });
+  }
+
+  const remediationSections = getRemediationSections(options.remediationPlan, t, tScanners);
+  if (remediationSections.length > 0) {
+    body.push(paragraph(run(t('report.remediation.title')), { style: 'Heading1' }));
+    remediationSections.forEach((section) => {
+      body.push(paragraph(run(section.title), { style: 'Heading2' }));
+      body.push(bulletList(section.lines));
+    });
+  }
+
+  body.push(paragraph(run(t('report.limitations')), { style: 'Heading1' }));
+  body.push(paragraph(run(getDisclaimerText(options), { italic: true })));
+
+  const documentXml = XML_HEADER +
+    `<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}" ` +
+    'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+    'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+    'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    `<w:body>${body.join('')}` +
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/>' +
+    '</w:sectPr></w:body></w:document>';
+
+  const coreXml = XML_HEADER +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    '<dcterms:created xsi:type="dcterms:W3CDTF">' +
+    `${generatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  const contentTypesXml = XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="png" ContentType="image/png"/>' +
+    '<Override PartName="/word/document.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    '<Override PartName="/word/numbering.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ' +
+    'ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>';
+
+  const packageRelsXml = XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `<Relationship Id="rId1" Type="${REL_BASE}/officeDocument" Target="word/document.xml"/>` +
+    '<Relationship Id="rId2" ' +
+    'Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" ' +
+    'Target="docProps/core.xml"/>' +
+    '</Relationships>';
+
+  const documentRelsXml = XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `${relationships.join('')}</Relationships>`;
+
+  return [
+    { name: '[Content_Types].xml', data: contentTypesXml },
+    { name: '_rels/.rels', data: packageRelsXml },
+    { name: 'docProps/core.xml', data: coreXml },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: buildStylesXml(colors) },
+    { name: 'word/numbering.xml', data: NUMBERING_XML },
+    { name: 'word/_rels/document.xml.rels', data: documentRelsXml },
+    ...extraParts,
+  ];
+};
+
+export const generateDocx = (options: DocxReportOptions): Uint8Array<ArrayBuffer> =>
+  createZip(buildDocxParts(options), options.generatedAt);
+
+/**
+ * Exports the report as an Office Open XML (.docx) document and triggers download
+ */
+export const exportToDocx = (options: DocxReportOptions): void => {
+  const blob = new Blob([generateDocx(options)], { type: DOCX_MIME });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'risk-assessment-report.docx';
+  a.click();
+  URL.revokeObjectURL(url);
+};
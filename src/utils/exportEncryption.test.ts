@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_KDF_ITERATIONS,
+  decryptExport,
+  encryptExport,
+  isEncryptedExport,
+  isEncryptedExportJSON,
+} from './exportEncryption';
+
+// Few iterations keep the tests fast; the envelope still records the count used
+const ITERATIONS = 10000;
+const plaintext = JSON.stringify({ version: 2, answers: { q1: 'opt1' } });
+
+describe('exportEncryption', () => {
+  it('wraps the ciphertext in a versioned envelope and decrypts it with the passphrase', async () => {
+    const json = await encryptExport(plaintext, 'correct horse', ITERATIONS);
+    const envelope = JSON.parse(json);
+
+    expect(envelope).toMatchObject({
+      kind: 'encrypted-export',
+      version: 1,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS },
+      cipher: { name: 'AES-GCM' },
+    });
+    expect(json).not.toContain('opt1');
+    expect(isEncryptedExport(envelope)).toBe(true);
+    expect(isEncryptedExportJSON(json)).toBe(true);
+    expect(isEncryptedExportJSON(plaintext)).toBe(false);
+    expect(isEncryptedExportJSON('{broken')).toBe(false);
+
+    expect(await decryptExport(json, 'correct horse')).toEqual({ success: true, json: plaintext });
+  });
+
+  it('uses a fresh salt and IV for every export', async () => {
+    const first = JSON.parse(await encryptExport(plaintext, 'correct horse', ITERATIONS));
+    const second = JSON.parse(await encryptExport(plaintext, 'correct horse', ITERATIONS));
+    expect(first.kdf.salt).not.toBe(second.kdf.salt);
+    expect(first.cipher.iv).not.toBe(second.cipher.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+
+  it('rejects short passphrases and defaults to a strong key derivation', async () => {
+    await expect(encryptExport(plaintext, 'short')).rejects.toThrow(/at least 8/);
+    expect(DEFAULT_KDF_ITERATIONS).toBeGreaterThanOrEqual(600000);
+  });
+
+  it('fails on a wrong passphrase, tampered data or unsupported settings', async () => {
+    const json = await encryptExport(plaintext, 'correct horse', ITERATIONS);
+    const envelope = JSON.parse(json);
+
+    expect(await decryptExport(json, 'wrong horse')).toEqual({
+      success: false, error: 'Wrong passphrase or damaged file'
+    });
+    // Changes the first character whatever it is, so the ciphertext always differs
+    const tampered = { ...envelope, data: `${envelope.data[0] === 'A' ? 'B' : 'A'}${envelope.data.slice(1)}` };
+    expect((await decryptExport(JSON.stringify(tampered), 'correct horse')).success).toBe(false);
+
+    expect((await decryptExport(JSON.stringify({ ...envelope, version: 2 }), 'correct horse')).error)
+      .toBe('Unsupported encrypted export version');
+    const slowKdf = { ...envelope, kdf: { ...envelope.kdf, iterations: 1e9 } };
+    expect((await decryptExport(JSON.stringify(slowKdf), 'correct horse')).error)
+      .toBe('Unsupported key derivation settings');
+    expect((await decryptExport(plaintext, 'correct horse')).error).toBe('Not an encrypted export');
+  });
+});
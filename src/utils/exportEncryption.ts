@@ -0,0 +1,173 @@
+/**
+ * Passphrase-protected exports. The plaintext export JSON is encrypted with AES-256-GCM under a key derived
+ * from the passphrase with PBKDF2-SHA-256 (WebCrypto has no memory-hard KDF such as Argon2), and wrapped in
+ * a self-describing envelope:
+ *
+ * {
+ *   "kind": "encrypted-export",
+ *   "version": 1,
+ *   "kdf": { "name": "PBKDF2", "hash": "SHA-256", "iterations": 600000, "salt": "<base64>" },
+ *   "cipher": { "name": "AES-GCM", "iv": "<base64>" },
+ *   "data": "<base64 ciphertext + tag>"
+ * }
+
+ *
+ * The key derivation and cipher helpers are shared with the local vault (vault.ts).
+ */
+
+export const ENCRYPTED_EXPORT_KIND = 'encrypted-export';
+export const ENCRYPTED_EXPORT_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_KDF_ITERATIONS = 600000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+// Bounds accepted on import: below is too weak to be one of ours, above would stall the browser
+const MIN_KDF_ITERATIONS = 10000;
+const MAX_KDF_ITERATIONS = 5000000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export interface EncryptedExport {
+  kind: typeof ENCRYPTED_EXPORT_KIND;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+type KdfParams = EncryptedExport['kdf'];
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+/**
+ * Fresh key derivation parameters with a random salt
+ */
+export const createKdfParams = (iterations: number = DEFAULT_KDF_ITERATIONS): KdfParams => ({
+  name: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations,
+  salt: toBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH))),
+});
+
+/**
+ * Derive the AES-GCM key for a passphrase. The key is not extractable, so callers that keep it in
+ * memory (the vault) never hold the raw key bytes.
+ */
+export const deriveKey = async (passphrase: string, kdf: KdfParams): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(kdf.salt), iterations: kdf.iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Encrypt with a fresh IV; the IV is not secret and travels with the ciphertext
+export const encryptWithKey = async (plaintext: string, key: CryptoKey) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { cipher: { name: 'AES-GCM' as const, iv: toBase64(iv) }, data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+// Throws when the key is wrong or the data was modified
+export const decryptWithKey = async (data: string, iv: string, key: CryptoKey): Promise<string> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+  return new TextDecoder().decode(plaintext);
+};
+
+/**
+ * Whether a parsed value looks like an encrypted export envelope (structure is checked on decryption)
+ */
+export const isEncryptedExport = (value: unknown): boolean =>
+  !!value && typeof value === 'object' && (value as Record<string, unknown>).kind === ENCRYPTED_EXPORT_KIND;
+
+// Same as isEncryptedExport for raw text, e.g. a file or pasted content
+export const isEncryptedExportJSON = (json: string): boolean => {
+  try {
+    return isEncryptedExport(JSON.parse(json));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Encrypt an export JSON string with a passphrase, returning the envelope as JSON
+ */
+export const encryptExport = async (
+  plaintext: string,
+  passphrase: string,
+  iterations: number = DEFAULT_KDF_ITERATIONS
+): Promise<string> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const kdf = createKdfParams(iterations);
+  const key = await deriveKey(passphrase, kdf);
+  const envelope: EncryptedExport = {
+    kind: ENCRYPTED_EXPORT_KIND,
+    version: ENCRYPTED_EXPORT_VERSION,
+    kdf,
+    ...await encryptWithKey(plaintext, key),
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+/**
+ * Check the version, key derivation and cipher settings of an envelope, returning the first problem found
+ */
+export const validateEnvelope = (value: Record<string, unknown>): string | undefined => {
+  if (value.version !== ENCRYPTED_EXPORT_VERSION) return 'Unsupported encrypted export version';
+  const kdf = value.kdf as Record<string, unknown> | undefined;
+  const cipher = value.cipher as Record<string, unknown> | undefined;
+  if (!kdf || kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || typeof kdf.salt !== 'string' ||
+      typeof kdf.iterations !== 'number' || !Number.isInteger(kdf.iterations) ||
+      kdf.iterations < MIN_KDF_ITERATIONS || kdf.iterations > MAX_KDF_ITERATIONS) {
+    return 'Unsupported key derivation settings';
+  }
+  if (!cipher || cipher.name !== 'AES-GCM' || typeof cipher.iv !== 'string' || typeof value.data !== 'string') {
+    return 'Unsupported cipher settings';
+  }
+  return undefined;
+};
+
+/**
+ * Decrypt an envelope produced by encryptExport. A wrong passphrase and a modified file are
+ * indistinguishable with AES-GCM, so both report the same error.
+ */
+export const decryptExport = async (
+  json: string,
+  passphrase: string
+): Promise<{ success: boolean; json?: string; error?: string }> => {
+  let envelope: Record<string, unknown>;
+  try {
+    envelope = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'Invalid JSON format' };
+  }
+  if (!isEncryptedExport(envelope)) {
+    return { success: false, error: 'Not an encrypted export' };
+  }
+  const envelopeError = validateEnvelope(envelope);
+  if (envelopeError) {
+    return { success: false, error: envelopeError };
+  }
+
+  const { kdf, cipher, data } = envelope as unknown as EncryptedExport;
+  try {
+    const key = await deriveKey(passphrase, kdf);
+    return { success: true, json: await decryptWithKey(data, cipher.iv, key) };
+  } catch {
+    return { success: false, error: 'Wrong passphrase or damaged file' };
+  }
+};
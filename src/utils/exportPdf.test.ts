@@ -0,0 +1,207 @@
+import { generatePdfReport, exportToPdf } from './exportPdf';
+import type { ScoreResult } from './scoring';
+import type { DomainScanAggregate } from '../types/domainScan';
+
+// Mock translation function with simple {{var}} interpolation
+const mockT = (key: string, options?: Record<string, unknown>): string => {
+  const translations: Record<string, string> = {
+    'report.scoreGood': 'Good Security Posture',
+    'report.wordExport.title': 'Security Risk Assessment Report',
+    'report.wordExport.categoryAnalysisTitle': 'Category Analysis',
+    'report.wordExport.moduleScannerResults': 'Modular Scanner Results',
+    'report.identifiedRisks': 'Identified Risks',
+    'report.bestPracticesConfirmed': 'Best Practices Confirmed',
+    'report.limitations': 'Limitations',
+    'report.pdfExport.tableOfContents': 'Table of Contents',
+    'report.pdfExport.preparedFor': 'Prepared for {{name}}',
+    'report.pdfExport.pageOf': 'Page {{page}} of {{total}}',
+  };
+  const text = translations[key] ?? key;
+  return text.replace(/\{\{(\w+)\}\}/g, (_m, name) => String(options?.[name] ?? ''));
+};
+
+const mockTScanners = (key: string) => key;
+
+const sampleScore: ScoreResult = {
+  total: 65,
+  max: 100,
+  percent: 65,
+  categories: [
+    { category: 'Gestión de accesos', key: 'access', total: 15, max: 20, percent: 75 },
+    { category: 'Network Security', key: 'network', total: 10, max: 20, percent: 50 },
+  ]
+};
+
+const sampleAggregate: DomainScanAggregate = {
+  domain: 'example.com',
+  timestamp: '2025-10-27T00:00:00.000Z',
+  scanners: [
+    {
+      id: 'emailAuth',
+      label: 'emailAuth.label',
+      status: 'complete',
+      startedAt: '2025-10-27T00:00:00.000Z',
+      issues: ['Missing DMARC record']
+    }
+  ],
+  issues: ['Missing DMARC record']
+};
+
+const toLatin1 = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+
+const render = (overrides: Partial<Parameters<typeof generatePdfReport>[0]> = {}) => toLatin1(generatePdfReport({
+  score: sampleScore,
+  risks: ['No MFA on email'],
+  bestPractices: ['Daily backups'],
+  t: mockT,
+  tScanners: mockTScanners,
+  generatedAt: new Date('2025-10-27T12:00:00.000Z'),
+  ...overrides
+}));
+
+describe('exportPdf', () => {
+  describe('generatePdfReport', () => {
+    it('produces a PDF with cover, table of contents and report sections', () => {
+      const pdf = render({ clientName: 'Acme Corp' });
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Security Risk Assessment Report) Tj');
+      expect(pdf).toContain('(Prepared for Acme Corp) Tj');
+      expect(pdf).toContain('(65%) Tj');
+      expect(pdf).toContain('(Table of Contents) Tj');
+      expect(pdf).toContain('(Identified Risks) Tj');
+      expect(pdf).toContain('(No MFA on email) Tj');
+      expect(pdf).toContain('(Daily backups) Tj');
+    });
+
+    it('numbers every page after the cover and links the table of contents', () => {
+      const pdf = render();
+      const pageCount = Number(/\/Count (\d+)/.exec(pdf)![1]);
+      expect(pageCount).toBeGreaterThanOrEqual(3);
+      expect(pdf).toContain(`(Page 2 of ${pageCount}) Tj`);
+      expect(pdf).toContain(`(Page ${pageCount} of ${pageCount}) Tj`);
+      expect(pdf).not.toContain(`(Page 1 of ${pageCount}) Tj`);
+      // One link per section: category analysis, risks, best practices, limitations
+      expect(pdf.match(/\/Subtype \/Link/g)).toHaveLength(4);
+    });
+
+    it('includes domain scan results when available', () => {
+      const pdf = render({ domainScanAggregate: sampleAggregate });
+      expect(pdf).toContain('(Modular Scanner Results \\(example.com\\)) Tj');
+      expect(pdf).toContain('(Missing DMARC record) Tj');
+    });
+
+    it('includes the composite score breakdown when it covers the external attack surface', () => {
+      const pdf = render({
+        compositeScore: {
+          percent: 57.5,
+          questionnairePercent: 65,
+          weights: { questionnaire: 0.5, externalSurface: 0.5 },
+          externalSurface: {
+            category: 'External Attack Surface', key: 'external_attack_surface', total: 50, max: 100, percent: 50,
+            scanners: [{ id: 'emailAuth', label: 'emailAuth.label', severity: 'warning', points: 50 }]
+          }
+        }
+      });
+      expect(pdf).toContain('(report.composite.title: 57.5%) Tj');
+      expect(pdf).toContain('(report.composite.questionnairePart | report.composite.externalPart) Tj');
+      const withoutScan = { percent: 65, questionnairePercent: 65, weights: { questionnaire: 1, externalSurface: 0 } };
+      expect(render({ compositeScore: withoutScan })).not.toContain('report.composite.title');
+    });
+
+    it('adds a remediation plan chapter grouped by phase', () => {
+      const item = {
+        id: 'mfa', text: 'MFA is not enforced', source: 'questionnaire' as const, category: 'Access',
+        severity: 'critical' as const, pointGap: 100, effort: 'low' as const, phase: 'quickWins' as const
+      };
+      const pdf = render({ remediationPlan: { items: [item], phases: { quickWins: [item], days30: [], days90: [] } } });
+      expect(pdf).toContain('(report.remediation.title) Tj');
+      expect(pdf).toContain('(report.remediation.phases.quickWins) Tj');
+      expect(pdf).not.toContain('(report.remediation.phases.days30) Tj');
+      expect(pdf).toContain('MFA is not enforced');
+      expect(pdf.match(/\/Subtype \/Link/g)).toHaveLength(5);
+    });
+
+    it('adds a compliance chapter listing open controls per group', () => {
+      const pdf = render({
+        complianceCoverage: [
+          {
+            id: 'cis_v8', coverage: 50, gap: 50, met: 1, total: 2,
+            groups: [{
+              id: '6', coverage: 50, gap: 50, met: 1, total: 2,
+              controls: [
+                { control: '6.3', status: 'met', questionIds: ['mfa'] },
+                { control: '6.5', status: 'gap', questionIds: ['mfa'] },
+              ]
+            }]
+          },
+          { id: 'iso_27001', coverage: 0, gap: 100, met: 0, total: 0, groups: [] },
+        ]
+      });
+      expect(pdf).toContain('(report.compliance.title) Tj');
+      expect(pdf).toContain('report.compliance.frameworks.cis_v8: report.compliance.summary');
+      expect(pdf).not.toContain('report.compliance.frameworks.iso_27001');
+      expect(pdf).toContain('report.compliance.openControls');
+    });
+
+    it('encodes accented text as WinAnsi', () => {
+      const pdf = render();
+      expect(pdf).toContain('(Gesti\xF3n de accesos) Tj');
+    });
+
+    it('embeds the chart image only when it is a JPEG', () => {
+      const jpeg = `data:image/jpeg;base64,${btoa('\xFF\xD8\xFF\xD9')}`;
+      expect(render({ chartImage: { dataUrl: jpeg, width: 800, height: 600 } })).toContain('/Filter /DCTDecode');
+      const png = `data:image/png;base64,${btoa('\x89PNG')}`;
+      expect(render({ chartImage: { dataUrl: png, width: 800, height: 600 } })).not.toContain('/Subtype /Image');
+    });
+
+    it('applies branding to the cover, footer and disclaimer', () => {
+      const jpeg = `data:image/jpeg;base64,${btoa('\xFF\xD8\xFF\xD9')}`;
+      const pdf = render({
+        branding: {
+          companyName: 'Contoso MSP',
+          reportTitle: 'Contoso Security Review',
+          logoDataUrl: '',
+          contact: 'help@contoso.example',
+          primaryColor: '#112233',
+          accentColor: '#AA5500',
+          disclaimer: 'Prepared under the Contoso service agreement.'
+        },
+        logoImage: { dataUrl: jpeg, width: 300, height: 100 }
+      });
+      expect(pdf).toContain('(Contoso Security Review) Tj');
+      expect(pdf).not.toContain('(Security Risk Assessment Report) Tj');
+      expect(pdf).toContain('(Contoso MSP) Tj');
+      expect(pdf).toContain('(help@contoso.example) Tj');
+      expect(pdf).toContain('(Prepared under the Contoso service agreement.) Tj');
+      expect(pdf).toContain('/Filter /DCTDecode');
+      // Accent #AA5500 as an RGB fill
+      expect(pdf).toContain('0.67 0.33 0 rg');
+    });
+
+    it('paginates long risk lists', () => {
+      const short = Number(/\/Count (\d+)/.exec(render())![1]);
+      const risks = Array.from({ length: 120 }, (_, i) => `Risk number ${i + 1} with a longer description to wrap`);
+      const long = Number(/\/Count (\d+)/.exec(render({ risks }))![1]);
+      expect(long).toBeGreaterThan(short);
+    });
+  });
+
+  describe('exportToPdf', () => {
+    it('downloads the report as a PDF file', () => {
+      const createObjectURL = vi.fn(() => 'mock-url');
+      const revokeObjectURL = vi.fn();
+      global.URL.createObjectURL = createObjectURL;
+      global.URL.revokeObjectURL = revokeObjectURL;
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      exportToPdf({ score: sampleScore, risks: [], bestPractices: [], t: mockT, tScanners: mockTScanners });
+
+      const blob = (createObjectURL.mock.calls[0] as unknown[])[0] as Blob;
+      expect(blob.type).toBe('application/pdf');
+      expect(click).toHaveBeenCalled();
+      expect(revokeObjectURL).toHaveBeenCalledWith('mock-url');
+      click.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,329 @@
+import {
+  ExportReportOptions,
+  getComplianceSections,
+  getCompositeLines,
+  getDisclaimerText,
+  getRemediationSections,
+  getExportScoreColor,
+  getReportTitle,
+  getScanProfileLine,
+  getScoreLabelKey,
+  resolveExportColors,
+  translateLabelKeys,
+} from './exportReport';
+import { interpretScannerResult } from './scanners';
+import { PdfDocument, PdfTextStyle } from './pdfDocument';
+import { ChartImage, dataUrlToBinary } from './chartImage';
+import { getContactLines } from './branding';
+import type { SeverityLevel } from '../types/domainScan';
+
+export interface PdfReportOptions extends ExportReportOptions {
+  chartImage?: ChartImage; // JPEG capture of the category radar chart
+  logoImage?: ChartImage; // JPEG rendering of the branding logo
+  clientName?: string;
+  generatedAt?: Date;
+}
+
+interface TocEntry {
+  title: string;
+  page: number;
+  y: number;
+}
+
+const MARGIN = 56;
+const CONTENT_TOP = 84;
+const FOOTER_SPACE = 64;
+const CHART_MAX_WIDTH = 380;
+const LOGO_MAX_WIDTH = 180;
+const LOGO_MAX_HEIGHT = 72;
+
+/**
+ * Lay out the report as a paginated PDF: cover page, table of contents, then the same sections as the Word
+ * export. Headers, footers and page numbers are added once the total page count is known.
+ */
+export const generatePdfReport = (options: PdfReportOptions): Uint8Array<ArrayBuffer> => {
+  const { score, risks, bestPractices, domainScanAggregate, t, tScanners, branding } = options;
+  const colors = resolveExportColors(branding);
+  const doc = new PdfDocument();
+  const contentWidth = doc.width - MARGIN * 2;
+  const contentBottom = doc.height - FOOTER_SPACE;
+  const title = getReportTitle(options);
+  const companyName = branding?.companyName ?? '';
+  const generatedAt = options.generatedAt ?? new Date();
+  const dateText = generatedAt.toLocaleDateString();
+
+  const getScoreColor = (percent: number) => getExportScoreColor(percent, colors);
+
+  const severityColors: Record<SeverityLevel, string> = {
+    success: colors.excellent,
+    info: colors.good,
+    warning: colors.fair,
+    critical: colors.poor,
+    error: colors.poor,
+  };
+
+  const centerText = (text: string, y: number, style: PdfTextStyle) =>
+    doc.text(text, (doc.width - doc.measureText(text, style)) / 2, y, style);
+
+  // Cover page
+  doc.addPage();
+  doc.rect(0, 0, doc.width, 14, { fill: colors.accent });
+  if (options.logoImage?.dataUrl.startsWith('data:image/jpeg')) {
+    const { dataUrl, width, height } = options.logoImage;
+    const scale = Math.min(LOGO_MAX_WIDTH / width, LOGO_MAX_HEIGHT / height);
+    const handle = doc.addJpeg({ data: dataUrlToBinary(dataUrl), width, height });
+    doc.drawImage(handle, (doc.width - width * scale) / 2, 150 - height * scale, width * scale, height * scale);
+  }
+  if (companyName) {
+    centerText(companyName, 180, { font: 'bold', size: 14, color: colors.textSecondary });
+  }
+  const titleStyle: PdfTextStyle = { font: 'bold', size: 28, color: colors.textSecondary };
+  let coverY = 240;
+  doc.wrapText(title, contentWidth, titleStyle).forEach((line) => {
+    centerText(line, coverY, titleStyle);
+    coverY += 36;
+  });
+  doc.line(doc.width / 2 - 80, coverY - 14, doc.width / 2 + 80, coverY - 14, { color: colors.accent, width: 3 });
+  if (options.clientName) {
+    centerText(t('report.pdfExport.preparedFor', { name: options.clientName }), coverY + 20,
+      { size: 16, color: colors.textPrimary });
+  }
+  centerText(t('report.pdfExport.generatedOn', { date: dateText }), coverY + 44, { size: 12, color: colors.muted });
+  centerText(t('report.wordExport.overallSecurityScore'), coverY + 130,
+    { font: 'bold', size: 14, color: colors.muted });
+  centerText(`${score.percent}%`, coverY + 200, { font: 'bold', size: 60, color: getScoreColor(score.percent) });
+  centerText(t(getScoreLabelKey(score.percent)), coverY + 230, { size: 14, color: colors.textPrimary });
+  const contactLines = branding ? getContactLines(branding) : [];
+  contactLines.forEach((line, i) => {
+    centerText(line, doc.height - 60 - (contactLines.length - 1 - i) * 14, { size: 10, color: colors.muted });
+  });
+
+  // Table of contents is filled in after layout, once section page numbers are known
+  const tocPage = doc.addPage();
+  const toc: TocEntry[] = [];
+
+  let y = CONTENT_TOP;
+  const newPage = () => {
+    doc.addPage();
+    y = CONTENT_TOP;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > contentBottom) newPage();
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(80);
+    if (y > CONTENT_TOP) y += 16;
+    toc.push({ title: text, page: doc.currentPage, y: y - 10 });
+    doc.text(text, MARGIN, y + 18, { font: 'bold', size: 18, color: colors.textSecondary });
+    doc.line(MARGIN, y + 26, MARGIN + contentWidth, y + 26, { color: colors.accent, width: 2 });
+    y += 44;
+  };
+
+  const subheading = (text: string, color = colors.textPrimary) => {
+    ensureSpace(40);
+    doc.text(text, MARGIN, y + 12, { font: 'bold', size: 12, color });
+    y += 20;
+  };
+
+  const paragraph = (text: string, style: PdfTextStyle = {}, indent = 0) => {
+    const size = style.size ?? 11;
+    const lineHeight = size * 1.45;
+    doc.wrapText(text, contentWidth - indent, { ...style, size }).forEach((line) => {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN + indent, y + size, { color: colors.textPrimary, ...style, size });
+      y += lineHeight;
+    });
+    y += 4;
+  };
+
+  const bulletList = (items: string[], size = 11, indent = 0) => {
+    const lineHeight = size * 1.45;
+    items.forEach((item) => {
+      doc.wrapText(item, contentWidth - indent - 14, { size }).forEach((line, i) => {
+        ensureSpace(lineHeight);
+        if (i === 0) doc.text('•', MARGIN + indent, y + size, { size, color: colors.accent });
+        doc.text(line, MARGIN + indent + 14, y + size, { size, color: colors.textPrimary });
+        y += lineHeight;
+      });
+      y += 3;
+    });
+    y += 4;
+  };
+
+  // Score and category analysis
+  newPage();
+  heading(t('report.wordExport.categoryAnalysisTitle'));
+  const avgScore = score.categories.length
+    ? Math.round(score.categories.reduce((sum, c) => sum + c.percent, 0) / score.categories.length)
+    : 0;
+  paragraph(
+    `${t('report.wordExport.overallSecurityScore')}: ${score.percent}% (${t(getScoreLabelKey(score.percent))}) | ` +
+    `${score.categories.length} ${t('report.wordExport.categoriesEvaluated')} | ` +
+    `${t('report.wordExport.average')} ${avgScore}%` +
+    (score.model === 'weighted' ? ` | ${t('report.scoring.weightedNote')}` : ''),
+    { color: colors.muted }
+  );
+
+  if (options.chartImage?.dataUrl.startsWith('data:image/jpeg')) {
+    const { dataUrl, width, height } = options.chartImage;
+    const drawWidth = Math.min(CHART_MAX_WIDTH, contentWidth);
+    const drawHeight = drawWidth * height / width;
+    ensureSpace(drawHeight + 12);
+    const handle = doc.addJpeg({ data: dataUrlToBinary(dataUrl), width, height });
+    doc.drawImage(handle, (doc.width - drawWidth) / 2, y, drawWidth, drawHeight);
+    y += drawHeight + 12;
+  }
+
+  score.categories.forEach((cat) => {
+    ensureSpace(34);
+    const percentText = `${cat.percent}%`;
+    const percentStyle: PdfTextStyle = { font: 'bold', size: 11, color: getScoreColor(cat.percent) };
+    doc.text(cat.category, MARGIN, y + 11, { size: 11, color: colors.textPrimary });
+    doc.text(percentText, MARGIN + contentWidth - doc.measureText(percentText, percentStyle), y + 11, percentStyle);
+    doc.rect(MARGIN, y + 17, contentWidth, 6, { fill: colors.track });
+    doc.rect(MARGIN, y + 17, contentWidth * Math.min(cat.percent, 100) / 100, 6, { fill: getScoreColor(cat.percent) });
+    y += 34;
+  });
+
+  const composite = getCompositeLines(options.compositeScore, t, tScanners);
+  if (options.compositeScore && composite.breakdown.length > 0) {
+    y += 8;
+    subheading(`${t('report.composite.title')}: ${options.compositeScore.percent}%`,
+      getScoreColor(options.compositeScore.percent));
+    paragraph(composite.breakdown.join(' | '), { size: 10, color: colors.muted });
+    bulletList(composite.scanners, 10);
+  }
+
+  // Domain scan results
+  if (domainScanAggregate) {
+    heading(`${t('report.wordExport.moduleScannerResults')} (${domainScanAggregate.domain})`);
+    paragraph(
+      `${t('report.wordExport.executed')} ${domainScanAggregate.scanners.length} ` +
+      `${t('report.wordExport.scannersAt')} ${new Date(domainScanAggregate.timestamp).toLocaleString()}. ` +
+      getScanProfileLine(domainScanAggregate, t, tScanners),
+      { size: 10, color: colors.muted }
+    );
+    domainScanAggregate.scanners.forEach((sc) => {
+      const interpretation = interpretScannerResult(sc);
+      ensureSpace(48);
+      const label = tScanners(sc.label);
+      const status = `[${tScanners(`common.status.${sc.status}`)}]`;
+      const labelStyle: PdfTextStyle = { font: 'bold', size: 12, color: colors.textSecondary };
+      doc.text(label, MARGIN, y + 12, labelStyle);
+      doc.text(status, MARGIN + doc.measureText(label, labelStyle) + 6, y + 12,
+        { size: 10, color: severityColors[interpretation.severity] });
+      y += 20;
+      if (sc.summary) paragraph(`${t('report.wordExport.summary')} ${sc.summary}`, { size: 10 }, 8);
+      paragraph(translateLabelKeys(interpretation.message, tScanners), { font: 'bold', size: 10 }, 8);
+      paragraph(translateLabelKeys(interpretation.recommendation, tScanners), { size: 10 }, 8);
+      if (sc.issues && sc.issues.length > 0) bulletList(sc.issues, 10, 8);
+      const testUrl = sc.id === 'securityHeaders' ? (sc.data as { testUrl?: string } | undefined)?.testUrl : undefined;
+      if (testUrl) {
+        paragraph(`${t('report.wordExport.fullHeaderAnalysisLabel')} ${testUrl}`, { size: 9, color: colors.muted }, 8);
+      }
+      y += 6;
+    });
+    subheading(t('report.wordExport.aggregatedIssues'));
+    if (domainScanAggregate.issues.length > 0) {
+      bulletList(domainScanAggregate.issues);
+    } else {
+      paragraph(t('report.wordExport.noAggregatedIssues'), { color: colors.muted });
+    }
+  }
+
+  heading(t('report.identifiedRisks'));
+  if (risks.length === 0) {
+    paragraph(t('report.noRisksYet'), { color: colors.muted });
+  } else {
+    risks.forEach((risk) => {
+      const steps = options.riskRecommendations?.[risk] ?? [];
+      bulletList([risk]);
+      if (steps.length > 0) {
+        y -= 6;
+        bulletList(steps, 10, 14);
+      }
+    });
+  }
+
+  heading(t('report.bestPracticesConfirmed'));
+  if (bestPractices.length === 0) {
+    paragraph(t('report.noBestPracticesYet'), { color: colors.muted });
+  } else {
+    bulletList(bestPractices);
+  }
+
+  const complianceSections = getComplianceSections(options.complianceCoverage, t);
+  if (complianceSections.length > 0) {
+    heading(t('report.compliance.title'));
+    paragraph(t('report.compliance.note'), { size: 10, color: colors.muted });
+    complianceSections.forEach((section) => {
+      subheading(section.title, colors.accent);
+      bulletList(section.lines, 10);
+    });
+  }
+
+  const remediationSections = getRemediationSections(options.remediationPlan, t, tScanners);
+  if (remediationSections.length > 0) {
+    heading(t('report.remediation.title'));
+    remediationSections.forEach((section) => {
+      subheading(section.title, colors.accent);
+      bulletList(section.lines);
+    });
+  }
+
+  heading(t('report.limitations'));
+  paragraph(getDisclaimerText(options));
+
+  // Table of contents with links to each section
+  doc.setPage(tocPage);
+  doc.text(t('report.pdfExport.tableOfContents'), MARGIN, CONTENT_TOP + 18,
+    { font: 'bold', size: 18, color: colors.textSecondary });
+  doc.line(MARGIN, CONTENT_TOP + 26, MARGIN + contentWidth, CONTENT_TOP + 26, { color: colors.accent, width: 2 });
+  toc.forEach((entry, i) => {
+    const rowY = CONTENT_TOP + 60 + i * 24;
+    const pageText = String(entry.page + 1);
+    const style: PdfTextStyle = { size: 12, color: colors.textPrimary };
+    const titleText = doc.wrapText(entry.title, contentWidth - 60, style)[0];
+    const titleWidth = doc.measureText(titleText, style);
+    const pageWidth = doc.measureText(pageText, style);
+    doc.text(titleText, MARGIN, rowY, style);
+    const dotWidth = doc.measureText('.', style);
+    const dots = '.'.repeat(Math.max(0, Math.floor((contentWidth - titleWidth - pageWidth - 12) / dotWidth)));
+    doc.text(dots, MARGIN + titleWidth + 6, rowY, { size: 12, color: colors.muted });
+    doc.text(pageText, MARGIN + contentWidth - pageWidth, rowY, style);
+    doc.addLink(MARGIN, rowY - 14, contentWidth, 20, entry.page, entry.y);
+  });
+
+  // Headers and footers on every page after the cover
+  const total = doc.pageCount;
+  for (let page = 1; page < total; page++) {
+    doc.setPage(page);
+    const headerStyle: PdfTextStyle = { size: 9, color: colors.muted };
+    doc.text(title, MARGIN, 40, headerStyle);
+    const headerRight = options.clientName ? `${options.clientName} | ${dateText}` : dateText;
+    doc.text(headerRight, MARGIN + contentWidth - doc.measureText(headerRight, headerStyle), 40, headerStyle);
+    doc.line(MARGIN, 48, MARGIN + contentWidth, 48, { color: colors.track, width: 0.75 });
+    doc.line(MARGIN, doc.height - 48, MARGIN + contentWidth, doc.height - 48, { color: colors.track, width: 0.75 });
+    centerText(t('report.pdfExport.pageOf', { page: page + 1, total }), doc.height - 32, headerStyle);
+    // Keep the company name clear of the centered page number
+    if (companyName) {
+      doc.text(doc.wrapText(companyName, contentWidth / 2 - 50, headerStyle)[0], MARGIN, doc.height - 32, headerStyle);
+    }
+  }
+
+  return doc.toBytes({ title, createdAt: generatedAt });
+};
+
+/**
+ * Exports the report as a PDF file and triggers download
+ */
+export const exportToPdf = (options: PdfReportOptions): void => {
+  const blob = new Blob([generatePdfReport(options)], { type: 'application/pdf' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'risk-assessment-report.pdf';
+  a.click();
+  URL.revokeObjectURL(url);
+};
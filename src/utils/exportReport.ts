@@ -1,224 +1,172 @@
 import type { ScoreResult } from './scoring';
 import type { DomainScanAggregate } from '../types/domainScan';
-import { interpretScannerResult } from './scanners';
+import { getScanProfile, SCANNERS } from './scanners';
+import type { BrandingSettings } from '../types/branding';
+import type { CompositeScoreResult } from './compositeScore';
+import { REMEDIATION_PHASES, RemediationItem, RemediationPlan } from './remediationPlan';
+import type { FrameworkCoverage } from './compliance';
 
-interface ExportReportOptions {
+export interface ExportReportOptions {
   score: ScoreResult;
   risks: string[];
   bestPractices: string[];
   domainScanAggregate?: DomainScanAggregate;
-  t: (key: string) => string; // Translation function (common namespace)
+  t: (key: string, options?: Record<string, unknown>) => string; // Translation function (common namespace)
   tScanners: (key: string) => string; // Translation function (scanners namespace)
+  branding?: BrandingSettings; // White-label settings; every export format should honor them
+  compositeScore?: CompositeScoreResult; // Rendered only when it includes the external attack surface
+  remediationPlan?: RemediationPlan; // Rendered as its own chapter when it has items
+  riskRecommendations?: Record<string, string[]>; // Next steps listed under each identified risk
+  complianceCoverage?: FrameworkCoverage[]; // Framework mapping chapter
 }
 
 /**
- * Generates HTML content for Word export (.doc format)
- * Resolves CSS variables from document root for consistent styling
+ * Report title, replaced by the branded title when one is set
  */
-export const generateWordHTML = (options: ExportReportOptions): string => {
-  const { score, risks, domainScanAggregate, t, tScanners } = options;
+export const getReportTitle = (options: Pick<ExportReportOptions, 't' | 'branding'>): string =>
+  options.branding?.reportTitle || options.t('report.wordExport.title');
 
-  const scoreValue = score.percent;
-  const scoreLabel = scoreValue >= 80 ? t('report.scoreExcellent') :
-                    scoreValue >= 60 ? t('report.scoreGood') :
-                    scoreValue >= 40 ? t('report.scoreFair') :
-                    t('report.scorePoor');
+/**
+ * Limitations text, replaced by the branded disclaimer when one is set
+ */
+export const getDisclaimerText = (options: Pick<ExportReportOptions, 't' | 'branding'>): string =>
+  options.branding?.disclaimer || options.t('report.limitationsText');
 
-  // Resolve CSS variable colors from the root so user customization flows into export.
-  const rootStyles = getComputedStyle(document.documentElement);
-  const colorExcellent = rootStyles.getPropertyValue('--green').trim() || '#18BB9C';
-  const colorGood = rootStyles.getPropertyValue('--blue').trim() || '#44C8F5';
-  const colorFair = rootStyles.getPropertyValue('--yellow').trim() || '#F39C11';
-  const colorPoor = rootStyles.getPropertyValue('--red').trim() || '#E84C3D';
-  const colorTextPrimary = rootStyles.getPropertyValue('--text-primary').trim() || '#231F20';
-  const colorTextSecondary = rootStyles.getPropertyValue('--text-secondary').trim() || '#06233F';
-  const colorAccent = rootStyles.getPropertyValue('--accent').trim() || '#44C8F5';
-  const panelBg = rootStyles.getPropertyValue('--panel-bg').trim() || '#FFFFFF';
-  const pageBg = rootStyles.getPropertyValue('--page-bg').trim() || '#F5F5F5';
+/**
+ * Translation key for the qualitative label of an overall score
+ */
+export const getScoreLabelKey = (percent: number): string => {
+  if (percent >= 80) return 'report.scoreExcellent';
+  if (percent >= 60) return 'report.scoreGood';
+  if (percent >= 40) return 'report.scoreFair';
+  return 'report.scorePoor';
+};
 
-  const getColorStyle = (percent: number) => {
-    if (percent >= 80) return `color: ${colorExcellent};`;
-    if (percent >= 60) return `color: ${colorGood};`;
-    if (percent >= 40) return `color: ${colorFair};`;
-    return `color: ${colorPoor};`;
+/**
+ * Text lines describing the composite score: the weighted breakdown followed by one line per scanner.
+ * Empty when the composite does not blend in an external attack surface score.
+ */
+export const getCompositeLines = (
+  composite: CompositeScoreResult | undefined,
+  t: ExportReportOptions['t'],
+  tScanners: ExportReportOptions['tScanners']
+): { breakdown: string[]; scanners: string[] } => {
+  const external = composite?.externalSurface;
+  if (!composite || !external) return { breakdown: [], scanners: [] };
+  const weight = (value: number) => Math.round(value * 100);
+  return {
+    breakdown: [
+      t('report.composite.questionnairePart', {
+        percent: composite.questionnairePercent,
+        weight: weight(composite.weights.questionnaire)
+      }),
+      t('report.composite.externalPart', {
+        name: external.category,
+        percent: external.percent,
+        weight: weight(composite.weights.externalSurface)
+      }),
+    ],
+    scanners: external.scanners.map((sc) =>
+      `${tScanners(sc.label)}: ${t(`report.composite.severityLevels.${sc.severity}`)}` +
+      (sc.points === null ? '' : ` (${sc.points} ${t('report.composite.points').toLowerCase()})`)),
   };
+};
 
-  const avgScore = Math.round(score.categories.reduce((sum, c) => sum + c.percent, 0) / score.categories.length);
-
-  // Build HTML content
-  let htmlContent = `<!DOCTYPE html>
-<html xmlns:o='urn:schemas-microsoft-com:office:office'
-      xmlns:w='urn:schemas-microsoft-com:office:word'
-      xmlns='http://www.w3.org/TR/REC-html40'>
-<head>
-  <meta charset='utf-8'>
-  <title>${t('report.wordExport.title')}</title>
-  <style>
-    body { font-family: Calibri, Arial, sans-serif; line-height:1.6; color:${colorTextPrimary};
-           max-width:800px; margin:20px auto; padding:20px; background:${pageBg}; }
-    h1 { color:${colorTextSecondary}; font-size:28pt; text-align:center;
-         border-bottom:3px solid ${colorAccent}; padding-bottom:10px; margin-bottom:30px; }
-    h2 { color:${colorTextSecondary}; font-size:20pt; margin-top:30px; margin-bottom:15px; }
-    h3 { color:${colorTextPrimary}; font-size:16pt; margin-top:20px; margin-bottom:10px; }
-    .score-section { text-align:center; background:${panelBg}; padding:30px; margin:20px 0;
-                     border-left:5px solid ${colorAccent}; box-shadow:0 2px 6px rgba(0,0,0,0.06); border-radius:6px; }
-    .score-value { font-size:48pt; font-weight:bold; margin:10px 0; }
-    .score-label { font-size:14pt; color:#666; margin-top:10px; }
-    .summary { text-align:center; font-style:italic; color:#666; margin:20px 0; }
-    .category { margin:20px 0; padding:15px; border:1px solid #e0e0e0; background:${panelBg};
-                border-radius:6px; }
-    .category-name { font-weight:bold; font-size:14pt; margin-bottom:5px; }
-    .category-score { font-weight:bold; font-size:12pt; }
-    ul { margin-left:20px; line-height:1.8; }
-    li { margin-bottom:8px; }
-    .limitations { background:${panelBg}; border-left:4px solid ${colorFair}; padding:15px; margin-top:30px;
-                   font-style:italic; border-radius:6px; }
-    .scanner-section { margin:30px 0; padding:20px; background:${panelBg};
-                       border:1px solid ${colorAccent}; border-radius:8px; }
-    .scanner-item { margin:15px 0; padding:12px; border:1px solid #ddd; border-radius:6px; }
-    .scanner-item h4 { margin:0 0 6px; font-size:13pt; color:${colorTextSecondary}; }
-    .scanner-status-running { color:${colorGood}; }
-    .scanner-status-success { color:${colorExcellent}; }
-    .scanner-status-error { color:${colorPoor}; }
-    .scanner-status-idle { color:#666; }
-    .scanner-interpretation { font-size:10pt; margin-top:4px; }
-    .issues-list { margin:8px 0 0 18px; }
-    .issues-list li { font-size:10pt; }
-    .scanner-meta { font-size:9pt; color:#666; }
-    .ext-link { font-size:9pt; margin-top:4px; }
-  </style>
-</head>
-<body>
-  <h1>${t('report.wordExport.title')}</h1>
-  <div class="score-section">
-    <h2>${t('report.wordExport.overallSecurityScore')}</h2>
-    <div class="score-value" style="${getColorStyle(scoreValue)}">${scoreValue}%</div>
-    <div class="score-label">${scoreLabel}</div>
-  </div>
-  <h2>${t('report.wordExport.categoryAnalysisTitle')}</h2>
-  <p class="summary">
-    ${score.categories.length} ${t('report.wordExport.categoriesEvaluated')}
-    ${' | '}
-    ${t('report.wordExport.average')} ${avgScore}%
-  </p>`;
-
-  // Add categories
-  score.categories.forEach((cat) => {
-    htmlContent += `
-  <div class="category">
-    <div class="category-name">${cat.category}</div>
-    <div class="category-score" style="${getColorStyle(cat.percent)}">
-      ${t('report.wordExport.score')} ${cat.percent}%
-    </div>
-  </div>
-`;
-  });
-
-  // Modular Scanner Aggregate
-  if (domainScanAggregate) {
-    htmlContent += '\n  <div class="scanner-section">' +
-      `\n    <h2>${t('report.wordExport.moduleScannerResults')} (${domainScanAggregate.domain})</h2>` +
-      `\n    <p class="scanner-meta">${t('report.wordExport.executed')} ${domainScanAggregate.scanners.length} ` +
-      `${t('report.wordExport.scannersAt')} ${new Date(domainScanAggregate.timestamp).toLocaleString()}.</p>`;
-    domainScanAggregate.scanners.forEach((sc) => {
-      const interpretation = interpretScannerResult(sc);
-      const statusClass = `scanner-status-${sc.status}`;
-      // Translate scanner label, status, and error messages
-      const translatedLabel = tScanners(sc.label);
-      const translatedStatus = tScanners(`common.status.${sc.status}`);
-      htmlContent += '\n    <div class="scanner-item">' +
-        `\n      <h4>${translatedLabel} <span class="${statusClass}">[${translatedStatus}]</span></h4>`;
-      if (sc.summary) {
-        htmlContent += `      <div><strong>${t('report.wordExport.summary')}</strong> ${sc.summary}</div>`;
-      }
-      if (interpretation) {
-        // Translate any scanner label keys that appear in error messages
-        let message = interpretation.message;
-        let recommendation = interpretation.recommendation;
-        // Replace any .label keys with their translations
-        const labelKeyRegex = /(\w+)\.label/g;
-        message = message.replace(labelKeyRegex, (match, key) => tScanners(`${key}.label`));
-        recommendation = recommendation.replace(labelKeyRegex, (match, key) => tScanners(`${key}.label`));
-        
-        htmlContent += '      <div class="scanner-interpretation"><strong>' +
-          `${message}</strong><br/>${recommendation}</div>`;
-      }
-      if (sc.issues && sc.issues.length > 0) {
-        htmlContent += '      <ul class="issues-list">';
-        sc.issues.forEach((iss) => {
-          htmlContent += `        <li>${iss}</li>`;
-        });
-        htmlContent += '      </ul>';
-      }
-      // External link for security headers if present
-      if (sc.id === 'securityHeaders' && sc.data && (sc.data as { testUrl?: string }).testUrl) {
-        const testUrl = (sc.data as { testUrl?: string }).testUrl;
-        htmlContent += `      <div class="ext-link">${t('report.wordExport.fullHeaderAnalysisLabel')} <a href="` +
-          `${testUrl}">${testUrl}</a></div>`;
-      }
-      htmlContent += '    </div>';
-    });
-    if (domainScanAggregate.issues.length > 0) {
-      htmlContent += `\n    <h3>${t('report.wordExport.aggregatedIssues')}</h3>\n    <ul>`;
-      domainScanAggregate.issues.forEach((i) => {
-        htmlContent += `      <li>${i}</li>`;
-      });
-      htmlContent += '    </ul>';
-    } else {
-      htmlContent += `\n    <p><em>${t('report.wordExport.noAggregatedIssues')}</em></p>`;
-    }
-    htmlContent += '\n  </div>';
-  }
-
-  // Identified Risks
-  htmlContent += `\n  <h2>${t('report.identifiedRisks')}</h2>\n`;
-  if (risks.length === 0) {
-    htmlContent += `  <p><em>${t('report.noRisksYet')}</em></p>\n`;
-  } else {
-    htmlContent += '  <ul>\n';
-    risks.forEach((risk) => {
-      htmlContent += `    <li>${risk}</li>\n`;
-    });
-    htmlContent += '  </ul>\n';
-  }
-
-  // Best Practices Confirmed
-  htmlContent += `\n  <h2>${t('report.bestPracticesConfirmed')}</h2>\n`;
-  if (options.bestPractices.length === 0) {
-    htmlContent += `  <p><em>${t('report.noBestPracticesYet')}</em></p>\n`;
-  } else {
-    htmlContent += '  <ul>\n';
-    options.bestPractices.forEach((bp) => {
-      htmlContent += `    <li>${bp}</li>\n`;
-    });
-    htmlContent += '  </ul>\n';
-  }
+/**
+ * Remediation plan phases with one text line per item, skipping empty phases
+ */
+export const getRemediationSections = (
+  plan: RemediationPlan | undefined,
+  t: ExportReportOptions['t'],
+  tScanners: ExportReportOptions['tScanners']
+): { title: string; lines: string[] }[] => {
+  if (!plan) return [];
+  const formatItem = (item: RemediationItem) => {
+    const details = [
+      t('report.remediation.effortLabel', { effort: t(`report.remediation.effort.${item.effort}`) }),
+      item.source === 'scanner' ? tScanners(item.category) : item.category,
+    ];
+    if (item.pointGap > 0) details.push(t('report.remediation.pointGap', { points: item.pointGap }));
+    return `[${t(`report.remediation.severity.${item.severity}`)}] ${item.text} (${details.join(' · ')})`;
+  };
+  return REMEDIATION_PHASES
+    .filter((phase) => plan.phases[phase].length > 0)
+    .map((phase) => ({ title: t(`report.remediation.phases.${phase}`), lines: plan.phases[phase].map(formatItem) }));
+};
 
-  // Limitations
-  htmlContent += '\n  <div class="limitations">' +
-    `\n    <h2>${t('report.limitations')}</h2>` +
-    `\n    <p>${t('report.limitationsText')}</p>` +
-    '\n  </div>\n</body>\n</html>';
+/**
+ * One section per mapped framework: its overall coverage as the title and one line per control group,
+ * listing the controls that are not yet met
+ */
+export const getComplianceSections = (
+  coverage: FrameworkCoverage[] | undefined,
+  t: ExportReportOptions['t']
+): { title: string; lines: string[] }[] =>
+  (coverage ?? []).filter((framework) => framework.total > 0).map((framework) => ({
+    title: `${t(`report.compliance.frameworks.${framework.id}`)}: ` +
+      t('report.compliance.summary', { coverage: framework.coverage, gap: framework.gap }),
+    lines: framework.groups.map((group) => {
+      const open = group.controls.filter((c) => c.status !== 'met').map((c) => c.control);
+      return `${t(`report.compliance.groups.${framework.id}.${group.id}`)}: ` +
+        t('report.compliance.summary', { coverage: group.coverage, gap: group.gap }) +
+        ` (${t('report.compliance.controlsMet', { met: group.met, total: group.total })}` +
+        (open.length > 0 ? `; ${t('report.compliance.openControls', { controls: open.join(', ') })})` : ')');
+    }),
+  }));
 
-  return htmlContent;
+/**
+ * The profile a domain scan ran with, followed by the scanners it therefore did not run, if any
+ */
+export const getScanProfileLine = (
+  aggregate: DomainScanAggregate,
+  t: ExportReportOptions['t'],
+  tScanners: ExportReportOptions['tScanners']
+): string => {
+  const line = t('report.scanProfile', { profile: t(`scanProfiles.${getScanProfile(aggregate.profile).id}.label`) });
+  const skipped = SCANNERS.filter((scanner) => !aggregate.scanners.some((r) => r.id === scanner.id));
+  if (skipped.length === 0) return line;
+  return `${line} ${t('report.notChecked', { scanners: skipped.map((s) => tScanners(s.label)).join(', ') })}`;
 };
 
 /**
- * Exports report data as a Word document (.doc format)
- * Creates a blob and triggers download
+ * Replace scanner label keys (e.g. "emailAuth.label") embedded in interpretation text with their translations
  */
-export const exportToWord = (options: ExportReportOptions): void => {
-  const htmlContent = generateWordHTML(options);
+export const translateLabelKeys = (text: string, tScanners: (key: string) => string): string =>
+  text.replace(/(\w+)\.label/g, (_match, key) => tScanners(`${key}.label`));
 
-  // Create blob with HTML content
-  const blob = new Blob(['\ufeff', htmlContent], {
-    type: 'application/msword'
-  });
+/**
+ * Resolve CSS variable colors from the root so user customization flows into binary exports (PDF, .docx).
+ * Only hex values can be embedded; anything else falls back to the default palette. Branding colors,
+ * when set, take precedence for headings and accents.
+ */
+export const resolveExportColors = (branding?: BrandingSettings) => {
+  const rootStyles = getComputedStyle(document.documentElement);
+  const read = (name: string, fallback: string) => {
+    const value = rootStyles.getPropertyValue(name).trim();
+    return /^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(value) ? value : fallback;
+  };
+  return {
+    excellent: read('--green', '#18BB9C'),
+    good: read('--blue', '#44C8F5'),
+    fair: read('--yellow', '#F39C11'),
+    poor: read('--red', '#E84C3D'),
+    // Text colors are fixed: dark mode values would be unreadable on white paper
+    textPrimary: '#231F20',
+    textSecondary: branding?.primaryColor || '#06233F',
+    muted: '#666666',
+    accent: branding?.accentColor || read('--accent', '#44C8F5'),
+    track: '#E8E8E8',
+  };
+};
 
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = 'risk-assessment-report.doc';
-  a.click();
-  URL.revokeObjectURL(url);
+export type ExportColors = ReturnType<typeof resolveExportColors>;
+
+/**
+ * Score color from the export palette, using the same thresholds as the Report page
+ */
+export const getExportScoreColor = (percent: number, colors: ExportColors): string => {
+  if (percent >= 80) return colors.excellent;
+  if (percent >= 60) return colors.good;
+  if (percent >= 40) return colors.fair;
+  return colors.poor;
 };
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { validateJSONComplexity, validateImportJSON } from './importValidation';
+import { MAX_QUESTION_ID_LENGTH, MAX_QUESTIONS } from './questionLimits';
 
 describe('importValidation', () => {
   describe('validateJSONComplexity', () => {
@@ -32,7 +33,7 @@ describe('importValidation', () => {
     });
 
     it('rejects arrays that are too large', () => {
-      const obj = { items: Array(1001).fill('item') };
+      const obj = { items: Array(MAX_QUESTIONS + 1).fill('item') };
       const result = validateJSONComplexity(obj);
       expect(result.isValid).toBe(false);
       expect(result.error).toContain('Array too large');
@@ -40,7 +41,7 @@ describe('importValidation', () => {
 
     it('rejects objects with too many keys', () => {
       const obj: Record<string, unknown> = {};
-      for (let i = 0; i < 101; i++) {
+      for (let i = 0; i <= MAX_QUESTIONS; i++) {
         obj[`key${i}`] = 'value';
       }
       const result = validateJSONComplexity(obj);
@@ -49,7 +50,7 @@ describe('importValidation', () => {
     });
 
     it('rejects keys that are too long', () => {
-      const longKey = 'a'.repeat(101);
+      const longKey = 'a'.repeat(MAX_QUESTION_ID_LENGTH + 1);
       const obj = { [longKey]: 'value' };
       const result = validateJSONComplexity(obj);
       expect(result.isValid).toBe(false);
@@ -143,13 +144,13 @@ describe('importValidation', () => {
 
     it('rejects too many answers', () => {
       const answers: Record<string, string> = {};
-      for (let i = 0; i < 101; i++) {
+      for (let i = 0; i <= MAX_QUESTIONS; i++) {
         answers[`q${i}`] = 'answer';
       }
       const json = JSON.stringify({ answers });
       const result = validateImportJSON(json);
       expect(result.isValid).toBe(false);
-      expect(result.error).toContain('Object has too many keys (max 100 per object)');
+      expect(result.error).toContain(`Object has too many keys (max ${MAX_QUESTIONS} per object)`);
     });
 
     it('rejects answers with keys/values that are too long', () => {
@@ -223,7 +224,7 @@ describe('importValidation', () => {
       });
       const result = validateImportJSON(json);
       expect(result.isValid).toBe(false);
-      expect(result.error).toContain('Array too large (max 1000 items)');
+      expect(result.error).toContain('Too many issues (max 1000)');
     });
 
     it('rejects JSON files that are too large', () => {
@@ -234,7 +235,7 @@ describe('importValidation', () => {
       const json = JSON.stringify(largeData);
       const result = validateImportJSON(json);
       expect(result.isValid).toBe(false);
-      expect(result.error).toContain('Object has too many keys (max 100 per object)');
+      expect(result.error).toContain(`Object has too many keys (max ${MAX_QUESTIONS} per object)`);
     });
 
     it('rejects deeply nested JSON', () => {
@@ -247,5 +248,118 @@ describe('importValidation', () => {
       expect(result.isValid).toBe(false);
       expect(result.error).toContain('too deep');
     });
+
+    it('validates workspace exports client by client', () => {
+      const json = JSON.stringify({
+        version: 2,
+        kind: 'workspace',
+        workspace: {
+          clients: [
+            { name: 'Acme', answers: { q1: 'opt0' }, dkimSelectors: { 'acme.com': ['google'] } },
+            { name: 'Globex', answers: {} }
+          ]
+        }
+      });
+      expect(validateImportJSON(json).isValid).toBe(true);
+    });
+
+    it('rejects workspace exports without clients', () => {
+      const json = JSON.stringify({ version: 2, kind: 'workspace', workspace: { clients: [] } });
+      const result = validateImportJSON(json);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('non-empty clients array');
+    });
+
+    it('rejects workspace clients without a name', () => {
+      const json = JSON.stringify({ version: 2, kind: 'workspace', workspace: { clients: [{ answers: {} }] } });
+      const result = validateImportJSON(json);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('must have a name');
+    });
+
+    it('rejects workspace clients with invalid answers', () => {
+      const json = JSON.stringify({
+        version: 2, kind: 'workspace', workspace: { clients: [{ name: 'Acme', answers: { q1: 5 } }] }
+      });
+      expect(validateImportJSON(json).isValid).toBe(false);
+    });
+
+    it('validates enabled packs inside workspace clients', () => {
+      const workspace = (enabledPacks: unknown) => JSON.stringify({
+        version: 2, kind: 'workspace', workspace: { clients: [{ name: 'Acme', answers: {}, enabledPacks }] }
+      });
+
+      expect(validateImportJSON(workspace(['cloud']))).toEqual({ isValid: true });
+      expect(validateImportJSON(workspace('cloud')).error).toContain('enabledPacks');
+      expect(validateImportJSON(workspace([1])).error).toContain('enabledPacks');
+    });
+
+    it('validates the client record of a client export', () => {
+      const clientExport = (client: unknown) => JSON.stringify({ version: 2, client, answers: { q1: 'opt1' } });
+
+      expect(validateImportJSON(clientExport({ name: 'Acme', enabledPacks: ['cloud'], snapshots: [] })))
+        .toEqual({ isValid: true });
+      expect(validateImportJSON(clientExport('Acme')).error).toContain('client');
+      expect(validateImportJSON(clientExport({ name: 'Acme', enabledPacks: 'cloud' })).error).toContain('enabledPacks');
+      expect(validateImportJSON(clientExport({ name: 'Acme', snapshots: [{ id: 's1' }] })).isValid).toBe(false);
+    });
+
+    it('validates answer notes, owners, due dates and evidence', () => {
+      const withDetails = (answerDetails: unknown) =>
+        validateImportJSON(JSON.stringify({ answers: { q1: 'opt1' }, answerDetails }));
+      const link = { id: 'e1', name: 'Policy', url: 'https://example.com/policy.pdf', addedAt: '2026-01-01T00:00:00Z' };
+      const file = {
+        id: 'e2', name: 'note.txt', dataUrl: 'data:text/plain;base64,aGk=', addedAt: '2026-01-01T00:00:00Z'
+      };
+
+      expect(withDetails({ q1: { notes: 'Reviewed', owner: 'Ana', dueDate: '2026-03-01', evidence: [link, file] } }))
+        .toEqual({ isValid: true });
+      expect(withDetails([]).error).toContain('answerDetails');
+      expect(withDetails({ q1: { dueDate: 'next week' } }).error).toContain('due date');
+      expect(withDetails({ q1: { owner: 'x'.repeat(101) } }).error).toContain('owner');
+      expect(withDetails({ q1: { evidence: [{ ...link, url: 'javascript:alert(1)' }] } }).isValid).toBe(false);
+      expect(withDetails({ q1: { evidence: [{ ...file, dataUrl: 'data:text/html;base64,aGk=' }] } }).isValid)
+        .toBe(false);
+    });
+
+    it('validates answer details inside workspace clients', () => {
+      const json = JSON.stringify({
+        version: 2,
+        kind: 'workspace',
+        workspace: { clients: [{ name: 'Acme', answers: {}, answerDetails: { q1: { notes: 42 } } }] }
+      });
+      expect(validateImportJSON(json).error).toContain('notes');
+    });
+
+    it('validates snapshots inside workspace clients', () => {
+      const snapshot = {
+        id: 's1',
+        createdAt: '2026-01-01T00:00:00Z',
+        answers: { q1: 'opt1' },
+        score: { total: 1, max: 2, percent: 50, categories: [] },
+        risks: ['No MFA'],
+      };
+      const workspace = (snapshots: unknown) => JSON.stringify({
+        version: 2, kind: 'workspace', workspace: { clients: [{ name: 'Acme', answers: {}, snapshots }] }
+      });
+
+      expect(validateImportJSON(workspace([snapshot]))).toEqual({ isValid: true });
+      expect(validateImportJSON(workspace([{ ...snapshot, risks: undefined }])).error).toContain('Each snapshot');
+      expect(validateImportJSON(workspace([{ ...snapshot, risks: [1] }])).error).toContain('Each snapshot');
+      expect(validateImportJSON(workspace([{ ...snapshot, id: 7 }])).error).toContain('Each snapshot');
+      expect(validateImportJSON(workspace([{ ...snapshot, answers: undefined }])).isValid).toBe(false);
+      expect(validateImportJSON(workspace([{ ...snapshot, answers: { q1: 1 } }])).isValid).toBe(false);
+    });
+
+    it('validates respondents\' answer sets inside workspace clients', () => {
+      const respondent = { id: 'r1', name: 'IT lead', importedAt: '2026-01-01T00:00:00Z', answers: { q1: 'opt1' } };
+      const workspace = (respondents: unknown) => JSON.stringify({
+        version: 2, kind: 'workspace', workspace: { clients: [{ name: 'Acme', answers: {}, respondents }] }
+      });
+      expect(validateImportJSON(workspace([respondent])).isValid).toBe(true);
+      expect(validateImportJSON(workspace({})).error).toContain('respondents');
+      expect(validateImportJSON(workspace([{ ...respondent, name: 5 }])).error).toContain('Each respondent');
+      expect(validateImportJSON(workspace([{ ...respondent, answers: { q1: 1 } }])).isValid).toBe(false);
+    });
   });
 });
@@ -3,6 +3,23 @@
  * Validates JSON complexity, structure, and content to prevent DoS and injection attacks
  */
 
+import {
+  MAX_EVIDENCE_ITEMS,
+  MAX_NOTES_LENGTH,
+  MAX_OWNER_LENGTH,
+  MAX_TOTAL_ATTACHMENT_SIZE,
+  getAttachmentsSize,
+  isDueDate,
+  isValidEvidence,
+} from './answerDetails';
+import { MAX_QUESTION_ID_LENGTH, MAX_QUESTIONS } from './questionLimits';
+import { AnswerDetailsMap, EvidenceItem } from '../types/answerDetails';
+
+// Answer-keyed objects and lists (answers, details, risks) hold up to one entry per question
+const MAX_ENTRIES = MAX_QUESTIONS;
+// Answers, their details and evidence for every question
+const MAX_TOTAL_KEYS = 20 * MAX_QUESTIONS;
+
 interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -14,7 +31,7 @@ interface ValidationResult {
 export const validateJSONComplexity = (
   obj: unknown,
   maxDepth: number = 10,
-  maxKeys: number = 1000,
+  maxKeys: number = MAX_TOTAL_KEYS,
   currentDepth: number = 0,
   keyCount: { count: number } = { count: 0 }
 ): ValidationResult => {
@@ -41,10 +58,10 @@ export const validateJSONComplexity = (
 
   // Check arrays
   if (Array.isArray(obj)) {
-    if (obj.length > 1000) {
+    if (obj.length > MAX_ENTRIES) {
       return {
         isValid: false,
-        error: 'Array too large (max 1000 items)'
+        error: `Array too large (max ${MAX_ENTRIES} items)`
       };
     }
 
@@ -61,19 +78,19 @@ export const validateJSONComplexity = (
   const keys = Object.keys(obj);
   keyCount.count += keys.length;
 
-  if (keys.length > 100) {
+  if (keys.length > MAX_ENTRIES) {
     return {
       isValid: false,
-      error: 'Object has too many keys (max 100 per object)'
+      error: `Object has too many keys (max ${MAX_ENTRIES} per object)`
     };
   }
 
   for (const key of keys) {
     // Check key length
-    if (key.length > 100) {
+    if (key.length > MAX_QUESTION_ID_LENGTH) {
       return {
         isValid: false,
-        error: 'Object key too long (max 100 characters)'
+        error: `Object key too long (max ${MAX_QUESTION_ID_LENGTH} characters)`
       };
     }
 
@@ -119,14 +136,42 @@ export const validateImportJSON = (jsonString: string): ValidationResult => {
     };
   }
 
+  const obj = parsed as Record<string, unknown>;
+
+  // Workspace exports bundle several client assessments; each is validated on its own
+  if (obj.kind === 'workspace') {
+    return validateWorkspaceImport(obj);
+  }
+
+  // Client exports carry the rest of the client record next to the assessment data
+  const { client, ...assessment } = obj;
+  if (client !== undefined) {
+    if (!client || typeof client !== 'object' || Array.isArray(client)) {
+      return {
+        isValid: false,
+        error: 'Invalid client format'
+      };
+    }
+
+    const clientResult = validateClientRecord(client as Record<string, unknown>, obj.version);
+    if (!clientResult.isValid) {
+      return clientResult;
+    }
+  }
+
   // Validate complexity
-  const complexityResult = validateJSONComplexity(parsed);
+  const complexityResult = validateJSONComplexity(assessment);
   if (!complexityResult.isValid) {
     return complexityResult;
   }
 
-  const obj = parsed as Record<string, unknown>;
+  return validateAssessmentData(obj);
+};
 
+/**
+ * Validate the answers / domainScanAggregate payload of a single assessment
+ */
+const validateAssessmentData = (obj: Record<string, unknown>): ValidationResult => {
   // Validate version field if present (optional, for versioned exports)
   if (obj.version !== undefined) {
     if (typeof obj.version !== 'number') {
@@ -159,10 +204,10 @@ export const validateImportJSON = (jsonString: string): ValidationResult => {
     const answers = obj.answers as Record<string, unknown>;
     const answerEntries = Object.entries(answers);
 
-    if (answerEntries.length > 100) {
+    if (answerEntries.length > MAX_QUESTIONS) {
       return {
         isValid: false,
-        error: 'Too many answers (max 100)'
+        error: `Too many answers (max ${MAX_QUESTIONS})`
       };
     }
 
@@ -175,7 +220,7 @@ export const validateImportJSON = (jsonString: string): ValidationResult => {
         };
       }
 
-      if (key.length > 100 || value.length > 500) {
+      if (key.length > MAX_QUESTION_ID_LENGTH || value.length > 500) {
         return {
           isValid: false,
           error: 'Answer key or value too long'
@@ -273,5 +318,266 @@ export const validateImportJSON = (jsonString: string): ValidationResult => {
     };
   }
 
+  if (obj.answerDetails !== undefined) {
+    return validateAnswerDetails(obj.answerDetails);
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validate per-question notes, evidence and ownership, including attachment types and sizes
+ */
+const validateAnswerDetails = (answerDetails: unknown): ValidationResult => {
+  if (typeof answerDetails !== 'object' || answerDetails === null || Array.isArray(answerDetails)) {
+    return {
+      isValid: false,
+      error: 'Invalid answerDetails format (must be an object)'
+    };
+  }
+
+  for (const details of Object.values(answerDetails)) {
+    if (!details || typeof details !== 'object' || Array.isArray(details)) {
+      return {
+        isValid: false,
+        error: 'Each answerDetails entry must be an object'
+      };
+    }
+
+    const { notes, owner, dueDate, evidence } = details as Record<string, unknown>;
+    if (notes !== undefined && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+      return {
+        isValid: false,
+        error: `Answer notes must be strings (max ${MAX_NOTES_LENGTH} characters)`
+      };
+    }
+
+    if (owner !== undefined && (typeof owner !== 'string' || owner.length > MAX_OWNER_LENGTH)) {
+      return {
+        isValid: false,
+        error: `Answer owner must be a string (max ${MAX_OWNER_LENGTH} characters)`
+      };
+    }
+
+    if (dueDate !== undefined && (typeof dueDate !== 'string' || !isDueDate(dueDate))) {
+      return {
+        isValid: false,
+        error: 'Answer due date must be a YYYY-MM-DD date'
+      };
+    }
+
+    if (evidence !== undefined) {
+      if (!Array.isArray(evidence) || evidence.length > MAX_EVIDENCE_ITEMS) {
+        return {
+          isValid: false,
+          error: `Answer evidence must be an array (max ${MAX_EVIDENCE_ITEMS} items)`
+        };
+      }
+
+      for (const item of evidence) {
+        if (!item || typeof item !== 'object' || typeof item.id !== 'string' ||
+            typeof item.addedAt !== 'string' || !isValidEvidence(item as EvidenceItem)) {
+          return {
+            isValid: false,
+            error: 'Invalid evidence item (needs a name and either an http(s) link or a supported attachment)'
+          };
+        }
+      }
+    }
+  }
+
+  if (getAttachmentsSize(answerDetails as AnswerDetailsMap) > MAX_TOTAL_ATTACHMENT_SIZE) {
+    return {
+      isValid: false,
+      error: 'Evidence attachments too large in total'
+    };
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validate a workspace export containing multiple named client assessments
+ */
+const validateWorkspaceImport = (obj: Record<string, unknown>): ValidationResult => {
+  const workspace = obj.workspace as Record<string, unknown> | undefined;
+  if (!workspace || typeof workspace !== 'object' || Array.isArray(workspace)) {
+    return {
+      isValid: false,
+      error: 'Invalid workspace format'
+    };
+  }
+
+  if (!Array.isArray(workspace.clients) || workspace.clients.length === 0) {
+    return {
+      isValid: false,
+      error: 'Workspace must contain a non-empty clients array'
+    };
+  }
+
+  if (workspace.clients.length > 100) {
+    return {
+      isValid: false,
+      error: 'Too many clients (max 100)'
+    };
+  }
+
+  for (const client of workspace.clients as unknown[]) {
+    if (!client || typeof client !== 'object' || Array.isArray(client)) {
+      return {
+        isValid: false,
+        error: 'Each workspace client must be an object'
+      };
+    }
+
+    const entry = client as Record<string, unknown>;
+    if (typeof entry.name !== 'string' || !entry.name.trim() || entry.name.length > 100) {
+      return {
+        isValid: false,
+        error: 'Each workspace client must have a name (max 100 characters)'
+      };
+    }
+
+    const result = validateClientRecord(entry, obj.version);
+    if (!result.isValid) {
+      return result;
+    }
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validate a client record from a workspace export or a client export
+ */
+const validateClientRecord = (entry: Record<string, unknown>, version: unknown): ValidationResult => {
+  // Snapshots and respondents carry full answer sets, so their complexity is checked one by one
+  const { snapshots, respondents, ...clientData } = entry;
+  const complexityResult = validateJSONComplexity(clientData);
+  if (!complexityResult.isValid) {
+    return complexityResult;
+  }
+
+  if (snapshots !== undefined) {
+    const snapshotsResult = validateSnapshots(snapshots);
+    if (!snapshotsResult.isValid) {
+      return snapshotsResult;
+    }
+  }
+
+  if (respondents !== undefined) {
+    const respondentsResult = validateRespondents(respondents);
+    if (!respondentsResult.isValid) {
+      return respondentsResult;
+    }
+  }
+
+  if (entry.dkimSelectors !== undefined) {
+    if (typeof entry.dkimSelectors !== 'object' || entry.dkimSelectors === null ||
+        Array.isArray(entry.dkimSelectors) ||
+        !Object.values(entry.dkimSelectors).every((sel) =>
+          Array.isArray(sel) && sel.every((s) => typeof s === 'string'))) {
+      return {
+        isValid: false,
+        error: 'Invalid dkimSelectors format (must map domains to string arrays)'
+      };
+    }
+  }
+
+  if (entry.enabledPacks !== undefined &&
+      (!Array.isArray(entry.enabledPacks) || !entry.enabledPacks.every((id) => typeof id === 'string'))) {
+    return {
+      isValid: false,
+      error: 'Invalid enabledPacks format (must be an array of pack ids)'
+    };
+  }
+
+  return validateAssessmentData({
+    version,
+    answers: entry.answers ?? {},
+    answerDetails: entry.answerDetails,
+    domainScanAggregate: entry.domainScanAggregate,
+  });
+};
+
+/**
+ * Validate the respondents' answer sets stored with a workspace client
+ */
+const validateRespondents = (respondents: unknown): ValidationResult => {
+  if (!Array.isArray(respondents) || respondents.length > 20) {
+    return {
+      isValid: false,
+      error: 'Invalid respondents format (must be an array of at most 20)'
+    };
+  }
+
+  for (const respondent of respondents) {
+    const complexityResult = validateJSONComplexity(respondent);
+    if (!complexityResult.isValid) {
+      return complexityResult;
+    }
+
+    const entry = respondent as Record<string, unknown> | null;
+    if (!entry || typeof entry !== 'object' || typeof entry.id !== 'string' ||
+        typeof entry.name !== 'string' || entry.name.length > 100 ||
+        typeof entry.importedAt !== 'string') {
+      return {
+        isValid: false,
+        error: 'Each respondent must have an id, a name and an import timestamp'
+      };
+    }
+
+    const answersResult = validateAssessmentData({ answers: entry.answers });
+    if (!answersResult.isValid) {
+      return answersResult;
+    }
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validate assessment history snapshots stored with a workspace client
+ */
+const validateSnapshots = (snapshots: unknown): ValidationResult => {
+  if (!Array.isArray(snapshots)) {
+    return {
+      isValid: false,
+      error: 'Invalid snapshots format (must be an array)'
+    };
+  }
+
+  if (snapshots.length > 100) {
+    return {
+      isValid: false,
+      error: 'Too many snapshots (max 100)'
+    };
+  }
+
+  for (const snapshot of snapshots) {
+    const complexityResult = validateJSONComplexity(snapshot);
+    if (!complexityResult.isValid) {
+      return complexityResult;
+    }
+
+    const snap = snapshot as Record<string, unknown> | null;
+    if (!snap || typeof snap !== 'object' || typeof snap.id !== 'string' ||
+        typeof snap.createdAt !== 'string' || isNaN(new Date(snap.createdAt).getTime()) ||
+        !snap.score || typeof snap.score !== 'object' ||
+        !Array.isArray((snap.score as Record<string, unknown>).categories) ||
+        !Array.isArray(snap.risks) || !snap.risks.every((risk) => typeof risk === 'string')) {
+      return {
+        isValid: false,
+        error: 'Each snapshot must have an id, a createdAt timestamp, a score with categories and a list of risks'
+      };
+    }
+
+    // History and Compare read the snapshot's answers like a live assessment's
+    const answersResult = validateAssessmentData({ answers: snap.answers });
+    if (!answersResult.isValid) {
+      return answersResult;
+    }
+  }
+
   return { isValid: true };
 };
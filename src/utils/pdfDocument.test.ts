@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { PdfDocument, parseHexColor, toWinAnsi } from './pdfDocument';
+
+const toLatin1 = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+
+describe('pdfDocument', () => {
+  describe('toWinAnsi', () => {
+    it('keeps ASCII and Latin-1 characters', () => {
+      expect(toWinAnsi('Evaluación ñ')).toBe('Evaluación ñ');
+    });
+
+    it('maps WinAnsi extras and replaces unsupported characters', () => {
+      expect(toWinAnsi('a – b • c')).toBe('a \x96 b \x95 c');
+      expect(toWinAnsi('50% → 75%')).toBe('50% -> 75%');
+      expect(toWinAnsi('漢')).toBe('?');
+    });
+  });
+
+  it('parses hex colors and falls back to black', () => {
+    expect(parseHexColor('#FFFFFF')).toEqual([1, 1, 1]);
+    expect(parseHexColor('#f00')).toEqual([1, 0, 0]);
+    expect(parseHexColor('white')).toEqual([0, 0, 0]);
+  });
+
+  describe('text layout', () => {
+    it('measures text with Helvetica metrics', () => {
+      const doc = new PdfDocument();
+      // "Hi" = H (722) + i (222) at 10pt
+      expect(doc.measureText('Hi', { size: 10 })).toBeCloseTo(9.44);
+      expect(doc.measureText('Hi', { size: 10, font: 'bold' })).toBeGreaterThan(doc.measureText('Hi', { size: 10 }));
+    });
+
+    it('wraps text to the available width and splits long words', () => {
+      const doc = new PdfDocument();
+      const lines = doc.wrapText('alpha beta gamma delta', 60, { size: 11 });
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach((line) => expect(doc.measureText(line, { size: 11 })).toBeLessThanOrEqual(60));
+
+      const long = doc.wrapText('x'.repeat(50), 40, { size: 11 });
+      expect(long.join('')).toBe('x'.repeat(50));
+    });
+  });
+
+  describe('toBytes', () => {
+    it('writes a well-formed document with a valid cross-reference table', () => {
+      const doc = new PdfDocument();
+      doc.addPage();
+      doc.text('Hello (world)', 50, 50, { font: 'bold', size: 14, color: '#06233F' });
+      doc.rect(50, 60, 100, 10, { fill: '#44C8F5' });
+      doc.addPage();
+      doc.addLink(50, 50, 100, 20, 0, 40);
+
+      const pdf = toLatin1(doc.toBytes({ title: 'Report' }));
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+      expect(pdf).toContain('(Hello \\(world\\)) Tj');
+      expect(pdf).toContain('/Subtype /Link');
+      expect(pdf).toContain('/Title (Report)');
+
+      // Every xref entry must point at the start of its object
+      const xrefStart = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+      const entries = pdf.slice(xrefStart).split('\n').filter((l) => / 00000 n $/.test(l));
+      entries.forEach((entry, i) => {
+        const offset = Number(entry.slice(0, 10));
+        expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+      });
+    });
+
+    it('embeds JPEG images as DCT-encoded XObjects', () => {
+      const doc = new PdfDocument();
+      doc.addPage();
+      const handle = doc.addJpeg({ data: '\xFF\xD8\xFF\xD9', width: 4, height: 2 });
+      doc.drawImage(handle, 10, 10, 40, 20);
+      const pdf = toLatin1(doc.toBytes());
+      expect(pdf).toContain('/Filter /DCTDecode');
+      expect(pdf).toContain('/Width 4 /Height 2');
+      expect(pdf).toContain('/Im1 Do');
+    });
+
+    it('rejects unknown pages and images', () => {
+      const doc = new PdfDocument();
+      doc.addPage();
+      expect(() => doc.setPage(3)).toThrow('Page out of range');
+      expect(() => doc.drawImage(0, 0, 0, 10, 10)).toThrow('Unknown image');
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Minimal PDF 1.4 writer for client-side report generation.
+ *
+ * Supports the standard Helvetica fonts (WinAnsi encoded, so Latin-1 text such as Spanish renders correctly),
+ * filled/stroked rectangles, lines, embedded JPEG images and internal links between pages.
+ * Coordinates are in points with the origin at the top-left of the page; text y values are baselines.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size?: number;
+  color?: string; // hex color, e.g. '#231F20'
+}
+
+export interface PdfJpegImage {
+  data: string; // binary JPEG bytes, one char per byte
+  width: number; // pixels
+  height: number;
+}
+
+interface PdfLink {
+  rect: [number, number, number, number]; // x, y, width, height (top-left origin)
+  targetPage: number;
+  targetY: number;
+}
+
+interface PdfPage {
+  ops: string[];
+  links: PdfLink[];
+}
+
+// A4 portrait in points
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+// Glyph widths (1/1000 em) for character codes 32-126 from the standard Helvetica AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Unicode characters outside Latin-1 that WinAnsiEncoding can still represent
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Common symbols without a WinAnsi glyph get an ASCII stand-in
+const TEXT_REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '✓': 'v', '✗': 'x', '≥': '>=', '≤': '<=' };
+
+/**
+ * Convert a string to WinAnsi bytes (one char per byte); unsupported characters become '?'
+ */
+export const toWinAnsi = (text: string): string =>
+  Array.from(text).map((ch) => {
+    if (TEXT_REPLACEMENTS[ch]) return TEXT_REPLACEMENTS[ch];
+    const code = ch.charCodeAt(0);
+    if (ch === '\t') return ' ';
+    if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) return ch;
+    if (WIN_ANSI_EXTRAS[ch] !== undefined) return String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+    // Drop variation selectors and other invisible code points, flag everything else
+    if (code < 32 || (code >= 0xfe00 && code <= 0xfe0f) || code === 0x200d) return '';
+    return '?';
+  }).join('');
+
+const glyphWidth = (code: number, font: PdfFont): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  if (code >= 32 && code <= 126) return widths[code - 32];
+  if (code >= 160) {
+    // Accented Latin-1 letters share the width of their base letter
+    const base = String.fromCharCode(code).normalize('NFD').charCodeAt(0);
+    if (base >= 32 && base <= 126) return widths[base - 32];
+  }
+  if (code === 0x97 || code === 0x85) return 1000;
+  return 556;
+};
+
+const escapePdfString = (bytes: string) => bytes.replace(/([\\()])/g, '\\$1');
+
+const formatNumber = (n: number) => (Math.round(n * 100) / 100).toString();
+
+/**
+ * Parse '#RGB' or '#RRGGBB' into PDF color components; anything else falls back to black
+ */
+export const parseHexColor = (color?: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec((color ?? '').trim());
+  if (!match) return [0, 0, 0];
+  const hex = match[1].length === 3 ? match[1].split('').map((c) => c + c).join('') : match[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255) as [number, number, number];
+};
+
+const colorOp = (color: string | undefined, op: 'rg' | 'RG') =>
+  `${parseHexColor(color).map(formatNumber).join(' ')} ${op}`;
+
+const formatPdfDate = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+export class PdfDocument {
+  readonly width = PDF_PAGE_WIDTH;
+  readonly height = PDF_PAGE_HEIGHT;
+  private readonly pages: PdfPage[] = [];
+  private readonly images: PdfJpegImage[] = [];
+  private current = -1;
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get currentPage(): number {
+    return this.current;
+  }
+
+  /**
+   * Append a page and make it current; returns its zero-based index
+   */
+  addPage(): number {
+    this.pages.push({ ops: [], links: [] });
+    this.current = this.pages.length - 1;
+    return this.current;
+  }
+
+  /**
+   * Switch drawing to an existing page (e.g. to fill in a table of contents or footers)
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) throw new Error('Page out of range: ' + index);
+    this.current = index;
+  }
+
+  measureText(text: string, style: PdfTextStyle = {}): number {
+    const bytes = toWinAnsi(text);
+    let units = 0;
+    for (let i = 0; i < bytes.length; i++) units += glyphWidth(bytes.charCodeAt(i), style.font ?? 'regular');
+    return units * (style.size ?? 11) / 1000;
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, splitting words that are too long on their own
+   */
+  wrapText(text: string, maxWidth: number, style: PdfTextStyle = {}): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach((paragraph) => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.measureText(candidate, style) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+        if (line) lines.push(line);
+        line = '';
+        let rest = word;
+        while (this.measureText(rest, style) > maxWidth && rest.length > 1) {
+          let cut = rest.length - 1;
+          while (cut > 1 && this.measureText(rest.slice(0, cut), style) > maxWidth) cut--;
+          lines.push(rest.slice(0, cut));
+          rest = rest.slice(cut);
+        }
+        line = rest;
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  text(text: string, x: number, y: number, style: PdfTextStyle = {}): void {
+    const font = style.font === 'bold' ? 'F2' : 'F1';
+    const size = style.size ?? 11;
+    this.page().ops.push(
+      `BT /${font} ${formatNumber(size)} Tf ${colorOp(style.color, 'rg')} ` +
+      `${formatNumber(x)} ${formatNumber(this.height - y)} Td (${escapePdfString(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { color?: string; width?: number } = {}): void {
+    this.page().ops.push(
+      `${colorOp(options.color, 'RG')} ${formatNumber(options.width ?? 1)} w ` +
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ` +
+      `${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, options: { fill?: string; stroke?: string } = {}): void {
+    const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+    const fill = options.fill ? `${colorOp(options.fill, 'rg')} ` : '';
+    const stroke = options.stroke ? `${colorOp(options.stroke, 'RG')} ` : '';
+    this.page().ops.push(
+      `${fill}${stroke}${formatNumber(x)} ${formatNumber(this.height - y - h)} ` +
+      `${formatNumber(w)} ${formatNumber(h)} re ${paint}`
+    );
+  }
+
+  /**
+   * Register a JPEG so it can be drawn; returns a handle for drawImage
+   */
+  addJpeg(image: PdfJpegImage): number {
+    this.images.push(image);
+    return this.images.length - 1;
+  }
+
+  drawImage(handle: number, x: number, y: number, w: number, h: number): void {
+    if (!this.images[handle]) throw new Error('Unknown image: ' + handle);
+    this.page().ops.push(
+      `q ${formatNumber(w)} 0 0 ${formatNumber(h)} ${formatNumber(x)} ${formatNumber(this.height - y - h)} cm ` +
+      `/Im${handle + 1} Do Q`
+    );
+  }
+
+  /**
+   * Make a region of the current page jump to a position on another page
+   */
+  addLink(x: number, y: number, w: number, h: number, targetPage: number, targetY = 0): void {
+    this.page().links.push({ rect: [x, y, w, h], targetPage, targetY });
+  }
+
+  /**
+   * Serialize the document. Object layout: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images,
+   * then per page: page object, content stream and link annotations.
+   */
+  toBytes(info: { title?: string; createdAt?: Date } = {}): Uint8Array<ArrayBuffer> {
+    const objects: string[] = [];
+    const imageBase = 6;
+    const pageBase = imageBase + this.images.length;
+    const pageObjectNumbers: number[] = [];
+    let next = pageBase;
+    const pageLayout = this.pages.map((page) => {
+      const pageObj = next++;
+      const contentObj = next++;
+      const linkObjs = page.links.map(() => next++);
+      pageObjectNumbers.push(pageObj);
+      return { page, pageObj, contentObj, linkObjs };
+    });
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectNumbers.map((n) => `${n} 0 R`).join(' ')}] ` +
+      `/Count ${this.pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${escapePdfString(toWinAnsi(info.title ?? ''))}) /Producer (Risk Assessment Tool) ` +
+      `/CreationDate (${formatPdfDate(info.createdAt ?? new Date())}) >>`;
+
+    this.images.forEach((img, i) => {
+      objects[imageBase + i] = `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${img.data.length} >>\n` +
+        `stream\n${img.data}\nendstream`;
+    });
+
+    const xObjects = this.images.map((_, i) => `/Im${i + 1} ${imageBase + i} 0 R`).join(' ');
+    pageLayout.forEach(({ page, pageObj, contentObj, linkObjs }) => {
+      const annots = linkObjs.length ? ` /Annots [${linkObjs.map((n) => `${n} 0 R`).join(' ')}]` : '';
+      objects[pageObj] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+        `/Contents ${contentObj} 0 R${annots} >>`;
+      const content = page.ops.join('\n');
+      objects[contentObj] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+      page.links.forEach((link, i) => {
+        const [x, y, w, h] = link.rect;
+        const target = pageObjectNumbers[link.targetPage];
+        objects[linkObjs[i]] = '<< /Type /Annot /Subtype /Link /Border [0 0 0] ' +
+          `/Rect [${[x, this.height - y - h, x + w, this.height - y].map(formatNumber).join(' ')}] ` +
+          `/Dest [${target} 0 R /XYZ 0 ${formatNumber(this.height - link.targetY)} null] >>`;
+      });
+    });
+
+    // Header comment with high-bit bytes marks the file as binary
+    let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+    for (let n = 1; n < objects.length; n++) {
+      offsets[n] = output.length;
+      output += `${n} 0 obj\n${objects[n]}\nendobj\n`;
+    }
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let n = 1; n < objects.length; n++) {
+      output += `${offsets[n].toString().padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i) & 0xff;
+    return bytes;
+  }
+
+  private page(): PdfPage {
+    if (this.current < 0) this.addPage();
+    return this.pages[this.current];
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getVisibleQuestions, isConditionMet } from './questionConditions';
+
+describe('questionConditions', () => {
+  describe('isConditionMet', () => {
+    it('requires an answer that matches anyOf and avoids noneOf', () => {
+      expect(isConditionMet({ questionId: 'vendors' }, {})).toBe(false);
+      expect(isConditionMet({ questionId: 'vendors' }, { vendors: 'opt0' })).toBe(true);
+      expect(isConditionMet({ questionId: 'vendors', anyOf: ['opt1', 'opt2'] }, { vendors: 'opt2' })).toBe(true);
+      expect(isConditionMet({ questionId: 'vendors', anyOf: ['opt1', 'opt2'] }, { vendors: 'opt0' })).toBe(false);
+      expect(isConditionMet({ questionId: 'vendors', noneOf: ['opt0'] }, { vendors: 'opt0' })).toBe(false);
+      expect(isConditionMet({ questionId: 'vendors', noneOf: ['opt0'] }, { vendors: 'opt1' })).toBe(true);
+    });
+  });
+
+  describe('getVisibleQuestions', () => {
+    const questions = [
+      { id: 'vendors' },
+      { id: 'vendor_review', showIf: [{ questionId: 'vendors', anyOf: ['yes'] }] },
+      { id: 'vendor_contracts', showIf: [{ questionId: 'vendor_review', noneOf: ['never'] }] },
+      { id: 'mfa' },
+    ];
+    const ids = (answers: Record<string, string>) => getVisibleQuestions(questions, answers).map((q) => q.id);
+
+    it('keeps unconditional questions and their order', () => {
+      expect(ids({})).toEqual(['vendors', 'mfa']);
+    });
+
+    it('reveals follow-up questions as their conditions are met', () => {
+      expect(ids({ vendors: 'yes' })).toEqual(['vendors', 'vendor_review', 'mfa']);
+      expect(ids({ vendors: 'yes', vendor_review: 'annual' }))
+        .toEqual(['vendors', 'vendor_review', 'vendor_contracts', 'mfa']);
+    });
+
+    it('hides dependants of hidden questions even when their stored answers match', () => {
+      expect(ids({ vendors: 'no', vendor_review: 'annual', vendor_contracts: 'yes' })).toEqual(['vendors', 'mfa']);
+    });
+
+    it('never shows questions with unknown or cyclic conditions', () => {
+      const cyclic = [
+        { id: 'a', showIf: [{ questionId: 'b' }] },
+        { id: 'b', showIf: [{ questionId: 'a' }] },
+        { id: 'c', showIf: [{ questionId: 'missing' }] },
+      ];
+      expect(getVisibleQuestions(cyclic, { a: 'x', b: 'y', missing: 'z' })).toEqual([]);
+    });
+  });
+});
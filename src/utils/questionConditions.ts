@@ -0,0 +1,51 @@
+/**
+ * Show-if conditions: a question with `showIf` is only asked, scored and mapped to risks while every
+ * condition holds. Answers to hidden questions are kept so they come back if the question reappears.
+ */
+
+import { QuestionCondition } from '../types/questions';
+
+interface ConditionalQuestion {
+  id: string;
+  showIf?: QuestionCondition[];
+}
+
+/**
+ * Whether the answer to the condition's question satisfies it. An unanswered question never does.
+ */
+export const isConditionMet = (condition: QuestionCondition, answers: Record<string, string>): boolean => {
+  const answer = answers[condition.questionId];
+  if (!answer) return false;
+  if (condition.anyOf && !condition.anyOf.includes(answer)) return false;
+  if (condition.noneOf && condition.noneOf.includes(answer)) return false;
+  return true;
+};
+
+/**
+ * Questions that are currently shown, in their original order. A condition on a hidden, unknown or
+ * cyclically dependent question is never met, so hiding a question also hides everything that depends on it.
+ */
+export const getVisibleQuestions = <T extends ConditionalQuestion>(
+  questions: T[],
+  answers: Record<string, string>
+): T[] => {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const visibility = new Map<string, boolean>();
+  const pending = new Set<string>();
+
+  const isVisible = (question: T): boolean => {
+    const known = visibility.get(question.id);
+    if (known !== undefined) return known;
+    if (pending.has(question.id)) return false;
+    pending.add(question.id);
+    const visible = (question.showIf ?? []).every((condition) => {
+      const source = byId.get(condition.questionId);
+      return source !== undefined && isVisible(source) && isConditionMet(condition, answers);
+    });
+    pending.delete(question.id);
+    visibility.set(question.id, visible);
+    return visible;
+  };
+
+  return questions.filter(isVisible);
+};
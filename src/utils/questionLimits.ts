@@ -0,0 +1,18 @@
+/**
+ * Size limits of the questionnaire: the core questions plus the installed questionnaire packs.
+ * Import validation derives its limits from these, so an export always passes its own import.
+ */
+
+import questionsData from '../data/questions.json';
+import { RawQuestionnaire } from '../types/questions';
+
+export const MAX_INSTALLED_PACKS = 5;
+export const MAX_PACK_QUESTIONS = 200;
+export const MAX_PACK_ID_LENGTH = 40;
+export const MAX_PACK_LOCAL_ID_LENGTH = 60;
+// Pack question ids and categories are namespaced as `<packId>__<localId>`
+export const PACK_SEPARATOR = '__';
+
+export const MAX_QUESTIONS =
+  (questionsData as unknown as RawQuestionnaire).questions.length + MAX_INSTALLED_PACKS * MAX_PACK_QUESTIONS;
+export const MAX_QUESTION_ID_LENGTH = MAX_PACK_ID_LENGTH + PACK_SEPARATOR.length + MAX_PACK_LOCAL_ID_LENGTH;
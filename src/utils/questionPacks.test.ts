@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import i18next from 'i18next';
+import {
+  QUESTION_PACKS_KEY,
+  getPackCategoryWeights,
+  getPackQuestions,
+  getPackResources,
+  loadQuestionPacks,
+  registerPackResources,
+  saveQuestionPacks,
+  validateQuestionPack,
+} from './questionPacks';
+import { storage } from './storage';
+import { QuestionPack } from '../types/questionPacks';
+
+const samplePack: QuestionPack = {
+  id: 'hipaa',
+  name: 'HIPAA add-on',
+  version: '1.0',
+  questions: [
+    {
+      id: 'phi_encryption',
+      category: 'privacy',
+      weight: 2,
+      options: [{ id: 'opt1', points: 0 }, { id: 'opt2', points: 10 }],
+    },
+  ],
+  scoring: { categoryWeights: { privacy: 1.5 } },
+  translations: {
+    en: {
+      categories: { privacy: 'Patient Privacy' },
+      questions: { phi_encryption: { text: 'Is PHI encrypted at rest?', options: { opt1: { label: 'No' } } } },
+    },
+    es: { name: 'Complemento HIPAA', categories: { privacy: 'Privacidad del paciente' } },
+  },
+};
+
+const validate = (pack: unknown) => validateQuestionPack(JSON.stringify(pack));
+
+describe('questionPacks', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('validateQuestionPack', () => {
+    it('accepts a well-formed pack', () => {
+      const result = validate(samplePack);
+      expect(result.isValid).toBe(true);
+      expect(result.pack?.id).toBe('hipaa');
+    });
+
+    it('rejects malformed JSON and missing metadata', () => {
+      expect(validateQuestionPack('{not json').error).toBe('Invalid JSON format');
+      expect(validate([]).isValid).toBe(false);
+      expect(validate({ ...samplePack, id: 'HIPAA pack' }).error).toMatch(/Pack id/);
+      expect(validate({ ...samplePack, name: ' ' }).error).toMatch(/Pack name/);
+      expect(validate({ ...samplePack, questions: [] }).error).toMatch(/at least one question/);
+    });
+
+    it('rejects invalid questions', () => {
+      const question = samplePack.questions[0];
+      expect(validate({ ...samplePack, questions: [question, question] }).error)
+        .toBe('Duplicate question id: phi_encryption');
+      expect(validate({ ...samplePack, questions: [{ ...question, options: [{ id: 'opt1', points: 0 }] }] }).error)
+        .toMatch(/at least two options/);
+      expect(validate({
+        ...samplePack,
+        questions: [{ ...question, options: [{ id: 'opt1', points: 0 }, { id: 'opt2', points: 500 }] }],
+      }).error).toMatch(/points between 0 and 100/);
+      const namedOptions = [{ id: 'yes', points: 10 }, { id: 'no', points: 0 }];
+      expect(validate({ ...samplePack, questions: [{ ...question, options: namedOptions }] }).error)
+        .toMatch(/expected opt0/);
+      expect(validate({ ...samplePack, questions: [{ ...question, controls: { sox: ['1'] } }] }).error)
+        .toMatch(/invalid controls/);
+    });
+
+    it('rejects invalid scoring and translations', () => {
+      expect(validate({ ...samplePack, scoring: { categoryWeights: { privacy: 'high' } } }).isValid).toBe(false);
+      expect(validate({ ...samplePack, translations: { en: 'Patient Privacy' } }).isValid).toBe(false);
+    });
+  });
+
+  it('namespaces question ids, categories and weights with the pack id', () => {
+    const [question] = getPackQuestions(samplePack);
+    expect(question.id).toBe('hipaa__phi_encryption');
+    expect(question.category).toBe('hipaa__privacy');
+    expect(question.packId).toBe('hipaa');
+    expect(getPackCategoryWeights(samplePack)).toEqual({ hipaa__privacy: 1.5 });
+  });
+
+  it('namespaces show-if conditions on the pack\'s own questions only', () => {
+    const pack: QuestionPack = {
+      ...samplePack,
+      questions: [
+        samplePack.questions[0],
+        {
+          id: 'phi_backups',
+          category: 'privacy',
+          options: samplePack.questions[0].options,
+          showIf: [
+            { questionId: 'phi_encryption', anyOf: ['opt2'] },
+            { questionId: 'system_data_protection_q25', noneOf: ['opt0'] },
+          ],
+        },
+      ],
+    };
+    expect(validate(pack).isValid).toBe(true);
+    expect(getPackQuestions(pack)[1].showIf).toEqual([
+      { questionId: 'hipaa__phi_encryption', anyOf: ['opt2'] },
+      { questionId: 'system_data_protection_q25', noneOf: ['opt0'] },
+    ]);
+    expect(validate({ ...pack, questions: [{ ...pack.questions[1], showIf: [{ anyOf: ['opt2'] }] }] }).error)
+      .toMatch(/invalid showIf/);
+  });
+
+  it('builds namespaced translation resources per language', () => {
+    const resources = getPackResources(samplePack);
+    expect(resources.en).toMatchObject({
+      packs: { hipaa: { name: 'HIPAA add-on' } },
+      categories: { hipaa__privacy: 'Patient Privacy' },
+      questions: { hipaa__phi_encryption: { text: 'Is PHI encrypted at rest?' } },
+    });
+    expect(resources.es).toMatchObject({ packs: { hipaa: { name: 'Complemento HIPAA' } } });
+  });
+
+  it('registers pack translations in the questions namespace', async () => {
+    const instance = i18next.createInstance();
+    await instance.init({ lng: 'en', resources: { en: { questions: { categories: { access: 'Access' } } } } });
+    registerPackResources(instance, samplePack);
+    expect(instance.t('categories.hipaa__privacy', { ns: 'questions' })).toBe('Patient Privacy');
+    expect(instance.t('categories.access', { ns: 'questions' })).toBe('Access');
+  });
+
+  it('saves and reloads the pack library, dropping invalid entries', () => {
+    expect(loadQuestionPacks()).toEqual([]);
+    saveQuestionPacks([samplePack]);
+    expect(loadQuestionPacks()).toEqual([samplePack]);
+
+    localStorage.setItem(QUESTION_PACKS_KEY, JSON.stringify([samplePack, { id: 'broken' }]));
+    expect(loadQuestionPacks().map((p) => p.id)).toEqual(['hipaa']);
+
+    saveQuestionPacks([]);
+    expect(localStorage.getItem(QUESTION_PACKS_KEY)).toBeNull();
+  });
+
+  it('reports a full quota through storage', () => {
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Storage is full', 'QuotaExceededError');
+    });
+    expect(saveQuestionPacks([samplePack])).toBe(false);
+    expect(storage.getError()).toBe('quota');
+    setItem.mockRestore();
+    storage.clearError();
+  });
+});
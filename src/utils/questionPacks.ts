@@ -0,0 +1,224 @@
+/**
+ * Questionnaire pack utilities: validation of uploaded pack files, storage of the installed pack library,
+ * and conversion of a pack into namespaced questions and translation resources.
+ */
+
+import type { i18n as I18n } from 'i18next';
+import { FrameworkId, RawQuestion } from '../types/questions';
+import { QuestionPack, QuestionPackTranslations } from '../types/questionPacks';
+import { validateJSONComplexity } from './importValidation';
+import {
+  MAX_PACK_ID_LENGTH,
+  MAX_PACK_LOCAL_ID_LENGTH,
+  MAX_PACK_QUESTIONS,
+  PACK_SEPARATOR,
+} from './questionLimits';
+import { storage } from './storage';
+
+export const QUESTION_PACKS_KEY = 'risk_question_packs_v1';
+export const MAX_PACK_FILE_SIZE = 1024 * 1024; // 1MB
+
+const PACK_ID_PATTERN = new RegExp(`^[a-z][a-z0-9_]{1,${MAX_PACK_ID_LENGTH - 1}}$`);
+const LOCAL_ID_PATTERN = new RegExp(`^[a-z0-9_]{1,${MAX_PACK_LOCAL_ID_LENGTH}}$`);
+// Same optN ids as the core questionnaire, which stored answers and answer migration rely on
+const OPTION_ID_PATTERN = /^opt\d{1,3}$/;
+const EFFORTS = ['low', 'medium', 'high'];
+const FRAMEWORK_IDS: FrameworkId[] = ['nist_csf_2', 'cis_v8', 'iso_27001'];
+
+export interface PackValidationResult {
+  isValid: boolean;
+  error?: string;
+  pack?: QuestionPack;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+const isControlMap = (value: unknown): boolean =>
+  isRecord(value) && Object.entries(value).every(
+    ([framework, controls]) => FRAMEWORK_IDS.includes(framework as FrameworkId) && isStringArray(controls)
+  );
+
+const isConditionList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every((c) => isRecord(c) && typeof c.questionId === 'string' &&
+    (c.anyOf === undefined || isStringArray(c.anyOf)) && (c.noneOf === undefined || isStringArray(c.noneOf)));
+
+/**
+ * Describe the first problem with a pack question, or return undefined when it is valid
+ */
+const getQuestionError = (q: unknown, index: number, seen: Set<string>): string | undefined => {
+  const where = `Question ${index + 1}`;
+  if (!isRecord(q)) return `${where} must be an object`;
+  if (typeof q.id !== 'string' || !LOCAL_ID_PATTERN.test(q.id)) {
+    return `${where} needs an id of lowercase letters, digits or underscores`;
+  }
+  if (seen.has(q.id)) return `Duplicate question id: ${q.id}`;
+  seen.add(q.id);
+  if (typeof q.category !== 'string' || !LOCAL_ID_PATTERN.test(q.category)) {
+    return `Question ${q.id} needs a category of lowercase letters, digits or underscores`;
+  }
+  if (q.text !== undefined && typeof q.text !== 'string') return `Question ${q.id} text must be a string`;
+  if (q.weight !== undefined && (typeof q.weight !== 'number' || !(q.weight >= 0))) {
+    return `Question ${q.id} weight must be a non-negative number`;
+  }
+  if (q.effort !== undefined && !EFFORTS.includes(q.effort as string)) {
+    return `Question ${q.id} effort must be one of ${EFFORTS.join(', ')}`;
+  }
+  if (q.controls !== undefined && !isControlMap(q.controls)) return `Question ${q.id} has invalid controls`;
+  if (q.showIf !== undefined && !isConditionList(q.showIf)) return `Question ${q.id} has invalid showIf conditions`;
+  if (q.recommendationMap !== undefined &&
+    !(isRecord(q.recommendationMap) && Object.values(q.recommendationMap).every(isStringArray))) {
+    return `Question ${q.id} has an invalid recommendationMap`;
+  }
+  if (!Array.isArray(q.options) || q.options.length < 2) return `Question ${q.id} needs at least two options`;
+  const optionIds = new Set<string>();
+  for (const o of q.options) {
+    if (!isRecord(o) || typeof o.id !== 'string' || !OPTION_ID_PATTERN.test(o.id) || optionIds.has(o.id)) {
+      return `Question ${q.id} has an option with a missing or duplicate id (expected opt0, opt1, ...)`;
+    }
+    optionIds.add(o.id);
+    if (typeof o.points !== 'number' || o.points < 0 || o.points > 100) {
+      return `Question ${q.id} option ${o.id} needs points between 0 and 100`;
+    }
+    if (o.controls !== undefined && !isControlMap(o.controls)) {
+      return `Question ${q.id} option ${o.id} has invalid controls`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Validate an uploaded pack file. Returns the parsed pack when valid.
+ */
+export const validateQuestionPack = (jsonString: string): PackValidationResult => {
+  if (new Blob([jsonString]).size > MAX_PACK_FILE_SIZE) {
+    return { isValid: false, error: 'Pack file too large (max 1MB)' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonString);
+  } catch {
+    return { isValid: false, error: 'Invalid JSON format' };
+  }
+  if (!isRecord(parsed)) return { isValid: false, error: 'Pack must be a JSON object' };
+
+  const complexity = validateJSONComplexity(parsed, 10, 20000);
+  if (!complexity.isValid) return complexity;
+
+  if (typeof parsed.id !== 'string' || !PACK_ID_PATTERN.test(parsed.id)) {
+    return { isValid: false, error: 'Pack id must be 2-40 lowercase letters, digits or underscores' };
+  }
+  if (typeof parsed.name !== 'string' || !parsed.name.trim() || parsed.name.length > 100) {
+    return { isValid: false, error: 'Pack name is required (max 100 characters)' };
+  }
+  for (const field of ['version', 'description'] as const) {
+    if (parsed[field] !== undefined && typeof parsed[field] !== 'string') {
+      return { isValid: false, error: `Pack ${field} must be a string` };
+    }
+  }
+  if (!Array.isArray(parsed.questions) || parsed.questions.length === 0) {
+    return { isValid: false, error: 'Pack must contain at least one question' };
+  }
+  if (parsed.questions.length > MAX_PACK_QUESTIONS) {
+    return { isValid: false, error: `Pack has too many questions (max ${MAX_PACK_QUESTIONS})` };
+  }
+
+  const seen = new Set<string>();
+  for (let i = 0; i < parsed.questions.length; i++) {
+    const error = getQuestionError(parsed.questions[i], i, seen);
+    if (error) return { isValid: false, error };
+  }
+
+  const weights = isRecord(parsed.scoring) ? parsed.scoring.categoryWeights : undefined;
+  if (parsed.scoring !== undefined && (!isRecord(parsed.scoring) ||
+    (weights !== undefined && !(isRecord(weights) && Object.values(weights).every((w) => typeof w === 'number'))))) {
+    return { isValid: false, error: 'Pack scoring.categoryWeights must map categories to numbers' };
+  }
+  if (parsed.translations !== undefined &&
+    !(isRecord(parsed.translations) && Object.values(parsed.translations).every(isRecord))) {
+    return { isValid: false, error: 'Pack translations must be an object keyed by language' };
+  }
+
+  return { isValid: true, pack: parsed as unknown as QuestionPack };
+};
+
+export const toPackKey = (packId: string, localId: string): string => `${packId}${PACK_SEPARATOR}${localId}`;
+
+const prefixKeys = <T,>(packId: string, record: Record<string, T> | undefined): Record<string, T> =>
+  Object.fromEntries(Object.entries(record ?? {}).map(([key, value]) => [toPackKey(packId, key), value]));
+
+/**
+ * Questions of a pack with ids and categories namespaced by the pack id and tagged with packId.
+ * Show-if conditions on the pack's own questions are namespaced too; other ids refer to the core questionnaire.
+ */
+export const getPackQuestions = (pack: QuestionPack): RawQuestion[] => {
+  const localIds = new Set(pack.questions.map((q) => q.id));
+  return pack.questions.map((q) => ({
+    ...q,
+    text: q.text ?? '',
+    id: toPackKey(pack.id, q.id),
+    category: toPackKey(pack.id, q.category),
+    packId: pack.id,
+    ...(q.showIf ? {
+      showIf: q.showIf.map((c) => (
+        localIds.has(c.questionId) ? { ...c, questionId: toPackKey(pack.id, c.questionId) } : c
+      )),
+    } : {}),
+  }));
+};
+
+export const getPackCategoryWeights = (pack: QuestionPack): Record<string, number> =>
+  prefixKeys(pack.id, pack.scoring?.categoryWeights);
+
+/**
+ * Translation resources for the questions namespace, keyed by language. Pack names live under packs.<id>.
+ */
+export const getPackResources = (pack: QuestionPack): Record<string, Record<string, unknown>> =>
+  Object.fromEntries(Object.entries(pack.translations ?? {}).map(([lang, res]: [string, QuestionPackTranslations]) => [
+    lang,
+    {
+      packs: { [pack.id]: { name: res.name ?? pack.name, description: res.description ?? pack.description ?? '' } },
+      categories: prefixKeys(pack.id, res.categories),
+      questions: prefixKeys(pack.id, res.questions),
+    },
+  ]));
+
+/**
+ * Merge a pack's translations into the questions namespace of every language it provides
+ */
+export const registerPackResources = (i18n: I18n, pack: QuestionPack): void => {
+  Object.entries(getPackResources(pack)).forEach(([lang, resources]) => {
+    i18n.addResourceBundle(lang, 'questions', resources, true, true);
+  });
+};
+
+export const loadQuestionPacks = (): QuestionPack[] => {
+  try {
+    const raw = storage.getItem(QUESTION_PACKS_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw);
+    // Re-validate so a tampered or outdated entry cannot break the questionnaire
+    return Array.isArray(stored)
+      ? stored.map((p) => validateQuestionPack(JSON.stringify(p)).pack).filter((p): p is QuestionPack => Boolean(p))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveQuestionPacks = (packs: QuestionPack[]): boolean => {
+  try {
+    if (packs.length === 0) {
+      storage.removeItem(QUESTION_PACKS_KEY);
+    } else {
+      storage.setItem(QUESTION_PACKS_KEY, JSON.stringify(packs));
+    }
+    return true;
+  } catch {
+    return false;
+  }
+};
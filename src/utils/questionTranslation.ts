@@ -13,20 +13,29 @@ export const useTranslatedQuestions = (rawQuestions: RawQuestion[]): Question[]
     return rawQuestions.map((q) => {
       // Use nested path for question text
       const questionPath = `questions.${q.id}`;
+      const text = t(`${questionPath}.text`, q.text);
 
       return {
         id: q.id,
-        text: t(`${questionPath}.text`, q.text),
+        text,
         category: t(`categories.${q.category}`, q.category),
         categoryKey: q.category, // Preserve original for grouping
-        recommendationMap: q.recommendationMap,
+        weight: q.weight,
+        effort: q.effort,
+        controls: q.controls,
+        packId: q.packId,
+        showIf: q.showIf,
+        dontKnowRisk: t('answerStates.dontKnowRisk', { question: text }),
         options: (q.options || [])
           .sort((a: RawOption, b: RawOption) => ((a?.points || 0) - (b?.points || 0)))
           .map((o) => ({
             label: t(`${questionPath}.options.${o.id}.label`, o.option || ''),
             value: o.id, // Use option ID for stable answer matching across languages
             risk: t(`${questionPath}.options.${o.id}.risk`, o.risk || ''),
-            points: o.points ?? 0
+            points: o.points ?? 0,
+            recommendations: (q.recommendationMap?.[o.id] || [])
+              .map((key) => t(`${questionPath}.recommendations.${key}`, key)),
+            controls: o.controls
           }))
       };
     });
@@ -111,4 +111,54 @@ describe('mapRisks', () => {
     expect(result.bestPractices).toEqual([]);
     expect(result.risks).toEqual([]);
   });
+
+  it('should collect recommendations of the chosen options under each risk', () => {
+    const customQuestions: Question[] = [
+      {
+        id: 'mfa',
+        text: 'MFA?',
+        category: 'access',
+        categoryKey: 'access',
+        options: [
+          { label: 'None', value: 'none', risk: 'no-mfa', points: 0, recommendations: ['Enforce MFA', 'Audit admins'] },
+          { label: 'All', value: 'all', risk: 'mfa-everywhere', points: 10, recommendations: ['Keep it up'] },
+        ],
+      },
+      {
+        id: 'mfa_admins',
+        text: 'MFA for admins?',
+        category: 'access',
+        categoryKey: 'access',
+        options: [
+          { label: 'None', value: 'none', risk: 'no-mfa', points: 0, recommendations: ['Enforce MFA', 'Use PAM'] },
+          { label: 'All', value: 'all', risk: 'admins-covered', points: 10 },
+        ],
+      },
+    ];
+    expect(mapRisks({ mfa: 'none', mfa_admins: 'none' }, customQuestions).recommendations).toEqual({
+      'no-mfa': ['Enforce MFA', 'Audit admins', 'Use PAM'],
+    });
+    // Best practices carry no next steps
+    expect(mapRisks({ mfa: 'all' }, customQuestions).recommendations).toEqual({});
+  });
+
+  it('flags "Don\'t know" answers as risks and ignores N/A answers', () => {
+    const flagged: Question[] = [
+      { ...questions[0], dontKnowRisk: 'Unknown whether Question 1 is in place' },
+      questions[1],
+    ];
+    const result = mapRisks({ q1: 'unknown', q2: 'na' }, flagged);
+    expect(result.risks).toEqual(['Unknown whether Question 1 is in place']);
+    expect(result.bestPractices).toEqual([]);
+    expect(mapRisks({ q2: 'unknown' }, questions).risks).toEqual(['Question 2']);
+  });
+
+  it('ignores answers to questions hidden by show-if conditions', () => {
+    const conditional: Question[] = [
+      { ...questions[0], showIf: [{ questionId: 'q2', anyOf: ['risky'] }] },
+      questions[1],
+    ];
+    expect(mapRisks({ q1: 'low', q2: 'safe' }, conditional).risks).toEqual(['safe-option']);
+    expect(mapRisks({ q1: 'low', q2: 'risky' }, conditional).risks).toEqual(['low-risk']);
+  });
 });
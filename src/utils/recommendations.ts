@@ -1,8 +1,11 @@
 import { Question } from '../types/questions';
+import { getVisibleQuestions } from './questionConditions';
+import { DONT_KNOW } from './answerStates';
 
 export interface RiskMappingResult {
   risks: string[];
   bestPractices: string[];
+  recommendations: Record<string, string[]>; // Risk text -> next steps from the chosen options
 }
 
 /**
@@ -14,13 +17,21 @@ export interface RiskMappingResult {
  *    (We record the risk text into bestPractices list instead of risks.)
  *  - Otherwise add its risk string to risks (if non-empty).
  *  - Empty risk strings are ignored entirely.
+ *  - Questions hidden by their show-if conditions are skipped, even when an earlier answer is still stored.
+ *  - "Don't know" adds the question's own flagged risk; "Not applicable" adds nothing.
+ *  - Recommendations of the options behind each risk are collected under its risk text, without duplicates.
  */
 export const mapRisks = (answers: Record<string, string>, questions: Question[]): RiskMappingResult => {
   const risks = new Set<string>();
   const bestPractices = new Set<string>();
-  for (const q of questions) {
+  const recommendations: Record<string, string[]> = {};
+  for (const q of getVisibleQuestions(questions, answers)) {
     const selectedValue = answers[q.id];
     if (!selectedValue) continue;
+    if (selectedValue === DONT_KNOW) {
+      risks.add((q.dontKnowRisk || q.text).trim());
+      continue;
+    }
     // Determine max points for this question.
     const maxPoints = q.options.reduce((m, o) => Math.max(m, o.points || 0), 0);
     const selectedOption = q.options.find((o) => o.value === selectedValue);
@@ -32,7 +43,11 @@ export const mapRisks = (answers: Record<string, string>, questions: Question[])
       bestPractices.add(riskText);
     } else {
       risks.add(riskText);
+      const steps = selectedOption.recommendations || [];
+      if (steps.length > 0) {
+        recommendations[riskText] = Array.from(new Set([...(recommendations[riskText] || []), ...steps]));
+      }
     }
   }
-  return { risks: Array.from(risks), bestPractices: Array.from(bestPractices) };
+  return { risks: Array.from(risks), bestPractices: Array.from(bestPractices), recommendations };
 };
@@ -0,0 +1,91 @@
+import { buildRemediationPlan, getGapSeverity, getRemediationPhase } from './remediationPlan';
+import type { Question } from '../types/questions';
+import type { DomainScanAggregate } from '../types/domainScan';
+
+const question = (id: string, overrides: Partial<Question> = {}): Question => ({
+  id,
+  text: `${id}?`,
+  category: 'Access',
+  categoryKey: 'access',
+  options: [
+    { label: 'No', value: 'no', risk: `${id} missing`, points: 0 },
+    { label: 'Partly', value: 'partly', risk: `${id} partial`, points: 50 },
+    { label: 'Yes', value: 'yes', risk: `${id} in place`, points: 100 },
+  ],
+  ...overrides,
+});
+
+const aggregate: DomainScanAggregate = {
+  domain: 'example.com',
+  timestamp: '2025-10-27T00:00:00.000Z',
+  scanners: [
+    { id: 'custom', label: 'custom.label', status: 'complete', startedAt: '', issues: ['Missing header'] },
+    { id: 'clean', label: 'clean.label', status: 'complete', startedAt: '', issues: [] },
+    { id: 'broken', label: 'broken.label', status: 'error', startedAt: '', issues: ['Timed out'] },
+  ],
+  issues: ['Missing header'],
+};
+
+describe('remediationPlan', () => {
+  it('derives severity from the share of points missed and the question weight', () => {
+    expect(getGapSeverity(100, 100)).toBe('critical');
+    expect(getGapSeverity(50, 100)).toBe('high');
+    expect(getGapSeverity(25, 100)).toBe('medium');
+    expect(getGapSeverity(10, 100)).toBe('low');
+    expect(getGapSeverity(25, 100, 3)).toBe('critical');
+    expect(getGapSeverity(0, 0)).toBe('low');
+  });
+
+  it('puts low-effort items in quick wins and severe items in 30 days', () => {
+    expect(getRemediationPhase('low', 'low')).toBe('quickWins');
+    expect(getRemediationPhase('critical', 'high')).toBe('days30');
+    expect(getRemediationPhase('medium', 'medium')).toBe('days90');
+  });
+
+  it('ranks questionnaire gaps by severity and point gap and skips best practices', () => {
+    const questions = [
+      question('reviews'),
+      question('mfa', { effort: 'low' }),
+      question('patching', { effort: 'high' }),
+    ];
+    const plan = buildRemediationPlan({ reviews: 'partly', mfa: 'no', patching: 'yes' }, questions);
+
+    expect(plan.items.map((i) => i.id)).toEqual(['mfa', 'reviews']);
+    expect(plan.items[0]).toMatchObject({ text: 'mfa missing', severity: 'critical', pointGap: 100, effort: 'low' });
+    expect(plan.phases.quickWins.map((i) => i.id)).toEqual(['mfa']);
+    expect(plan.phases.days30.map((i) => i.id)).toEqual(['reviews']);
+    expect(plan.phases.days90).toHaveLength(0);
+  });
+
+  it('plans "Don\'t know" answers as quick wins at the lowest answer\'s gap', () => {
+    const plan = buildRemediationPlan(
+      { mfa: 'unknown', backups: 'na' },
+      [question('mfa', { effort: 'high', dontKnowRisk: 'Unknown: mfa?' }), question('backups')]
+    );
+
+    expect(plan.items).toHaveLength(1);
+    expect(plan.items[0]).toMatchObject({
+      id: 'mfa', text: 'Unknown: mfa?', severity: 'critical', pointGap: 100, effort: 'low', phase: 'quickWins'
+    });
+  });
+
+  it('adds issues from scanners that found problems', () => {
+    const plan = buildRemediationPlan({}, [], aggregate);
+    expect(plan.items).toHaveLength(1);
+    expect(plan.items[0]).toMatchObject({
+      id: 'custom:0',
+      text: 'Missing header',
+      source: 'scanner',
+      category: 'custom.label',
+      severity: 'medium',
+      effort: 'medium',
+      phase: 'days90',
+    });
+  });
+
+  it('returns an empty plan without answers or scan results', () => {
+    const plan = buildRemediationPlan({}, [question('mfa')]);
+    expect(plan.items).toHaveLength(0);
+    expect(plan.phases.quickWins).toHaveLength(0);
+  });
+});
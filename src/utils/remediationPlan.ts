@@ -0,0 +1,140 @@
+/**
+ * Prioritized remediation plan: ranks questionnaire gaps and scanner issues by severity and point gap,
+ * estimates effort and groups the items into delivery phases.
+ */
+
+import { Question, RemediationEffort } from '../types/questions';
+import { DomainScanAggregate, SeverityLevel } from '../types/domainScan';
+import { getQuestionWeight } from './scoring';
+import { getVisibleQuestions } from './questionConditions';
+import { DONT_KNOW, getLowestPoints } from './answerStates';
+import { interpretScannerResult } from './scanners';
+
+export type RemediationSeverity = 'critical' | 'high' | 'medium' | 'low';
+export type RemediationPhase = 'quickWins' | 'days30' | 'days90';
+
+export const REMEDIATION_PHASES: RemediationPhase[] = ['quickWins', 'days30', 'days90'];
+
+export interface RemediationItem {
+  id: string; // question id, or `${scannerId}:${index}` for scanner issues
+  text: string;
+  source: 'questionnaire' | 'scanner';
+  category: string; // translated category name, or the scanner label key for scanner issues
+  severity: RemediationSeverity;
+  pointGap: number; // max points minus chosen points; 0 for scanner issues
+  effort: RemediationEffort;
+  phase: RemediationPhase;
+}
+
+export interface RemediationPlan {
+  items: RemediationItem[]; // all items in priority order
+  phases: Record<RemediationPhase, RemediationItem[]>;
+}
+
+const SEVERITY_RANK: Record<RemediationSeverity, number> = { critical: 3, high: 2, medium: 1, low: 0 };
+const EFFORT_RANK: Record<RemediationEffort, number> = { low: 0, medium: 1, high: 2 };
+
+// DNS, mail and header fixes are configuration changes; certificate and TLS work usually involves a vendor
+const SCANNER_EFFORT: Record<string, RemediationEffort> = {
+  dns: 'low',
+  emailAuth: 'low',
+  securityHeaders: 'low',
+  rdap: 'low',
+  certificates: 'medium',
+  sslLabs: 'medium',
+};
+
+const SCANNER_SEVERITY: Partial<Record<SeverityLevel, RemediationSeverity>> = {
+  critical: 'critical',
+  warning: 'medium',
+  info: 'low',
+};
+
+/**
+ * Severity of a questionnaire gap from the share of points missed, scaled by the question weight
+ */
+export const getGapSeverity = (pointGap: number, maxPoints: number, weight = 1): RemediationSeverity => {
+  if (maxPoints <= 0) return 'low';
+  const ratio = (pointGap / maxPoints) * weight;
+  if (ratio >= 0.75) return 'critical';
+  if (ratio >= 0.5) return 'high';
+  if (ratio >= 0.25) return 'medium';
+  return 'low';
+};
+
+/**
+ * Low-effort fixes are quick wins; remaining critical and high items are due in 30 days, the rest in 90
+ */
+export const getRemediationPhase = (severity: RemediationSeverity, effort: RemediationEffort): RemediationPhase => {
+  if (effort === 'low') return 'quickWins';
+  if (SEVERITY_RANK[severity] >= SEVERITY_RANK.high) return 'days30';
+  return 'days90';
+};
+
+const compareItems = (a: RemediationItem, b: RemediationItem) =>
+  SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+  b.pointGap - a.pointGap ||
+  EFFORT_RANK[a.effort] - EFFORT_RANK[b.effort];
+
+export const buildRemediationPlan = (
+  answers: Record<string, string>,
+  questions: Question[],
+  aggregate?: DomainScanAggregate
+): RemediationPlan => {
+  const items: RemediationItem[] = [];
+  const seen = new Set<string>();
+
+  getVisibleQuestions(questions, answers).forEach((q) => {
+    // "Don't know" is planned as the lowest answer; finding out the actual state is a quick first step
+    const dontKnow = answers[q.id] === DONT_KNOW;
+    const selected = q.options.find((o) => o.value === answers[q.id]);
+    const text = ((dontKnow ? q.dontKnowRisk || q.text : selected?.risk) || '').trim();
+    if ((!selected && !dontKnow) || !text || seen.has(text)) return;
+    const maxPoints = q.options.reduce((m, o) => Math.max(m, o.points || 0), 0);
+    const pointGap = maxPoints - (dontKnow ? getLowestPoints(q) : selected?.points || 0);
+    if (pointGap <= 0) return;
+    seen.add(text);
+    const severity = getGapSeverity(pointGap, maxPoints, getQuestionWeight(q));
+    const effort = dontKnow ? 'low' : q.effort ?? 'medium';
+    items.push({
+      id: q.id,
+      text,
+      source: 'questionnaire',
+      category: q.category,
+      severity,
+      pointGap,
+      effort,
+      phase: getRemediationPhase(severity, effort),
+    });
+  });
+
+  aggregate?.scanners.forEach((sc) => {
+    const severity = SCANNER_SEVERITY[interpretScannerResult(sc).severity];
+    if (!severity) return; // passed or failed to run
+    const effort = SCANNER_EFFORT[sc.id] ?? 'medium';
+    (sc.issues ?? []).forEach((issue, index) => {
+      if (seen.has(issue)) return;
+      seen.add(issue);
+      items.push({
+        id: `${sc.id}:${index}`,
+        text: issue,
+        source: 'scanner',
+        category: sc.label,
+        severity,
+        pointGap: 0,
+        effort,
+        phase: getRemediationPhase(severity, effort),
+      });
+    });
+  });
+
+  items.sort(compareItems);
+  return {
+    items,
+    phases: {
+      quickWins: items.filter((i) => i.phase === 'quickWins'),
+      days30: items.filter((i) => i.phase === 'days30'),
+      days90: items.filter((i) => i.phase === 'days90'),
+    },
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { createRespondent, getConsensusAnswers, getReconciliation, parseRespondentFile } from './respondents';
+import type { Question } from '../types/questions';
+
+const question = (id: string): Question => ({
+  id,
+  text: `${id}?`,
+  category: 'Access',
+  categoryKey: 'access',
+  options: [
+    { label: 'No', value: 'opt0', risk: '', points: 0 },
+    { label: 'Partly', value: 'opt1', risk: '', points: 5 },
+    { label: 'Yes', value: 'opt2', risk: '', points: 10 },
+  ],
+});
+
+const questions = [question('mfa'), question('backup'), question('training')];
+
+describe('respondents', () => {
+  it('picks the majority answer and breaks ties conservatively', () => {
+    const consensus = getConsensusAnswers([
+      { mfa: 'opt2', backup: 'opt2', training: 'na' },
+      { mfa: 'opt2', backup: 'opt1', training: 'opt2' },
+      { mfa: 'opt0' },
+    ], questions);
+    expect(consensus).toEqual({ mfa: 'opt2', backup: 'opt1', training: 'opt2' });
+    expect(getConsensusAnswers([{ mfa: 'opt1' }, { mfa: 'unknown' }], questions)).toEqual({ mfa: 'unknown' });
+    expect(getConsensusAnswers([], questions)).toEqual({});
+  });
+
+  it('lists each respondent\'s answers and flags disagreements', () => {
+    const itLead = createRespondent(' IT lead ', { mfa: 'opt2', backup: 'opt1' });
+    const owner = createRespondent('Owner', { mfa: 'opt0', backup: 'opt1' });
+    expect(itLead.name).toBe('IT lead');
+
+    const reconciliation = getReconciliation(questions, [itLead, owner]);
+    expect(reconciliation.map((r) => r.question.id)).toEqual(['mfa', 'backup']);
+    expect(reconciliation[0]).toMatchObject({
+      responses: { [itLead.id]: 'opt2', [owner.id]: 'opt0' },
+      values: ['opt0', 'opt2'],
+      consensus: 'opt0',
+      disagreement: true,
+    });
+    expect(reconciliation[1]).toMatchObject({ values: ['opt1'], disagreement: false });
+  });
+
+  it('parses single-client exports and migrates version 1 answers', () => {
+    const parsed = parseRespondentFile(
+      JSON.stringify({ answers: { mfa: 'Yes' }, client: { name: 'Office manager' } }),
+      () => ({ mfa: 'opt2' })
+    );
+    expect(parsed).toEqual({ success: true, answers: { mfa: 'opt2' }, name: 'Office manager' });
+
+    expect(parseRespondentFile(JSON.stringify({ version: 2, answers: { mfa: 'opt1' } })).answers)
+      .toEqual({ mfa: 'opt1' });
+    expect(parseRespondentFile('{broken').success).toBe(false);
+    expect(parseRespondentFile(JSON.stringify({ version: 2, answers: {} })).error).toMatch(/no answers/);
+    expect(parseRespondentFile(JSON.stringify({ kind: 'workspace', workspace: { clients: [{ name: 'A' }] } })).error)
+      .toMatch(/Workspace exports/);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Multi-respondent assessments: importing respondents' answer sets, finding where they disagree and
+ * proposing a consensus answer the assessor can accept or override.
+ */
+
+import { Question } from '../types/questions';
+import { Respondent } from '../types/respondents';
+import { DONT_KNOW, NOT_APPLICABLE, getLowestPoints } from './answerStates';
+import { validateImportJSON } from './importValidation';
+import { generateId } from './workspace';
+
+export const MAX_RESPONDENTS = 20;
+export const MAX_RESPONDENT_NAME_LENGTH = 100;
+
+export interface QuestionReconciliation {
+  question: Question;
+  responses: Record<string, string>; // respondent id -> answer, answered questions only
+  values: string[]; // distinct answers, most common first
+  consensus: string;
+  disagreement: boolean;
+}
+
+// Points an answer earns, used to break ties conservatively. N/A ranks last so a scored answer is preferred.
+const getAnswerRank = (question: Question, value: string): number => {
+  if (value === NOT_APPLICABLE) return Infinity;
+  if (value === DONT_KNOW) return getLowestPoints(question);
+  return question.options.find((o) => o.value === value)?.points ?? Infinity;
+};
+
+/**
+ * Distinct answers ordered by how many respondents gave them; ties go to the weaker answer
+ */
+const rankAnswers = (question: Question, values: string[]): string[] => {
+  const counts = new Map<string, number>();
+  values.forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return [...counts.keys()].sort((a, b) =>
+    counts.get(b)! - counts.get(a)! || getAnswerRank(question, a) - getAnswerRank(question, b));
+};
+
+/**
+ * Majority answer per question across the answer sets. When respondents are split evenly the most
+ * conservative answer wins, so a consensus never looks better than the evidence supports.
+ */
+export const getConsensusAnswers = (
+  answerSets: Record<string, string>[],
+  questions: Question[]
+): Record<string, string> => {
+  const consensus: Record<string, string> = {};
+  for (const q of questions) {
+    const values = answerSets.map((answers) => answers[q.id]).filter(Boolean);
+    if (values.length > 0) consensus[q.id] = rankAnswers(q, values)[0];
+  }
+  return consensus;
+};
+
+/**
+ * Per-question view of what each respondent answered, for questions at least one of them answered
+ */
+export const getReconciliation = (questions: Question[], respondents: Respondent[]): QuestionReconciliation[] =>
+  questions.flatMap((question) => {
+    const responses: Record<string, string> = {};
+    respondents.forEach((r) => {
+      if (r.answers[question.id]) responses[r.id] = r.answers[question.id];
+    });
+    const given = Object.values(responses);
+    if (given.length === 0) return [];
+    const values = rankAnswers(question, given);
+    return [{ question, responses, values, consensus: values[0], disagreement: values.length > 1 }];
+  });
+
+export const createRespondent = (name: string, answers: Record<string, string>): Respondent => ({
+  id: generateId(),
+  name: name.trim().slice(0, MAX_RESPONDENT_NAME_LENGTH),
+  importedAt: new Date().toISOString(),
+  answers,
+});
+
+/**
+ * Parse a respondent's exported single-client JSON file.
+ * Version 1 answers are passed through `migrate` so they use current option ids.
+ */
+export const parseRespondentFile = (
+  json: string,
+  migrate: (answers: Record<string, string>) => Record<string, string> = (a) => a
+): { success: boolean; answers?: Record<string, string>; name?: string; error?: string } => {
+  const validation = validateImportJSON(json);
+  if (!validation.isValid) {
+    return { success: false, error: validation.error };
+  }
+
+  const data = JSON.parse(json);
+  if (data.kind === 'workspace') {
+    return { success: false, error: 'Workspace exports cannot be used as a respondent; export a single client' };
+  }
+
+  const answers = (data.answers ?? {}) as Record<string, string>;
+  if (Object.keys(answers).length === 0) {
+    return { success: false, error: 'The file contains no answers' };
+  }
+
+  return {
+    success: true,
+    answers: (data.version ?? 1) === 1 ? migrate(answers) : answers,
+    name: typeof data.client?.name === 'string' ? data.client.name : undefined,
+  };
+};
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { scannerCache } from './scannerCache';
 
 describe('scannerCache', () => {
@@ -17,6 +17,14 @@ describe('scannerCache', () => {
       expect(retrieved).toEqual(data);
     });
 
+    it('keeps cached results in storage across reloads', () => {
+      scannerCache.set('example.com', { result: 'stored' });
+      scannerCache.reload();
+
+      expect(scannerCache.get('example.com')).toEqual({ result: 'stored' });
+      expect(JSON.parse(localStorage.getItem('risk_scan_cache_v1')!)).toHaveProperty('example.com');
+    });
+
     it('returns null for non-existent cache', () => {
       const retrieved = scannerCache.get('nonexistent.com');
       expect(retrieved).toBeNull();
@@ -62,6 +70,36 @@ describe('scannerCache', () => {
       vi.useRealTimers();
     });
 
+    it('expires entries after their own ttl', () => {
+      vi.useFakeTimers();
+
+      scannerCache.set('short.com', { data: 'short' }, 5 * 60 * 1000);
+      scannerCache.set('long.com', { data: 'long' }, 6 * 60 * 60 * 1000);
+      vi.advanceTimersByTime(6 * 60 * 1000);
+
+      expect(scannerCache.get('short.com')).toBeNull();
+      expect(scannerCache.get('long.com')).toEqual({ data: 'long' });
+
+      vi.useRealTimers();
+    });
+
+    it('keeps one entry per scanner and serves it only for the same inputs', () => {
+      scannerCache.set('example.com', { data: 'dns' }, undefined, { scannerId: 'dns' });
+      scannerCache.set('example.com', { data: 'email' }, undefined, { scannerId: 'emailAuth', fingerprint: 'google' });
+
+      expect(scannerCache.get('example.com', { scannerId: 'dns' })).toEqual({ data: 'dns' });
+      expect(scannerCache.get('example.com', { scannerId: 'emailAuth', fingerprint: 'google' }))
+        .toEqual({ data: 'email' });
+      expect(scannerCache.get('example.com', { scannerId: 'emailAuth', fingerprint: 'google,k1' })).toBeNull();
+      expect(scannerCache.get('example.com')).toBeNull();
+
+      scannerCache.delete('example.com', 'dns');
+      expect(scannerCache.get('example.com', { scannerId: 'dns' })).toBeNull();
+      expect(scannerCache.getStats().entries).toEqual([
+        expect.objectContaining({ domain: 'example.com', scannerId: 'emailAuth' })
+      ]);
+    });
+
     it('handles complex data structures', () => {
       const domain = 'example.com';
       const data = {
@@ -134,6 +172,99 @@ describe('scannerCache', () => {
       // 'user2' should still be allowed
       expect(scannerCache.checkRateLimit('user2').allowed).toBe(true);
     });
+
+    it('keeps the count across reloads', async () => {
+      for (let i = 0; i < 5; i++) {
+        scannerCache.checkRateLimit();
+      }
+
+      vi.resetModules();
+      const { scannerCache: reloaded } = await import('./scannerCache');
+
+      expect(reloaded.getRateLimitStatus()).toMatchObject({ used: 5, limit: 5 });
+      expect(reloaded.checkRateLimit().allowed).toBe(false);
+    });
+
+    it('reports usage without counting a scan', () => {
+      expect(scannerCache.getRateLimitStatus()).toEqual({ used: 0, limit: 5, resetIn: 0 });
+
+      scannerCache.checkRateLimit();
+      scannerCache.checkRateLimit();
+
+      const status = scannerCache.getRateLimitStatus();
+      expect(status.used).toBe(2);
+      expect(status.resetIn).toBeGreaterThan(0);
+      expect(scannerCache.getRateLimitStatus().used).toBe(2);
+    });
+  });
+
+  describe('other tabs', () => {
+    // Delivers messages synchronously between channels with the same name
+    class FakeChannel {
+      static channels: FakeChannel[] = [];
+      onmessage: ((e: { data: unknown }) => void) | null = null;
+      constructor(readonly name: string) {
+        FakeChannel.channels.push(this);
+      }
+      postMessage(data: unknown) {
+        FakeChannel.channels
+          .filter((c) => c !== this && c.name === this.name)
+          .forEach((c) => c.onmessage?.({ data }));
+      }
+      close() {}
+    }
+
+    afterEach(() => {
+      FakeChannel.channels = [];
+      vi.unstubAllGlobals();
+    });
+
+    it('shares entries and the rate limit with other tabs', async () => {
+      vi.stubGlobal('BroadcastChannel', FakeChannel);
+      scannerCache.connect();
+      vi.resetModules();
+      const { scannerCache: otherTab } = await import('./scannerCache');
+      otherTab.connect();
+      const listener = vi.fn();
+      otherTab.subscribe(listener);
+      expect(otherTab.get('example.com')).toBeNull();
+
+      scannerCache.set('example.com', { data: 'shared' });
+      for (let i = 0; i < 5; i++) {
+        scannerCache.checkRateLimit();
+      }
+
+      expect(otherTab.get('example.com')).toEqual({ data: 'shared' });
+      expect(otherTab.checkRateLimit().allowed).toBe(false);
+      expect(listener).toHaveBeenCalled();
+
+      scannerCache.delete('example.com');
+      expect(otherTab.get('example.com')).toBeNull();
+    });
+  });
+
+  describe('delete and purge', () => {
+    it('removes a single entry', () => {
+      scannerCache.set('domain1.com', { data: 'test1' });
+      scannerCache.set('domain2.com', { data: 'test2' });
+
+      scannerCache.delete('DOMAIN1.com');
+
+      expect(scannerCache.get('domain1.com')).toBeNull();
+      expect(scannerCache.get('domain2.com')).toEqual({ data: 'test2' });
+    });
+
+    it('purges every entry but keeps the rate limit', () => {
+      scannerCache.set('domain1.com', { data: 'test1' });
+      for (let i = 0; i < 5; i++) {
+        scannerCache.checkRateLimit();
+      }
+
+      scannerCache.purge();
+
+      expect(scannerCache.getStats().size).toBe(0);
+      expect(scannerCache.checkRateLimit().allowed).toBe(false);
+    });
   });
 
   describe('cleanup', () => {
@@ -197,6 +328,19 @@ describe('scannerCache', () => {
 
       const stats = scannerCache.getStats();
       expect(stats.entries[0].age).toBe(5);
+      expect(stats.entries[0].expiresIn).toBe(25);
+
+      vi.useRealTimers();
+    });
+
+    it('leaves out expired entries', () => {
+      vi.useFakeTimers();
+
+      scannerCache.set('short.com', { data: 'short' }, 60 * 1000);
+      scannerCache.set('long.com', { data: 'long' });
+      vi.advanceTimersByTime(2 * 60 * 1000);
+
+      expect(scannerCache.getStats().entries.map((e) => e.domain)).toEqual(['long.com']);
 
       vi.useRealTimers();
     });
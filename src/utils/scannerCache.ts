@@ -1,11 +1,29 @@
 /**
  * Rate limiting and caching utilities for domain scanner
  * Prevents abuse and improves performance by caching scan results
+ *
+ * Cached results are kept in storage (through the vault, as they are assessment data) and rate limits in
+ * plain storage, so both survive reloads. Open tabs share them over a BroadcastChannel, which keeps the
+ * rate limit from being bypassed by opening another tab.
  */
+import { storage } from './storage';
+import { vault } from './vault';
 
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
+  // Lifetime of this entry; entries stored before per-scanner TTLs use DEFAULT_CACHE_TTL_MS
+  ttl?: number;
+  domain?: string;
+  scannerId?: string;
+  // Inputs besides the domain the result depends on; the entry is only served while they match
+  fingerprint?: string;
+}
+
+// Identifies one scanner's result for a domain; without a scanner id the entry is for the domain as a whole
+export interface CacheKey {
+  scannerId?: string;
+  fingerprint?: string;
 }
 
 interface RateLimitEntry {
@@ -13,27 +31,73 @@ interface RateLimitEntry {
   resetTime: number;
 }
 
-const CACHE_DURATION_MS = 30 * 60 * 1000; // 30 minutes
+export interface CacheStats {
+  size: number;
+  // Ages and remaining lifetimes in minutes
+  entries: Array<{ domain: string; scannerId?: string; age: number; expiresIn: number }>;
+}
+
+export interface RateLimitStatus {
+  used: number;
+  limit: number;
+  resetIn: number; // seconds until the window resets, 0 when unused
+}
+
+type CacheMessage =
+  | { type: 'set'; key: string; entry: CacheEntry<unknown> }
+  | { type: 'delete'; key: string }
+  | { type: 'purge' }
+  | { type: 'clear' }
+  | { type: 'rateLimit'; identifier: string; entry: RateLimitEntry };
+
+export const DEFAULT_CACHE_TTL_MS = 30 * 60 * 1000; // 30 minutes
 const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
 const MAX_REQUESTS_PER_WINDOW = 5; // Max 5 scans per minute
+const CACHE_STORAGE_KEY = 'risk_scan_cache_v1';
+const RATE_LIMIT_STORAGE_KEY = 'risk_scan_rate_limits_v1';
+const CHANNEL_NAME = 'risk-assessment-scanner-cache';
+
+const isExpired = (entry: CacheEntry<unknown>, now: number) =>
+  now - entry.timestamp > (entry.ttl ?? DEFAULT_CACHE_TTL_MS);
+
+const toKey = (domain: string, scannerId?: string) =>
+  scannerId ? `${domain.toLowerCase()}#${scannerId}` : domain.toLowerCase();
 
 class ScannerCache {
   private readonly cache: Map<string, CacheEntry<unknown>> = new Map();
   private readonly rateLimits: Map<string, RateLimitEntry> = new Map();
+  private loaded = false;
+  private rateLimitsLoaded = false;
+  private channel: BroadcastChannel | null = null;
+  private readonly listeners: Set<() => void> = new Set();
 
   /**
-   * Get cached scan result if available and not expired
+   * Start sharing entries and rate limits with other open tabs (called once at startup)
    */
-  get<T>(domain: string): T | null {
-    const entry = this.cache.get(domain.toLowerCase());
+  connect(): void {
+    if (this.channel || typeof BroadcastChannel === 'undefined') return;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (e: MessageEvent<CacheMessage>) => this.applyMessage(e.data);
+  }
+
+  /**
+   * Get cached scan result if available, not expired and stored for the same inputs
+   */
+  get<T>(domain: string, { scannerId, fingerprint }: CacheKey = {}): T | null {
+    this.load();
+    const entry = this.cache.get(toKey(domain, scannerId));
     if (!entry) {
       return null;
     }
 
-    const now = Date.now();
-    if (now - entry.timestamp > CACHE_DURATION_MS) {
+    if (isExpired(entry, Date.now())) {
       // Cache expired, remove it
-      this.cache.delete(domain.toLowerCase());
+      this.delete(domain, scannerId);
+      return null;
+    }
+
+    // Stored for other inputs, e.g. before the DKIM selectors changed; the next set replaces it
+    if ((entry.fingerprint ?? '') !== (fingerprint ?? '')) {
       return null;
     }
 
@@ -41,13 +105,26 @@ class ScannerCache {
   }
 
   /**
-   * Store scan result in cache
+   * Store scan result in cache, for ttl milliseconds
    */
-  set<T>(domain: string, data: T): void {
-    this.cache.set(domain.toLowerCase(), {
-      data,
-      timestamp: Date.now()
-    });
+  set<T>(domain: string, data: T, ttl: number = DEFAULT_CACHE_TTL_MS, cacheKey: CacheKey = {}): void {
+    this.load();
+    const key = toKey(domain, cacheKey.scannerId);
+    const entry: CacheEntry<T> = { data, timestamp: Date.now(), ttl, domain: domain.toLowerCase(), ...cacheKey };
+    this.cache.set(key, entry);
+    this.saveEntries();
+    this.broadcast({ type: 'set', key, entry });
+  }
+
+  /**
+   * Remove one cached result
+   */
+  delete(domain: string, scannerId?: string): void {
+    this.load();
+    const key = toKey(domain, scannerId);
+    if (!this.cache.delete(key)) return;
+    this.saveEntries();
+    this.broadcast({ type: 'delete', key });
   }
 
   /**
@@ -55,12 +132,13 @@ class ScannerCache {
    * Returns { allowed: boolean, retryAfter?: number }
    */
   checkRateLimit(identifier: string = 'global'): { allowed: boolean; retryAfter?: number } {
+    this.loadRateLimits();
     const now = Date.now();
     const entry = this.rateLimits.get(identifier);
 
     if (!entry || now >= entry.resetTime) {
       // First request or window expired, create new entry
-      this.rateLimits.set(identifier, {
+      this.updateRateLimit(identifier, {
         count: 1,
         resetTime: now + RATE_LIMIT_WINDOW_MS
       });
@@ -74,20 +152,46 @@ class ScannerCache {
     }
 
     // Increment counter
-    entry.count++;
+    this.updateRateLimit(identifier, { ...entry, count: entry.count + 1 });
     return { allowed: true };
   }
 
+  /**
+   * Scans used in the current rate limit window, without counting a new one
+   */
+  getRateLimitStatus(identifier: string = 'global'): RateLimitStatus {
+    this.loadRateLimits();
+    const now = Date.now();
+    const entry = this.rateLimits.get(identifier);
+    if (!entry || now >= entry.resetTime) {
+      return { used: 0, limit: MAX_REQUESTS_PER_WINDOW, resetIn: 0 };
+    }
+    return { used: entry.count, limit: MAX_REQUESTS_PER_WINDOW, resetIn: Math.ceil((entry.resetTime - now) / 1000) };
+  }
+
   /**
    * Clear expired cache entries
    */
   cleanup(): void {
+    this.load();
     const now = Date.now();
+    const sizeBefore = this.cache.size;
     for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > CACHE_DURATION_MS) {
+      if (isExpired(entry, now)) {
         this.cache.delete(key);
       }
     }
+    if (this.cache.size !== sizeBefore) this.saveEntries();
+  }
+
+  /**
+   * Remove every cached result but keep the rate limits, so purging cannot be used to scan more often
+   */
+  purge(): void {
+    this.cache.clear();
+    this.loaded = true;
+    this.saveEntries();
+    this.broadcast({ type: 'purge' });
   }
 
   /**
@@ -96,23 +200,135 @@ class ScannerCache {
   clear(): void {
     this.cache.clear();
     this.rateLimits.clear();
+    this.loaded = true;
+    this.rateLimitsLoaded = true;
+    this.saveEntries();
+    this.saveRateLimits();
+    this.broadcast({ type: 'clear' });
+  }
+
+  /**
+   * Drop the in-memory copy so entries are read from storage again, e.g. after the vault locks or unlocks
+   */
+  reload(): void {
+    this.cache.clear();
+    this.loaded = false;
+    this.notify();
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): { size: number; entries: Array<{ domain: string; age: number }> } {
+  getStats(): CacheStats {
+    this.load();
     const now = Date.now();
-    const entries = Array.from(this.cache.entries()).map(([domain, entry]) => ({
-      domain,
-      age: Math.floor((now - entry.timestamp) / 1000 / 60) // Age in minutes
-    }));
+    const entries = Array.from(this.cache.entries())
+      .filter(([, entry]) => !isExpired(entry, now))
+      .map(([key, entry]) => ({
+        domain: entry.domain ?? key,
+        scannerId: entry.scannerId,
+        age: Math.floor((now - entry.timestamp) / 1000 / 60), // Age in minutes
+        expiresIn: Math.ceil((entry.timestamp + (entry.ttl ?? DEFAULT_CACHE_TTL_MS) - now) / 1000 / 60)
+      }));
 
     return {
-      size: this.cache.size,
+      size: entries.length,
       entries
     };
   }
+
+  // Notified whenever entries change, in this tab or another
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): void {
+    // Nothing can be read while the vault is locked; try again once it is unlocked
+    if (this.loaded || vault.getStatus() === 'locked') return;
+    this.loaded = true;
+    try {
+      const stored = JSON.parse(vault.getItem(CACHE_STORAGE_KEY) ?? '{}') as Record<string, CacheEntry<unknown>>;
+      Object.entries(stored).forEach(([key, entry]) => {
+        if (entry && typeof entry.timestamp === 'number') this.cache.set(key, entry);
+      });
+    } catch {
+      // Unreadable cache; start empty
+    }
+  }
+
+  private loadRateLimits(): void {
+    if (this.rateLimitsLoaded) return;
+    this.rateLimitsLoaded = true;
+    try {
+      const stored = JSON.parse(storage.getItem(RATE_LIMIT_STORAGE_KEY) ?? '{}') as Record<string, RateLimitEntry>;
+      Object.entries(stored).forEach(([identifier, entry]) => {
+        if (entry && typeof entry.count === 'number' && typeof entry.resetTime === 'number') {
+          this.rateLimits.set(identifier, entry);
+        }
+      });
+    } catch {
+      // Unreadable limits; start a fresh window
+    }
+  }
+
+  private updateRateLimit(identifier: string, entry: RateLimitEntry): void {
+    this.rateLimits.set(identifier, entry);
+    this.saveRateLimits();
+    this.broadcast({ type: 'rateLimit', identifier, entry });
+    this.notify();
+  }
+
+  private saveEntries(): void {
+    try {
+      vault.setItem(CACHE_STORAGE_KEY, JSON.stringify(Object.fromEntries(this.cache)));
+    } catch {
+      // Caching is best effort; storage reports the failed write
+    }
+    this.notify();
+  }
+
+  private saveRateLimits(): void {
+    try {
+      storage.setItem(RATE_LIMIT_STORAGE_KEY, JSON.stringify(Object.fromEntries(this.rateLimits)));
+    } catch {
+      // The in-memory limit still applies to this tab
+    }
+  }
+
+  // Other tabs already stored the change, so messages only update memory
+  private applyMessage(message: CacheMessage): void {
+    switch (message.type) {
+      case 'set':
+        if (!this.loaded) return; // picked up from storage on first use
+        this.cache.set(message.key, message.entry);
+        break;
+      case 'delete':
+        this.cache.delete(message.key);
+        break;
+      case 'purge':
+        this.cache.clear();
+        break;
+      case 'clear':
+        this.cache.clear();
+        this.rateLimits.clear();
+        break;
+      case 'rateLimit':
+        this.rateLimits.set(message.identifier, message.entry);
+        break;
+    }
+    this.notify();
+  }
+
+  private broadcast(message: CacheMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
 }
 
 // Singleton instance
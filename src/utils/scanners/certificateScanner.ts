@@ -8,8 +8,9 @@ export const certificateScanner: DomainScanner = {
   id: 'certificates',
   label: 'certificates.label',
   description: 'certificates.description',
-  run: async (domain) => {
-    const certificates = await fetchCertificates(domain);
+  cacheTtl: 6 * 60 * 60 * 1000, // 6 hours - crt.sh is slow and new certificates are rare
+  run: async (domain, signal) => {
+    const certificates = await fetchCertificates(domain, signal);
 
     if (!certificates || certificates.length === 0) {
       return {
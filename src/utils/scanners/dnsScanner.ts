@@ -2,24 +2,24 @@
 
 import i18next from 'i18next';
 import { DomainScanner, ExecutedScannerResult, ScannerInterpretation } from '../../types/domainScan';
-import { fetchDNS } from '../domainChecks';
+import { DNSRecordResult, fetchDNS } from '../domainChecks';
 
 export const dnsScanner: DomainScanner = {
   id: 'dns',
   label: 'dns.label',
   description: 'dns.description',
   timeout: 5000, // 5 seconds - DNS should be fast
+  cacheTtl: 15 * 60 * 1000, // 15 minutes - records change when the client fixes issues
   dataSource: {
     name: 'Google Public DNS',
     url: 'https://dns.google',
   },
-  run: async (domain) => {
+  run: async (domain, signal, context) => {
     const types = ['A', 'AAAA', 'MX', 'TXT', 'CNAME'];
-    const records = [] as { type: string; data: string[] }[];
-    for (const t of types) {
-      const r = await fetchDNS(domain, t);
-      if (r) records.push(r);
-    }
+    const resolve = context?.resolveDNS ?? fetchDNS;
+    // Other scanners wait for this one, so the lookups run in parallel
+    const lookups = await Promise.all(types.map((t) => resolve(domain, t, signal)));
+    const records = lookups.filter((r): r is DNSRecordResult => r !== null);
 
     // Validate DNS configuration and detect issues
     const issues: string[] = [];
@@ -95,6 +95,10 @@ export const dnsScanner: DomainScanner = {
   }
 };
 
+// Records of one type from a completed DNS scan, for scanners that depend on it; undefined if they were not looked up
+export const getDnsRecords = (result: ExecutedScannerResult | undefined, type: string): string[] | undefined =>
+  (result?.data as { records?: DNSRecordResult[] } | undefined)?.records?.find((r) => r.type === type)?.data;
+
 // Interpretation function for DNS scanner results
 export const interpretDnsResult = (
   scanner: ExecutedScannerResult,
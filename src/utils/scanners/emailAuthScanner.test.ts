@@ -394,6 +394,36 @@ describe('emailAuthScanner', () => {
     expect(result.summary).toContain('DMARC');
     expect(result.summary).toContain('DKIM');
   });
+
+  it('should read SPF from the DNS scanner\'s TXT records and look up the rest with the shared resolver', async () => {
+    const mockExtractSPF = domainChecks.extractSPF as ReturnType<typeof vi.fn>;
+    const mockFetchDMARC = domainChecks.fetchDMARC as ReturnType<typeof vi.fn>;
+    const mockCheckDKIM = domainChecks.checkDKIM as ReturnType<typeof vi.fn>;
+    const resolveDNS = vi.fn();
+
+    mockExtractSPF.mockReturnValue('v=spf1 ~all');
+    mockFetchDMARC.mockResolvedValue(null);
+    mockCheckDKIM.mockResolvedValue([]);
+
+    await emailAuthScanner.run('example.com', undefined, {
+      resolveDNS,
+      results: {
+        dns: {
+          id: 'dns',
+          label: 'dns.label',
+          status: 'complete',
+          startedAt: '2025-01-01T00:00:00.000Z',
+          data: { records: [{ type: 'TXT', data: ['v=spf1 ~all'] }] },
+        },
+      },
+    });
+
+    expect(mockExtractSPF).toHaveBeenCalledWith(['v=spf1 ~all']);
+    expect(resolveDNS).not.toHaveBeenCalled();
+    expect(domainChecks.fetchDNS).not.toHaveBeenCalled();
+    expect(mockFetchDMARC).toHaveBeenCalledWith('example.com', undefined, resolveDNS);
+    expect(mockCheckDKIM).toHaveBeenCalledWith('example.com', undefined, undefined, resolveDNS);
+  });
 });
 
 describe('interpretEmailAuthResult', () => {
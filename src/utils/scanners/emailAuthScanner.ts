@@ -4,25 +4,35 @@ import i18next from 'i18next';
 import { DomainScanner, ExecutedScannerResult, ScannerInterpretation, SeverityLevel } from '../../types/domainScan';
 import { fetchDNS, extractSPF, fetchDMARC, checkDKIM } from '../domainChecks';
 import { getDkimSelectors } from '../dkimSelectorsService';
+import { getDnsRecords } from './dnsScanner';
 
 export const emailAuthScanner: DomainScanner = {
   id: 'emailAuth',
   label: 'emailAuth.label',
   description: 'emailAuth.description',
   timeout: 10000, // 10 seconds - multiple DNS lookups
+  cacheTtl: 15 * 60 * 1000, // 15 minutes - SPF/DMARC fixes should show up quickly
+  // Saving other DKIM selectors changes what a scan checks
+  inputFingerprint: (domain) => [...getDkimSelectors(domain)].sort().join(','),
   dataSource: {
     name: 'Google Public DNS',
     url: 'https://dns.google',
   },
-  run: async (domain) => {
-    const txtRec = await fetchDNS(domain, 'TXT');
-    const txtRecords = txtRec?.data || [];
+  // The SPF record is among the TXT records the DNS scanner already looked up
+  dependsOn: ['dns'],
+  run: async (domain, signal, context) => {
+    const resolve = context?.resolveDNS ?? fetchDNS;
+    const txtRecords = getDnsRecords(context?.results.dns, 'TXT')
+      ?? (await resolve(domain, 'TXT', signal))?.data
+      ?? [];
     const spf = extractSPF(txtRecords);
-    const dmarc = await fetchDMARC(domain);
+    const dmarc = await fetchDMARC(domain, signal, resolve);
 
     // Get custom DKIM selectors from localStorage if available
     const customSelectors = getDkimSelectors(domain);
-    const dkimSelectorsFound = await checkDKIM(domain, customSelectors.length > 0 ? customSelectors : undefined);
+    const dkimSelectorsFound = await checkDKIM(
+      domain, customSelectors.length > 0 ? customSelectors : undefined, signal, resolve
+    );
 
     const issues: string[] = [];
     const warnings: string[] = [];
@@ -5,7 +5,16 @@ import {
   runScanner,
   interpretScannerResult,
   setScannerTimeout,
+  getScannerCacheTtl,
+  ERROR_CACHE_TTL_MS,
+  cacheScannerResult,
+  getCachedScannerResults,
+  mergeScannerResult,
+  orderByDependencies,
 } from './index';
+import { DEFAULT_CACHE_TTL_MS, scannerCache } from '../scannerCache';
+import { saveDkimSelectors } from '../dkimSelectorsService';
+import type { DomainScanner, ExecutedScannerResult } from '../../types/domainScan';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -44,6 +53,32 @@ describe('SCANNERS', () => {
   });
 });
 
+describe('orderByDependencies', () => {
+  const scanner = (id: string, dependsOn?: string[]): DomainScanner => ({
+    id,
+    label: id,
+    description: id,
+    dependsOn,
+    run: async () => ({}),
+  });
+
+  it('puts every scanner after the scanners it depends on', () => {
+    const ordered = orderByDependencies([scanner('c', ['b']), scanner('b', ['a']), scanner('a'), scanner('d')]);
+    expect(ordered.map((s) => s.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('rejects circular and unknown dependencies', () => {
+    expect(() => orderByDependencies([scanner('a', ['b']), scanner('b', ['a'])]))
+      .toThrow('Circular scanner dependency involving a');
+    expect(() => orderByDependencies([scanner('a', ['missing'])]))
+      .toThrow('Scanner a depends on unknown scanner missing');
+  });
+
+  it('accepts the registered scanners', () => {
+    expect(orderByDependencies(SCANNERS)).toHaveLength(SCANNERS.length);
+  });
+});
+
 describe('setScannerTimeout', () => {
   it('should reject invalid timeout values', () => {
     expect(() => setScannerTimeout(0)).toThrow('Invalid timeout value');
@@ -209,6 +244,44 @@ describe('runAllScanners', () => {
     expect(result.issues.length).toBeGreaterThan(0);
   });
 
+  it('should reuse given results instead of running those scanners', async () => {
+    const cached: ExecutedScannerResult = {
+      id: 'rdap', label: 'rdap.label', status: 'complete', startedAt: '2025-01-01T00:00:00.000Z', issues: ['cached']
+    };
+
+    const result = await runAllScanners('example.com', undefined, [cached]);
+
+    expect(result.scanners.find((r) => r.id === 'rdap')).toBe(cached);
+    expect(result.issues).toContain('cached');
+    const fetchedUrls = (global.fetch as ReturnType<typeof vi.fn>).mock.calls.map(([url]) => String(url));
+    expect(fetchedUrls.some((url) => url.includes('rdap'))).toBe(false);
+  });
+
+  it('should look up each DNS record once per scan', async () => {
+    await runAllScanners('example.com');
+
+    const fetchedUrls = (global.fetch as ReturnType<typeof vi.fn>).mock.calls.map(([url]) => String(url));
+    expect(fetchedUrls.filter((url) => url.includes('name=example.com&type=TXT'))).toHaveLength(1);
+  });
+
+  it('should start dependent scanners once their dependencies have finished', async () => {
+    const result = await runAllScanners('example.com');
+
+    const dns = result.scanners.find((r) => r.id === 'dns')!;
+    const emailAuth = result.scanners.find((r) => r.id === 'emailAuth')!;
+    expect(emailAuth.status).toBe('complete');
+    expect(emailAuth.startedAt >= dns.finishedAt!).toBe(true);
+  });
+
+  it('should only run the scanners of the chosen profile and record it', async () => {
+    const result = await runAllScanners('example.com', undefined, [], undefined, 'quick');
+
+    expect(result.profile).toBe('quick');
+    expect(result.scanners.map((r) => r.id)).toEqual(['dns', 'emailAuth', 'rdap', 'securityHeaders']);
+    const fetchedUrls = (global.fetch as ReturnType<typeof vi.fn>).mock.calls.map(([url]) => String(url));
+    expect(fetchedUrls.some((url) => url.includes('ssllabs') || url.includes('crt.sh'))).toBe(false);
+  });
+
   it('should include dataSource information in results', async () => {
     const result = await runAllScanners('example.com');
 
@@ -320,6 +393,130 @@ describe('runScanner', () => {
   });
 });
 
+describe('cancellation', () => {
+  // A fetch that only settles when its request is aborted
+  const hangingFetch = () => (global.fetch as ReturnType<typeof vi.fn>).mockImplementation(
+    (_url, init?: { signal?: AbortSignal }) => new Promise((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+    })
+  );
+
+  it('aborts the scanner\'s requests when its timeout fires', async () => {
+    hangingFetch();
+    const dnsScanner = SCANNERS.find((s) => s.id === 'dns')!;
+    const originalTimeout = dnsScanner.timeout;
+    dnsScanner.timeout = 5;
+    try {
+      const result = await runScanner('example.com', 'dns');
+
+      expect(result.status).toBe('error');
+      expect(result.error).toMatch(/timed out/);
+      const { signal } = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1] as { signal?: AbortSignal };
+      expect(signal!.aborted).toBe(true);
+    } finally {
+      dnsScanner.timeout = originalTimeout;
+    }
+  });
+
+  it('stops every running scanner when the caller aborts', async () => {
+    hangingFetch();
+    const controller = new AbortController();
+    const onProgress = vi.fn();
+
+    const scan = runAllScanners('example.com', onProgress, [], controller.signal);
+    // Let the scanners start their requests
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+    const result = await scan;
+
+    expect(result.scanners.map((r) => r.status)).toEqual(SCANNERS.map(() => 'error'));
+    expect(result.scanners.every((r) => r.error === 'Scan cancelled')).toBe(true);
+    const signals = (global.fetch as ReturnType<typeof vi.fn>).mock.calls.map(([, init]) => init?.signal);
+    expect(signals.length).toBeGreaterThan(0);
+    expect(signals.every((signal) => signal?.aborted)).toBe(true);
+  });
+
+  it('does not start a scanner when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await runScanner('example.com', 'rdap', controller.signal);
+
+    expect(result).toMatchObject({ status: 'error', error: 'Scan cancelled' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('per-scanner caching', () => {
+  const result = (id: string, status: ExecutedScannerResult['status'] = 'complete'): ExecutedScannerResult => ({
+    id,
+    label: id,
+    status,
+    startedAt: new Date().toISOString(),
+    issues: [`${id} issue`],
+  });
+
+  beforeEach(() => {
+    scannerCache.clear();
+    localStorage.clear();
+  });
+
+  it('uses each scanner\'s own lifetime and a short one for errors', () => {
+    expect(getScannerCacheTtl(result('dns'))).toBe(15 * 60 * 1000);
+    expect(getScannerCacheTtl(result('rdap'))).toBe(24 * 60 * 60 * 1000);
+    expect(getScannerCacheTtl(result('rdap', 'error'))).toBe(ERROR_CACHE_TTL_MS);
+    expect(getScannerCacheTtl(result('unknown'))).toBe(DEFAULT_CACHE_TTL_MS);
+  });
+
+  it('returns cached results in scanner order', () => {
+    cacheScannerResult('Example.com', result('rdap'));
+    cacheScannerResult('example.com', result('dns'));
+
+    expect(getCachedScannerResults('example.com').map((r) => r.id)).toEqual(['dns', 'rdap']);
+    expect(getCachedScannerResults('other.com')).toEqual([]);
+  });
+
+  it('drops the email auth result when the DKIM selectors change', () => {
+    cacheScannerResult('example.com', result('emailAuth'));
+    cacheScannerResult('example.com', result('dns'));
+    expect(getCachedScannerResults('example.com').map((r) => r.id)).toEqual(['dns', 'emailAuth']);
+
+    saveDkimSelectors('example.com', ['selector1']);
+
+    expect(getCachedScannerResults('example.com').map((r) => r.id)).toEqual(['dns']);
+  });
+
+  it('keeps results of profiles with other scanner options apart', () => {
+    cacheScannerResult('example.com', result('dns'));
+    cacheScannerResult('example.com', result('sslLabs'), 'deep');
+    cacheScannerResult('example.com', result('securityHeaders'), 'quick');
+
+    expect(getCachedScannerResults('example.com').map((r) => r.id)).toEqual(['dns', 'securityHeaders']);
+    expect(getCachedScannerResults('example.com', 'deep').map((r) => r.id))
+      .toEqual(['dns', 'sslLabs', 'securityHeaders']);
+    expect(getCachedScannerResults('example.com', 'quick').map((r) => r.id)).toEqual(['dns', 'securityHeaders']);
+  });
+
+  it('merges a rescanned result into the aggregate and recomputes its issues', () => {
+    const aggregate = {
+      domain: 'example.com',
+      timestamp: '',
+      issues: ['dns issue', 'rdap issue'],
+      scanners: [result('dns'), result('rdap')],
+    };
+    const rescanned = { ...result('dns'), issues: [] };
+
+    const merged = mergeScannerResult(aggregate, rescanned);
+
+    expect(merged.scanners).toEqual([rescanned, aggregate.scanners[1]]);
+    expect(merged.issues).toEqual(['rdap issue']);
+    expect(merged.timestamp).not.toBe('');
+    expect(mergeScannerResult({ ...aggregate, profile: 'quick' }, rescanned).profile).toBe('quick');
+    expect(mergeScannerResult(aggregate, result('sslLabs')).scanners.map((r) => r.id))
+      .toEqual(['dns', 'rdap', 'sslLabs']);
+  });
+});
+
 describe('interpretScannerResult', () => {
   it('should return error interpretation for failed scanners', () => {
     const scanner = {
@@ -6,8 +6,12 @@ import {
   DomainScanner,
   ExecutedScannerResult,
   DomainScanAggregate,
+  ScanContext,
   ScannerInterpretation,
+  ScannerOptions,
+  ScanProfileId,
 } from '../../types/domainScan';
+import { createDnsResolver } from '../domainChecks';
 
 // Import individual scanners
 import { dnsScanner, interpretDnsResult } from './dnsScanner';
@@ -16,6 +20,10 @@ import { certificateScanner, interpretCertificateResult } from './certificateSca
 import { rdapScanner, interpretRdapResult } from './rdapScanner';
 import { sslLabsScanner, interpretSslLabsResult } from './sslLabsScanner';
 import { securityHeadersScanner, interpretSecurityHeadersResult } from './securityHeadersScanner';
+import { DEFAULT_CACHE_TTL_MS, scannerCache } from '../scannerCache';
+import { DEFAULT_SCAN_PROFILE, getScanProfile } from './profiles';
+
+export { DEFAULT_SCAN_PROFILE, SCAN_PROFILES, getScanProfile } from './profiles';
 
 
 // Default timeout for each scanner (30 seconds). Made mutable for testing.
@@ -27,25 +35,45 @@ export const setScannerTimeout = (ms: number) => {
   DEFAULT_SCANNER_TIMEOUT = ms;
 };
 
-// Utility to run a promise with timeout
-const withTimeout = async <T>(promise: Promise<T>, timeoutMs: number, scannerLabel: string): Promise<T> => {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(
-        () => {
-          // Translate the scanner label before interpolating into the error message
-          const translatedLabel = i18next.t(scannerLabel, { ns: 'scanners' });
-          reject(new Error(i18next.t('common.errors.timeout', {
-            ns: 'scanners',
-            label: translatedLabel,
-            timeout: timeoutMs
-          })));
-        },
-        timeoutMs
-      )
-    )
-  ]);
+// Rejects with the abort reason once the signal aborts
+const whenAborted = (signal: AbortSignal): Promise<never> => new Promise((_, reject) => {
+  if (signal.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+});
+
+// Run a scanner with its own AbortController, aborted when the timeout fires or the caller's signal aborts, so the
+// scanner's requests and polling stop instead of running on in the background
+const runWithTimeout = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  scannerLabel: string,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const cancel = () => controller.abort(new Error(i18next.t('common.errors.cancelled', { ns: 'scanners' })));
+  if (signal?.aborted) cancel();
+  controller.signal.throwIfAborted();
+  signal?.addEventListener('abort', cancel, { once: true });
+  const timer = setTimeout(() => {
+    // Translate the scanner label before interpolating into the error message
+    const translatedLabel = i18next.t(scannerLabel, { ns: 'scanners' });
+    controller.abort(new Error(i18next.t('common.errors.timeout', {
+      ns: 'scanners',
+      label: translatedLabel,
+      timeout: timeoutMs
+    })));
+  }, timeoutMs);
+
+  try {
+    // The race settles at once even if a scanner ignores its signal
+    return await Promise.race([run(controller.signal), whenAborted(controller.signal)]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
 };
 
 // Array of all available scanners
@@ -58,6 +86,15 @@ export const SCANNERS: DomainScanner[] = [
   securityHeadersScanner,
 ];
 
+// Scanners a profile runs, in SCANNERS order
+export const getProfileScanners = (profileId: ScanProfileId = DEFAULT_SCAN_PROFILE): DomainScanner[] => {
+  const { scannerIds } = getScanProfile(profileId);
+  return SCANNERS.filter((scanner) => !scannerIds || scannerIds.includes(scanner.id));
+};
+
+const getScannerOptions = (scanner: DomainScanner, profileId: ScanProfileId): ScannerOptions =>
+  getScanProfile(profileId).scannerOptions?.[scanner.id] ?? {};
+
 // Interpret scanner results to provide user-friendly status and recommendations
 export const interpretScannerResult = (scanner: ExecutedScannerResult): ScannerInterpretation => {
   if (scanner.status === 'error') {
@@ -97,37 +134,149 @@ export const interpretScannerResult = (scanner: ExecutedScannerResult): ScannerI
   }
 };
 
-// Execute all scanners in parallel for faster results.
+// Failed results are worth retrying soon, whatever the scanner's usual cache lifetime
+export const ERROR_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// How long a scanner's result may be served from the cache
+export const getScannerCacheTtl = (result: ExecutedScannerResult): number => {
+  if (result.status === 'error') return ERROR_CACHE_TTL_MS;
+  return SCANNERS.find((s) => s.id === result.id)?.cacheTtl ?? DEFAULT_CACHE_TTL_MS;
+};
+
+// Profile options are part of the fingerprint, except the timeout, which does not change what a scanner checks
+const getCacheKey = (scanner: DomainScanner, domain: string, profileId: ScanProfileId) => {
+  const options = Object.entries(getScannerOptions(scanner, profileId)).filter(([key]) => key !== 'timeout');
+  const input = scanner.inputFingerprint?.(domain);
+  return {
+    scannerId: scanner.id,
+    fingerprint: options.length > 0 ? `${input ?? ''}|${JSON.stringify(Object.fromEntries(options))}` : input,
+  };
+};
+
+// Results cached for this domain whose scanner inputs have not changed since, for the scanners of the profile in
+// SCANNERS order
+export const getCachedScannerResults = (
+  domain: string,
+  profileId: ScanProfileId = DEFAULT_SCAN_PROFILE
+): ExecutedScannerResult[] => {
+  const trimmed = domain.trim().toLowerCase();
+  return getProfileScanners(profileId)
+    .map((scanner) => scannerCache.get<ExecutedScannerResult>(trimmed, getCacheKey(scanner, trimmed, profileId)))
+    .filter((result): result is ExecutedScannerResult => result !== null);
+};
+
+export const cacheScannerResult = (
+  domain: string,
+  result: ExecutedScannerResult,
+  profileId: ScanProfileId = DEFAULT_SCAN_PROFILE
+): void => {
+  const scanner = SCANNERS.find((s) => s.id === result.id);
+  if (!scanner) return;
+  const trimmed = domain.trim().toLowerCase();
+  scannerCache.set(trimmed, result, getScannerCacheTtl(result), getCacheKey(scanner, trimmed, profileId));
+};
+
+export const buildAggregate = (
+  domain: string,
+  results: ExecutedScannerResult[],
+  profile?: ScanProfileId
+): DomainScanAggregate => ({
+  domain: domain.trim().toLowerCase(),
+  timestamp: new Date().toISOString(),
+  scanners: results,
+  issues: results.flatMap((r) => r.issues || []),
+  ...(profile && { profile }),
+});
+
+// Replace one scanner's result in an aggregate, e.g. after rescanning just that scanner
+export const mergeScannerResult = (
+  aggregate: DomainScanAggregate,
+  result: ExecutedScannerResult
+): DomainScanAggregate => {
+  const replaced = aggregate.scanners.some((r) => r.id === result.id);
+  const scanners = replaced
+    ? aggregate.scanners.map((r) => (r.id === result.id ? result : r))
+    : [...aggregate.scanners, result];
+  return buildAggregate(aggregate.domain, scanners, aggregate.profile);
+};
+
+// Scanners ordered so each comes after the scanners it depends on. Throws on unknown or circular dependencies.
+export const orderByDependencies = (scanners: DomainScanner[]): DomainScanner[] => {
+  const ordered: DomainScanner[] = [];
+  const visiting = new Set<string>();
+  const visit = (scanner: DomainScanner) => {
+    if (ordered.includes(scanner)) return;
+    if (visiting.has(scanner.id)) throw new Error(`Circular scanner dependency involving ${scanner.id}`);
+    visiting.add(scanner.id);
+    scanner.dependsOn?.forEach((id) => {
+      const dependency = scanners.find((s) => s.id === id);
+      if (!dependency) throw new Error(`Scanner ${scanner.id} depends on unknown scanner ${id}`);
+      visit(dependency);
+    });
+    visiting.delete(scanner.id);
+    ordered.push(scanner);
+  };
+  scanners.forEach(visit);
+  return ordered;
+};
+
+// Execute the profile's scanners in parallel for faster results; a scanner with dependencies starts once they have
+// finished, and a dependency the profile leaves out is not run. Scanners with a result in `reuse` are not run again,
+// and their result is what dependent scanners receive.
+// All scanners of the scan share one memoized DNS resolver.
+// Aborting the signal stops every running scanner; they finish with a "cancelled" error.
 export const runAllScanners = async (
   domain: string,
-  onProgress?: (partial: ExecutedScannerResult[]) => void
+  onProgress?: (partial: ExecutedScannerResult[]) => void,
+  reuse: ExecutedScannerResult[] = [],
+  signal?: AbortSignal,
+  profileId: ScanProfileId = DEFAULT_SCAN_PROFILE
 ): Promise<DomainScanAggregate> => {
   const trimmed = domain.trim().toLowerCase();
-  const results: ExecutedScannerResult[] = [];
+  const resolveDNS = createDnsResolver(signal);
+  const scanners = getProfileScanners(profileId);
 
-  // Initialize all scanner result objects
-  const scannerPromises = SCANNERS.map((scanner) => {
-    const start = new Date().toISOString();
-    const base: ExecutedScannerResult = {
-      id: scanner.id,
-      label: scanner.label,
-      status: 'running',
-      startedAt: start,
-      data: undefined,
-      summary: undefined,
-      issues: [],
-      dataSource: scanner.dataSource,
-    };
-    results.push(base);
+  // Initialize the result objects of the profile's scanners, in SCANNERS order
+  const results: ExecutedScannerResult[] = scanners.map((scanner) => reuse.find((r) => r.id === scanner.id) ?? {
+    id: scanner.id,
+    label: scanner.label,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    data: undefined,
+    summary: undefined,
+    issues: [],
+    dataSource: scanner.dataSource,
+  });
 
-    // Run scanner with its specific timeout (or default)
-    const timeoutMs = scanner.timeout ?? DEFAULT_SCANNER_TIMEOUT;
+  // Start scanners after their dependencies, in dependency order so every dependency's promise already exists
+  const finished = new Map<string, Promise<ExecutedScannerResult>>();
+  orderByDependencies(SCANNERS).filter((scanner) => scanners.includes(scanner)).forEach((scanner) => {
+    const base = results[scanners.indexOf(scanner)];
+    if (reuse.includes(base)) {
+      finished.set(scanner.id, Promise.resolve(base));
+      return;
+    }
 
-    return withTimeout(
-      scanner.run(trimmed),
-      timeoutMs,
-      scanner.label
-    )
+    // Run scanner with the profile's timeout, its own or the default
+    const options = getScannerOptions(scanner, profileId);
+    const timeoutMs = options.timeout ?? scanner.timeout ?? DEFAULT_SCANNER_TIMEOUT;
+
+    const dependsOn = (scanner.dependsOn ?? []).filter((id) => finished.has(id));
+    const done = Promise.all(dependsOn.map((id) => finished.get(id)!))
+      .then((dependencies) => {
+        const context: ScanContext = {
+          resolveDNS,
+          results: Object.fromEntries(dependencies.filter((r) => r.status === 'complete').map((r) => [r.id, r])),
+          options,
+        };
+        if (dependencies.length > 0) base.startedAt = new Date().toISOString();
+        return runWithTimeout(
+          (scannerSignal) => scanner.run(trimmed, scannerSignal, context),
+          timeoutMs,
+          scanner.label,
+          signal
+        );
+      })
       .then((r) => {
         const issues = r.issues || scanner.deriveIssues?.(r, trimmed) || [];
         Object.assign(base, r, { status: 'complete', issues, finishedAt: new Date().toISOString() });
@@ -141,34 +290,41 @@ export const runAllScanners = async (
         onProgress?.([...results]); // Notify on error
         return base;
       });
+    finished.set(scanner.id, done);
   });
 
   // Initial progress callback with all scanners in "running" state
   onProgress?.([...results]);
 
   // Wait for all scanners to complete (or fail)
-  await Promise.allSettled(scannerPromises);
+  await Promise.allSettled(finished.values());
 
-  const allIssues = results.flatMap((r) => r.issues || []);
-  return {
-    domain: trimmed,
-    timestamp: new Date().toISOString(),
-    scanners: results,
-    issues: allIssues
-  };
+  return buildAggregate(trimmed, results, profileId);
 };
 
-// Convenience to run an individual scanner (e.g., rerun one that errored) without affecting others.
-export const runScanner = async (domain: string, scannerId: string): Promise<ExecutedScannerResult> => {
+// Convenience to run an individual scanner (e.g., rerun one that errored) without affecting others, with the options
+// of the given profile. Its dependencies are not run, so it does its own lookups instead of using their results.
+export const runScanner = async (
+  domain: string,
+  scannerId: string,
+  signal?: AbortSignal,
+  profileId: ScanProfileId = DEFAULT_SCAN_PROFILE
+): Promise<ExecutedScannerResult> => {
   const scanner = SCANNERS.find((s) => s.id === scannerId);
   if (!scanner) throw new Error('Scanner not found: ' + scannerId);
   const start = new Date().toISOString();
-  const timeoutMs = scanner.timeout ?? DEFAULT_SCANNER_TIMEOUT;
+  const options = getScannerOptions(scanner, profileId);
+  const timeoutMs = options.timeout ?? scanner.timeout ?? DEFAULT_SCANNER_TIMEOUT;
   try {
-    const r = await withTimeout(
-      scanner.run(domain.trim().toLowerCase()),
+    const r = await runWithTimeout(
+      (scannerSignal) => scanner.run(
+        domain.trim().toLowerCase(),
+        scannerSignal,
+        { resolveDNS: createDnsResolver(scannerSignal), results: {}, options }
+      ),
       timeoutMs,
-      scanner.label
+      scanner.label,
+      signal
     );
     return {
       id: scanner.id,
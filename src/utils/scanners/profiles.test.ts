@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCAN_PROFILE, SCAN_PROFILES, getScanProfile } from './profiles';
+import { SCANNERS } from './index';
+
+describe('SCAN_PROFILES', () => {
+  it('should have unique ids, including the default profile', () => {
+    const ids = SCAN_PROFILES.map((p) => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain(DEFAULT_SCAN_PROFILE);
+  });
+
+  it('should only refer to registered scanners', () => {
+    const scannerIds = SCANNERS.map((s) => s.id);
+    SCAN_PROFILES.forEach((profile) => {
+      (profile.scannerIds ?? []).forEach((id) => expect(scannerIds).toContain(id));
+      Object.keys(profile.scannerOptions ?? {}).forEach((id) => expect(scannerIds).toContain(id));
+    });
+  });
+
+  it('should leave the slow SSL Labs assessment out of the quick profile', () => {
+    expect(getScanProfile('quick').scannerIds).not.toContain('sslLabs');
+  });
+});
+
+describe('getScanProfile', () => {
+  it('should return the profile with the given id', () => {
+    expect(getScanProfile('deep').id).toBe('deep');
+  });
+
+  it('should fall back to the default profile for missing or unknown ids', () => {
+    expect(getScanProfile().id).toBe(DEFAULT_SCAN_PROFILE);
+    expect(getScanProfile('exhaustive').id).toBe(DEFAULT_SCAN_PROFILE);
+  });
+});
@@ -0,0 +1,30 @@
+// Scan profiles: which scanners a scan runs and with which options.
+
+import { ScanProfile, ScanProfileId } from '../../types/domainScan';
+
+export const DEFAULT_SCAN_PROFILE: ScanProfileId = 'standard';
+
+export const SCAN_PROFILES: ScanProfile[] = [
+  {
+    // A first look in well under a minute: no SSL Labs assessment and no certificate history
+    id: 'quick',
+    scannerIds: ['dns', 'emailAuth', 'rdap', 'securityHeaders'],
+    scannerOptions: {
+      securityHeaders: { timeout: 8000 },
+    },
+  },
+  {
+    id: 'standard',
+  },
+  {
+    // SSL Labs assesses the server again instead of returning an assessment it cached
+    id: 'deep',
+    scannerOptions: {
+      sslLabs: { fresh: true },
+    },
+  },
+];
+
+// The profile with this id, or the default one for unknown ids and scans from before profiles
+export const getScanProfile = (id?: string): ScanProfile =>
+  SCAN_PROFILES.find((p) => p.id === id) ?? SCAN_PROFILES.find((p) => p.id === DEFAULT_SCAN_PROFILE)!;
@@ -8,11 +8,12 @@ export const rdapScanner: DomainScanner = {
   label: 'rdap.label',
   description: 'rdap.description',
   timeout: 10000, // 10 seconds - bootstrap lookup + RDAP query
+  cacheTtl: 24 * 60 * 60 * 1000, // 24 hours - registration data rarely changes
   dataSource: {
     name: 'RDAP',
     url: 'https://about.rdap.org/',
   },
-  run: async (domain) => {
+  run: async (domain, signal) => {
     const issues: string[] = [];
     const warnings: string[] = [];
 
@@ -31,7 +32,7 @@ export const rdapScanner: DomainScanner = {
 
       // Step 1: Query IANA RDAP bootstrap service to find the correct RDAP server for this TLD
       const bootstrapUrl = 'https://data.iana.org/rdap/dns.json';
-      const bootstrapResponse = await fetch(bootstrapUrl);
+      const bootstrapResponse = await fetch(bootstrapUrl, { signal });
 
       if (!bootstrapResponse.ok) {
         throw new Error(`Failed to fetch RDAP bootstrap data: ${bootstrapResponse.status}`);
@@ -73,7 +74,7 @@ export const rdapScanner: DomainScanner = {
       for (const server of rdapServers) {
         try {
           const rdapUrl = `${server}domain/${domain}`;
-          const response = await fetch(rdapUrl);
+          const response = await fetch(rdapUrl, { signal });
 
           if (response.ok) {
             rdapData = await response.json();
@@ -86,6 +87,7 @@ export const rdapScanner: DomainScanner = {
             continue;
           }
         } catch (err) {
+          signal?.throwIfAborted();
           lastError = err instanceof Error ? err.message : 'Unknown error';
           continue;
         }
@@ -187,6 +189,8 @@ export const rdapScanner: DomainScanner = {
         },
       };
     } catch (err: unknown) {
+      // A cancelled or timed-out scan is not a failed lookup
+      signal?.throwIfAborted();
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       return {
         data: { error: errorMessage },
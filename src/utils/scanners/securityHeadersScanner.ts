@@ -8,11 +8,12 @@ export const securityHeadersScanner: DomainScanner = {
   label: 'securityHeaders.label',
   description: 'securityHeaders.description',
   timeout: 15000, // 15 seconds - external service
+  cacheTtl: 60 * 60 * 1000, // 1 hour
   dataSource: {
     name: 'securityheaders.com',
     url: 'https://securityheaders.com',
   },
-  run: async (domain) => {
+  run: async (domain, signal) => {
     const issues: string[] = [];
     const warnings: string[] = [];
 
@@ -28,7 +29,7 @@ export const securityHeadersScanner: DomainScanner = {
       const proxyUrl = new URL('https://corsproxy.io/');
       proxyUrl.searchParams.set('url', testUrl);
 
-      const response = await fetch(proxyUrl);
+      const response = await fetch(proxyUrl, { signal });
       if (!response.ok) {
         throw new Error(`securityheaders.com returned ${response.status}: ${response.statusText}`);
       }
@@ -123,6 +124,8 @@ export const securityHeadersScanner: DomainScanner = {
       };
 
     } catch (err: unknown) {
+      // A cancelled or timed-out scan is not a service outage
+      signal?.throwIfAborted();
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
 
       // If we can't reach the service, provide a fallback
@@ -221,6 +221,51 @@ describe('sslLabsScanner', () => {
     expect(result.issues?.some((issue) => issue.includes('Failed to scan'))).toBe(true);
   });
 
+  it('should stop polling when aborted', async () => {
+    vi.useFakeTimers();
+    const mockFetch = global.fetch as ReturnType<typeof vi.fn>;
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ status: 'IN_PROGRESS' }),
+    });
+    const controller = new AbortController();
+
+    const run = sslLabsScanner.run('example.com', controller.signal);
+    const outcome = expect(run).rejects.toThrow('Scan cancelled');
+    await vi.advanceTimersByTimeAsync(30000);
+    controller.abort(new Error('Scan cancelled'));
+    await outcome;
+
+    const calls = mockFetch.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(mockFetch.mock.calls.length).toBe(calls);
+    expect(mockFetch.mock.calls[0][1]).toEqual({ signal: controller.signal });
+    vi.useRealTimers();
+  });
+
+  it('should start a new assessment when asked for a fresh one', async () => {
+    vi.useFakeTimers();
+    const mockFetch = global.fetch as ReturnType<typeof vi.fn>;
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'IN_PROGRESS' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'READY', endpoints: [{ grade: 'A' }] }) });
+
+    const run = sslLabsScanner.run('example.com', undefined, {
+      resolveDNS: vi.fn(),
+      results: {},
+      options: { fresh: true },
+    });
+    await vi.advanceTimersByTimeAsync(30000);
+    await run;
+
+    const analyzeUrls = mockFetch.mock.calls.map(([url]) => new URL(new URL(String(url)).searchParams.get('url')!));
+    expect(analyzeUrls[0].searchParams.get('startNew')).toBe('on');
+    expect(analyzeUrls[0].searchParams.get('fromCache')).toBe('off');
+    expect(analyzeUrls[1].searchParams.get('startNew')).toBeNull();
+    expect(analyzeUrls[1].searchParams.get('fromCache')).toBe('off');
+    vi.useRealTimers();
+  });
+
   it('should include test URL in data', async () => {
     const mockFetch = global.fetch as ReturnType<typeof vi.fn>;
 
@@ -3,17 +3,26 @@
 
 import i18next from 'i18next';
 import { DomainScanner, ExecutedScannerResult, ScannerInterpretation, SeverityLevel } from '../../types/domainScan';
+import { wait } from '../domainChecks';
+
+// Options a scan profile can set for this scanner
+export interface SslLabsOptions {
+  // Start a new assessment instead of returning one SSL Labs cached
+  fresh?: boolean;
+}
 
 export const sslLabsScanner: DomainScanner = {
   id: 'sslLabs',
   label: 'sslLabs.label',
   description: 'sslLabs.description',
   timeout: 600000, // 10 minutes - SSL Labs can take a while with polling
+  cacheTtl: 6 * 60 * 60 * 1000, // 6 hours - assessments are slow and SSL Labs caches them too
   dataSource: {
     name: 'Qualys SSL Labs',
     url: 'https://www.ssllabs.com/ssltest/',
   },
-  run: async (domain) => {
+  run: async (domain, signal, context) => {
+    const { fresh = false } = (context?.options ?? {}) as SslLabsOptions;
     const warnings: string[] = [];
     const issues: string[] = [];
 
@@ -82,7 +91,7 @@ export const sslLabsScanner: DomainScanner = {
       // proxyUrl.searchParams.set('key', '54aed9d2');
       proxyUrl.searchParams.set('url', sslLabsUrl.toString());
 
-      const response = await fetch(proxyUrl);
+      const response = await fetch(proxyUrl, { signal });
       if (!response.ok) {
         throw new Error(`SSL Labs API returned ${response.status}: ${response.statusText}`);
       }
@@ -91,8 +100,9 @@ export const sslLabsScanner: DomainScanner = {
     };
 
     try {
-      // First, try to get cached results
-      let result: SSLLabsResult = await fetchAnalysis(true, false);
+      // First, try to get cached results, unless a new assessment was asked for. SSL Labs does not allow fromCache
+      // together with startNew, and polls of a new assessment must not start it again.
+      let result: SSLLabsResult = await fetchAnalysis(!fresh, fresh);
 
       // If no cached results or scan in progress, we may need to poll
       const maxPolls = 20; // Maximum 20 polls (10 minutes at 30 second intervals)
@@ -102,8 +112,9 @@ export const sslLabsScanner: DomainScanner = {
       while (result.status !== 'READY' && result.status !== 'ERROR' && pollCount < maxPolls) {
         // If status is DNS, IN_PROGRESS, wait and poll again
         if (result.status === 'DNS' || result.status === 'IN_PROGRESS') {
-          await new Promise((resolve) => setTimeout(resolve, pollInterval));
-          result = await fetchAnalysis(true, false);
+          // Stops polling as soon as the scan is cancelled or times out
+          await wait(pollInterval, signal);
+          result = await fetchAnalysis(!fresh, false);
           pollCount++;
         } else {
           // For other statuses, break
@@ -272,6 +283,8 @@ export const sslLabsScanner: DomainScanner = {
       };
 
     } catch (err: unknown) {
+      // A cancelled or timed-out scan is not a failed assessment
+      signal?.throwIfAborted();
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       return {
         data: { error: errorMessage },
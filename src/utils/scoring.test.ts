@@ -1,4 +1,4 @@
-import { computeScore } from './scoring';
+import { computeScore, computeScoreRange, getCategoryWeight, getQuestionWeight } from './scoring';
 import type { Question } from '../types/questions';
 
 describe('computeScore', () => {
@@ -260,4 +260,121 @@ describe('computeScore', () => {
     expect(result.categories[1].category).toBe('Apple');
     expect(result.categories[2].category).toBe('Banana');
   });
+
+  it('leaves hidden conditional questions out of the total and maximum', () => {
+    const conditional: Question[] = [questions[0], { ...questions[1], showIf: [{ questionId: 'q1', anyOf: ['a'] }] }];
+
+    const hidden = computeScore({ q1: 'b', q2: 'a' }, conditional);
+    expect(hidden.total).toBe(0);
+    expect(hidden.max).toBe(10);
+    expect(hidden.categories.map((c) => c.category)).toEqual(['cat1']);
+
+    const shown = computeScore({ q1: 'a', q2: 'a' }, conditional);
+    expect(shown.total).toBe(15);
+    expect(shown.max).toBe(15);
+  });
+
+  it('excludes N/A answers from the maximum and scores "Don\'t know" as the lowest option', () => {
+    const notApplicable = computeScore({ q1: 'na', q2: 'a' }, questions);
+    expect(notApplicable.total).toBe(5);
+    expect(notApplicable.max).toBe(5);
+    expect(notApplicable.percent).toBe(100);
+    expect(notApplicable.categories.map((c) => c.category)).toEqual(['cat2']);
+
+    const dontKnow = computeScore({ q1: 'unknown', q2: 'a' }, questions);
+    expect(dontKnow.total).toBe(5);
+    expect(dontKnow.max).toBe(15);
+  });
+
+  it('reports the min, max and consensus score across respondents', () => {
+    const range = computeScoreRange([{ q1: 'a', q2: 'a' }, { q1: 'b', q2: 'a' }, { q1: 'b', q2: 'b' }], questions);
+    expect(range).toEqual({ min: 0, max: 100, consensus: 33.33 });
+    expect(computeScoreRange([], questions)).toBeUndefined();
+  });
+
+  it('keeps pack categories separate even when their display name matches a core category', () => {
+    const option = { label: 'A', value: 'a', risk: 'r1', points: 4 };
+    const result = computeScore({ core: 'a' }, [
+      { id: 'core', text: 'Core', category: 'Privacy', categoryKey: 'privacy', options: [option] },
+      {
+        id: 'hipaa__q1', text: 'Pack', category: 'Privacy', categoryKey: 'hipaa__privacy', packId: 'hipaa',
+        options: [option]
+      },
+    ]);
+
+    expect(result.categories).toHaveLength(2);
+    expect(result.categories[0].packId).toBeUndefined();
+    expect(result.categories[1]).toMatchObject({ key: 'hipaa__privacy', packId: 'hipaa', percent: 0 });
+  });
+
+  describe('weighted model', () => {
+    const yesNo = [
+      { label: 'Yes', value: 'yes', risk: '', points: 100 },
+      { label: 'No', value: 'no', risk: '', points: 0 }
+    ];
+    const weightedQuestions: Question[] = [
+      {
+        id: 'mfa',
+        text: 'MFA',
+        category: 'Access',
+        categoryKey: 'access',
+        weight: 3,
+        options: yesNo
+      },
+      {
+        id: 'reviews',
+        text: 'Reviews',
+        category: 'Access',
+        categoryKey: 'access',
+        options: yesNo
+      },
+      {
+        id: 'training',
+        text: 'Training',
+        category: 'Awareness',
+        categoryKey: 'awareness',
+        weight: 0.5,
+        options: yesNo
+      },
+    ];
+    const answers = { mfa: 'yes', reviews: 'no', training: 'no' };
+
+    it('ignores weights under the default model', () => {
+      const result = computeScore(answers, weightedQuestions, { categoryWeights: { access: 2 } });
+      expect(result).toEqual(computeScore(answers, weightedQuestions));
+      expect(result.percent).toBe(33.33);
+      expect(result.model).toBeUndefined();
+      expect(result.categories[0].weight).toBeUndefined();
+    });
+
+    it('applies question weights within a category', () => {
+      const result = computeScore(answers, weightedQuestions, { model: 'weighted' });
+      // MFA (x3) answered well, reviews (x1) not: 300 / 400
+      expect(result.categories[0]).toMatchObject({ key: 'access', total: 300, max: 400, percent: 75, weight: 1 });
+      expect(result.model).toBe('weighted');
+    });
+
+    it('averages category percentages by category weight', () => {
+      const result = computeScore(answers, weightedQuestions, {
+        model: 'weighted',
+        categoryWeights: { access: 3, awareness: 1 }
+      });
+      // (3 * 75 + 1 * 0) / 4
+      expect(result.percent).toBe(56.25);
+      expect(result.total).toBe(225);
+      expect(result.max).toBe(400);
+      expect(result.categories[1].weight).toBe(1);
+    });
+
+    it('treats invalid weights as 1 and skips zero-weight categories', () => {
+      expect(getQuestionWeight({ weight: -2 })).toBe(1);
+      expect(getCategoryWeight({ access: Number.NaN }, 'access')).toBe(1);
+
+      const result = computeScore(answers, weightedQuestions, {
+        model: 'weighted',
+        categoryWeights: { awareness: 0 }
+      });
+      expect(result.percent).toBe(75);
+    });
+  });
 });
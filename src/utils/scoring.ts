@@ -1,10 +1,26 @@
 import { Question } from '../types/questions';
+import { getVisibleQuestions } from './questionConditions';
+import { DONT_KNOW, getLowestPoints, NOT_APPLICABLE } from './answerStates';
+import { getConsensusAnswers } from './respondents';
+
+// 'equal' sums raw option points (every question counts the same); 'weighted' applies question and category
+// weights from questions.json
+export type ScoringModel = 'equal' | 'weighted';
+
+export interface ScoringOptions {
+  model?: ScoringModel; // defaults to 'equal'
+  categoryWeights?: Record<string, number>; // keyed by category key; missing categories weigh 1
+}
 
 export interface CategoryScore {
   category: string;
+  key?: string; // untranslated category key, stable across languages
+
   total: number; // points earned
   max: number;   // maximum possible
   percent: number; // 0-100
+  weight?: number; // category weight, only set by the weighted model
+  packId?: string; // questionnaire pack the category belongs to; pack categories are never merged with others
 }
 
 export interface ScoreResult {
@@ -12,41 +28,104 @@ export interface ScoreResult {
   max: number;
   percent: number;
   categories: CategoryScore[];
+  model?: ScoringModel; // only set by the weighted model; absent means 'equal'
 }
 
-export const computeScore = (answers: Record<string, string>, questions: Question[]): ScoreResult => {
+const round = (value: number) => +value.toFixed(2);
+
+// Invalid or missing weights count as 1 so a malformed questionnaire never silently drops questions
+const toWeight = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 1;
+
+export const getQuestionWeight = (question: Pick<Question, 'weight'>): number => toWeight(question.weight);
+
+export const getCategoryWeight = (categoryWeights: Record<string, number> | undefined, key: string): number =>
+  toWeight(categoryWeights?.[key]);
+
+export const computeScore = (
+  answers: Record<string, string>,
+  questions: Question[],
+  options: ScoringOptions = {}
+): ScoreResult => {
+  const weighted = options.model === 'weighted';
   let total = 0;
   let max = 0;
-  const categoryScoreMap: Record<string, { total: number; max: number; displayName: string }> = {};
+  const categoryScoreMap: Record<string, { total: number; max: number; displayName: string; packId?: string }> = {};
 
-  for (const q of questions) {
-    const questionMax = Math.max(...q.options.map((o) => o.points));
+  // Hidden conditional questions and questions answered N/A count towards neither the total nor the maximum
+  for (const q of getVisibleQuestions(questions, answers)) {
+    const chosen = answers[q.id];
+    if (chosen === NOT_APPLICABLE) continue;
+    const weight = weighted ? getQuestionWeight(q) : 1;
+    const questionMax = Math.max(...q.options.map((o) => o.points)) * weight;
     max += questionMax;
     const key = q.categoryKey ?? q.category; // Use categoryKey for grouping
-    if (!categoryScoreMap[key]) categoryScoreMap[key] = { total: 0, max: 0, displayName: q.category };
+    if (!categoryScoreMap[key]) categoryScoreMap[key] = { total: 0, max: 0, displayName: q.category, packId: q.packId };
     categoryScoreMap[key].max += questionMax;
 
-    const chosen = answers[q.id];
-    if (chosen) {
-      const opt = q.options.find((o) => o.value === chosen);
-      if (opt) {
-        total += opt.points;
-        categoryScoreMap[key].total += opt.points;
-      }
+    // "Don't know" earns what the weakest answer would
+    const points = chosen === DONT_KNOW ? getLowestPoints(q) : q.options.find((o) => o.value === chosen)?.points;
+    if (points !== undefined) {
+      total += points * weight;
+      categoryScoreMap[key].total += points * weight;
     }
   }
 
-  const categories: CategoryScore[] = Object.entries(categoryScoreMap).map(([_key, v]) => ({
+  const categories: CategoryScore[] = Object.entries(categoryScoreMap).map(([key, v]) => ({
     category: v.displayName,
-    total: v.total,
-    max: v.max,
-    percent: v.max === 0 ? 0 : +(100 * v.total / v.max).toFixed(2)
+    key,
+    total: weighted ? round(v.total) : v.total,
+    max: weighted ? round(v.max) : v.max,
+    percent: v.max === 0 ? 0 : +(100 * v.total / v.max).toFixed(2),
+    ...(weighted ? { weight: getCategoryWeight(options.categoryWeights, key) } : {}),
+    ...(v.packId ? { packId: v.packId } : {})
   }));
 
+  if (!weighted) {
+    return {
+      total,
+      max,
+      percent: max === 0 ? 0 : +(100 * total / max).toFixed(2),
+      categories
+    };
+  }
+
+  // Each category contributes its percentage scaled by its weight, so category size no longer matters
+  let weightedTotal = 0;
+  let weightedMax = 0;
+  Object.entries(categoryScoreMap).forEach(([key, v]) => {
+    const categoryWeight = getCategoryWeight(options.categoryWeights, key);
+    if (v.max === 0 || categoryWeight === 0) return;
+    weightedTotal += categoryWeight * 100 * v.total / v.max;
+    weightedMax += categoryWeight * 100;
+  });
+
+  return {
+    total: round(weightedTotal),
+    max: round(weightedMax),
+    percent: weightedMax === 0 ? 0 : round(100 * weightedTotal / weightedMax),
+    categories,
+    model: 'weighted'
+  };
+};
+
+// Overall percentages across several respondents' answer sets
+export interface ScoreRange {
+  min: number;
+  max: number;
+  consensus: number; // score of the per-question majority answers
+}
+
+export const computeScoreRange = (
+  answerSets: Record<string, string>[],
+  questions: Question[],
+  options: ScoringOptions = {}
+): ScoreRange | undefined => {
+  if (answerSets.length === 0) return undefined;
+  const percents = answerSets.map((answers) => computeScore(answers, questions, options).percent);
   return {
-    total,
-    max,
-    percent: max === 0 ? 0 : +(100 * total / max).toFixed(2),
-    categories
+    min: Math.min(...percents),
+    max: Math.max(...percents),
+    consensus: computeScore(getConsensusAnswers(answerSets, questions), questions, options).percent,
   };
 };
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SHARE_TOKEN_LENGTH,
+  buildShareUrl,
+  decodeShareToken,
+  encodeShareToken,
+  getShareTokenFromHash,
+  sharePayloadToImportJSON,
+} from './shareLink';
+
+const answers = {
+  governance_program_management_q1: 'opt2',
+  governance_program_management_q2: 'opt1',
+  access_control_q14: 'na',
+};
+
+const toToken = (format: string, json: string) =>
+  format + btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('shareLink', () => {
+  it('round-trips answers and a domain through a compressed URL-safe token', async () => {
+    const token = await encodeShareToken(answers, 'example.com');
+    expect(token).toMatch(/^z[A-Za-z0-9_-]+$/);
+
+    const url = buildShareUrl(token, 'https://app.example');
+    expect(url).toBe(`https://app.example/share#data=${token}`);
+    expect(getShareTokenFromHash(new URL(url).hash)).toBe(token);
+
+    const result = await decodeShareToken(token);
+    expect(result).toEqual({ success: true, payload: { version: 2, answers, domain: 'example.com' } });
+    expect(JSON.parse(sharePayloadToImportJSON(result.payload!))).toEqual({ version: 2, answers });
+  });
+
+  it('compresses repetitive answer maps below their JSON size', async () => {
+    const many = Object.fromEntries(Array.from({ length: 100 }, (_, i) => [`category_q${i}`, 'opt1']));
+    const token = await encodeShareToken(many);
+    expect(token.length).toBeLessThan(JSON.stringify(many).length / 2);
+    expect(token.length).toBeLessThan(MAX_SHARE_TOKEN_LENGTH);
+  });
+
+  it('accepts uncompressed tokens and keeps version 1 payloads for migration', async () => {
+    const result = await decodeShareToken(toToken('j', JSON.stringify({ a: { q1: 'Yes' } })));
+    expect(result.payload).toEqual({ version: 1, answers: { q1: 'Yes' } });
+  });
+
+  it('rejects tampered, invalid or unsafe payloads', async () => {
+    expect((await decodeShareToken('')).success).toBe(false);
+    expect((await decodeShareToken('x123')).error).toBe('Invalid share link');
+    expect((await decodeShareToken('zAAAA')).error).toBe('Invalid share link');
+    expect((await decodeShareToken(toToken('j', '{nope'))).error).toBe('Invalid JSON format');
+    expect((await decodeShareToken(toToken('j', JSON.stringify({ v: 2, a: { q1: 5 } })))).success).toBe(false);
+    expect((await decodeShareToken(toToken('j', JSON.stringify({ v: 9, a: { q1: 'opt1' } })))).error)
+      .toMatch(/Unsupported version/);
+    expect((await decodeShareToken(toToken('j', JSON.stringify({ v: 2, a: { q1: 'opt1' }, d: 'localhost' })))).error)
+      .toBe('Invalid domain in share link');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Shareable assessment links: the answers map (and optionally the scanned domain) is deflated and
+ * base64url-encoded into the URL fragment, so nothing is sent to a server.
+ *
+ * Token format: one format character followed by base64url data
+ *   'z' - deflate-raw compressed JSON (CompressionStream)
+ *   'j' - plain JSON, used when the browser has no CompressionStream
+ * The JSON payload uses short keys: { v: export version, a: answers, d?: domain }.
+ */
+
+import { validateImportJSON } from './importValidation';
+import { validateDomain } from './domainValidation';
+
+export const SHARE_PATH = '/share';
+export const SHARE_PARAM = 'data';
+// Browsers and mail clients start truncating URLs somewhere past a few thousand characters
+export const MAX_SHARE_TOKEN_LENGTH = 16000;
+const MAX_PAYLOAD_SIZE = 256 * 1024; // decompressed bytes, guards against deflate bombs
+const TOO_LARGE_ERROR = 'Shared data too large';
+const EXPORT_VERSION = 2;
+
+export interface SharePayload {
+  version: number;
+  answers: Record<string, string>;
+  domain?: string;
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const compress = async (bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> => {
+  const stream = new Response(bytes).body!.pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads the decompressed stream chunk by chunk so an oversized payload is rejected early
+const decompress = async (bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  const reader = new Response(bytes).body!.pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_PAYLOAD_SIZE) {
+      await reader.cancel();
+      throw new Error(TOO_LARGE_ERROR);
+    }
+    chunks.push(value);
+  }
+  const result = new Uint8Array(size);
+  chunks.reduce((offset, chunk) => {
+    result.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return result;
+};
+
+/**
+ * Encode answers (and optionally a domain) into a URL-safe token
+ */
+export const encodeShareToken = async (answers: Record<string, string>, domain?: string): Promise<string> => {
+  const json = JSON.stringify({ v: EXPORT_VERSION, a: answers, ...(domain ? { d: domain } : {}) });
+  const bytes = new TextEncoder().encode(json);
+  if (typeof CompressionStream === 'undefined') {
+    return `j${toBase64Url(bytes)}`;
+  }
+  return `z${toBase64Url(await compress(bytes))}`;
+};
+
+export const buildShareUrl = (token: string, origin: string = window.location.origin): string =>
+  `${origin}${SHARE_PATH}#${SHARE_PARAM}=${token}`;
+
+// Extract the token from a location hash such as "#data=z..."
+export const getShareTokenFromHash = (hash: string): string | undefined =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM) ?? undefined;
+
+/**
+ * Decode and validate a share token. Answers go through the same checks as a JSON import;
+ * version 1 payloads are migrated by importJSON when they are loaded.
+ */
+export const decodeShareToken = async (
+  token: string
+): Promise<{ success: boolean; payload?: SharePayload; error?: string }> => {
+  if (!token || token.length > MAX_SHARE_TOKEN_LENGTH || !/^[zj][A-Za-z0-9_-]+$/.test(token)) {
+    return { success: false, error: 'Invalid share link' };
+  }
+
+  let json: string;
+  try {
+    const bytes = fromBase64Url(token.slice(1));
+    if (token[0] === 'j' && bytes.length > MAX_PAYLOAD_SIZE) {
+      return { success: false, error: TOO_LARGE_ERROR };
+    }
+    json = new TextDecoder('utf-8', { fatal: true }).decode(token[0] === 'z' ? await decompress(bytes) : bytes);
+  } catch (error) {
+    // Corrupted base64, deflate data or UTF-8 all mean the link was truncated or altered
+    const tooLarge = error instanceof Error && error.message === TOO_LARGE_ERROR;
+    return { success: false, error: tooLarge ? TOO_LARGE_ERROR : 'Invalid share link' };
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'Invalid JSON format' };
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { success: false, error: 'Invalid share link' };
+  }
+
+  const validation = validateImportJSON(JSON.stringify({ version: data.v, answers: data.a }));
+  if (!validation.isValid) {
+    return { success: false, error: validation.error };
+  }
+
+  let domain: string | undefined;
+  if (data.d !== undefined) {
+    const domainResult = validateDomain(typeof data.d === 'string' ? data.d : '');
+    if (!domainResult.isValid) {
+      return { success: false, error: 'Invalid domain in share link' };
+    }
+    domain = domainResult.normalizedDomain;
+  }
+
+  return {
+    success: true,
+    payload: {
+      version: typeof data.v === 'number' ? data.v : 1,
+      answers: data.a as Record<string, string>,
+      ...(domain ? { domain } : {}),
+    },
+  };
+};
+
+/**
+ * Import JSON equivalent of a decoded payload, for AppStateContext.importJSON
+ */
+export const sharePayloadToImportJSON = (payload: SharePayload): string =>
+  JSON.stringify({ version: payload.version, answers: payload.answers });
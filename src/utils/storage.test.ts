@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+type Callback = (() => void) | null;
+interface FakeRequest {
+  result?: unknown;
+  onsuccess?: Callback;
+  onupgradeneeded?: Callback;
+  onblocked?: Callback;
+}
+
+// Just enough of IndexedDB for storage.ts: requests of a transaction run in order on the next tick,
+// and a failing request aborts the transaction like a full quota does. `open: 'blocked'` reports a blocked
+// upgrade first and opens a tick later; `open: 'hang'` never settles.
+const createFakeIndexedDB = (
+  records: Map<string, string>,
+  options: { failWith?: string; open?: 'blocked' | 'hang' } = {}
+) => {
+  const db = {
+    onversionchange: null as Callback,
+    close: vi.fn(),
+    createObjectStore: vi.fn(),
+    transaction: () => {
+      const queue: Array<{ request: FakeRequest; run: () => unknown }> = [];
+      const transaction: { error: unknown; oncomplete?: Callback; onabort?: Callback; objectStore: () => object } = {
+        error: null,
+        objectStore: () => ({
+          put: (value: string, key: string) => enqueue(() => {
+            if (options.failWith) throw new DOMException('Storage is full', options.failWith);
+            records.set(key, value);
+          }),
+          delete: (key: string) => enqueue(() => records.delete(key)),
+          getAll: () => enqueue(() => Array.from(records.values())),
+          getAllKeys: () => enqueue(() => Array.from(records.keys())),
+        }),
+      };
+      const enqueue = (run: () => unknown) => {
+        const request: FakeRequest = {};
+        queue.push({ request, run });
+        return request;
+      };
+      setTimeout(() => {
+        try {
+          queue.forEach(({ request, run }) => {
+            request.result = run();
+            request.onsuccess?.();
+          });
+          transaction.oncomplete?.();
+        } catch (error) {
+          transaction.error = error;
+          transaction.onabort?.();
+        }
+      });
+      return transaction;
+    },
+  };
+  return {
+    open: () => {
+      const request: FakeRequest = {};
+      if (options.open === 'hang') return request;
+      if (options.open === 'blocked') setTimeout(() => request.onblocked?.());
+      setTimeout(() => setTimeout(() => {
+        request.result = db;
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      }));
+      return request;
+    },
+    db,
+  };
+};
+
+// A fresh module per test, so every test starts with an uninitialized storage
+const loadStorage = async () => (await import('./storage')).storage;
+
+describe('storage', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubGlobal('BroadcastChannel', undefined);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('moves legacy localStorage keys into IndexedDB and leaves other keys alone', async () => {
+    const records = new Map([['risk_scoring_model_v1', '"weighted"']]);
+    vi.stubGlobal('indexedDB', createFakeIndexedDB(records));
+    localStorage.setItem('risk_answers_v2', '{"q1":"opt1"}');
+    localStorage.setItem('dkim_selectors_example.com', '{"selectors":["s1"]}');
+    // IndexedDB already holds a newer copy from an interrupted migration
+    localStorage.setItem('risk_scoring_model_v1', '"equal"');
+    localStorage.setItem('risk_branding_v1', '{"companyName":"Contoso"}');
+    localStorage.setItem('theme', 'dark');
+
+    const storage = await loadStorage();
+    await storage.init();
+
+    expect(storage.getBackend()).toBe('indexeddb');
+    expect(storage.getItem('risk_answers_v2')).toBe('{"q1":"opt1"}');
+    expect(storage.getItem('risk_scoring_model_v1')).toBe('"weighted"');
+    expect(records.get('dkim_selectors_example.com')).toBe('{"selectors":["s1"]}');
+    expect(localStorage.getItem('risk_answers_v2')).toBeNull();
+    expect(localStorage.getItem('risk_scoring_model_v1')).toBeNull();
+    expect(storage.getItem('risk_branding_v1')).toBe('{"companyName":"Contoso"}');
+    expect(localStorage.getItem('risk_branding_v1')).toBeNull();
+    expect(localStorage.getItem('theme')).toBe('dark');
+  });
+
+  it('serves reads from memory and writes to IndexedDB in the background', async () => {
+    const records = new Map<string, string>();
+    vi.stubGlobal('indexedDB', createFakeIndexedDB(records));
+    const storage = await loadStorage();
+    await storage.init();
+
+    storage.setItem('risk_answers_v2', '{}');
+    storage.setItem('dkim_selectors_example.com', '{"selectors":[]}');
+    expect(storage.getItem('risk_answers_v2')).toBe('{}');
+    expect(records.size).toBe(0);
+
+    await storage.flush();
+    expect(records.get('risk_answers_v2')).toBe('{}');
+    storage.removeItem('risk_answers_v2');
+    await storage.flush();
+    expect(records.has('risk_answers_v2')).toBe(false);
+    expect(storage.keys()).toEqual(['dkim_selectors_example.com']);
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('reports a full quota instead of failing silently', async () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDB(new Map(), { failWith: 'QuotaExceededError' }));
+    const storage = await loadStorage();
+    await storage.init();
+    const listener = vi.fn();
+    storage.subscribe(listener);
+
+    storage.setItem('risk_answers_v2', '{}');
+    await storage.flush();
+    expect(storage.getError()).toBe('quota');
+    expect(listener).toHaveBeenCalled();
+    // The change is kept in memory for this session
+    expect(storage.getItem('risk_answers_v2')).toBe('{}');
+    await expect(storage.setItemAndWait('risk_vault_v1', '{}')).rejects.toThrow('Storage quota exceeded');
+
+    storage.clearError();
+    expect(storage.getError()).toBeNull();
+  });
+
+  it('falls back to localStorage when another tab blocks the upgrade', async () => {
+    const fake = createFakeIndexedDB(new Map(), { open: 'blocked' });
+    vi.stubGlobal('indexedDB', fake);
+    localStorage.setItem('risk_answers_v2', '{}');
+    const storage = await loadStorage();
+    await storage.init();
+
+    expect(storage.getBackend()).toBe('localstorage');
+    expect(storage.getItem('risk_answers_v2')).toBe('{}');
+    // The connection that opens late is closed instead of blocking the other tab's next upgrade
+    await vi.waitFor(() => expect(fake.db.close).toHaveBeenCalled());
+  });
+
+  it('falls back to localStorage when IndexedDB does not open in time', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('indexedDB', createFakeIndexedDB(new Map(), { open: 'hang' }));
+    const storage = await loadStorage();
+    const init = storage.init();
+    await vi.advanceTimersByTimeAsync(5000);
+    await init;
+
+    expect(storage.getBackend()).toBe('localstorage');
+    vi.useRealTimers();
+  });
+
+  it('keeps using localStorage when IndexedDB is unavailable', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const storage = await loadStorage();
+    await storage.init();
+
+    expect(storage.getBackend()).toBe('localstorage');
+    storage.setItem('risk_answers_v2', '{}');
+    expect(localStorage.getItem('risk_answers_v2')).toBe('{}');
+
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Storage is full', 'QuotaExceededError');
+    });
+    expect(() => storage.setItem('risk_answers_v2', '{"q1":"opt1"}')).toThrow('Storage is full');
+    expect(storage.getError()).toBe('quota');
+    setItem.mockRestore();
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Key-value storage for assessment data, backed by IndexedDB.
+ *
+ * The app reads its state synchronously while rendering, so storage.init() loads every record into memory
+ * before the first render. Reads come from that copy; writes update it at once and reach IndexedDB in the
+ * background, in order. Failed writes (usually a full quota) are reported through useStorageError so the
+ * UI can warn the user instead of losing changes silently. Other tabs are kept in sync over a
+ * BroadcastChannel.
+ *
+ * Without IndexedDB (some private browsing modes, tests) the same methods use localStorage directly, and
+ * failed writes also throw as localStorage does.
+ */
+import { useSyncExternalStore } from 'react';
+
+export const STORAGE_DB_NAME = 'risk-assessment';
+const STORAGE_DB_VERSION = 1;
+const STORE_NAME = 'records';
+const CHANNEL_NAME = 'risk-assessment-storage';
+// The first render waits for init, so opening IndexedDB may not take longer than this
+const OPEN_TIMEOUT_MS = 5000;
+
+// Keys written to localStorage before this storage layer existed; moved into IndexedDB on first start
+const MIGRATED_KEYS = [
+  'risk_answers_v2',
+  'risk_answer_details_v1',
+  'risk_domain_scan_v2',
+  'risk_domain_scan_agg_v2',
+  'risk_scoring_model_v1',
+  'risk_composite_weights_v1',
+  'risk_workspace_v1',
+  'risk_vault_v1',
+  'risk_question_packs_v1',
+  'risk_branding_v1',
+];
+const MIGRATED_PREFIXES = ['dkim_selectors_'];
+
+export type StorageError = 'quota' | 'failed';
+
+interface RemoteChange {
+  key: string;
+  value: string | null;
+}
+
+const isMigratedKey = (key: string): boolean =>
+  MIGRATED_KEYS.includes(key) || MIGRATED_PREFIXES.some((prefix) => key.startsWith(prefix));
+
+export const isQuotaError = (error: unknown): boolean =>
+  !!error && typeof error === 'object' && (error as { name?: string }).name === 'QuotaExceededError';
+
+const localKeys = (): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key) keys.push(key);
+  }
+  return keys;
+};
+
+const requestResult = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onabort = () => reject(transaction.error);
+});
+
+// Rejects when another tab blocks the upgrade or the database does not open in time
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(STORAGE_DB_NAME, STORAGE_DB_VERSION);
+  const giveUp = (error: Error) => {
+    clearTimeout(timer);
+    // A connection that opens after all would block the next upgrade in turn
+    request.onsuccess = () => request.result.close();
+    reject(error);
+  };
+  const timer = setTimeout(() => giveUp(new Error('Opening IndexedDB timed out')), OPEN_TIMEOUT_MS);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  request.onblocked = () => giveUp(new Error('IndexedDB upgrade blocked by another tab'));
+  requestResult(request).then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+const readAll = async (db: IDBDatabase): Promise<Map<string, string>> => {
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const [keys, values] = await Promise.all([requestResult(store.getAllKeys()), requestResult(store.getAll())]);
+  return new Map(keys.map((key, i) => [String(key), String(values[i])]));
+};
+
+// Copy legacy keys into IndexedDB, then remove them from localStorage once the copy is committed
+const migrateFromLocalStorage = async (db: IDBDatabase, cache: Map<string, string>): Promise<void> => {
+  const legacy = localKeys().filter(isMigratedKey);
+  if (legacy.length === 0) return;
+
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  legacy.forEach((key) => {
+    const value = localStorage.getItem(key);
+    // A record already in IndexedDB is newer than a copy left behind by an interrupted migration
+    if (value === null || cache.has(key)) return;
+    store.put(value, key);
+    cache.set(key, value);
+  });
+  await transactionDone(transaction);
+  legacy.forEach((key) => localStorage.removeItem(key));
+};
+
+class AppStorage {
+  private db: IDBDatabase | null = null;
+  private cache: Map<string, string> | null = null;
+  private channel: BroadcastChannel | null = null;
+  private readonly pending: Set<Promise<boolean>> = new Set();
+  private error: StorageError | null = null;
+  private readonly errorListeners: Set<() => void> = new Set();
+  private readonly changeListeners: Set<(key: string) => void> = new Set();
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    // In localStorage mode other tabs' writes arrive as storage events
+    window.addEventListener('storage', (e) => {
+      if (!this.cache && e.key) this.emitChange(e.key);
+    });
+  }
+
+  /**
+   * Open IndexedDB, migrate legacy localStorage keys and load every record. Never rejects: when IndexedDB
+   * is unavailable or fails, storage keeps using localStorage.
+   */
+  async init(): Promise<void> {
+    if (this.db || typeof indexedDB === 'undefined') return;
+    try {
+      const db = await openDatabase();
+      const cache = await readAll(db);
+      await migrateFromLocalStorage(db, cache);
+      // Let a newer version of the app upgrade the database in another tab
+      db.onversionchange = () => db.close();
+      this.db = db;
+      this.cache = cache;
+      if (typeof BroadcastChannel !== 'undefined') {
+        this.channel = new BroadcastChannel(CHANNEL_NAME);
+        this.channel.onmessage = (e: MessageEvent<RemoteChange>) => this.applyRemoteChange(e.data);
+      }
+    } catch {
+      // Stay on localStorage
+    }
+  }
+
+  getBackend(): 'indexeddb' | 'localstorage' {
+    return this.cache ? 'indexeddb' : 'localstorage';
+  }
+
+  getItem(key: string): string | null {
+    return this.cache ? this.cache.get(key) ?? null : localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    if (!this.cache) {
+      this.writeLocal(() => localStorage.setItem(key, value));
+      return;
+    }
+    this.cache.set(key, value);
+    this.write((store) => store.put(value, key));
+    this.channel?.postMessage({ key, value });
+  }
+
+  /**
+   * Like setItem, but resolves only once the value is stored and rejects if it could not be.
+   * For writes that are followed by deleting the only other copy of the data.
+   */
+  async setItemAndWait(key: string, value: string): Promise<void> {
+    if (!this.cache) {
+      this.setItem(key, value);
+      return;
+    }
+    this.cache.set(key, value);
+    const stored = await this.write((store) => store.put(value, key));
+    this.channel?.postMessage({ key, value });
+    if (!stored) throw new Error(this.error === 'quota' ? 'Storage quota exceeded' : 'Could not save data');
+  }
+
+  removeItem(key: string): void {
+    if (!this.cache) {
+      this.writeLocal(() => localStorage.removeItem(key));
+      return;
+    }
+    if (!this.cache.delete(key)) return;
+    this.write((store) => store.delete(key));
+    this.channel?.postMessage({ key, value: null });
+  }
+
+  keys(): string[] {
+    return this.cache ? Array.from(this.cache.keys()) : localKeys();
+  }
+
+  // Resolves once every write started so far has finished, successfully or not
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  getError(): StorageError | null {
+    return this.error;
+  }
+
+  clearError(): void {
+    this.error = null;
+    this.errorListeners.forEach((listener) => listener());
+  }
+
+  // Notified when a write fails or the error is cleared
+  subscribe(listener: () => void): () => void {
+    this.errorListeners.add(listener);
+    return () => {
+      this.errorListeners.delete(listener);
+    };
+  }
+
+  // Notified with the key when another tab changes a record
+  onRemoteChange(listener: (key: string) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private writeLocal(write: () => void): void {
+    try {
+      write();
+    } catch (error) {
+      this.report(error);
+      throw error;
+    }
+  }
+
+  private write(operation: (store: IDBObjectStore) => void): Promise<boolean> {
+    const done = new Promise<boolean>((resolve) => {
+      try {
+        // Read-write transactions on the same store run in the order they were created
+        const transaction = this.db!.transaction(STORE_NAME, 'readwrite');
+        operation(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(true);
+        transaction.onabort = () => {
+          this.report(transaction.error);
+          resolve(false);
+        };
+      } catch (error) {
+        this.report(error);
+        resolve(false);
+      }
+    });
+    this.pending.add(done);
+    void done.then(() => this.pending.delete(done));
+    return done;
+  }
+
+  private applyRemoteChange({ key, value }: RemoteChange): void {
+    if (!this.cache) return;
+    if (value === null) {
+      this.cache.delete(key);
+    } else {
+      this.cache.set(key, value);
+    }
+    this.emitChange(key);
+  }
+
+  private emitChange(key: string): void {
+    this.changeListeners.forEach((listener) => listener(key));
+  }
+
+  private report(error: unknown): void {
+    this.error = isQuotaError(error) ? 'quota' : 'failed';
+    this.errorListeners.forEach((listener) => listener());
+  }
+}
+
+export const storage = new AppStorage();
+
+// The last write failure, until it is dismissed
+export const useStorageError = (): StorageError | null =>
+  useSyncExternalStore((listener) => storage.subscribe(listener), () => storage.getError());
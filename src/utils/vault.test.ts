@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { isSensitiveKey, vault, VAULT_KEY } from './vault';
+
+const ANSWERS = JSON.stringify({ governance_program_management_q1: 'opt2' });
+
+describe('vault', () => {
+  beforeEach(() => {
+    vault.erase();
+    localStorage.clear();
+    localStorage.setItem('risk_answers_v2', ANSWERS);
+    localStorage.setItem('dkim_selectors_example.com', '{"selectors":["s1"]}');
+    localStorage.setItem('theme', 'dark');
+  });
+
+  it('only treats assessment data as sensitive', () => {
+    expect(isSensitiveKey('risk_workspace_v1')).toBe(true);
+    expect(isSensitiveKey('dkim_selectors_example.com')).toBe(true);
+    expect(isSensitiveKey('risk_branding_v1')).toBe(false);
+    expect(isSensitiveKey('theme')).toBe(false);
+  });
+
+  it('passes through to localStorage while off', () => {
+    expect(vault.getStatus()).toBe('disabled');
+    vault.setItem('risk_answers_v2', '{}');
+    expect(localStorage.getItem('risk_answers_v2')).toBe('{}');
+    expect(vault.keys()).toEqual(expect.arrayContaining(['risk_answers_v2', 'theme']));
+  });
+
+  it('moves sensitive keys into an encrypted envelope and keeps settings in cleartext', async () => {
+    await vault.enable('correct horse', 5);
+
+    expect(vault.getStatus()).toBe('unlocked');
+    expect(localStorage.getItem('risk_answers_v2')).toBeNull();
+    expect(localStorage.getItem('dkim_selectors_example.com')).toBeNull();
+    expect(localStorage.getItem('theme')).toBe('dark');
+    const stored = localStorage.getItem(VAULT_KEY)!;
+    expect(JSON.parse(stored)).toMatchObject({ kind: 'vault', version: 1, autoLockMinutes: 5 });
+    expect(stored).not.toContain('opt2');
+
+    expect(vault.getItem('risk_answers_v2')).toBe(ANSWERS);
+    expect(vault.keys()).toEqual(expect.arrayContaining(['theme', 'dkim_selectors_example.com']));
+
+    vault.setItem('risk_workspace_v1', '{"clients":[]}');
+    await vault.flush();
+    expect(localStorage.getItem('risk_workspace_v1')).toBeNull();
+    expect(localStorage.getItem(VAULT_KEY)).not.toBe(stored);
+  });
+
+  it('forgets the data when locked and restores it with the right passphrase only', async () => {
+    await vault.enable('correct horse');
+    vault.setItem('risk_answer_details_v1', '{"q1":{"notes":"n"}}');
+    await vault.lock();
+
+    expect(vault.getStatus()).toBe('locked');
+    expect(vault.getItem('risk_answers_v2')).toBeNull();
+    vault.setItem('risk_answers_v2', '{}');
+    expect(localStorage.getItem('risk_answers_v2')).toBeNull();
+
+    expect(await vault.unlock('wrong horse')).toBe(false);
+    expect(vault.getStatus()).toBe('locked');
+    expect(await vault.unlock('correct horse')).toBe(true);
+    expect(vault.getItem('risk_answers_v2')).toBe(ANSWERS);
+    expect(vault.getItem('risk_answer_details_v1')).toBe('{"q1":{"notes":"n"}}');
+  });
+
+  it('writes the data back in cleartext when turned off', async () => {
+    await vault.enable('correct horse');
+    vault.setItem('risk_answers_v2', '{}');
+    await vault.disable();
+
+    expect(vault.getStatus()).toBe('disabled');
+    expect(localStorage.getItem(VAULT_KEY)).toBeNull();
+    expect(localStorage.getItem('risk_answers_v2')).toBe('{}');
+    expect(localStorage.getItem('dkim_selectors_example.com')).toBe('{"selectors":["s1"]}');
+  });
+
+  it('rejects short passphrases and can erase a vault whose passphrase is lost', async () => {
+    await expect(vault.enable('short')).rejects.toThrow(/at least 8/);
+    expect(localStorage.getItem('risk_answers_v2')).toBe(ANSWERS);
+
+    await vault.enable('correct horse');
+    await vault.lock();
+    vault.erase();
+    expect(vault.getStatus()).toBe('disabled');
+    expect(localStorage.getItem(VAULT_KEY)).toBeNull();
+    expect(localStorage.getItem('risk_answers_v2')).toBeNull();
+  });
+});
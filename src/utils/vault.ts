@@ -0,0 +1,274 @@
+/**
+ * Opt-in encrypted-at-rest storage ("vault mode") for assessment data.
+ *
+ * When the vault is off, the methods below pass straight through to storage (storage.ts). When it is on,
+ * the sensitive keys (answers, details, scans, workspace, DKIM selectors) only exist in memory while the
+ * vault is unlocked and are stored as a single AES-GCM envelope under VAULT_KEY. While locked,
+ * reads of sensitive keys return null and writes are dropped. Settings such as the theme, branding and
+ * questionnaire packs stay in cleartext.
+ */
+import { useSyncExternalStore } from 'react';
+import {
+  createKdfParams,
+  decryptWithKey,
+  deriveKey,
+  EncryptedExport,
+  encryptWithKey,
+  MIN_PASSPHRASE_LENGTH,
+  validateEnvelope,
+} from './exportEncryption';
+import { storage } from './storage';
+
+export const VAULT_KEY = 'risk_vault_v1';
+export const VAULT_KIND = 'vault';
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+const SENSITIVE_KEYS = [
+  'risk_answers_v2',
+  'risk_answer_details_v1',
+  'risk_domain_scan_v2',
+  'risk_domain_scan_agg_v2',
+  'risk_workspace_v1',
+  'risk_scan_cache_v1',
+];
+const SENSITIVE_PREFIXES = ['dkim_selectors_'];
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+interface VaultEnvelope extends Omit<EncryptedExport, 'kind'> {
+  kind: typeof VAULT_KIND;
+  autoLockMinutes: number;
+}
+
+export const isSensitiveKey = (key: string): boolean =>
+  SENSITIVE_KEYS.includes(key) || SENSITIVE_PREFIXES.some((prefix) => key.startsWith(prefix));
+
+const normalizeAutoLockMinutes = (value: unknown): number =>
+  AUTO_LOCK_OPTIONS.includes(value as number) ? value as number : DEFAULT_AUTO_LOCK_MINUTES;
+
+const readEnvelope = (): VaultEnvelope | undefined => {
+  try {
+    const raw = storage.getItem(VAULT_KEY);
+    if (!raw) return undefined;
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && parsed.kind === VAULT_KIND ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+class Vault {
+  private key: CryptoKey | null = null;
+  private kdf: VaultEnvelope['kdf'] | null = null;
+  private entries: Map<string, string> | null = null;
+  private autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
+  private saving: Promise<void> = Promise.resolve();
+  private savePending = false;
+  // Whether an envelope exists; read lazily so every storage call does not parse it
+  private enabled: boolean | null = null;
+  private readonly listeners: Set<() => void> = new Set();
+
+  getStatus(): VaultStatus {
+    if (!this.isEnabled()) return 'disabled';
+    return this.entries ? 'unlocked' : 'locked';
+  }
+
+  /**
+   * Re-read whether the vault is on, e.g. after another tab turned it on or off
+   */
+  refresh(): void {
+    this.enabled = null;
+    if (!this.isEnabled()) this.forget();
+    this.notify();
+  }
+
+  getAutoLockMinutes(): number {
+    return this.entries ? this.autoLockMinutes : normalizeAutoLockMinutes(readEnvelope()?.autoLockMinutes);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getItem(key: string): string | null {
+    if (!isSensitiveKey(key) || this.getStatus() === 'disabled') return storage.getItem(key);
+    return this.entries?.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (!isSensitiveKey(key) || this.getStatus() === 'disabled') {
+      storage.setItem(key, value);
+      return;
+    }
+    // Nothing can be written without the key; the app does not render assessment data while locked
+    if (!this.entries) return;
+    this.entries.set(key, value);
+    this.scheduleSave();
+  }
+
+  removeItem(key: string): void {
+    if (!isSensitiveKey(key) || this.getStatus() === 'disabled') {
+      storage.removeItem(key);
+      return;
+    }
+    if (!this.entries?.delete(key)) return;
+    this.scheduleSave();
+  }
+
+  // Every readable key, e.g. to find all DKIM selector entries
+  keys(): string[] {
+    const keys = storage.keys();
+    const visible = this.getStatus() === 'disabled' ? keys : keys.filter((k) => !isSensitiveKey(k));
+    return [...visible, ...(this.entries?.keys() ?? [])];
+  }
+
+  /**
+   * Move the sensitive keys into an encrypted envelope and remove their cleartext copies
+   */
+  async enable(passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> {
+    if (this.getStatus() !== 'disabled') throw new Error('Vault is already enabled');
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    const kdf = createKdfParams();
+    const key = await deriveKey(passphrase, kdf);
+    const sensitive = storage.keys().filter(isSensitiveKey);
+
+    this.key = key;
+    this.kdf = kdf;
+    this.autoLockMinutes = normalizeAutoLockMinutes(autoLockMinutes);
+    this.entries = new Map(sensitive.map((k) => [k, storage.getItem(k) ?? '']));
+    try {
+      // Unlike later writes, a failure here must surface: the cleartext copies are removed next
+      await storage.setItemAndWait(VAULT_KEY, await this.encryptEntries());
+    } catch (error) {
+      this.forget();
+      throw error;
+    }
+    this.enabled = true;
+    sensitive.forEach((k) => storage.removeItem(k));
+    this.notify();
+  }
+
+  /**
+   * Decrypt the envelope into memory. Returns false for a wrong passphrase or a damaged envelope.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const envelope = readEnvelope();
+    if (!envelope || validateEnvelope(envelope as unknown as Record<string, unknown>)) return false;
+    try {
+      const key = await deriveKey(passphrase, envelope.kdf);
+      const entries = JSON.parse(await decryptWithKey(envelope.data, envelope.cipher.iv, key));
+      this.key = key;
+      this.kdf = envelope.kdf;
+      this.autoLockMinutes = normalizeAutoLockMinutes(envelope.autoLockMinutes);
+      this.entries = new Map(Object.entries(entries as Record<string, unknown>)
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+    } catch {
+      return false;
+    }
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Finish pending writes, then forget the key and the decrypted data
+   */
+  async lock(): Promise<void> {
+    await this.flush();
+    this.forget();
+    this.notify();
+  }
+
+  /**
+   * Write the decrypted data back to storage in cleartext and remove the envelope
+   */
+  async disable(): Promise<void> {
+    if (!this.entries) throw new Error('Unlock the vault before turning it off');
+    await this.flush();
+    // Cleartext first, so a full storage leaves the envelope in place
+    await Promise.all(Array.from(this.entries).map(([k, value]) => storage.setItemAndWait(k, value)));
+    storage.removeItem(VAULT_KEY);
+    this.enabled = false;
+    this.forget();
+    this.notify();
+  }
+
+  // Drop the envelope without decrypting it, for a forgotten passphrase. The data is lost.
+  erase(): void {
+    storage.removeItem(VAULT_KEY);
+    this.enabled = false;
+    this.forget();
+    this.notify();
+  }
+
+  setAutoLockMinutes(minutes: number): void {
+    if (!this.entries) return;
+    this.autoLockMinutes = normalizeAutoLockMinutes(minutes);
+    this.scheduleSave();
+    this.notify();
+  }
+
+  // Resolves once every scheduled envelope write has been handed to storage
+  async flush(): Promise<void> {
+    do {
+      await this.saving;
+    } while (this.savePending);
+  }
+
+  // Writes are chained so envelopes land in order; a burst of changes collapses into one write
+  private scheduleSave(): void {
+    if (this.savePending) return;
+    this.savePending = true;
+    this.saving = this.saving.then(async () => {
+      this.savePending = false;
+      await this.writeEnvelope();
+    });
+  }
+
+  private isEnabled(): boolean {
+    if (this.enabled === null) this.enabled = !!readEnvelope();
+    return this.enabled;
+  }
+
+  private forget(): void {
+    this.key = null;
+    this.kdf = null;
+    this.entries = null;
+  }
+
+  private async encryptEntries(): Promise<string> {
+    if (!this.key || !this.kdf || !this.entries) throw new Error('Vault is locked');
+    const envelope: VaultEnvelope = {
+      kind: VAULT_KIND,
+      version: 1,
+      kdf: this.kdf,
+      ...await encryptWithKey(JSON.stringify(Object.fromEntries(this.entries)), this.key),
+      autoLockMinutes: this.autoLockMinutes,
+    };
+    return JSON.stringify(envelope);
+  }
+
+  private async writeEnvelope(): Promise<void> {
+    if (!this.entries) return;
+    try {
+      storage.setItem(VAULT_KEY, await this.encryptEntries());
+    } catch {
+      // Keep the in-memory copy; the next change retries the write and storage reports failed writes
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const vault = new Vault();
+
+// Current vault status, re-rendering on enable, unlock, lock and disable
+export const useVaultStatus = (): VaultStatus =>
+  useSyncExternalStore((listener) => vault.subscribe(listener), () => vault.getStatus());
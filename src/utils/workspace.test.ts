@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  WORKSPACE_KEY,
+  addReportHistoryEntry,
+  checkInClient,
+  checkOutClient,
+  createClientAssessment,
+  createWorkspace,
+  duplicateClient,
+  getActiveClient,
+  loadWorkspace,
+  normalizeClientName,
+  renameClient,
+  saveWorkspace,
+  setClientArchived,
+} from './workspace';
+import { DomainScanAggregate } from '../types/domainScan';
+
+const sampleScan: DomainScanAggregate = {
+  domain: 'example.com',
+  timestamp: '2025-10-27T00:00:00.000Z',
+  scanners: [],
+  issues: []
+};
+
+describe('workspace utilities', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('normalizeClientName', () => {
+    it('trims whitespace', () => {
+      expect(normalizeClientName('  Acme  ')).toBe('Acme');
+    });
+
+    it('rejects empty names', () => {
+      expect(() => normalizeClientName('   ')).toThrow('Client name is required');
+    });
+
+    it('rejects names that are too long', () => {
+      expect(() => normalizeClientName('a'.repeat(101))).toThrow('too long');
+    });
+  });
+
+  describe('createClientAssessment', () => {
+    it('creates an empty, unarchived client', () => {
+      const client = createClientAssessment('Acme');
+      expect(client.name).toBe('Acme');
+      expect(client.archived).toBe(false);
+      expect(client.answers).toEqual({});
+      expect(client.dkimSelectors).toEqual({});
+      expect(client.reportHistory).toEqual([]);
+      expect(client.id).toBeTruthy();
+    });
+
+    it('generates unique ids', () => {
+      expect(createClientAssessment('A').id).not.toBe(createClientAssessment('B').id);
+    });
+  });
+
+  describe('client management', () => {
+    it('renames a client', () => {
+      const client = createClientAssessment('Acme');
+      const ws = renameClient(createWorkspace(client), client.id, 'Acme Inc');
+      expect(getActiveClient(ws)?.name).toBe('Acme Inc');
+    });
+
+    it('throws when renaming an unknown client', () => {
+      const ws = createWorkspace(createClientAssessment('Acme'));
+      expect(() => renameClient(ws, 'missing', 'Name')).toThrow('Client not found');
+    });
+
+    it('duplicates the active client from its working set', () => {
+      const client = createClientAssessment('Acme');
+      const { workspace, client: copy } = duplicateClient(createWorkspace(client), client.id, 'Acme copy', {
+        answers: { q1: 'opt1' },
+        domainScanAggregate: sampleScan,
+        dkimSelectors: { 'example.com': ['google'] }
+      });
+      expect(workspace.clients).toHaveLength(2);
+      expect(copy.name).toBe('Acme copy');
+      expect(copy.answers).toEqual({ q1: 'opt1' });
+      expect(copy.domainScanAggregate).toEqual(sampleScan);
+      expect(copy.dkimSelectors).toEqual({ 'example.com': ['google'] });
+      expect(workspace.activeClientId).toBe(client.id);
+    });
+
+    it('duplicates an inactive client from its stored record', () => {
+      const active = createClientAssessment('Active');
+      const other = createClientAssessment('Other', { answers: { q2: 'opt0' } });
+      const ws = { activeClientId: active.id, clients: [active, other] };
+      const { client: copy } = duplicateClient(ws, other.id, 'Other copy', {
+        answers: { q1: 'opt1' }, dkimSelectors: {}
+      });
+      expect(copy.answers).toEqual({ q2: 'opt0' });
+    });
+
+    it('archives and restores inactive clients', () => {
+      const active = createClientAssessment('Active');
+      const other = createClientAssessment('Other');
+      let ws = { activeClientId: active.id, clients: [active, other] };
+      ws = setClientArchived(ws, other.id, true);
+      expect(ws.clients[1].archived).toBe(true);
+      ws = setClientArchived(ws, other.id, false);
+      expect(ws.clients[1].archived).toBe(false);
+    });
+
+    it('refuses to archive the active client', () => {
+      const client = createClientAssessment('Acme');
+      expect(() => setClientArchived(createWorkspace(client), client.id, true))
+        .toThrow('Cannot archive the active client');
+    });
+  });
+
+  describe('check-in and check-out', () => {
+    it('moves working data between clients', () => {
+      const first = createClientAssessment('First');
+      const second = createClientAssessment('Second', { answers: { q1: 'opt2' } });
+      const ws = { activeClientId: first.id, clients: [first, second] };
+
+      const checkedIn = checkInClient(ws, {
+        answers: { q1: 'opt0' }, domainScanAggregate: sampleScan, dkimSelectors: {}
+      });
+      const { workspace, workingSet } = checkOutClient(checkedIn, second.id);
+
+      expect(workspace.activeClientId).toBe(second.id);
+      expect(workingSet.answers).toEqual({ q1: 'opt2' });
+      expect(workspace.clients[0].answers).toEqual({ q1: 'opt0' });
+      expect(workspace.clients[0].domainScanAggregate).toEqual(sampleScan);
+      // Checked-out record no longer stores a duplicate of the working data
+      expect(workspace.clients[1].answers).toEqual({});
+    });
+
+    it('moves answer details with the answers', () => {
+      const details = { q1: { notes: 'Confirmed with IT', owner: 'Ana' } };
+      const first = createClientAssessment('First');
+      const second = createClientAssessment('Second', { answers: { q1: 'opt2' }, answerDetails: details });
+      const ws = { activeClientId: first.id, clients: [first, second] };
+
+      const checkedIn = checkInClient(ws, { answers: {}, domainScanAggregate: undefined, dkimSelectors: {} });
+      const { workspace, workingSet } = checkOutClient(checkedIn, second.id);
+
+      expect(workingSet.answerDetails).toEqual(details);
+      expect(workspace.clients[0].answerDetails).toEqual({});
+      expect(workspace.clients[1].answerDetails).toEqual({});
+    });
+  });
+
+  describe('addReportHistoryEntry', () => {
+    it('appends an entry with id and timestamp', () => {
+      const client = createClientAssessment('Acme');
+      const ws = addReportHistoryEntry(createWorkspace(client), client.id, {
+        format: 'word', scorePercent: 72, riskCount: 4
+      });
+      const history = getActiveClient(ws)!.reportHistory;
+      expect(history).toHaveLength(1);
+      expect(history[0].format).toBe('word');
+      expect(history[0].generatedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+  });
+
+  describe('persistence', () => {
+    it('round-trips a workspace through localStorage', () => {
+      const ws = createWorkspace(createClientAssessment('Acme'));
+      expect(saveWorkspace(ws)).toBe(true);
+      expect(loadWorkspace()).toEqual(ws);
+    });
+
+    it('returns undefined for missing or corrupted data', () => {
+      expect(loadWorkspace()).toBeUndefined();
+      localStorage.setItem(WORKSPACE_KEY, 'not json{');
+      expect(loadWorkspace()).toBeUndefined();
+    });
+
+    it('returns undefined when the active client is missing', () => {
+      const ws = createWorkspace(createClientAssessment('Acme'));
+      localStorage.setItem(WORKSPACE_KEY, JSON.stringify({ ...ws, activeClientId: 'missing' }));
+      expect(loadWorkspace()).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Workspace utilities for managing multiple named client assessments.
+ *
+ * The workspace record holds every client. The active client's working data (answers and their details,
+ * domain scan, DKIM selectors) lives in AppStateContext and the legacy storage keys while it is checked out,
+ * so its record only carries metadata until the client is checked back in (on switch or export).
+ */
+
+import { AssessmentSnapshot, ClientAssessment, ReportHistoryEntry, Workspace } from '../types/workspace';
+import { DomainScanAggregate } from '../types/domainScan';
+import { AnswerDetailsMap } from '../types/answerDetails';
+import { vault } from './vault';
+
+export const WORKSPACE_KEY = 'risk_workspace_v1';
+export const MAX_CLIENT_NAME_LENGTH = 100;
+const MAX_REPORT_HISTORY = 50;
+export const MAX_SNAPSHOTS = 24;
+
+export interface ClientWorkingSet {
+  answers: Record<string, string>;
+  answerDetails?: AnswerDetailsMap;
+  domainScanAggregate?: DomainScanAggregate;
+  dkimSelectors: Record<string, string[]>;
+}
+
+export const generateId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Trim and validate a client name, throwing when it is empty or too long
+ */
+export const normalizeClientName = (name: string): string => {
+  const trimmed = (name || '').trim();
+  if (!trimmed) throw new Error('Client name is required');
+  if (trimmed.length > MAX_CLIENT_NAME_LENGTH) {
+    throw new Error(`Client name too long (max ${MAX_CLIENT_NAME_LENGTH} characters)`);
+  }
+  return trimmed;
+};
+
+export const createClientAssessment = (
+  name: string,
+  data: Partial<
+    ClientWorkingSet & Pick<ClientAssessment, 'reportHistory' | 'snapshots' | 'respondents' | 'enabledPacks'>
+  > = {}
+): ClientAssessment => {
+  const now = new Date().toISOString();
+  return {
+    id: generateId(),
+    name: normalizeClientName(name),
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+    answers: data.answers ?? {},
+    answerDetails: data.answerDetails ?? {},
+    domainScanAggregate: data.domainScanAggregate,
+    dkimSelectors: data.dkimSelectors ?? {},
+    reportHistory: data.reportHistory ?? [],
+    snapshots: data.snapshots ?? [],
+    respondents: data.respondents ?? [],
+    enabledPacks: data.enabledPacks ?? [],
+  };
+};
+
+export const createWorkspace = (initialClient: ClientAssessment): Workspace => ({
+  activeClientId: initialClient.id,
+  clients: [initialClient],
+});
+
+export const getActiveClient = (workspace: Workspace): ClientAssessment | undefined =>
+  workspace.clients.find((c) => c.id === workspace.activeClientId);
+
+const findClientOrThrow = (workspace: Workspace, id: string): ClientAssessment => {
+  const client = workspace.clients.find((c) => c.id === id);
+  if (!client) throw new Error('Client not found: ' + id);
+  return client;
+};
+
+/**
+ * Apply changes to a single client, bumping its updatedAt timestamp
+ */
+export const updateClient = (
+  workspace: Workspace,
+  id: string,
+  changes: Partial<Omit<ClientAssessment, 'id' | 'createdAt'>>
+): Workspace => {
+  findClientOrThrow(workspace, id);
+  return {
+    ...workspace,
+    clients: workspace.clients.map((c) => (
+      c.id === id ? { ...c, ...changes, updatedAt: new Date().toISOString() } : c
+    )),
+  };
+};
+
+export const addClient = (workspace: Workspace, client: ClientAssessment): Workspace => ({
+  ...workspace,
+  clients: [...workspace.clients, client],
+});
+
+export const renameClient = (workspace: Workspace, id: string, name: string): Workspace =>
+  updateClient(workspace, id, { name: normalizeClientName(name) });
+
+/**
+ * Copy a client's data into a new, unarchived client. Report history and snapshots are not carried over.
+ * Pass the active client's working set when duplicating the checked-out client.
+ */
+export const duplicateClient = (
+  workspace: Workspace,
+  id: string,
+  name: string,
+  workingSet?: ClientWorkingSet
+): { workspace: Workspace; client: ClientAssessment } => {
+  const source = findClientOrThrow(workspace, id);
+  const data = id === workspace.activeClientId && workingSet ? workingSet : source;
+  const client = createClientAssessment(name, {
+    answers: { ...data.answers },
+    answerDetails: { ...data.answerDetails },
+    domainScanAggregate: data.domainScanAggregate,
+    dkimSelectors: { ...data.dkimSelectors },
+    // Pack answers stay visible only while the copy enables the same packs
+    enabledPacks: [...(source.enabledPacks ?? [])],
+  });
+  return { workspace: addClient(workspace, client), client };
+};
+
+export const setClientArchived = (workspace: Workspace, id: string, archived: boolean): Workspace => {
+  if (archived && id === workspace.activeClientId) {
+    throw new Error('Cannot archive the active client');
+  }
+  return updateClient(workspace, id, { archived });
+};
+
+/**
+ * Write the active client's working set back into its record
+ */
+export const checkInClient = (workspace: Workspace, workingSet: ClientWorkingSet): Workspace => ({
+  ...workspace,
+  clients: workspace.clients.map((c) => (
+    c.id === workspace.activeClientId
+      ? {
+        ...c,
+        answers: workingSet.answers,
+        answerDetails: workingSet.answerDetails ?? {},
+        domainScanAggregate: workingSet.domainScanAggregate,
+        dkimSelectors: workingSet.dkimSelectors,
+      }
+      : c
+  )),
+});
+
+/**
+ * Make a client active and hand its data out as the new working set.
+ * The record's data is cleared so it is not stored twice while checked out.
+ */
+export const checkOutClient = (
+  workspace: Workspace,
+  id: string
+): { workspace: Workspace; workingSet: ClientWorkingSet } => {
+  const client = findClientOrThrow(workspace, id);
+  const workingSet: ClientWorkingSet = {
+    answers: client.answers,
+    answerDetails: client.answerDetails ?? {},
+    domainScanAggregate: client.domainScanAggregate,
+    dkimSelectors: client.dkimSelectors,
+  };
+  return {
+    workspace: {
+      activeClientId: id,
+      clients: workspace.clients.map((c) => (
+        c.id === id
+          ? { ...c, archived: false, answers: {}, answerDetails: {}, domainScanAggregate: undefined, dkimSelectors: {} }
+          : c
+      )),
+    },
+    workingSet,
+  };
+};
+
+export const addReportHistoryEntry = (
+  workspace: Workspace,
+  id: string,
+  entry: Omit<ReportHistoryEntry, 'id' | 'generatedAt'>
+): Workspace => {
+  const client = findClientOrThrow(workspace, id);
+  const record: ReportHistoryEntry = { id: generateId(), generatedAt: new Date().toISOString(), ...entry };
+  return updateClient(workspace, id, {
+    reportHistory: [...client.reportHistory, record].slice(-MAX_REPORT_HISTORY),
+  });
+};
+
+/**
+ * Add a snapshot to a client's history, keeping only the most recent MAX_SNAPSHOTS
+ */
+export const addSnapshot = (workspace: Workspace, id: string, snapshot: AssessmentSnapshot): Workspace => {
+  const client = findClientOrThrow(workspace, id);
+  return updateClient(workspace, id, { snapshots: [...client.snapshots, snapshot].slice(-MAX_SNAPSHOTS) });
+};
+
+export const removeSnapshot = (workspace: Workspace, id: string, snapshotId: string): Workspace => {
+  const client = findClientOrThrow(workspace, id);
+  return updateClient(workspace, id, { snapshots: client.snapshots.filter((s) => s.id !== snapshotId) });
+};
+
+// Fill in fields added after a workspace was first stored
+const normalizeClient = (client: ClientAssessment): ClientAssessment => ({
+  ...client,
+  dkimSelectors: client.dkimSelectors ?? {},
+  reportHistory: client.reportHistory ?? [],
+  snapshots: client.snapshots ?? [],
+});
+
+/**
+ * Load the workspace from storage (the vault when it is on), returning undefined when missing or malformed
+ */
+export const loadWorkspace = (): Workspace | undefined => {
+  try {
+    const raw = vault.getItem(WORKSPACE_KEY);
+    if (!raw) return undefined;
+    const parsed = JSON.parse(raw) as Workspace;
+    if (!parsed || !Array.isArray(parsed.clients) || parsed.clients.length === 0) return undefined;
+    if (!parsed.clients.some((c) => c.id === parsed.activeClientId)) return undefined;
+    return { ...parsed, clients: parsed.clients.map(normalizeClient) };
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveWorkspace = (workspace: Workspace): boolean => {
+  try {
+    vault.setItem(WORKSPACE_KEY, JSON.stringify(workspace));
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zipArchive';
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+const readUint16 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset, true);
+
+describe('zipArchive', () => {
+  it('computes the standard CRC-32 checksum', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('writes stored entries in order with a matching central directory', () => {
+    const zip = createZip([
+      { name: '[Content_Types].xml', data: '<Types/>' },
+      { name: 'word/média.bin', data: new Uint8Array([1, 2, 3]) },
+    ], new Date(2025, 9, 27, 12, 0, 0));
+
+    expect(readUint32(zip, 0)).toBe(0x04034b50);
+    const nameLength = readUint16(zip, 26);
+    expect(new TextDecoder().decode(zip.slice(30, 30 + nameLength))).toBe('[Content_Types].xml');
+    expect(new TextDecoder().decode(zip.slice(30 + nameLength, 30 + nameLength + 8))).toBe('<Types/>');
+
+    const end = zip.length - 22;
+    expect(readUint32(zip, end)).toBe(0x06054b50);
+    expect(readUint16(zip, end + 10)).toBe(2);
+
+    // Central directory entries point back at their local headers
+    let central = readUint32(zip, end + 16);
+    const names: string[] = [];
+    for (let i = 0; i < 2; i++) {
+      expect(readUint32(zip, central)).toBe(0x02014b50);
+      const length = readUint16(zip, central + 28);
+      expect(readUint32(zip, readUint32(zip, central + 42))).toBe(0x04034b50);
+      names.push(new TextDecoder().decode(zip.slice(central + 46, central + 46 + length)));
+      central += 46 + length;
+    }
+    expect(names).toEqual(['[Content_Types].xml', 'word/média.bin']);
+  });
+});